@@ -1,15 +1,19 @@
 import React, { useEffect } from 'react'
-import { Outlet, useLocation } from 'react-router-dom'
+import { Outlet, useLocation, useNavigate } from 'react-router-dom'
 import { useAuth } from './hooks/useAuth'
 import { useAccountValidation } from './hooks/useAccountValidation'
+import { useImageProcessing } from './hooks/useImageProcessing'
 import { useAppStore } from './store'
+import { UsageMeter } from './components/UsageMeter'
 import { initializeAccountSwitchDetection, destroyAccountSwitchDetection } from './utils/accountSwitchDetection'
 import { triggerComprehensiveAccountCheck } from './utils/comprehensiveAccountCheck'
 
 export const Layout: React.FC = () => {
   const location = useLocation()
+  const navigate = useNavigate()
   const { userInfo, logout } = useAuth()
   useAccountValidation() // Automatic account validation and mismatch detection
+  const { resumeActiveJob } = useImageProcessing()
   const {
     status,
     showAccountSwitchBanner,
@@ -118,6 +122,12 @@ export const Layout: React.FC = () => {
     }
   }, [userInfo, setAccountMismatchInfo, setShowAccountMismatchBanner, setShowAccountSwitchBanner, setImages, setSelectedImage, setSelectedImageThumbnail, setProcessingResult, setStatus, directFileId, selectedImage, setSavedIntent, location.pathname])
 
+  // Reconnect to a processing job that was still running before a page reload
+  useEffect(() => {
+    resumeActiveJob()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []) // Run only on mount
+
   // Initialize account switch detection and comprehensive validation
   useEffect(() => {
     console.log('🔧 [LAYOUT] Initializing account switch detection...')
@@ -230,9 +240,15 @@ export const Layout: React.FC = () => {
   }
 
   const getCurrentStep = (): string => {
+    // Rules and history are outside the select → process → results flow
+    if (location.pathname.startsWith('/rules')) return 'rules'
+    if (location.pathname.startsWith('/history')) return 'history'
     if (location.pathname.includes('select')) return 'selection'
     if (location.pathname.includes('process')) return 'processing'
     if (location.pathname.includes('results')) return 'results'
+    // Batch setup is the processing step, a running/finished batch shows its results
+    if (location.pathname.startsWith('/batch/')) return 'results'
+    if (location.pathname.startsWith('/batch')) return 'processing'
     return 'selection'
   }
 
@@ -371,12 +387,25 @@ export const Layout: React.FC = () => {
                 </p>
               </div>
               <div className="flex space-x-2 ml-4">
+                <UsageMeter enabled={!!userInfo?.userId} />
                 <button
                   onClick={() => window.open('https://www.dropbox.com/home', '_blank')}
                   className="bg-white/20 hover:bg-white/30 text-white px-3 py-2 rounded-lg transition-all duration-300 transform hover:scale-105 hover:shadow-lg text-sm font-medium hidden sm:block animate-fadeInUp animation-delay-300"
                 >
                   📁 Dropbox
                 </button>
+                <button
+                  onClick={() => navigate('/rules')}
+                  className="bg-white/20 hover:bg-white/30 text-white px-3 py-2 rounded-lg transition-all duration-300 transform hover:scale-105 hover:shadow-lg text-sm font-medium hidden sm:block animate-fadeInUp animation-delay-300"
+                >
+                  🤖 Rules
+                </button>
+                <button
+                  onClick={() => navigate('/history')}
+                  className="bg-white/20 hover:bg-white/30 text-white px-3 py-2 rounded-lg transition-all duration-300 transform hover:scale-105 hover:shadow-lg text-sm font-medium hidden sm:block animate-fadeInUp animation-delay-300"
+                >
+                  🕘 History
+                </button>
                 <button
                   onClick={logout}
                   className="bg-white/20 hover:bg-white/30 text-white px-3 py-2 rounded-lg transition-all duration-300 transform hover:scale-105 hover:shadow-lg text-sm font-medium animate-fadeInUp animation-delay-400"
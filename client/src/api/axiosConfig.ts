@@ -9,6 +9,7 @@ declare global {
       getState: () => {
         setAccessToken: (token: string | null) => void
         clearAuth: () => void
+        setStatus: (status: string) => void
       }
     }
   }
@@ -149,6 +150,21 @@ apiClient.interceptors.response.use(
       }, 100)
     }
     
+    // Rate limited or over the Picsart quota: replace "Request failed with status code 429"
+    // with something the user can act on, since callers show error.message in the status bar
+    if (status === 429) {
+      if (responseData?.error === 'quota exceeded') {
+        error.message = responseData.message || 'Picsart quota exceeded'
+      } else {
+        const retryAfter = Number(responseData?.retryAfter ?? error.response?.headers?.['retry-after']) || null
+        error.message = retryAfter
+          ? `Too many requests - please wait ${retryAfter}s and try again.`
+          : 'Too many requests - please wait a moment and try again.'
+        console.log('🚦 [AXIOS INTERCEPTOR] Rate limited:', responseData?.group || 'unknown group', 'retry after', retryAfter, 's')
+        window.useAppStore?.getState().setStatus(`⏳ ${error.message}`)
+      }
+    }
+
     // ✅ SIMPLIFIED: No retry logic - just reject the error
     // Server-side middleware will handle token refresh automatically
     // If token is expired, user will get a clear 401 error
@@ -1,62 +1,76 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { Dropbox } from 'dropbox'
-import type { ImageFile, DropboxFileMetadata } from '../types'
+import { createDropboxClient } from './dropboxClient'
+import { apiClient } from './axiosConfig'
+import { IMAGE_LIST_PAGE_SIZE } from '../constants'
+import type { ImageFile, ImageListPage, DropboxFileMetadata, GalleryChanges } from '../types'
+
+// Image metadata as the server sends it
+const toImageFile = (file: any): ImageFile => ({
+  id: file.id,
+  name: file.name,
+  path_display: file.path_display,
+  path_lower: file.path_lower,
+  size: file.size || 0,
+  rev: file.rev,
+  modified: file.server_modified,
+  width: file.width,
+  height: file.height
+})
 
 export const dropboxApi = {
-  async listImages(accessToken: string): Promise<ImageFile[]> {
-    const dbx = new Dropbox({ accessToken })
-    
-    console.log('🔍 [LOAD IMAGES] Starting image load (server will handle token refresh if needed)...')
-    
-    const response = await dbx.filesListFolder({ path: '' })
-    const imageFiles = response.result.entries
-      .filter((file: any) => file['.tag'] === 'file' && /\.(jpg|jpeg|png|gif|bmp|webp)$/i.test(file.name))
-      .map((file: any): ImageFile => ({
-        id: file.id || file.path_lower,
-        name: file.name,
-        path_display: file.path_display || file.path_lower,
-        path_lower: file.path_lower,
-        size: file.size || 0,
-        width: file.width,
-        height: file.height
-      }))
-    
-    console.log('✅ [LOAD IMAGES] Successfully loaded', imageFiles.length, 'images')
-    return imageFiles
+  // One page of a folder's images and direct subfolders, read by the server. Pass the returned
+  // cursor to continue; an expired cursor fails with 410 and the listing has to start over.
+  async listImages(options: { path?: string; recursive?: boolean; cursor?: string | null } = {}): Promise<ImageListPage> {
+    const path = options.path && options.path !== '/' ? options.path : ''
+    console.log('🔍 [LOAD IMAGES] Loading images...', path || '/', options.recursive ? '(recursive)' : '', options.cursor ? '(continued)' : '')
+    const response = await apiClient.get('/dropbox/list-images-with-ids', {
+      params: {
+        path: path || undefined,
+        recursive: options.recursive ? 'true' : undefined,
+        cursor: options.cursor || undefined,
+        limit: IMAGE_LIST_PAGE_SIZE
+      }
+    })
+    const images = (response.data.images as any[]).map(toImageFile)
+    console.log('✅ [LOAD IMAGES] Successfully loaded', images.length, 'images and', response.data.folders.length, 'folders', response.data.hasMore ? '(more to come)' : '')
+    return { images, folders: response.data.folders, cursor: response.data.cursor, hasMore: response.data.hasMore }
   },
 
-  async getThumbnail(accessToken: string, fileId: string): Promise<string | null> {
-    try {
-      const dbx = new Dropbox({ accessToken })
-      
-      const response = await dbx.filesGetThumbnailV2({
-        resource: { '.tag': 'path', path: fileId.startsWith('id:') ? fileId : `id:${fileId}` },
-        format: { '.tag': 'jpeg' },
-        size: { '.tag': 'w256h256' }
-      })
-      
-      const result = response.result as { fileBlob?: Blob; fileBinary?: ArrayBuffer }
-      let thumbnailBlob: Blob
-      
-      if (result.fileBlob) {
-        thumbnailBlob = result.fileBlob
-      } else if (result.fileBinary) {
-        thumbnailBlob = new Blob([result.fileBinary], { type: 'image/jpeg' })
-      } else {
-        throw new Error('No fileBlob or fileBinary found in thumbnail response')
-      }
-      
-      const thumbnailUrl = URL.createObjectURL(thumbnailBlob)
-      console.log('✅ Thumbnail created successfully')
-      return thumbnailUrl
-    } catch (error) {
-      console.error('❌ Error fetching thumbnail:', error)
-      return null
+  // Image file names matching `query` anywhere in the account, searched by the server.
+  // Pass the returned cursor to continue.
+  async searchImages(query: string, options: { extensions?: string[]; cursor?: string | null } = {}): Promise<ImageListPage> {
+    console.log('🔎 [SEARCH IMAGES] Searching for', query, options.cursor ? '(continued)' : '')
+    const response = await apiClient.get('/dropbox/search-images', {
+      params: options.cursor
+        ? { cursor: options.cursor }
+        : { query, extensions: options.extensions?.length ? options.extensions.join(',') : undefined, limit: IMAGE_LIST_PAGE_SIZE }
+    })
+    const images = (response.data.images as any[]).map(toImageFile)
+    console.log('✅ [SEARCH IMAGES] Found', images.length, 'images', response.data.hasMore ? '(more to come)' : '')
+    return { images, folders: [], cursor: response.data.cursor, hasMore: response.data.hasMore }
+  },
+
+  // Wait up to `timeoutSeconds` for something to change on Dropbox since `cursor`. The server
+  // answers as soon as it does, or with `changed: false` when the time is up; Dropbox may add
+  // up to 90s on top. Without a cursor it answers straight away with one to start from.
+  async waitForChanges(timeoutSeconds: number, cursor: string | null, signal?: AbortSignal): Promise<GalleryChanges> {
+    const response = await apiClient.get('/dropbox/changes', {
+      params: { timeout: timeoutSeconds, cursor: cursor || undefined },
+      timeout: (timeoutSeconds + 120) * 1000,
+      signal
+    })
+    return {
+      changed: response.data.changed,
+      images: (response.data.files as any[]).map(toImageFile),
+      deleted: response.data.deleted,
+      cursor: response.data.cursor,
+      reset: response.data.reset,
+      backoff: response.data.backoff
     }
   },
 
   async getFileById(accessToken: string, fileId: string): Promise<ImageFile> {
-    const dbx = new Dropbox({ accessToken })
+    const dbx = createDropboxClient(accessToken)
     
     let formattedFileId = fileId
     if (!fileId.startsWith('id:')) {
@@ -77,7 +91,8 @@ export const dropboxApi = {
       name: fileData.name,
       path_display: fileData.path_display,
       path_lower: fileData.path_lower,
-      size: fileData.size
+      size: fileData.size,
+      rev: fileData.rev
     }
     
     // Load dimensions using client-side SDK
@@ -114,7 +129,7 @@ export const dropboxApi = {
   async getTemporaryLink(accessToken: string, filePath: string): Promise<string> {
     try {
       console.log('🔗 [DROPBOX] Getting temporary link for:', filePath)
-      const dbx = new Dropbox({ accessToken })
+      const dbx = createDropboxClient(accessToken)
       
       const response = await dbx.filesGetTemporaryLink({ path: filePath })
       const link = response.result.link
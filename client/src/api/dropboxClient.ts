@@ -0,0 +1,46 @@
+import { Dropbox, DropboxResponseError } from 'dropbox'
+import { API_BASE_URL, DROPBOX_FAKE } from '../constants'
+
+interface FakeRpcResult {
+  fileBase64?: string
+  fileContentType?: string
+  [key: string]: unknown
+}
+
+// Call an SDK route on the server's in-memory Dropbox; binary results come back as base64
+const callFakeDropbox = async (accessToken: string, method: string, arg?: unknown) => {
+  const response = await fetch(`${API_BASE_URL}/fake-dropbox/rpc/${method}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(arg ?? {})
+  })
+
+  const body = await response.json()
+  if (!response.ok) {
+    throw new DropboxResponseError(response.status, response.headers, body)
+  }
+
+  const { fileBase64, fileContentType, ...result } = body.result as FakeRpcResult
+  if (fileBase64) {
+    const bytes = Uint8Array.from(atob(fileBase64), char => char.charCodeAt(0))
+    result.fileBlob = new Blob([bytes], { type: fileContentType })
+  }
+
+  return { status: response.status, headers: response.headers, result }
+}
+
+// Dropbox SDK client, or a drop-in that talks to the server's fake when VITE_DROPBOX_FAKE=true
+export const createDropboxClient = (accessToken: string): Dropbox => {
+  if (!DROPBOX_FAKE) {
+    return new Dropbox({ accessToken })
+  }
+
+  return new Proxy({}, {
+    get: (_target, method) => typeof method === 'string' && /^(files|users)[A-Z]/.test(method)
+      ? (arg?: unknown) => callFakeDropbox(accessToken, method, arg)
+      : undefined
+  }) as Dropbox
+}
@@ -0,0 +1,26 @@
+import type { HistoryFilter, HistoryRecord } from '../types'
+import { apiClient } from './axiosConfig'
+
+export const historyApi = {
+  async list(filter: HistoryFilter, limit: number, offset: number): Promise<{ records: HistoryRecord[]; total: number }> {
+    const response = await apiClient.get('/history', {
+      params: {
+        // Empty filter fields are left out of the query
+        ...Object.fromEntries(Object.entries(filter).filter(([, value]) => value)),
+        // Dates from the date inputs cover whole local days
+        from: filter.from ? new Date(`${filter.from}T00:00:00`).toISOString() : undefined,
+        to: filter.to ? new Date(`${filter.to}T23:59:59.999`).toISOString() : undefined,
+        limit,
+        offset
+      },
+      timeout: 15000
+    })
+    return { records: response.data.records, total: response.data.total }
+  },
+
+  // Process the record's source file again with the recorded options
+  async rerun(recordId: string): Promise<{ jobId: string }> {
+    const response = await apiClient.post(`/history/${encodeURIComponent(recordId)}/rerun`, {}, { timeout: 30000 })
+    return { jobId: response.data.jobId }
+  }
+}
@@ -1,50 +1,187 @@
-import type { ImageFile, ProcessingOptions, ProcessingResult } from '../types'
+import type { BatchSource, ImageFile, PipelineStep, ProcessingBatch, ProcessingEvent, ProcessingJob, ProcessingOptions, ProcessingResult } from '../types'
 import { apiClient } from './axiosConfig'
+import { uploadsApi } from './uploadsApi'
+import { API_BASE_URL, JOB_POLL_INTERVAL_MS } from '../constants'
+
+// The remove background → upscale chain behind the on/off toggles, each output saved
+export const buildPipeline = (options: ProcessingOptions): PipelineStep[] => {
+  if (options.pipeline) return options.pipeline
+
+  const steps: PipelineStep[] = []
+  if (options.removeBg) {
+    steps.push({ type: 'removeBg', save: true, options: options.removeBgOptions })
+  }
+  if (options.upscale) {
+    steps.push({ type: 'upscale', save: true, factor: options.upscaleFactor })
+  }
+  return steps
+}
 
 export const imageProcessingApi = {
+  // Starts a background processing job on the server and returns its ID
   async processImage(
     image: ImageFile,
     options: ProcessingOptions,
-    onProgress?: (progress: number) => void
-  ): Promise<ProcessingResult> {
+    presetId?: string | null
+  ): Promise<{ jobId: string }> {
     const response = await apiClient.post('/process-image', {
       dropboxPath: image.path_display,
-      removeBg: options.removeBg,
-      upscale: options.upscale,
-      upscaleFactor: options.upscaleFactor
+      pipeline: buildPipeline(options),
+      output: options.output,
+      conflictPolicy: options.conflictPolicy,
+      // Only used to fill the {preset} filename token
+      presetId: presetId || undefined
     }, {
-      onUploadProgress: (progressEvent: { loaded: number; total?: number }) => {
-        if (onProgress && progressEvent.total) {
-          const progress = Math.round((progressEvent.loaded * 100) / progressEvent.total)
-          onProgress(progress)
-        }
-      },
-      timeout: 300000
+      timeout: 30000
     })
     
-    return response.data
+    return { jobId: response.data.jobId }
   },
 
-  async uploadFile(file: File, onProgress?: (progress: number) => void): Promise<{ fileName: string; filePath: string; fileId: string; fileSize: number }> {
-    const formData = new FormData()
-    formData.append('file', file)
-    
-    const response = await apiClient.post('/dropbox/upload-image', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data'
-      },
-      onUploadProgress: (progressEvent: { loaded: number; total?: number }) => {
-        if (onProgress && progressEvent.total) {
-          const progress = Math.round((progressEvent.loaded * 100) / progressEvent.total)
-          onProgress(progress)
-        }
-      },
-      timeout: 120000 // 2 minutes timeout for upload
+  // Starts a batch over several files or a whole folder and returns its ID
+  async processBatch(
+    source: BatchSource,
+    options: ProcessingOptions,
+    presetId?: string | null
+  ): Promise<{ batchId: string; total: number }> {
+    const response = await apiClient.post('/batches', {
+      ...source,
+      pipeline: buildPipeline(options),
+      output: options.output,
+      conflictPolicy: options.conflictPolicy,
+      presetId: presetId || undefined
+    }, {
+      // Folder batches list the folder before answering
+      timeout: 60000
     })
     
+    return { batchId: response.data.batchId, total: response.data.total }
+  },
+
+  async getBatch(batchId: string): Promise<ProcessingBatch> {
+    const response = await apiClient.get(`/batches/${encodeURIComponent(batchId)}`, {
+      timeout: 15000
+    })
     return response.data
   },
 
+  async getJob(jobId: string): Promise<ProcessingJob> {
+    const response = await apiClient.get(`/jobs/${encodeURIComponent(jobId)}`, {
+      timeout: 15000
+    })
+    return response.data
+  },
+
+  // Follow a job over Server-Sent Events. Uses fetch instead of EventSource so auth headers can be sent.
+  async streamJobEvents(
+    jobId: string,
+    onMessage: (type: string, data: unknown) => void,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const headers: Record<string, string> = { Accept: 'text/event-stream' }
+    const accessToken = localStorage.getItem('access_token')
+    const userInfo = localStorage.getItem('user_info')
+    if (accessToken) {
+      headers.Authorization = `Bearer ${accessToken}`
+    }
+    if (userInfo) {
+      try {
+        const user = JSON.parse(userInfo)
+        if (user.userId) {
+          headers['X-User-ID'] = user.userId
+        }
+      } catch (error) {
+        console.warn('Failed to parse stored user info:', error)
+      }
+    }
+
+    const response = await fetch(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}/events`, { headers, signal })
+    if (!response.ok || !response.body) {
+      throw new Error(`Event stream failed: HTTP ${response.status}`)
+    }
+
+    // Server may have refreshed the token while authenticating the stream
+    const newToken = response.headers.get('x-new-access-token')
+    if (newToken) {
+      localStorage.setItem('access_token', newToken)
+      window.useAppStore?.getState().setAccessToken(newToken)
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      // Events are separated by a blank line
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary)
+        buffer = buffer.slice(boundary + 2)
+        boundary = buffer.indexOf('\n\n')
+
+        let type = 'message'
+        const dataLines: string[] = []
+        for (const line of rawEvent.split('\n')) {
+          if (line.startsWith('event:')) {
+            type = line.slice(6).trim()
+          } else if (line.startsWith('data:')) {
+            dataLines.push(line.slice(5).trim())
+          }
+        }
+        if (dataLines.length > 0) {
+          onMessage(type, JSON.parse(dataLines.join('\n')))
+        }
+      }
+    }
+  },
+
+  // Poll a job until it completes or fails, reporting every update
+  async pollJob(jobId: string, onJob?: (job: ProcessingJob) => void): Promise<ProcessingResult> {
+    for (;;) {
+      const job = await this.getJob(jobId)
+      onJob?.(job)
+      
+      if (job.status === 'completed') {
+        return {
+          success: true,
+          message: 'Image processing completed successfully',
+          results: job.results,
+          steps: job.steps
+        }
+      }
+      
+      if (job.status === 'failed') {
+        throw new Error(job.error || 'Image processing failed')
+      }
+      
+      await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS))
+    }
+  },
+
+  // Follow a job live over SSE, then read its final state. Falls back to polling if the stream drops.
+  async waitForJob(
+    jobId: string,
+    handlers: { onJob?: (job: ProcessingJob) => void; onEvent?: (event: ProcessingEvent) => void } = {}
+  ): Promise<ProcessingResult> {
+    try {
+      await this.streamJobEvents(jobId, (type, data) => {
+        if (type === 'snapshot') {
+          handlers.onJob?.(data as ProcessingJob)
+        } else if (type === 'progress') {
+          handlers.onEvent?.(data as ProcessingEvent)
+        }
+      })
+    } catch (error) {
+      console.warn('⚠️ [JOB EVENTS] Live progress stream unavailable, falling back to polling:', error)
+    }
+    
+    return this.pollJob(jobId, handlers.onJob)
+  },
+
   async getThumbnailByPath(path: string): Promise<Blob> {
     const response = await apiClient.post('/dropbox/get-image-thumbnail', {
       path: path
@@ -82,7 +219,7 @@ export const imageProcessingApi = {
       
       // Test the upload endpoint (this will likely fail due to file type, but will test the connection)
       try {
-        await this.uploadFile(file)
+        await uploadsApi.uploadFile(file)
         return { success: true, message: 'Upload endpoint is working' }
       } catch (error: unknown) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error'
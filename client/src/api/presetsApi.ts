@@ -0,0 +1,29 @@
+import type { Preset, PresetInput } from '../types'
+import { apiClient } from './axiosConfig'
+
+export const presetsApi = {
+  async list(): Promise<Preset[]> {
+    const response = await apiClient.get('/presets', { timeout: 15000 })
+    return response.data.presets
+  },
+
+  // The preset to apply on image selection, or null when none is marked default
+  async getDefault(): Promise<Preset | null> {
+    const response = await apiClient.get('/presets/default', { timeout: 15000 })
+    return response.data.preset
+  },
+
+  async create(input: PresetInput): Promise<Preset> {
+    const response = await apiClient.post('/presets', input, { timeout: 15000 })
+    return response.data
+  },
+
+  async update(presetId: string, update: Partial<PresetInput>): Promise<Preset> {
+    const response = await apiClient.patch(`/presets/${encodeURIComponent(presetId)}`, update, { timeout: 15000 })
+    return response.data
+  },
+
+  async remove(presetId: string): Promise<void> {
+    await apiClient.delete(`/presets/${encodeURIComponent(presetId)}`, { timeout: 15000 })
+  }
+}
@@ -0,0 +1,23 @@
+import type { AutomationRule, AutomationRuleInput } from '../types'
+import { apiClient } from './axiosConfig'
+
+export const rulesApi = {
+  async list(): Promise<AutomationRule[]> {
+    const response = await apiClient.get('/rules', { timeout: 15000 })
+    return response.data.rules
+  },
+
+  async create(input: AutomationRuleInput): Promise<AutomationRule> {
+    const response = await apiClient.post('/rules', input, { timeout: 15000 })
+    return response.data
+  },
+
+  async update(ruleId: string, update: Partial<AutomationRuleInput>): Promise<AutomationRule> {
+    const response = await apiClient.patch(`/rules/${encodeURIComponent(ruleId)}`, update, { timeout: 15000 })
+    return response.data
+  },
+
+  async remove(ruleId: string): Promise<void> {
+    await apiClient.delete(`/rules/${encodeURIComponent(ruleId)}`, { timeout: 15000 })
+  }
+}
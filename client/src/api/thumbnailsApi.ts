@@ -0,0 +1,67 @@
+import type { ImageFile } from '../types'
+import { apiClient } from './axiosConfig'
+
+interface BatchThumbnail {
+  fileId: string
+  rev?: string
+  etag?: string
+  contentType?: string
+  // Base64 image, left out when the ETag sent still matches
+  data?: string
+  notModified?: boolean
+  error?: string
+}
+
+// Object URLs already created, by file ID, with the ETag and revision they were served under
+const loaded = new Map<string, { etag: string; rev?: string; url: string }>()
+
+const toObjectUrl = (base64: string, contentType: string) =>
+  URL.createObjectURL(new Blob([Uint8Array.from(atob(base64), char => char.charCodeAt(0))], { type: contentType }))
+
+export const thumbnailsApi = {
+  // One thumbnail through the server's cache (the browser revalidates it with its ETag)
+  async getThumbnail(fileId: string, rev?: string): Promise<string | null> {
+    try {
+      const response = await apiClient.get(`/dropbox/thumbnails/${encodeURIComponent(fileId)}`, {
+        params: { rev },
+        responseType: 'blob',
+        timeout: 15000
+      })
+      return URL.createObjectURL(response.data)
+    } catch (error) {
+      console.error('❌ Error fetching thumbnail:', error)
+      return null
+    }
+  },
+
+  // Whether the thumbnail loaded for this image belongs to an older revision of the file
+  isStale(image: Pick<ImageFile, 'id' | 'rev'>): boolean {
+    const previous = loaded.get(image.id)
+    return !!previous && previous.rev !== image.rev
+  },
+
+  // Thumbnails for up to 100 gallery images in one request; images whose thumbnail hasn't
+  // changed keep their existing object URL. Returns object URLs by image ID.
+  async getThumbnails(images: Pick<ImageFile, 'id' | 'rev'>[], signal?: AbortSignal): Promise<Record<string, string>> {
+    const response = await apiClient.post('/dropbox/thumbnails/batch', {
+      files: images.map(image => ({ fileId: image.id, rev: image.rev, etag: loaded.get(image.id)?.etag }))
+    }, { timeout: 30000, signal })
+
+    const urls: Record<string, string> = {}
+    ;(response.data.thumbnails as BatchThumbnail[]).forEach((thumbnail, index) => {
+      const imageId = images[index].id
+      const previous = loaded.get(imageId)
+      if (thumbnail.notModified && previous) {
+        urls[imageId] = previous.url
+      } else if (thumbnail.data && thumbnail.etag) {
+        if (previous) URL.revokeObjectURL(previous.url)
+        const url = toObjectUrl(thumbnail.data, thumbnail.contentType || 'image/jpeg')
+        loaded.set(imageId, { etag: thumbnail.etag, rev: thumbnail.rev, url })
+        urls[imageId] = url
+      } else if (thumbnail.error) {
+        console.warn('⚠️ [THUMBNAILS] No thumbnail for', imageId, '-', thumbnail.error)
+      }
+    })
+    return urls
+  }
+}
@@ -0,0 +1,140 @@
+import axios from 'axios'
+import { apiClient } from './axiosConfig'
+import {
+  UPLOAD_CHUNK_BYTES,
+  UPLOAD_CHUNK_RETRIES,
+  UPLOAD_RETRY_DELAY_MS,
+  UPLOAD_SESSION_MAX_AGE_MS
+} from '../constants'
+import type { UploadedFile } from '../types'
+
+// Unfinished uploads by file, so picking the same file again after a reload carries on
+// where the last attempt stopped
+const SAVED_UPLOADS_KEY = 'upload_sessions'
+
+interface SavedUpload {
+  uploadId: string
+  // Bytes the server has confirmed
+  offset: number
+  startedAt: number
+}
+
+// The same file picked again has the same name, size and modification time
+const uploadKey = (file: File) => `${file.name}:${file.size}:${file.lastModified}`
+
+const readSavedUploads = (): Record<string, SavedUpload> => {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_UPLOADS_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+const saveUpload = (file: File, upload: SavedUpload | null) => {
+  const uploads = readSavedUploads()
+  if (upload) {
+    uploads[uploadKey(file)] = upload
+  } else {
+    delete uploads[uploadKey(file)]
+  }
+  // Drop sessions Dropbox will have expired by now
+  Object.keys(uploads).forEach(key => {
+    if (Date.now() - uploads[key].startedAt > UPLOAD_SESSION_MAX_AGE_MS) delete uploads[key]
+  })
+  if (Object.keys(uploads).length > 0) {
+    localStorage.setItem(SAVED_UPLOADS_KEY, JSON.stringify(uploads))
+  } else {
+    localStorage.removeItem(SAVED_UPLOADS_KEY)
+  }
+}
+
+const errorResponse = (error: unknown) =>
+  (error as { response?: { status: number; data?: { offset?: number } } })?.response
+
+// Dropped connections, timeouts, rate limits and server errors are worth another try
+const isRetryable = (error: unknown) => {
+  const response = errorResponse(error)
+  return !response || response.status === 429 || response.status >= 500
+}
+
+export const uploadsApi = {
+  // Upload an image to the Dropbox root in chunks through an upload session. Network and
+  // server errors retry the chunk; an upload of the same file that was cut off earlier
+  // (even before a reload) resumes from the last confirmed chunk.
+  async uploadFile(file: File, onProgress?: (progress: number) => void, signal?: AbortSignal): Promise<UploadedFile> {
+    const report = (bytes: number) => onProgress?.(Math.min(100, Math.round((bytes * 100) / file.size)))
+
+    const start = async (): Promise<SavedUpload> => {
+      const response = await apiClient.post('/dropbox/upload-sessions', { fileName: file.name, size: file.size }, { signal, timeout: 30000 })
+      const upload = { uploadId: response.data.uploadId, offset: 0, startedAt: Date.now() }
+      saveUpload(file, upload)
+      return upload
+    }
+
+    let upload = readSavedUploads()[uploadKey(file)]
+    if (!upload || Date.now() - upload.startedAt > UPLOAD_SESSION_MAX_AGE_MS) {
+      upload = await start()
+    }
+    report(upload.offset)
+
+    let failures = 0
+    let restarted = false
+    while (upload.offset < file.size) {
+      const offset = upload.offset
+      try {
+        const response = await apiClient.put(
+          `/dropbox/upload-sessions/${encodeURIComponent(upload.uploadId)}`,
+          file.slice(offset, offset + UPLOAD_CHUNK_BYTES),
+          {
+            params: { offset },
+            headers: { 'Content-Type': 'application/octet-stream' },
+            onUploadProgress: (progressEvent: { loaded: number }) => report(offset + progressEvent.loaded),
+            signal,
+            timeout: 120000
+          }
+        )
+        upload = { ...upload, offset: response.data.offset }
+        saveUpload(file, upload)
+        failures = 0
+      } catch (error) {
+        if (axios.isCancel(error)) throw error
+        const response = errorResponse(error)
+
+        // Dropbox has a different amount than we thought (a chunk landed but its answer was lost)
+        if (response?.status === 416 && typeof response.data?.offset === 'number') {
+          upload = { ...upload, offset: response.data.offset }
+          saveUpload(file, upload)
+          continue
+        }
+        // The session expired: start over, once
+        if (response?.status === 404 && !restarted) {
+          restarted = true
+          upload = await start()
+          continue
+        }
+        if (!isRetryable(error) || ++failures > UPLOAD_CHUNK_RETRIES) throw error
+
+        await new Promise(resolve => setTimeout(resolve, UPLOAD_RETRY_DELAY_MS * failures))
+        if (signal?.aborted) throw new axios.CanceledError()
+      }
+      report(upload.offset)
+    }
+
+    for (failures = 0; ; failures++) {
+      try {
+        const response = await apiClient.post(
+          `/dropbox/upload-sessions/${encodeURIComponent(upload.uploadId)}/finish`,
+          { fileName: file.name, size: file.size },
+          { signal, timeout: 60000 }
+        )
+        saveUpload(file, null)
+        return response.data
+      } catch (error) {
+        // A finish whose answer got lost leaves no session behind; don't try to resume it again
+        if (errorResponse(error)?.status === 404) saveUpload(file, null)
+        if (axios.isCancel(error) || !isRetryable(error) || failures >= UPLOAD_CHUNK_RETRIES) throw error
+        await new Promise(resolve => setTimeout(resolve, UPLOAD_RETRY_DELAY_MS * (failures + 1)))
+      }
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import type { UsageSummary } from '../types'
+import { apiClient } from './axiosConfig'
+
+export const usageApi = {
+  // Picsart calls and credits today and this month, with the user's quotas
+  async getUsage(): Promise<UsageSummary> {
+    const response = await apiClient.get('/usage', { timeout: 15000 })
+    return response.data
+  }
+}
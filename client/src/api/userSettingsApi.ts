@@ -0,0 +1,15 @@
+import type { OutputPreferences } from '../types'
+import { apiClient } from './axiosConfig'
+
+export const userSettingsApi = {
+  // Output preferences plus the filename tokens the server understands
+  async getOutputPreferences(): Promise<OutputPreferences & { tokens: string[] }> {
+    const response = await apiClient.get('/users/preferences/output', { timeout: 15000 })
+    return response.data
+  },
+
+  async updateOutputPreferences(preferences: OutputPreferences): Promise<OutputPreferences & { tokens: string[] }> {
+    const response = await apiClient.put('/users/preferences/output', preferences, { timeout: 15000 })
+    return response.data
+  }
+}
@@ -0,0 +1,27 @@
+import React from 'react'
+import { CONFLICT_POLICIES } from '../constants'
+import type { ConflictPolicy } from '../types'
+
+interface ConflictPolicySelectProps {
+  // undefined leaves the choice to the server (autorename)
+  value?: ConflictPolicy
+  disabled?: boolean
+  onChange: (value: ConflictPolicy) => void
+}
+
+// What to do when a processed file's name already exists in Dropbox
+export const ConflictPolicySelect: React.FC<ConflictPolicySelectProps> = ({ value, disabled = false, onChange }) => (
+  <label className="block text-sm text-gray-700">
+    <span>🗃️ If the file already exists</span>
+    <select
+      value={value || 'autorename'}
+      onChange={(e) => onChange(e.target.value as ConflictPolicy)}
+      disabled={disabled}
+      className="w-full border border-gray-300 rounded-lg px-2 py-1 text-sm focus:ring-purple-500 focus:border-purple-500 mt-1"
+    >
+      {CONFLICT_POLICIES.map(policy => (
+        <option key={policy.value} value={policy.value}>{policy.label}</option>
+      ))}
+    </select>
+  </label>
+)
@@ -0,0 +1,178 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react'
+import { GALLERY_EXTENSIONS, GALLERY_SEARCH_DEBOUNCE_MS, GALLERY_SORT_OPTIONS } from '../constants'
+import { hasActiveFilters } from '../utils/galleryFilters'
+import type { GalleryFilters, GallerySort, ProcessedFilter } from '../types'
+
+interface GalleryToolbarProps {
+  filters: GalleryFilters
+  onChange: (changes: Partial<GalleryFilters>) => void
+  onClear: () => void
+  // Images shown after filtering, out of those loaded so far
+  shownCount: number
+  loadedCount: number
+}
+
+type RangeKey = 'minSizeMb' | 'maxSizeMb' | 'minWidth' | 'maxWidth' | 'minHeight' | 'maxHeight'
+
+const RANGES: { label: string; unit: string; min: RangeKey; max: RangeKey; step: number }[] = [
+  { label: '📦 Size', unit: 'MB', min: 'minSizeMb', max: 'maxSizeMb', step: 0.1 },
+  { label: '↔️ Width', unit: 'px', min: 'minWidth', max: 'maxWidth', step: 1 },
+  { label: '↕️ Height', unit: 'px', min: 'minHeight', max: 'maxHeight', step: 1 }
+]
+
+const inputClassName = 'border border-gray-300 rounded-lg px-2 py-1.5 text-sm focus:ring-purple-500 focus:border-purple-500'
+
+const parseBound = (value: string): number | null => {
+  if (value.trim() === '') return null
+  const number = Number(value)
+  return Number.isFinite(number) && number >= 0 ? number : null
+}
+
+// Search, filter and sort controls above the gallery grid
+export const GalleryToolbar: React.FC<GalleryToolbarProps> = ({
+  filters,
+  onChange,
+  onClear,
+  shownCount,
+  loadedCount
+}) => {
+  const [query, setQuery] = useState(filters.query)
+  const [showRanges, setShowRanges] = useState(RANGES.some(range => filters[range.min] !== null || filters[range.max] !== null))
+  // Last query written to the URL, so its echo doesn't overwrite what was typed since
+  const sentQueryRef = useRef(filters.query)
+
+  const submitQuery = useCallback((value: string) => {
+    sentQueryRef.current = value
+    onChange({ query: value })
+  }, [onChange])
+
+  // Follow the URL when it changes from outside (back button, cleared filters)
+  useEffect(() => {
+    if (filters.query === sentQueryRef.current) return
+    sentQueryRef.current = filters.query
+    setQuery(filters.query)
+  }, [filters.query])
+
+  // The search runs on the server, so wait for a pause in typing
+  useEffect(() => {
+    if (query.trim() === sentQueryRef.current) return
+    const timer = setTimeout(() => submitQuery(query.trim()), GALLERY_SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [query, submitQuery])
+
+  const toggleExtension = (extension: string) => {
+    onChange({
+      extensions: filters.extensions.includes(extension)
+        ? filters.extensions.filter(selected => selected !== extension)
+        : [...filters.extensions, extension]
+    })
+  }
+
+  return (
+    <div className="space-y-2 mb-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submitQuery(query.trim())}
+          placeholder="🔎 Search all of Dropbox by file name"
+          className={`${inputClassName} flex-1 min-w-[12rem]`}
+        />
+        <select
+          value={filters.processed}
+          onChange={(e) => onChange({ processed: e.target.value as ProcessedFilter })}
+          className={inputClassName}
+        >
+          <option value="all">All images</option>
+          <option value="processed">✨ Processed</option>
+          <option value="unprocessed">🆕 Not processed</option>
+        </select>
+        <select
+          value={filters.sort || ''}
+          onChange={(e) => onChange({ sort: (e.target.value || null) as GallerySort | null })}
+          className={inputClassName}
+        >
+          <option value="">Dropbox order</option>
+          {GALLERY_SORT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>Sort: {option.label}</option>
+          ))}
+        </select>
+        {filters.sort && (
+          <button
+            onClick={() => onChange({ order: filters.order === 'asc' ? 'desc' : 'asc' })}
+            className="px-2 py-1.5 rounded-lg text-sm border border-purple-300 bg-white text-purple-700 hover:bg-purple-50"
+            title={filters.order === 'asc' ? 'Ascending' : 'Descending'}
+          >
+            {filters.order === 'asc' ? '⬆️' : '⬇️'}
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1">
+        {GALLERY_EXTENSIONS.map(extension => {
+          const active = filters.extensions.includes(extension)
+          return (
+            <button
+              key={extension}
+              onClick={() => toggleExtension(extension)}
+              className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+                active
+                  ? 'bg-purple-600 text-white border-purple-600'
+                  : 'bg-white text-purple-700 border-purple-200 hover:bg-purple-50'
+              }`}
+            >
+              .{extension}
+            </button>
+          )
+        })}
+        <button
+          onClick={() => setShowRanges(!showRanges)}
+          className="ml-auto text-xs text-purple-600 hover:text-purple-800 underline"
+        >
+          {showRanges ? 'Hide size filters' : 'Size & dimensions'}
+        </button>
+      </div>
+
+      {showRanges && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {RANGES.map(range => (
+            <div key={range.label} className="flex items-center gap-1 text-sm text-gray-700">
+              <span className="whitespace-nowrap">{range.label}</span>
+              <input
+                type="number"
+                min={0}
+                step={range.step}
+                value={filters[range.min] ?? ''}
+                onChange={(e) => onChange({ [range.min]: parseBound(e.target.value) })}
+                placeholder="min"
+                className={`${inputClassName} w-20`}
+              />
+              <span>–</span>
+              <input
+                type="number"
+                min={0}
+                step={range.step}
+                value={filters[range.max] ?? ''}
+                onChange={(e) => onChange({ [range.max]: parseBound(e.target.value) })}
+                placeholder="max"
+                className={`${inputClassName} w-20`}
+              />
+              <span className="text-xs text-gray-500">{range.unit}</span>
+            </div>
+          ))}
+          <p className="text-xs text-gray-500 sm:col-span-3">Dimension filters hide images whose size Dropbox hasn't reported.</p>
+        </div>
+      )}
+
+      {hasActiveFilters(filters) && (
+        <div className="flex items-center justify-between text-xs text-purple-700">
+          <span>Showing {shownCount} of {loadedCount} loaded images</span>
+          <button onClick={onClear} className="text-gray-500 hover:text-gray-700 underline">
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
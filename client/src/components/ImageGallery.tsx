@@ -1,5 +1,12 @@
-import React from 'react'
-import type { ImageFile } from '../types'
+import React, { useEffect, useMemo, useRef } from 'react'
+import { VirtualizedGrid } from './VirtualizedGrid'
+import { useLazyThumbnails } from '../hooks/useLazyThumbnails'
+import type { DropboxFolder, ImageFile } from '../types'
+
+// Card layout for the virtualized grid: rows are a fixed height, columns fit the width
+const GALLERY_ROW_HEIGHT = 128
+const GALLERY_MIN_CARD_WIDTH = 120
+const GALLERY_GAP = 10
 
 interface ImageGalleryProps {
   images: ImageFile[]
@@ -7,6 +14,120 @@ interface ImageGalleryProps {
   loading?: boolean
   onImageSelect: (image: ImageFile) => void
   onRefresh: () => void
+  // Folder navigation: the shown folder ('' for the root), its subfolders and further pages
+  currentFolder?: string
+  folders?: DropboxFolder[]
+  recursive?: boolean
+  hasMore?: boolean
+  onOpenFolder?: (path: string) => void
+  onRecursiveChange?: (recursive: boolean) => void
+  // Called when the user scrolls near the end of the loaded images
+  onLoadMore?: () => void
+  // Search, filter and sort controls shown above the grid
+  toolbar?: React.ReactNode
+  // Set while showing account-wide search results instead of a folder
+  searchQuery?: string | null
+  // Whether loaded images are hidden by filters, for the empty state
+  filtersActive?: boolean
+  // Multi-select for batch processing: clicks toggle images instead of opening them
+  selectionMode?: boolean
+  selectedIds?: string[]
+  onToggleSelect?: (image: ImageFile) => void
+  onSelectionModeChange?: (enabled: boolean) => void
+}
+
+interface ImageCardProps {
+  image: ImageFile
+  thumbnailUrl?: string
+  selectionMode: boolean
+  isSelected: boolean
+  onClick: (image: ImageFile) => void
+  observeThumbnail: (element: Element, image: ImageFile) => () => void
+}
+
+// One gallery card; its thumbnail loads while the card is on screen
+const ImageCard: React.FC<ImageCardProps> = React.memo(({ image, thumbnailUrl, selectionMode, isSelected, onClick, observeThumbnail }) => {
+  const cardRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!cardRef.current) return
+    return observeThumbnail(cardRef.current, image)
+  }, [image, observeThumbnail])
+
+  return (
+    <div
+      ref={cardRef}
+      onClick={() => onClick(image)}
+      className={`group h-full p-1 sm:p-2 cursor-pointer hover:shadow-lg transition-all duration-300 bg-white border rounded-lg hover:border-purple-400 hover:bg-gradient-to-br hover:from-purple-50 hover:to-pink-50 relative overflow-hidden ${
+        isSelected ? 'border-purple-600 ring-2 ring-purple-400' : 'border-purple-200'
+      }`}
+    >
+      <div className="absolute inset-0 bg-gradient-to-r from-purple-600/10 to-pink-600/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-lg"></div>
+    
+      {selectionMode && (
+        <input
+          type="checkbox"
+          checked={isSelected}
+          readOnly
+          className="absolute top-1 left-1 z-10 w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500 pointer-events-none"
+        />
+      )}
+    
+      <div 
+        className="relative mb-1 sm:mb-2 flex items-center justify-center overflow-hidden rounded transition-all duration-300 group-hover:shadow-inner" 
+        style={{ width: '100%', height: '80px', maxWidth: '150px', margin: '0 auto' }}
+      >
+        {thumbnailUrl ? (
+          <img
+            src={thumbnailUrl}
+            alt={image.name}
+            className="max-w-full max-h-full object-contain transition-all duration-300 group-hover:scale-110 group-hover:brightness-110"
+            style={{ maxWidth: '100%', maxHeight: '100%' }}
+          />
+        ) : (
+          <div className="image-loading rounded" style={{ width: '100%', height: '100%' }}>
+            <span className="text-gray-400 text-sm animate-pulse group-hover:text-purple-400">🖼️</span>
+          </div>
+        )}
+      </div>
+      <p className="relative text-xs sm:text-xs font-medium text-gray-700 truncate text-center transition-all duration-300 group-hover:text-purple-600 group-hover:font-semibold leading-tight" title={image.path_display}>{image.name}</p>
+    
+      {/* Animated border effect */}
+      <div className="absolute inset-0 rounded-lg border-2 border-transparent group-hover:border-purple-400 transition-all duration-300"></div>
+    </div>
+  )
+})
+
+// Root, then one crumb per folder on the way to `path`
+const Breadcrumbs: React.FC<{ path: string; disabled: boolean; onOpenFolder: (path: string) => void }> = ({ path, disabled, onOpenFolder }) => {
+  const segments = path.split('/').filter(Boolean)
+  return (
+    <nav className="flex flex-wrap items-center gap-1 text-sm mb-3" aria-label="Folder">
+      <button
+        onClick={() => onOpenFolder('')}
+        disabled={disabled || segments.length === 0}
+        className="text-purple-700 hover:text-purple-900 hover:underline disabled:no-underline disabled:text-purple-900 disabled:font-semibold"
+      >
+        🏠 Dropbox
+      </button>
+      {segments.map((segment, index) => {
+        const isCurrent = index === segments.length - 1
+        return (
+          <React.Fragment key={index}>
+            <span className="text-purple-300">/</span>
+            <button
+              onClick={() => onOpenFolder('/' + segments.slice(0, index + 1).join('/'))}
+              disabled={disabled || isCurrent}
+              className="text-purple-700 hover:text-purple-900 hover:underline disabled:no-underline disabled:text-purple-900 disabled:font-semibold truncate max-w-[12rem]"
+              title={segment}
+            >
+              {segment}
+            </button>
+          </React.Fragment>
+        )
+      })}
+    </nav>
+  )
 }
 
 export const ImageGallery: React.FC<ImageGalleryProps> = ({
@@ -14,77 +135,153 @@ export const ImageGallery: React.FC<ImageGalleryProps> = ({
   thumbnailUrls,
   loading = false,
   onImageSelect,
-  onRefresh
+  onRefresh,
+  currentFolder = '',
+  folders = [],
+  recursive = false,
+  hasMore = false,
+  onOpenFolder,
+  onRecursiveChange,
+  onLoadMore,
+  toolbar,
+  searchQuery = null,
+  filtersActive = false,
+  selectionMode = false,
+  selectedIds = [],
+  onToggleSelect,
+  onSelectionModeChange
 }) => {
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const { observeThumbnail } = useLazyThumbnails(scrollRef)
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds])
+
+  // A different folder or search starts at the top
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 })
+  }, [currentFolder, recursive, searchQuery])
+
   return (
     <div className="bg-gradient-to-r from-purple-50 to-pink-50 rounded-lg p-4 border border-purple-200">
       <div className="flex items-center justify-between mb-3">
         <h3 className="text-lg font-semibold text-purple-800">📁 Browse Your Dropbox</h3>
-        <button
-          onClick={onRefresh}
-          disabled={loading}
-          className="bg-gradient-to-r from-purple-600 to-pink-600 text-white px-3 py-2 rounded-lg hover:from-purple-700 hover:to-pink-700 transition-all duration-300 transform hover:scale-105 hover:shadow-lg disabled:opacity-50 text-sm animate-fadeInUp animation-delay-300"
-        >
-          {loading ? (
-            <span className="flex items-center gap-2">
-              <span className="animate-spin">🔄</span>
-              <span className="animate-pulse">Loading...</span>
-            </span>
-          ) : (
-            <span className="flex items-center gap-1">
-              <span>⚡</span>
-              <span>Load</span>
-            </span>
+        <div className="flex items-center gap-2">
+          {onSelectionModeChange && (
+            <button
+              onClick={() => onSelectionModeChange(!selectionMode)}
+              disabled={loading || images.length === 0}
+              className={`px-3 py-2 rounded-lg text-sm border transition-all duration-300 disabled:opacity-50 ${
+                selectionMode
+                  ? 'bg-purple-600 text-white border-purple-600 hover:bg-purple-700'
+                  : 'bg-white text-purple-700 border-purple-300 hover:bg-purple-50'
+              }`}
+            >
+              {selectionMode ? '✖️ Cancel' : '☑️ Select'}
+            </button>
           )}
-        </button>
-      </div>
-      
-      {/* Image grid */}
-      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-2 sm:gap-3">
-        {(images || []).map((image, index) => (
-          <div
-            key={image.id}
-            onClick={() => onImageSelect(image)}
-            className="group p-1 sm:p-2 cursor-pointer hover:shadow-xl transition-all duration-300 transform hover:scale-105 hover:-translate-y-1 bg-white border border-purple-200 rounded-lg hover:border-purple-400 hover:bg-gradient-to-br hover:from-purple-50 hover:to-pink-50 animate-fadeInUp relative overflow-hidden"
-            style={{ animationDelay: `${index * 100}ms` }}
+          <button
+            onClick={onRefresh}
+            disabled={loading}
+            className="bg-gradient-to-r from-purple-600 to-pink-600 text-white px-3 py-2 rounded-lg hover:from-purple-700 hover:to-pink-700 transition-all duration-300 transform hover:scale-105 hover:shadow-lg disabled:opacity-50 text-sm animate-fadeInUp animation-delay-300"
           >
-            <div className="absolute inset-0 bg-gradient-to-r from-purple-600/10 to-pink-600/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-lg"></div>
-            
-            <div 
-              className="relative mb-1 sm:mb-2 flex items-center justify-center overflow-hidden rounded transition-all duration-300 group-hover:shadow-inner" 
-              style={{ width: '100%', height: '80px', maxWidth: '150px', margin: '0 auto' }}
-            >
-              {thumbnailUrls[image.id] ? (
-                <img
-                  src={thumbnailUrls[image.id]}
-                  alt={image.name}
-                  className="max-w-full max-h-full object-contain transition-all duration-300 group-hover:scale-110 group-hover:brightness-110"
-                  style={{ maxWidth: '100%', maxHeight: '100%' }}
-                />
-              ) : (
-                <div className="image-loading rounded transition-all duration-300 group-hover:scale-110" style={{ width: '100%', height: '100%' }}>
-                  <span className="text-gray-400 text-sm animate-pulse group-hover:text-purple-400">🖼️</span>
-                </div>
-              )}
-            </div>
-            <p className="relative text-xs sm:text-xs font-medium text-gray-700 truncate text-center transition-all duration-300 group-hover:text-purple-600 group-hover:font-semibold leading-tight">{image.name}</p>
-            
-            {/* Animated border effect */}
-            <div className="absolute inset-0 rounded-lg border-2 border-transparent group-hover:border-purple-400 transition-all duration-300"></div>
-          </div>
-        ))}
+            {loading ? (
+              <span className="flex items-center gap-2">
+                <span className="animate-spin">🔄</span>
+                <span className="animate-pulse">Loading...</span>
+              </span>
+            ) : (
+              <span className="flex items-center gap-1">
+                <span>⚡</span>
+                <span>Load</span>
+              </span>
+            )}
+          </button>
+        </div>
       </div>
+
+      {toolbar}
+
+      {searchQuery !== null ? (
+        <p className="text-sm text-purple-800 mb-3">
+          🔎 Results for <span className="font-semibold">"{searchQuery}"</span> across your Dropbox
+        </p>
+      ) : onOpenFolder && <Breadcrumbs path={currentFolder} disabled={loading} onOpenFolder={onOpenFolder} />}
+
+      {onRecursiveChange && searchQuery === null && (
+        <label className="flex items-center space-x-2 mb-3">
+          <input
+            type="checkbox"
+            checked={recursive}
+            onChange={(e) => onRecursiveChange(e.target.checked)}
+            disabled={loading}
+            className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+          />
+          <span className="text-sm text-gray-700">Include images in subfolders</span>
+        </label>
+      )}
+
+      {/* Subfolders */}
+      {onOpenFolder && searchQuery === null && folders.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-3">
+          {folders.map(folder => (
+            <button
+              key={folder.id || folder.path_lower}
+              onClick={() => onOpenFolder(folder.path_display)}
+              disabled={loading}
+              className="px-3 py-1.5 rounded-lg text-sm bg-white border border-purple-200 text-purple-800 hover:bg-purple-50 hover:border-purple-400 transition-colors disabled:opacity-50 truncate max-w-[14rem]"
+              title={folder.path_display}
+            >
+              📂 {folder.name}
+            </button>
+          ))}
+        </div>
+      )}
+      
+      {/* Image grid: only rows near the viewport are rendered; more pages load on scroll */}
+      <VirtualizedGrid
+        items={images || []}
+        getKey={image => image.id}
+        scrollRef={scrollRef}
+        rowHeight={GALLERY_ROW_HEIGHT}
+        minColumnWidth={GALLERY_MIN_CARD_WIDTH}
+        gap={GALLERY_GAP}
+        onEndReached={hasMore && !loading ? onLoadMore : undefined}
+        className="p-1 -m-1"
+        style={{ maxHeight: '70vh' }}
+        renderItem={image => (
+          <ImageCard
+            image={image}
+            thumbnailUrl={thumbnailUrls[image.id]}
+            selectionMode={selectionMode}
+            isSelected={selectedSet.has(image.id)}
+            onClick={selectionMode && onToggleSelect ? onToggleSelect : onImageSelect}
+            observeThumbnail={observeThumbnail}
+          />
+        )}
+        footer={hasMore && (
+          <p className="text-center text-sm text-purple-600 py-3 animate-pulse">
+            {loading ? '🔄 Loading more images...' : '⬇️ Scroll for more'}
+          </p>
+        )}
+      />
       
       {/* Empty state */}
-      {(images || []).length === 0 && !loading && (
+      {(images || []).length === 0 && !loading && !hasMore && (
         <div className="text-center py-6 animate-fadeIn">
-          <div className="animate-bounce-gentle text-6xl mb-4">📁</div>
-          <p className="text-purple-600 mb-2 animate-fadeInUp">
-            📁 No images found in your Dropbox root folder
-          </p>
-          <p className="text-sm text-purple-500 animate-fadeInUp animation-delay-200">
-            Click "Load" to browse your files, or upload new images above
-          </p>
+          <div className="animate-bounce-gentle text-6xl mb-4">{searchQuery !== null || filtersActive ? '🔎' : '📁'}</div>
+          {searchQuery !== null || filtersActive ? (
+            <p className="text-purple-600 mb-2 animate-fadeInUp">
+              No images match {searchQuery !== null ? <span className="font-medium">"{searchQuery}"</span> : 'the filters'}
+            </p>
+          ) : (
+            <>
+              <p className="text-purple-600 mb-2 animate-fadeInUp">
+                📁 No images found in {currentFolder ? <span className="font-medium">{currentFolder}</span> : 'your Dropbox root folder'}
+              </p>
+              <p className="text-sm text-purple-500 animate-fadeInUp animation-delay-200">
+                Click "Load" to browse your files, or upload new images above
+              </p>
+            </>
+          )}
         </div>
       )}
     </div>
@@ -4,18 +4,24 @@ interface NewImageNotificationProps {
   show: boolean
   count: number
   onDismiss: () => void
+  // Images found on Dropbox that the gallery is holding back: offer to show them, and stay up
+  // until the user answers
+  onShow?: () => void
 }
 
 export const NewImageNotification: React.FC<NewImageNotificationProps> = ({ 
   show, 
   count, 
-  onDismiss 
+  onDismiss,
+  onShow
 }) => {
   const [isVisible, setIsVisible] = useState(false)
+  const waitsForUser = !!onShow
 
   useEffect(() => {
     if (show) {
       setIsVisible(true)
+      if (waitsForUser) return
       const timer = setTimeout(() => {
         setIsVisible(false)
         setTimeout(onDismiss, 300) // Wait for animation to complete
@@ -23,7 +29,12 @@ export const NewImageNotification: React.FC<NewImageNotificationProps> = ({
       
       return () => clearTimeout(timer)
     }
-  }, [show, onDismiss])
+  }, [show, waitsForUser, onDismiss])
+
+  const close = () => {
+    setIsVisible(false)
+    setTimeout(onDismiss, 300) // Wait for animation to complete
+  }
 
   if (!show) return null
 
@@ -33,14 +44,28 @@ export const NewImageNotification: React.FC<NewImageNotificationProps> = ({
     }`}>
       <div className="bg-gradient-to-r from-green-500 to-emerald-500 text-white px-4 py-3 rounded-lg shadow-lg flex items-center gap-3">
         <div className="text-xl animate-pulse">🎉</div>
-        <div>
-          <p className="font-semibold text-sm">
-            {count === 1 ? 'New processed image added!' : `${count} new processed images added!`}
-          </p>
-          <p className="text-xs text-green-100">Check the gallery below</p>
-        </div>
+        {onShow ? (
+          <div>
+            <p className="font-semibold text-sm">
+              {count === 1 ? '1 new image' : `${count} new images`} on Dropbox
+            </p>
+            <button
+              onClick={onShow}
+              className="text-xs text-white underline hover:text-green-100"
+            >
+              Show {count === 1 ? 'it' : 'them'}
+            </button>
+          </div>
+        ) : (
+          <div>
+            <p className="font-semibold text-sm">
+              {count === 1 ? 'New processed image added!' : `${count} new processed images added!`}
+            </p>
+            <p className="text-xs text-green-100">Check the gallery below</p>
+          </div>
+        )}
         <button
-          onClick={() => setIsVisible(false)}
+          onClick={close}
           className="text-white hover:text-green-200 transition-colors"
         >
           ✕
@@ -48,4 +73,4 @@ export const NewImageNotification: React.FC<NewImageNotificationProps> = ({
       </div>
     </div>
   )
-} 
\ No newline at end of file
+} 
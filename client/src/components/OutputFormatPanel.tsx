@@ -0,0 +1,121 @@
+import React from 'react'
+import { DEFAULT_OUTPUT_SETTINGS, OUTPUT_FORMATS } from '../constants'
+import type { OutputFormat, OutputSettings } from '../types'
+
+interface OutputFormatPanelProps {
+  // undefined keeps each step's own format (named after its real encoding)
+  output?: OutputSettings
+  disabled?: boolean
+  onChange: (output: OutputSettings | undefined) => void
+}
+
+const selectClassName = 'w-full border border-gray-300 rounded-lg px-2 py-1 text-sm focus:ring-purple-500 focus:border-purple-500'
+
+export const OutputFormatPanel: React.FC<OutputFormatPanelProps> = ({ output, disabled = false, onChange }) => {
+  const handleFormatChange = (value: string) => {
+    onChange(value ? { ...DEFAULT_OUTPUT_SETTINGS, ...output, format: value as OutputFormat } : undefined)
+  }
+
+  const update = (changes: Partial<OutputSettings>) => {
+    if (output) onChange({ ...output, ...changes })
+  }
+
+  const usesQuality = output && (
+    output.format === 'JPEG' ||
+    ((output.format === 'WEBP' || output.format === 'AVIF') && !output.lossless) ||
+    (output.format === 'TIFF' && output.tiffCompression === 'jpeg')
+  )
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm text-gray-700">
+        <span>💾 Output Format</span>
+        <select
+          value={output?.format || ''}
+          onChange={(e) => handleFormatChange(e.target.value)}
+          disabled={disabled}
+          className={`${selectClassName} mt-1`}
+        >
+          <option value="">Keep format from each step</option>
+          {OUTPUT_FORMATS.map(format => (
+            <option key={format.value} value={format.value}>{format.label}</option>
+          ))}
+        </select>
+      </label>
+
+      {output && (
+        <div className="ml-7 p-3 bg-white border border-purple-200 rounded-lg space-y-3">
+          {usesQuality && (
+            <label className="block text-xs text-gray-600">
+              <span className="flex justify-between">
+                <span>Quality</span>
+                <span className="font-medium text-gray-700">{output.quality}</span>
+              </span>
+              <input
+                type="range"
+                min={1}
+                max={100}
+                value={output.quality}
+                disabled={disabled}
+                onChange={(e) => update({ quality: parseInt(e.target.value) })}
+                className="w-full accent-purple-600"
+              />
+            </label>
+          )}
+
+          {output.format === 'PNG' && (
+            <label className="block text-xs text-gray-600">
+              <span className="flex justify-between">
+                <span>Compression level (smaller files, slower)</span>
+                <span className="font-medium text-gray-700">{output.compressionLevel}</span>
+              </span>
+              <input
+                type="range"
+                min={0}
+                max={9}
+                value={output.compressionLevel}
+                disabled={disabled}
+                onChange={(e) => update({ compressionLevel: parseInt(e.target.value) })}
+                className="w-full accent-purple-600"
+              />
+            </label>
+          )}
+
+          {(output.format === 'WEBP' || output.format === 'AVIF') && (
+            <label className="flex items-center space-x-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={output.lossless}
+                disabled={disabled}
+                onChange={(e) => update({ lossless: e.target.checked })}
+                className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+              />
+              <span>Lossless</span>
+            </label>
+          )}
+
+          {output.format === 'TIFF' && (
+            <label className="block text-xs text-gray-600">
+              Compression
+              <select
+                value={output.tiffCompression}
+                disabled={disabled}
+                onChange={(e) => update({ tiffCompression: e.target.value as OutputSettings['tiffCompression'] })}
+                className={selectClassName}
+              >
+                <option value="lzw">LZW (lossless)</option>
+                <option value="deflate">Deflate (lossless)</option>
+                <option value="jpeg">JPEG (lossy)</option>
+                <option value="none">None</option>
+              </select>
+            </label>
+          )}
+
+          {output.format === 'JPEG' && (
+            <p className="text-xs text-gray-500">Transparent areas are filled with white.</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react'
+import { usePresets } from '../hooks/usePresets'
+import { useAppStore } from '../store'
+
+interface PresetPickerProps {
+  disabled?: boolean
+}
+
+const buttonClassName = 'px-2 py-1 text-xs rounded-lg border border-purple-200 bg-white text-purple-700 hover:bg-purple-50 disabled:opacity-50 disabled:cursor-not-allowed'
+
+export const PresetPicker: React.FC<PresetPickerProps> = ({ disabled = false }) => {
+  const {
+    presets,
+    activePresetId,
+    loadPresets,
+    applyPreset,
+    savePreset,
+    saveError,
+    clearSaveError,
+    updatePresetOptions,
+    toggleDefaultPreset,
+    deletePreset
+  } = usePresets()
+  const { processingOptions, updateProcessingOptions, setActivePresetId } = useAppStore()
+
+  const [saving, setSaving] = useState(false)
+  const [newName, setNewName] = useState('')
+  const [makeDefault, setMakeDefault] = useState(false)
+
+  useEffect(() => {
+    loadPresets()
+  }, [loadPresets])
+
+  const activePreset = presets.find(p => p.presetId === activePresetId)
+
+  const handleSelect = (presetId: string) => {
+    const preset = presets.find(p => p.presetId === presetId)
+    if (preset) {
+      applyPreset(preset)
+    } else {
+      setActivePresetId(null)
+    }
+  }
+
+  const handleSave = async () => {
+    if (!newName.trim()) return
+    const preset = await savePreset(newName.trim(), makeDefault)
+    if (preset) {
+      setSaving(false)
+      setNewName('')
+      setMakeDefault(false)
+    }
+  }
+
+  const handleDelete = () => {
+    if (activePreset && window.confirm(`Delete preset "${activePreset.name}"?`)) {
+      deletePreset(activePreset.presetId)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="text-sm text-gray-600">💾 Preset:</label>
+        <select
+          value={activePresetId ?? ''}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={disabled}
+          className="flex-1 min-w-0 border border-gray-300 rounded-lg px-2 py-1 text-sm focus:ring-purple-500 focus:border-purple-500"
+        >
+          <option value="">Custom options</option>
+          {presets.map(preset => (
+            <option key={preset.presetId} value={preset.presetId}>
+              {preset.isDefault ? '⭐ ' : ''}{preset.name}
+            </option>
+          ))}
+        </select>
+
+        {activePreset && (
+          <>
+            <button
+              type="button"
+              onClick={() => toggleDefaultPreset(activePreset.presetId)}
+              disabled={disabled}
+              className={buttonClassName}
+              title={activePreset.isDefault ? 'Stop applying this preset automatically' : 'Apply this preset automatically when an image is selected'}
+            >
+              {activePreset.isDefault ? '⭐ Default' : '☆ Make default'}
+            </button>
+            <button
+              type="button"
+              onClick={() => updatePresetOptions(activePreset.presetId)}
+              disabled={disabled}
+              className={buttonClassName}
+              title="Save the current options into this preset"
+            >
+              Update
+            </button>
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={disabled}
+              className={buttonClassName}
+              title="Delete this preset"
+            >
+              🗑️
+            </button>
+          </>
+        )}
+
+        {!saving && (
+          <button type="button" onClick={() => setSaving(true)} disabled={disabled} className={buttonClassName}>
+            + Save as preset
+          </button>
+        )}
+      </div>
+
+      {saving && (
+        <div className="flex flex-wrap items-center gap-2 p-2 bg-white border border-purple-200 rounded-lg">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => {
+              setNewName(e.target.value)
+              clearSaveError()
+            }}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder="e.g. Product shot"
+            maxLength={80}
+            autoFocus
+            className="flex-1 min-w-0 border border-gray-300 rounded-lg px-2 py-1 text-sm focus:ring-purple-500 focus:border-purple-500"
+          />
+          <label className="flex items-center gap-1 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={makeDefault}
+              onChange={(e) => setMakeDefault(e.target.checked)}
+              className="w-3 h-3 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+            />
+            Default
+          </label>
+          <button type="button" onClick={handleSave} disabled={!newName.trim()} className={buttonClassName}>
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setSaving(false)
+              clearSaveError()
+            }}
+            className={buttonClassName}
+          >
+            Cancel
+          </button>
+          {saveError && <p className="w-full text-xs text-red-600">{saveError}</p>}
+        </div>
+      )}
+
+      {/* Presets can carry an explicit step order that the toggles below can't express */}
+      {processingOptions.pipeline && (
+        <div className="flex items-center justify-between gap-2 p-2 text-xs bg-amber-50 border border-amber-200 rounded-lg text-amber-800">
+          <span>
+            🧩 Pipeline: {processingOptions.pipeline.map(step => step.type).join(' → ')}
+          </span>
+          <button
+            type="button"
+            onClick={() => updateProcessingOptions({ pipeline: undefined })}
+            disabled={disabled}
+            className="underline hover:text-amber-900 disabled:opacity-50"
+          >
+            Use toggles instead
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+import React from 'react'
+import { SHADOW_MODES } from '../constants'
+import type { RemoveBgOptions } from '../types'
+
+interface RemoveBgOptionsPanelProps {
+  options: RemoveBgOptions
+  disabled?: boolean
+  onChange: (options: Partial<RemoveBgOptions>) => void
+}
+
+type BackgroundMode = 'transparent' | 'color' | 'image'
+
+const selectClassName = 'w-full border border-gray-300 rounded-lg px-2 py-1 text-sm focus:ring-purple-500 focus:border-purple-500'
+
+interface SliderProps {
+  label: string
+  value: number
+  disabled?: boolean
+  onChange: (value: number) => void
+}
+
+const PercentSlider: React.FC<SliderProps> = ({ label, value, disabled, onChange }) => (
+  <label className="block text-xs text-gray-600">
+    <span className="flex justify-between">
+      <span>{label}</span>
+      <span className="font-medium text-gray-700">{value}</span>
+    </span>
+    <input
+      type="range"
+      min={0}
+      max={100}
+      value={value}
+      disabled={disabled}
+      onChange={(e) => onChange(parseInt(e.target.value))}
+      className="w-full accent-purple-600"
+    />
+  </label>
+)
+
+export const RemoveBgOptionsPanel: React.FC<RemoveBgOptionsPanelProps> = ({
+  options,
+  disabled = false,
+  onChange
+}) => {
+  const backgroundMode: BackgroundMode = options.backgroundImageUrl !== undefined
+    ? 'image'
+    : options.backgroundColor !== undefined ? 'color' : 'transparent'
+
+  const handleBackgroundModeChange = (mode: BackgroundMode) => {
+    onChange({
+      backgroundColor: mode === 'color' ? (options.backgroundColor ?? '#FFFFFF') : undefined,
+      backgroundImageUrl: mode === 'image' ? (options.backgroundImageUrl ?? '') : undefined
+    })
+  }
+
+  return (
+    <div className="ml-7 p-3 bg-white border border-purple-200 rounded-lg space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block text-xs text-gray-600">
+          Output type
+          <select
+            value={options.outputType}
+            disabled={disabled}
+            onChange={(e) => onChange({
+              outputType: e.target.value as RemoveBgOptions['outputType'],
+              // Masks are black/white mattes - drop any background replacement
+              ...(e.target.value === 'mask' ? { backgroundColor: undefined, backgroundImageUrl: undefined } : {})
+            })}
+            className={selectClassName}
+          >
+            <option value="cutout">Cutout</option>
+            <option value="mask">Mask</option>
+          </select>
+        </label>
+
+        <label className="block text-xs text-gray-600">
+          Format
+          <select
+            value={options.format}
+            disabled={disabled}
+            onChange={(e) => onChange({ format: e.target.value as RemoveBgOptions['format'] })}
+            className={selectClassName}
+          >
+            <option value="PNG">PNG</option>
+            <option value="JPG">JPG</option>
+            <option value="WEBP">WEBP</option>
+          </select>
+        </label>
+
+        <label className="block text-xs text-gray-600">
+          Scale
+          <select
+            value={options.scaleMode}
+            disabled={disabled}
+            onChange={(e) => onChange({ scaleMode: e.target.value as RemoveBgOptions['scaleMode'] })}
+            className={selectClassName}
+          >
+            <option value="fit">Fit</option>
+            <option value="fill">Fill</option>
+          </select>
+        </label>
+
+        <label className="flex items-center space-x-2 text-xs text-gray-600 mt-4">
+          <input
+            type="checkbox"
+            checked={options.autoCenter}
+            disabled={disabled}
+            onChange={(e) => onChange({ autoCenter: e.target.checked })}
+            className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+          />
+          <span>Auto center subject</span>
+        </label>
+      </div>
+
+      {/* Background replacement */}
+      {options.outputType === 'cutout' && (
+        <div className="space-y-2">
+          <label className="block text-xs text-gray-600">
+            Background
+            <select
+              value={backgroundMode}
+              disabled={disabled}
+              onChange={(e) => handleBackgroundModeChange(e.target.value as BackgroundMode)}
+              className={selectClassName}
+            >
+              <option value="transparent">Transparent</option>
+              <option value="color">Solid color</option>
+              <option value="image">Image from URL</option>
+            </select>
+          </label>
+
+          {backgroundMode === 'color' && (
+            <input
+              type="color"
+              value={options.backgroundColor?.startsWith('#') ? options.backgroundColor : '#FFFFFF'}
+              disabled={disabled}
+              onChange={(e) => onChange({ backgroundColor: e.target.value.toUpperCase() })}
+              className="h-8 w-16 border border-gray-300 rounded cursor-pointer"
+            />
+          )}
+
+          {backgroundMode === 'image' && (
+            <input
+              type="url"
+              placeholder="https://example.com/background.jpg"
+              value={options.backgroundImageUrl ?? ''}
+              disabled={disabled}
+              onChange={(e) => onChange({ backgroundImageUrl: e.target.value })}
+              className="w-full border border-gray-300 rounded-lg px-2 py-1 text-sm focus:ring-purple-500 focus:border-purple-500"
+            />
+          )}
+
+          <PercentSlider
+            label="Background blur"
+            value={options.backgroundBlur}
+            disabled={disabled}
+            onChange={(backgroundBlur) => onChange({ backgroundBlur })}
+          />
+        </div>
+      )}
+
+      {/* Stroke */}
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-medium text-gray-700">Stroke</span>
+          <input
+            type="color"
+            value={`#${options.strokeColor}`}
+            disabled={disabled}
+            onChange={(e) => onChange({ strokeColor: e.target.value.replace('#', '').toUpperCase() })}
+            className="h-6 w-10 border border-gray-300 rounded cursor-pointer"
+          />
+        </div>
+        <PercentSlider
+          label="Size"
+          value={options.strokeSize}
+          disabled={disabled}
+          onChange={(strokeSize) => onChange({ strokeSize })}
+        />
+        {options.strokeSize > 0 && (
+          <PercentSlider
+            label="Opacity"
+            value={options.strokeOpacity}
+            disabled={disabled}
+            onChange={(strokeOpacity) => onChange({ strokeOpacity })}
+          />
+        )}
+      </div>
+
+      {/* Shadow */}
+      <div className="space-y-1">
+        <label className="block text-xs text-gray-600">
+          Shadow
+          <select
+            value={options.shadowMode}
+            disabled={disabled}
+            onChange={(e) => onChange({ shadowMode: e.target.value as RemoveBgOptions['shadowMode'] })}
+            className={selectClassName}
+          >
+            {SHADOW_MODES.map(mode => (
+              <option key={mode} value={mode}>{mode}</option>
+            ))}
+          </select>
+        </label>
+        {options.shadowMode !== 'disabled' && (
+          <>
+            <PercentSlider
+              label="Opacity"
+              value={options.shadowOpacity}
+              disabled={disabled}
+              onChange={(shadowOpacity) => onChange({ shadowOpacity })}
+            />
+            <PercentSlider
+              label="Blur"
+              value={options.shadowBlur}
+              disabled={disabled}
+              onChange={(shadowBlur) => onChange({ shadowBlur })}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+import React, { useEffect, useState } from 'react'
+import { useOutputPreferences } from '../hooks/useOutputPreferences'
+import { DEFAULT_FILENAME_TEMPLATE } from '../constants'
+
+interface SaveLocationPanelProps {
+  // Original file name used for the preview, e.g. "photo.jpg"
+  sampleName?: string
+  disabled?: boolean
+}
+
+const inputClassName = 'w-full border border-gray-300 rounded-lg px-2 py-1 text-sm focus:ring-purple-500 focus:border-purple-500'
+
+// Rough client-side preview; the server sanitizes the real name
+const previewFilename = (template: string, sampleName: string): string => {
+  const dot = sampleName.lastIndexOf('.')
+  const values: Record<string, string> = {
+    name: dot > 0 ? sampleName.slice(0, dot) : sampleName,
+    op: 'bg_removed',
+    factor: '',
+    date: new Date().toISOString().slice(0, 10),
+    ext: 'png',
+    preset: ''
+  }
+  const rendered = template.replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token)
+  return rendered.endsWith('.png') ? rendered : `${rendered}.png`
+}
+
+// Per-user output folder and filename template for saved results
+export const SaveLocationPanel: React.FC<SaveLocationPanelProps> = ({ sampleName = 'photo.jpg', disabled = false }) => {
+  const { preferences, saving, loadPreferences, savePreferences } = useOutputPreferences()
+  const [open, setOpen] = useState(false)
+  const [outputFolder, setOutputFolder] = useState('')
+  const [filenameTemplate, setFilenameTemplate] = useState(DEFAULT_FILENAME_TEMPLATE)
+
+  useEffect(() => {
+    loadPreferences()
+  }, [loadPreferences])
+
+  useEffect(() => {
+    if (!preferences) return
+    setOutputFolder(preferences.outputFolder || '')
+    setFilenameTemplate(preferences.filenameTemplate)
+  }, [preferences])
+
+  const handleSave = async () => {
+    const saved = await savePreferences({ outputFolder: outputFolder.trim() || null, filenameTemplate })
+    if (saved) setOpen(false)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm text-gray-700">
+        <span className="truncate">
+          📂 Save to {preferences?.outputFolder || 'the original folder'}
+        </span>
+        <button
+          onClick={() => setOpen(!open)}
+          disabled={disabled}
+          className="px-2 py-1 text-xs rounded-lg border border-purple-200 bg-white text-purple-700 hover:bg-purple-50 disabled:opacity-50"
+        >
+          {open ? 'Close' : 'Change'}
+        </button>
+      </div>
+
+      {open && (
+        <div className="ml-7 p-3 bg-white border border-purple-200 rounded-lg space-y-3">
+          <label className="block text-xs text-gray-600 space-y-1">
+            <span>Output folder (empty saves next to the original, relative paths are inside it)</span>
+            <input
+              value={outputFolder}
+              onChange={(e) => setOutputFolder(e.target.value)}
+              placeholder="/Processed"
+              className={inputClassName}
+            />
+          </label>
+          <label className="block text-xs text-gray-600 space-y-1">
+            <span>Filename template: {'{name} {op} {factor} {date} {ext} {preset}'}</span>
+            <input
+              value={filenameTemplate}
+              onChange={(e) => setFilenameTemplate(e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <p className="text-xs text-gray-500 truncate">
+            Preview: {previewFilename(filenameTemplate || DEFAULT_FILENAME_TEMPLATE, sampleName)}
+          </p>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="w-full bg-purple-600 text-white px-3 py-1.5 rounded-lg hover:bg-purple-700 disabled:opacity-50 text-sm"
+          >
+            {saving ? '🔄 Saving...' : '💾 Save Location'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
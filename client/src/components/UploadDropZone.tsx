@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { collectDroppedFiles, collectPastedImages, isFileDrag } from '../utils/droppedFiles'
+
+interface UploadDropZoneProps {
+  onFiles: (files: File[]) => void
+}
+
+// Makes the whole page a drop target for files and folders, and takes images pasted from
+// the clipboard; shows an overlay while files are dragged over the window
+export const UploadDropZone: React.FC<UploadDropZoneProps> = ({ onFiles }) => {
+  const [dragging, setDragging] = useState(false)
+  // dragenter/dragleave fire for every element crossed, so count how deep the drag is
+  const dragDepthRef = useRef(0)
+
+  // Latest handler, without re-attaching the window listeners
+  const onFilesRef = useRef(onFiles)
+  useEffect(() => {
+    onFilesRef.current = onFiles
+  }, [onFiles])
+
+  useEffect(() => {
+    const handleDragEnter = (event: DragEvent) => {
+      if (!isFileDrag(event)) return
+      event.preventDefault()
+      dragDepthRef.current++
+      setDragging(true)
+    }
+
+    const handleDragOver = (event: DragEvent) => {
+      if (!isFileDrag(event)) return
+      event.preventDefault()
+      event.dataTransfer!.dropEffect = 'copy'
+    }
+
+    const handleDragLeave = (event: DragEvent) => {
+      if (!isFileDrag(event)) return
+      dragDepthRef.current = Math.max(0, dragDepthRef.current - 1)
+      if (dragDepthRef.current === 0) setDragging(false)
+    }
+
+    const handleDrop = (event: DragEvent) => {
+      if (!isFileDrag(event)) return
+      event.preventDefault()
+      dragDepthRef.current = 0
+      setDragging(false)
+      collectDroppedFiles(event.dataTransfer!)
+        .then(files => {
+          console.log('📥 [DROP ZONE] Dropped', files.length, 'files')
+          onFilesRef.current(files)
+        })
+        .catch(error => console.error('❌ [DROP ZONE] Could not read dropped files:', error))
+    }
+
+    // Text pastes are left alone; only clipboard images are taken
+    const handlePaste = (event: ClipboardEvent) => {
+      if (!event.clipboardData) return
+      const files = collectPastedImages(event.clipboardData)
+      if (files.length === 0) return
+      event.preventDefault()
+      console.log('📋 [DROP ZONE] Pasted', files.length, 'images')
+      onFilesRef.current(files)
+    }
+
+    window.addEventListener('dragenter', handleDragEnter)
+    window.addEventListener('dragover', handleDragOver)
+    window.addEventListener('dragleave', handleDragLeave)
+    window.addEventListener('drop', handleDrop)
+    window.addEventListener('paste', handlePaste)
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter)
+      window.removeEventListener('dragover', handleDragOver)
+      window.removeEventListener('dragleave', handleDragLeave)
+      window.removeEventListener('drop', handleDrop)
+      window.removeEventListener('paste', handlePaste)
+    }
+  }, [])
+
+  if (!dragging) return null
+
+  return (
+    <div className="fixed inset-0 z-40 bg-purple-900/40 backdrop-blur-sm flex items-center justify-center pointer-events-none animate-fadeIn">
+      <div className="bg-white rounded-xl border-4 border-dashed border-purple-400 px-8 py-6 text-center shadow-xl">
+        <div className="text-4xl mb-2">📥</div>
+        <p className="text-lg font-bold text-purple-800">Drop images or folders to upload</p>
+        <p className="text-sm text-purple-600">They are saved to the root of your Dropbox</p>
+      </div>
+    </div>
+  )
+}
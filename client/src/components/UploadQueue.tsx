@@ -0,0 +1,77 @@
+import React from 'react'
+import type { UploadQueueItem, UploadStatus } from '../types'
+
+interface UploadQueueProps {
+  items: UploadQueueItem[]
+  onCancel: (id: string) => void
+  onRetry: (id: string) => void
+  onClearFinished: () => void
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: '⏳ Waiting',
+  uploading: '📤 Uploading',
+  processing: '⚙️ Processing',
+  done: '✅ Uploaded',
+  failed: '❌ Failed',
+  cancelled: '🚫 Cancelled'
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`
+
+// Per-file progress for the upload queue, with cancel and retry
+export const UploadQueue: React.FC<UploadQueueProps> = ({ items, onCancel, onRetry, onClearFinished }) => {
+  const active = items.filter(item => ['queued', 'uploading', 'processing'].includes(item.status)).length
+
+  return (
+    <div className="mt-3 bg-white/80 rounded-lg border border-purple-200">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-purple-100 text-sm text-purple-800">
+        <span className="font-semibold">
+          {active > 0 ? `${active} of ${items.length} files in progress` : `${items.length} files`}
+        </span>
+        {active < items.length && (
+          <button onClick={onClearFinished} className="text-xs text-gray-500 hover:text-gray-700 underline">
+            Clear finished
+          </button>
+        )}
+      </div>
+      <ul className="max-h-64 overflow-y-auto divide-y divide-purple-50">
+        {items.map(item => (
+          <li key={item.id} className="px-3 py-2 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <span className="truncate text-gray-800" title={item.name}>{item.name}</span>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="text-xs text-gray-500">{formatSize(item.size)}</span>
+                <span className="text-xs text-purple-700">
+                  {item.status === 'done' && item.processed ? '✨ Processed' : STATUS_LABELS[item.status]}
+                  {item.status === 'uploading' && ` ${item.progress}%`}
+                </span>
+                {(item.status === 'queued' || item.status === 'uploading') && (
+                  <button onClick={() => onCancel(item.id)} className="text-xs text-gray-500 hover:text-red-600" title="Cancel">
+                    ✕
+                  </button>
+                )}
+                {(item.status === 'failed' || item.status === 'cancelled') && (
+                  <button onClick={() => onRetry(item.id)} className="text-xs text-purple-600 hover:text-purple-800 underline">
+                    Retry
+                  </button>
+                )}
+              </div>
+            </div>
+            {item.status === 'uploading' && (
+              <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                <div
+                  className="bg-gradient-to-r from-purple-600 to-pink-600 h-1.5 rounded-full transition-all duration-300"
+                  style={{ width: `${item.progress}%` }}
+                ></div>
+              </div>
+            )}
+            {item.error && <p className="text-xs text-red-600 mt-1">{item.error}</p>}
+            {item.outputPath && <p className="text-xs text-gray-500 mt-1 truncate" title={item.outputPath}>→ {item.outputPath}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
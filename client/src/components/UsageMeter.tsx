@@ -0,0 +1,50 @@
+import React from 'react'
+import { useUsage } from '../hooks/useUsage'
+import type { PeriodUsage } from '../types'
+
+const PERIOD_LABELS: Record<PeriodUsage['period'], string> = {
+  day: 'today',
+  month: 'this month'
+}
+
+const formatCredits = (credits: number) => Number.isInteger(credits) ? `${credits}` : credits.toFixed(1)
+
+// The period closest to its quota, or null when neither has one
+const tightestQuota = (periods: PeriodUsage[]): PeriodUsage | null => {
+  const limited = periods.filter(period => period.limit !== null && period.limit > 0)
+  if (limited.length === 0) return null
+  return limited.reduce((tightest, period) =>
+    period.credits / period.limit! > tightest.credits / tightest.limit! ? period : tightest)
+}
+
+// Header meter for Picsart credits used against the user's daily / monthly quota
+export const UsageMeter: React.FC<{ enabled: boolean }> = ({ enabled }) => {
+  const { usage } = useUsage(enabled)
+  if (!usage) return null
+
+  const quota = tightestQuota([usage.day, usage.month])
+  const shown = quota || usage.day
+  const percent = quota ? Math.min(100, Math.round((quota.credits / quota.limit!) * 100)) : 0
+  const barColor = percent >= 100 ? 'bg-red-400' : percent >= 80 ? 'bg-yellow-300' : 'bg-white'
+
+  const details = [usage.day, usage.month].map(period =>
+    `${PERIOD_LABELS[period.period]}: ${formatCredits(period.credits)}${period.limit !== null ? ` of ${period.limit}` : ''} credits, ` +
+    `${period.calls} calls (${period.failed} failed), ${period.megapixels} MP`
+  ).join('\n')
+
+  return (
+    <div
+      className="bg-white/20 text-white px-3 py-1 rounded-lg text-xs font-medium hidden sm:flex flex-col justify-center min-w-[8rem] animate-fadeInUp animation-delay-300"
+      title={details}
+    >
+      <span className="whitespace-nowrap">
+        ⚡ {formatCredits(shown.credits)}{quota ? ` / ${quota.limit}` : ''} credits {PERIOD_LABELS[shown.period]}
+      </span>
+      {quota && (
+        <div className="w-full bg-white/30 rounded-full h-1.5 mt-1">
+          <div className={`${barColor} h-1.5 rounded-full transition-all duration-300`} style={{ width: `${percent}%` }}></div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react'
+
+interface VirtualizedGridProps<T> {
+  items: T[]
+  getKey: (item: T) => string
+  renderItem: (item: T, index: number) => React.ReactNode
+  // Scroll container; also the root for anything observing the rendered items
+  scrollRef: React.RefObject<HTMLDivElement | null>
+  rowHeight: number
+  // Columns are as many as fit at this width, stretched to fill the row
+  minColumnWidth: number
+  gap: number
+  // Rows rendered above and below the viewport
+  overscanRows?: number
+  // Called while the last rows are in range, to load the next page
+  onEndReached?: () => void
+  className?: string
+  style?: React.CSSProperties
+  footer?: React.ReactNode
+}
+
+// Fixed-height rows in a scroll container; only rows near the viewport are in the DOM
+export const VirtualizedGrid = <T,>({
+  items,
+  getKey,
+  renderItem,
+  scrollRef,
+  rowHeight,
+  minColumnWidth,
+  gap,
+  overscanRows = 2,
+  onEndReached,
+  className = '',
+  style,
+  footer
+}: VirtualizedGridProps<T>) => {
+  const [viewport, setViewport] = useState({ width: 0, height: 0 })
+  const [scrollTop, setScrollTop] = useState(0)
+
+  useEffect(() => {
+    const element = scrollRef.current
+    if (!element) return
+    const measure = () => setViewport({ width: element.clientWidth, height: element.clientHeight })
+    measure()
+    const resizeObserver = new ResizeObserver(measure)
+    resizeObserver.observe(element)
+    return () => resizeObserver.disconnect()
+  }, [scrollRef])
+
+  const columns = Math.max(1, Math.floor((viewport.width + gap) / (minColumnWidth + gap)))
+  const rowCount = Math.ceil(items.length / columns)
+  const stride = rowHeight + gap
+  const firstRow = Math.max(0, Math.floor(scrollTop / stride) - overscanRows)
+  const lastRow = Math.min(rowCount - 1, Math.ceil((scrollTop + viewport.height) / stride) + overscanRows)
+
+  // Also fires with no items at all, so a page that was entirely filtered out loads the next
+  useEffect(() => {
+    if (onEndReached && lastRow >= rowCount - 1) {
+      onEndReached()
+    }
+  }, [onEndReached, lastRow, rowCount])
+
+  const rows: number[] = []
+  for (let row = firstRow; row <= lastRow; row++) rows.push(row)
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className={`overflow-y-auto ${className}`}
+      style={style}
+    >
+      <div className="relative" style={{ height: Math.max(0, rowCount * stride - gap) }}>
+        {rows.map(row => (
+          <div
+            key={row}
+            className="absolute left-0 right-0 grid"
+            style={{ top: row * stride, height: rowHeight, gap, gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+          >
+            {items.slice(row * columns, (row + 1) * columns).map((item, offset) => (
+              <React.Fragment key={getKey(item)}>{renderItem(item, row * columns + offset)}</React.Fragment>
+            ))}
+          </div>
+        ))}
+      </div>
+      {footer}
+    </div>
+  )
+}
@@ -1,6 +1,10 @@
+import type { ConflictPolicy, GallerySort, JobStepName, OutputFormat, OutputSettings, ProcessingOptions, RemoveBgOptions, RemoveBgShadowMode, UploadAction } from '../types'
+
 export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api'
 export const DROPBOX_CLIENT_ID = import.meta.env.VITE_DROPBOX_CLIENT_ID || ''
 export const DROPBOX_REDIRECT_URI = import.meta.env.VITE_DROPBOX_REDIRECT_URI || 'https://dc506a4d934e.ngrok-free.app/auth'
+// Use the server's in-memory Dropbox (server must run with DROPBOX_FAKE=true)
+export const DROPBOX_FAKE = import.meta.env.VITE_DROPBOX_FAKE === 'true'
 
 export const STEPS = {
   SELECTION: 'selection',
@@ -8,10 +12,120 @@ export const STEPS = {
   RESULTS: 'results'
 } as const
 
-export const DEFAULT_PROCESSING_OPTIONS = {
+export const DEFAULT_REMOVE_BG_OPTIONS: RemoveBgOptions = {
+  outputType: 'cutout',
+  format: 'PNG',
+  backgroundBlur: 0,
+  scaleMode: 'fit',
+  autoCenter: false,
+  strokeSize: 0,
+  strokeColor: 'FFFFFF',
+  strokeOpacity: 100,
+  shadowMode: 'disabled',
+  shadowOpacity: 20,
+  shadowBlur: 50
+}
+
+export const DEFAULT_PROCESSING_OPTIONS: ProcessingOptions = {
   removeBg: false,
   upscale: false,
-  upscaleFactor: 2
+  upscaleFactor: 2,
+  removeBgOptions: DEFAULT_REMOVE_BG_OPTIONS
+}
+
+export const SHADOW_MODES: RemoveBgShadowMode[] = [
+  'disabled', 'custom', 'bottom-right', 'bottom', 'bottom-left',
+  'left', 'right', 'top-left', 'top', 'top-right'
+]
+
+export const UPSCALE_FACTORS = [2, 4, 6, 8]
+
+export const OUTPUT_FORMATS: { value: OutputFormat; label: string }[] = [
+  { value: 'PNG', label: 'PNG (lossless, transparency)' },
+  { value: 'JPEG', label: 'JPEG (smallest for photos, no transparency)' },
+  { value: 'WEBP', label: 'WebP' },
+  { value: 'AVIF', label: 'AVIF' },
+  { value: 'TIFF', label: 'TIFF' }
+]
+
+export const DEFAULT_OUTPUT_SETTINGS: Omit<OutputSettings, 'format'> = {
+  quality: 90,
+  compressionLevel: 6,
+  lossless: false,
+  tiffCompression: 'lzw'
 }
 
-export const UPSCALE_FACTORS = [2, 4, 6, 8]
\ No newline at end of file
+export const JOB_POLL_INTERVAL_MS = 1500
+
+export const USAGE_POLL_INTERVAL_MS = 60000
+
+// Extensions the gallery shows, and offers as filters
+export const GALLERY_EXTENSIONS = ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'webp']
+
+export const GALLERY_SORT_OPTIONS: { value: GallerySort; label: string }[] = [
+  { value: 'name', label: 'Name' },
+  { value: 'size', label: 'Size' },
+  { value: 'modified', label: 'Modified' }
+]
+
+// Typing pause before the gallery search runs
+export const GALLERY_SEARCH_DEBOUNCE_MS = 400
+
+// Roughly how many folder entries the gallery reads from Dropbox before showing a page
+export const IMAGE_LIST_PAGE_SIZE = 500
+
+// Gallery thumbnails per request to the server, which fetches them from Dropbox 25 at a time
+export const THUMBNAIL_BATCH_SIZE = 100
+
+// Gallery cards that scroll into view within this window share one thumbnail request
+export const THUMBNAIL_FLUSH_DELAY_MS = 50
+
+// How far outside the gallery's viewport a card starts loading its thumbnail
+export const THUMBNAIL_ROOT_MARGIN = '200px 0px'
+
+// How long each request for Dropbox changes waits on the server (30-120s)
+export const CHANGES_LONGPOLL_TIMEOUT_S = 60
+
+// Pause before polling for changes again after a failed request
+export const CHANGES_RETRY_DELAY_MS = 15000
+
+// Uploads go to Dropbox in chunks of this size, so a dropped connection only costs one chunk
+export const UPLOAD_CHUNK_BYTES = 8 * 1024 * 1024
+
+// Largest image the server accepts for upload
+export const MAX_UPLOAD_BYTES = 500 * 1024 * 1024
+
+// Files uploading at the same time from the upload queue
+export const UPLOAD_CONCURRENCY = 2
+
+// Attempts per chunk after a network or server error, waiting a little longer each time
+export const UPLOAD_CHUNK_RETRIES = 5
+export const UPLOAD_RETRY_DELAY_MS = 2000
+
+// Dropbox drops unfinished upload sessions after 7 days; older saved uploads start over
+export const UPLOAD_SESSION_MAX_AGE_MS = 6 * 24 * 60 * 60 * 1000
+
+export const DEFAULT_FILENAME_TEMPLATE = '{name}_{op}.{ext}'
+
+export const CONFLICT_POLICIES: { value: ConflictPolicy; label: string }[] = [
+  { value: 'autorename', label: 'Keep both (add "(1)", "(2)"...)' },
+  { value: 'overwrite', label: 'Overwrite the existing file' },
+  { value: 'update', label: 'Save as a new revision of the existing file' },
+  { value: 'skip_identical', label: 'Skip if an identical output exists' }
+]
+
+export const UPLOAD_ACTION_LABELS: Record<UploadAction, string> = {
+  created: 'saved',
+  renamed: 'saved under a new name',
+  overwritten: 'overwrote existing',
+  updated: 'new revision',
+  skipped: 'identical, skipped'
+}
+
+export const STEP_NAMES: Record<JobStepName, string> = {
+  download: 'Download',
+  removeBg: 'Remove background',
+  upscale: 'Upscale',
+  convert: 'Convert',
+  resize: 'Resize'
+}
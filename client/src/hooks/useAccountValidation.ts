@@ -1,5 +1,5 @@
 import { useCallback, useEffect } from 'react'
-import { Dropbox } from 'dropbox'
+import { createDropboxClient } from '../api/dropboxClient'
 import { useAuth } from './useAuth'
 import { useAppStore } from '../store'
 
@@ -43,7 +43,7 @@ export const useAccountValidation = () => {
       console.log('🔍 [ACCOUNT VALIDATION] Stored user:', userInfo.userId, userInfo.email)
 
       // Get current account from Dropbox
-      const dbx = new Dropbox({ accessToken })
+      const dbx = createDropboxClient(accessToken)
       const currentAccount = await dbx.usersGetCurrentAccount()
       const currentAccountId = currentAccount.result.account_id
       const currentEmail = currentAccount.result.email
@@ -0,0 +1,63 @@
+import { useCallback, useState } from 'react'
+import { useAppStore } from '../store'
+import { rulesApi } from '../api/rulesApi'
+import { describeApiError } from '../utils/apiErrors'
+import type { AutomationRule, AutomationRuleInput } from '../types'
+
+const byName = (a: AutomationRule, b: AutomationRule) => a.name.localeCompare(b.name)
+
+export const useAutomationRules = () => {
+  const { setStatus } = useAppStore()
+  const [rules, setRules] = useState<AutomationRule[]>([])
+  const [loading, setLoading] = useState(false)
+
+  const loadRules = useCallback(async () => {
+    setLoading(true)
+    try {
+      const loaded = await rulesApi.list()
+      console.log('🤖 [RULES] Loaded', loaded.length, 'rules')
+      setRules(loaded)
+    } catch (error) {
+      console.error('❌ [RULES] Failed to load rules:', error)
+      setStatus('❌ Could not load automation rules: ' + describeApiError(error))
+    } finally {
+      setLoading(false)
+    }
+  }, [setStatus])
+
+  const createRule = useCallback(async (input: AutomationRuleInput) => {
+    try {
+      const rule = await rulesApi.create(input)
+      setRules(current => [...current, rule].sort(byName))
+      setStatus(`🤖 Created rule "${rule.name}"`)
+      return rule
+    } catch (error) {
+      console.error('❌ [RULES] Failed to create rule:', error)
+      setStatus('❌ Could not create rule: ' + describeApiError(error))
+      return null
+    }
+  }, [setStatus])
+
+  const toggleRule = useCallback(async (rule: AutomationRule) => {
+    try {
+      const updated = await rulesApi.update(rule.ruleId, { enabled: !rule.enabled })
+      setRules(current => current.map(r => r.ruleId === rule.ruleId ? updated : r))
+      setStatus(updated.enabled ? `▶️ Rule "${updated.name}" enabled` : `⏸️ Rule "${updated.name}" paused`)
+    } catch (error) {
+      console.error('❌ [RULES] Failed to update rule:', error)
+      setStatus('❌ Could not update rule: ' + describeApiError(error))
+    }
+  }, [setStatus])
+
+  const deleteRule = useCallback(async (ruleId: string) => {
+    try {
+      await rulesApi.remove(ruleId)
+      setRules(current => current.filter(r => r.ruleId !== ruleId))
+    } catch (error) {
+      console.error('❌ [RULES] Failed to delete rule:', error)
+      setStatus('❌ Could not delete rule: ' + describeApiError(error))
+    }
+  }, [setStatus])
+
+  return { rules, loading, loadRules, createRule, toggleRule, deleteRule }
+}
@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAppStore } from '../store'
+import { useAccountValidation } from './useAccountValidation'
+import { imageProcessingApi, buildPipeline } from '../api/imageProcessingApi'
+import { JOB_POLL_INTERVAL_MS } from '../constants'
+import { describeApiError } from '../utils/apiErrors'
+import type { BatchSource, ProcessingBatch } from '../types'
+
+// Start a batch with the current processing options and open its results view
+export const useStartBatch = () => {
+  const navigate = useNavigate()
+  const { validateBeforeOperation } = useAccountValidation()
+  const { processingOptions, activePresetId, setBatchSelection, setStatus } = useAppStore()
+  const [starting, setStarting] = useState(false)
+
+  const startBatch = useCallback(async (source: BatchSource) => {
+    if (buildPipeline(processingOptions).length === 0) {
+      setStatus('❌ Please select at least one processing option (Remove Background or Upscale).')
+      return
+    }
+
+    const isAccountValid = await validateBeforeOperation('USER_OPERATION')
+    if (!isAccountValid) {
+      setStatus('🚨 Account verification required. Please check the warning banner above.')
+      return
+    }
+
+    setStarting(true)
+    setStatus('🚀 Starting batch...')
+    try {
+      const { batchId, total } = await imageProcessingApi.processBatch(source, processingOptions, activePresetId)
+      console.log('🆔 [BATCH] Batch started:', batchId, 'files:', total)
+      setBatchSelection([])
+      setStatus(`🚀 Processing ${total} images...`)
+      navigate(`/batch/${batchId}`)
+    } catch (error) {
+      console.error('❌ [BATCH] Could not start batch:', error)
+      setStatus('❌ Batch failed to start: ' + describeApiError(error))
+    } finally {
+      setStarting(false)
+    }
+  }, [processingOptions, activePresetId, validateBeforeOperation, setBatchSelection, setStatus, navigate])
+
+  return { startBatch, starting }
+}
+
+// Poll a batch until every file has finished
+export const useBatch = (batchId: string | undefined) => {
+  const [batch, setBatch] = useState<ProcessingBatch | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!batchId) return
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+
+    const poll = async () => {
+      try {
+        const latest = await imageProcessingApi.getBatch(batchId)
+        if (cancelled) return
+        setBatch(latest)
+        setError(null)
+        if (latest.status === 'completed' || latest.status === 'failed') {
+          console.log(`🏁 [BATCH] Batch ${batchId} ${latest.status}: ${latest.succeeded} succeeded, ${latest.failed} failed`)
+          return
+        }
+      } catch (pollError) {
+        if (cancelled) return
+        console.error('❌ [BATCH] Failed to load batch:', pollError)
+        if ((pollError as { response?: { status?: number } }).response?.status === 404) {
+          setError('Batch not found')
+          return
+        }
+        setError((pollError as Error).message)
+      }
+      timer = setTimeout(poll, JOB_POLL_INTERVAL_MS)
+    }
+
+    poll()
+    return () => {
+      cancelled = true
+      if (timer) clearTimeout(timer)
+    }
+  }, [batchId])
+
+  return { batch, error }
+}
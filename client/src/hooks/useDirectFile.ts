@@ -3,6 +3,7 @@ import { useParams, useSearchParams, useNavigate } from 'react-router-dom'
 import { useAppStore } from '../store'
 // Account validation removed - 409 errors trigger banner directly via events
 import { dropboxApi } from '../api/dropboxApi'
+import { thumbnailsApi } from '../api/thumbnailsApi'
 
 export const useDirectFile = () => {
   const { fileId } = useParams<{ fileId?: string }>()
@@ -78,7 +79,7 @@ export const useDirectFile = () => {
       
       // Load thumbnail
       try {
-        const thumbnailUrl = await dropboxApi.getThumbnail(accessToken, imageFile.id)
+        const thumbnailUrl = await thumbnailsApi.getThumbnail(imageFile.id, imageFile.rev)
         if (thumbnailUrl) {
           setSelectedImageThumbnail(thumbnailUrl)
         }
@@ -1,22 +1,44 @@
 import { useCallback } from 'react'
 import { useAppStore } from '../store'
 import { dropboxApi } from '../api/dropboxApi'
+import { thumbnailsApi } from '../api/thumbnailsApi'
+import { describeApiError } from '../utils/apiErrors'
 import type { ImageFile } from '../types'
 
+// Bumped by every new listing so a slow response for a folder the user already left is dropped
+let listingGeneration = 0
+
 export const useDropbox = () => {
   const {
     accessToken,
     images,
     thumbnailUrls,
     loading,
+    galleryFolder,
+    galleryRecursive,
+    galleryFolders,
+    imagesCursor,
+    gallerySearch,
     setImages,
     setThumbnailUrl,
+    setGalleryFolder,
+    setGalleryRecursive,
+    setGalleryFolders,
+    setImagesCursor,
+    setGallerySearch,
+    setPendingNewImages,
     setLoading,
     setStatus
   } = useAppStore()
 
   // === LoadImages function ===
-  const loadImages = useCallback(async () => {
+  // First page of a folder (the current one by default); the gallery shows it from scratch.
+  // Defaults are read at call time so the callback stays stable across folder changes.
+  const loadImages = useCallback(async (
+    folder: string = useAppStore.getState().galleryFolder,
+    recursive: boolean = useAppStore.getState().galleryRecursive
+  ) => {
+    const generation = ++listingGeneration
     try {
       setLoading(true)
       setStatus('🔄 Loading images...')
@@ -26,49 +48,88 @@ export const useDropbox = () => {
         setLoading(false)
         return
       }
-      
-      const imageFiles = await dropboxApi.listImages(accessToken)
-      setImages(imageFiles)
-      
-      // Load thumbnails with improved performance - limit concurrent requests
-      console.log('🖼️ [LOAD IMAGES] Fetching thumbnails for', imageFiles.length, 'images...')
-      
-      // Load thumbnails in batches to avoid overwhelming the API
-      const batchSize = 5
-      for (let i = 0; i < imageFiles.length; i += batchSize) {
-        const batch = imageFiles.slice(i, i + batchSize)
-        
-        // Process batch in parallel
-        const thumbnailPromises = batch.map(async (image) => {
-          try {
-            const thumbnailUrl = await dropboxApi.getThumbnail(accessToken, image.id)
-            if (thumbnailUrl) {
-              setThumbnailUrl(image.id, thumbnailUrl)
-              console.log('✅ [LOAD IMAGES] Loaded thumbnail for:', image.name)
-            }
-          } catch (error) {
-            console.error('❌ Error fetching thumbnail for', image.name, ':', error)
-          }
-        })
-        
-        // Wait for current batch to complete before starting next batch
-        await Promise.allSettled(thumbnailPromises)
-        
-        // Small delay between batches to avoid rate limiting
-        if (i + batchSize < imageFiles.length) {
-          await new Promise(resolve => setTimeout(resolve, 100))
-        }
-      }
-      
+
+      setGalleryFolder(folder)
+      setGalleryRecursive(recursive)
+      setGallerySearch(null)
+      setPendingNewImages([])
+      const page = await dropboxApi.listImages({ path: folder, recursive })
+      if (generation !== listingGeneration) return
+
+      setImages(page.images)
+      setGalleryFolders(page.folders)
+      setImagesCursor(page.cursor)
       setLoading(false)
-      setStatus(`✅ Loaded ${imageFiles.length} images`)
+      setStatus(`✅ Loaded ${page.images.length}${page.hasMore ? '+' : ''} images`)
+      // Thumbnails load as their cards scroll into view (see useLazyThumbnails)
       
     } catch (error) {
+      if (generation !== listingGeneration) return
       console.error('❌ [LOAD IMAGES] Error loading images:', error)
-      setStatus('❌ Failed to load images: ' + (error as Error).message)
+      setImages([])
+      setGalleryFolders([])
+      setImagesCursor(null)
+      setStatus('❌ Failed to load images: ' + describeApiError(error))
+      setLoading(false)
+    }
+  }, [accessToken, setImages, setGalleryFolder, setGalleryRecursive, setGallerySearch, setPendingNewImages, setGalleryFolders, setImagesCursor, setLoading, setStatus])
+
+  // First page of an account-wide file name search; the gallery shows the results instead of a folder
+  const searchImages = useCallback(async (query: string, extensions: string[] = []) => {
+    const generation = ++listingGeneration
+    try {
+      setLoading(true)
+      setStatus(`🔎 Searching for "${query}"...`)
+      setGallerySearch(query)
+      setPendingNewImages([])
+      const page = await dropboxApi.searchImages(query, { extensions })
+      if (generation !== listingGeneration) return
+
+      setImages(page.images)
+      setGalleryFolders([])
+      setImagesCursor(page.cursor)
+      setLoading(false)
+      setStatus(`🔎 Found ${page.images.length}${page.hasMore ? '+' : ''} images matching "${query}"`)
+    } catch (error) {
+      if (generation !== listingGeneration) return
+      console.error('❌ [SEARCH IMAGES] Error searching images:', error)
+      setImages([])
+      setImagesCursor(null)
+      setStatus('❌ Search failed: ' + describeApiError(error))
+      setLoading(false)
+    }
+  }, [setImages, setGallerySearch, setPendingNewImages, setGalleryFolders, setImagesCursor, setLoading, setStatus])
+
+  // Next page of the current folder or search, appended to the gallery
+  const loadMoreImages = useCallback(async () => {
+    if (!accessToken || !imagesCursor || loading) return
+    const generation = ++listingGeneration
+    try {
+      setLoading(true)
+      const page = gallerySearch !== null
+        ? await dropboxApi.searchImages(gallerySearch, { cursor: imagesCursor })
+        : await dropboxApi.listImages({ path: galleryFolder, recursive: galleryRecursive, cursor: imagesCursor })
+      if (generation !== listingGeneration) return
+
+      const state = useAppStore.getState()
+      setImages([...state.images, ...page.images])
+      setGalleryFolders([...state.galleryFolders, ...page.folders])
+      setImagesCursor(page.cursor)
+      setLoading(false)
+      setStatus(`✅ Loaded ${state.images.length + page.images.length}${page.hasMore ? '+' : ''} images`)
+    } catch (error) {
+      if (generation !== listingGeneration) return
+      // The folder changed too much for Dropbox to carry on from the cursor: start over
+      if (gallerySearch === null && (error as { response?: { status?: number } })?.response?.status === 410) {
+        console.log('♻️ [LOAD IMAGES] Listing cursor expired, reloading from the first page')
+        loadImages(galleryFolder, galleryRecursive)
+        return
+      }
+      console.error('❌ [LOAD IMAGES] Error loading more images:', error)
+      setStatus('❌ Failed to load more images: ' + (error as Error).message)
       setLoading(false)
     }
-  }, [accessToken, setImages, setThumbnailUrl, setLoading, setStatus])
+  }, [accessToken, imagesCursor, loading, gallerySearch, galleryFolder, galleryRecursive, loadImages, setImages, setGalleryFolders, setImagesCursor, setLoading, setStatus])
 
   const fetchThumbnail = useCallback(async (image: ImageFile): Promise<string> => {
     console.log('🔄 fetchThumbnail called for:', image.name, image.id)
@@ -79,7 +140,7 @@ export const useDropbox = () => {
     }
     
     try {
-      const thumbnailUrl = await dropboxApi.getThumbnail(accessToken, image.id)
+      const thumbnailUrl = await thumbnailsApi.getThumbnail(image.id, image.rev)
       if (thumbnailUrl) {
         setThumbnailUrl(image.id, thumbnailUrl)
         console.log('✅ Thumbnail created successfully for:', image.name)
@@ -96,7 +157,14 @@ export const useDropbox = () => {
     images,
     thumbnailUrls,
     loading,
+    galleryFolder,
+    galleryRecursive,
+    galleryFolders,
+    gallerySearch,
+    hasMoreImages: imagesCursor !== null,
     loadImages,
+    searchImages,
+    loadMoreImages,
     fetchThumbnail
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,117 @@
+import { useEffect, useRef } from 'react'
+import axios from 'axios'
+import { useAppStore } from '../store'
+import { dropboxApi } from '../api/dropboxApi'
+import { CHANGES_LONGPOLL_TIMEOUT_S, CHANGES_RETRY_DELAY_MS } from '../constants'
+import type { GalleryChanges, ImageFile } from '../types'
+
+// Resolves after `ms`, or straight away once the signal aborts. The signal lives as long as
+// the gallery, so the abort listener is taken off again when the wait ends normally.
+const pause = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const onAbort = () => {
+    clearTimeout(timer)
+    resolve()
+  }
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort)
+    resolve()
+  }, ms)
+  signal.addEventListener('abort', onAbort, { once: true })
+})
+
+// Whether a new image belongs in what the gallery is showing: the current folder (and below it
+// when recursive), or the file names matching the current search
+const isInGalleryScope = (image: ImageFile): boolean => {
+  const { galleryFolder, galleryRecursive, gallerySearch } = useAppStore.getState()
+  if (gallerySearch !== null) {
+    const name = image.name.toLowerCase()
+    return gallerySearch.toLowerCase().split(/\s+/).filter(Boolean).every(word => name.includes(word))
+  }
+  const folder = galleryFolder === '/' ? '' : galleryFolder.toLowerCase()
+  return galleryRecursive
+    ? image.path_lower.startsWith(folder + '/')
+    : image.path_lower.substring(0, image.path_lower.lastIndexOf('/')) === folder
+}
+
+// Patch the gallery with what changed: known images are updated in place (including the
+// placeholders added after processing), deleted ones removed, and new ones held back for the
+// "show them" notification
+const applyChanges = (changes: GalleryChanges) => {
+  const state = useAppStore.getState()
+  const isDeleted = (image: ImageFile) =>
+    changes.deleted.some(path => image.path_lower === path || image.path_lower.startsWith(path + '/'))
+
+  const images = state.images.filter(image => !isDeleted(image))
+  const pending = state.pendingNewImages.filter(image => !isDeleted(image))
+  let added = 0
+
+  changes.images.forEach(changed => {
+    const matches = (image: ImageFile) => image.id === changed.id || image.path_lower === changed.path_lower
+    const index = images.findIndex(matches)
+    if (index !== -1) {
+      images[index] = changed
+      return
+    }
+    const pendingIndex = pending.findIndex(matches)
+    if (pendingIndex !== -1) {
+      pending[pendingIndex] = changed
+    } else if (isInGalleryScope(changed)) {
+      pending.push(changed)
+      added++
+    }
+  })
+
+  state.setImages(images)
+  state.setPendingNewImages(pending)
+  if (added > 0) {
+    console.log('🆕 [CHANGES]', added, 'new images on Dropbox')
+    state.setNewImageCount(pending.length)
+    state.setShowNewImageNotification(true)
+  }
+}
+
+// Keep the gallery in step with Dropbox while it is on screen: a long-poll through the server
+// that answers as soon as something changes. Each mounted gallery keeps its own cursor, so
+// other tabs and devices don't take its changes. `onReset` reloads the gallery when the
+// cursor expired.
+export const useDropboxChanges = (onReset: () => void) => {
+  const { accessToken } = useAppStore()
+
+  // Latest reload, without restarting the poll loop when the gallery's view changes
+  const onResetRef = useRef(onReset)
+  useEffect(() => {
+    onResetRef.current = onReset
+  }, [onReset])
+
+  useEffect(() => {
+    if (!accessToken) return
+    const controller = new AbortController()
+    let cursor: string | null = null
+
+    const poll = async () => {
+      console.log('👀 [CHANGES] Watching Dropbox for changes')
+      while (!controller.signal.aborted) {
+        try {
+          const changes = await dropboxApi.waitForChanges(CHANGES_LONGPOLL_TIMEOUT_S, cursor, controller.signal)
+          cursor = changes.cursor
+          if (changes.reset) {
+            console.log('♻️ [CHANGES] Change tracking restarted, reloading the gallery')
+            onResetRef.current()
+          } else if (changes.changed) {
+            applyChanges(changes)
+          }
+          if (changes.backoff) {
+            await pause(changes.backoff * 1000, controller.signal)
+          }
+        } catch (error) {
+          if (axios.isCancel(error)) return
+          console.error('❌ [CHANGES] Error waiting for Dropbox changes:', error)
+          await pause(CHANGES_RETRY_DELAY_MS, controller.signal)
+        }
+      }
+    }
+
+    poll()
+    return () => controller.abort()
+  }, [accessToken])
+}
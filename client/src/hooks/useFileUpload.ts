@@ -1,98 +1,176 @@
 import { useCallback } from 'react'
+import axios from 'axios'
 import { useAppStore } from '../store'
-import { useImageProcessing } from './useImageProcessing'
-import { imageProcessingApi } from '../api/imageProcessingApi'
-import type { ImageFile } from '../types'
+import { uploadsApi } from '../api/uploadsApi'
+import { buildPipeline, imageProcessingApi } from '../api/imageProcessingApi'
+import { MAX_UPLOAD_BYTES, UPLOAD_CONCURRENCY } from '../constants'
+import { isUploadableImage } from '../utils/droppedFiles'
+import { describeApiError } from '../utils/apiErrors'
+import type { ImageFile, UploadQueueItem } from '../types'
+
+// Files and in-flight uploads by queue item. They live outside the store (they can't be
+// serialized) and outside the component, so uploads carry on when the user opens an image.
+const queuedFiles = new Map<string, File>()
+const controllers = new Map<string, AbortController>()
+let nextUploadId = 0
+
+// Put a finished upload at the top of the gallery. The change feed may have seen it first
+// and be holding it back as new, so it is taken out of there.
+const addToGallery = (image: ImageFile) => {
+  const state = useAppStore.getState()
+  const isSame = (other: ImageFile) => other.id === image.id || other.path_lower === image.path_lower
+  state.setImages([image, ...state.images.filter(other => !isSame(other))])
+  state.setPendingNewImages(state.pendingNewImages.filter(other => !isSame(other)))
+}
+
+// Whether the current options would do anything to an image
+const canAutoProcess = () => buildPipeline(useAppStore.getState().processingOptions).length > 0
+
+// Run an uploaded image through the current processing options (and preset, for the {preset} token)
+const processUpload = async (id: string, image: ImageFile) => {
+  const { processingOptions, activePresetId, updateUploadItem } = useAppStore.getState()
+  updateUploadItem(id, { status: 'processing', error: undefined })
+  try {
+    console.log('⚙️ [UPLOAD QUEUE] Processing uploaded image:', image.name)
+    const { jobId } = await imageProcessingApi.processImage(image, processingOptions, activePresetId)
+    const result = await imageProcessingApi.pollJob(jobId)
+    updateUploadItem(id, { status: 'done', processed: true, outputPath: result.results.final })
+  } catch (error) {
+    console.error('❌ [UPLOAD QUEUE] Processing failed for', image.name, error)
+    updateUploadItem(id, { status: 'failed', error: 'Processing failed: ' + describeApiError(error) })
+  }
+}
+
+const runUpload = async (item: UploadQueueItem) => {
+  const { updateUploadItem } = useAppStore.getState()
+  const file = queuedFiles.get(item.id)
+  if (!file) {
+    updateUploadItem(item.id, { status: 'failed', error: 'The file is no longer available, add it again' })
+    return
+  }
+
+  const controller = new AbortController()
+  controllers.set(item.id, controller)
+  updateUploadItem(item.id, { status: 'uploading', error: undefined })
+
+  try {
+    const uploaded = await uploadsApi.uploadFile(file, progress => updateUploadItem(item.id, { progress }), controller.signal)
+    const image: ImageFile = {
+      id: uploaded.fileId,
+      name: uploaded.fileName,
+      path_display: uploaded.filePath,
+      path_lower: uploaded.filePath.toLowerCase(),
+      size: uploaded.fileSize
+    }
+    addToGallery(image)
+    updateUploadItem(item.id, { status: 'done', progress: 100, image })
+    console.log('✅ [UPLOAD QUEUE] Uploaded', file.name)
+
+    // Processing doesn't hold up the next upload
+    if (useAppStore.getState().autoProcessUploads && canAutoProcess()) {
+      processUpload(item.id, image)
+    }
+  } catch (error) {
+    if (axios.isCancel(error)) {
+      console.log('🚫 [UPLOAD QUEUE] Cancelled', file.name)
+      updateUploadItem(item.id, { status: 'cancelled' })
+      return
+    }
+    console.error('❌ [UPLOAD QUEUE] Upload failed for', file.name, error)
+    updateUploadItem(item.id, { status: 'failed', error: describeApiError(error) })
+  } finally {
+    controllers.delete(item.id)
+    pumpQueue()
+  }
+}
+
+// Start queued uploads while fewer than UPLOAD_CONCURRENCY are running
+function pumpQueue() {
+  const queue = useAppStore.getState().uploadQueue
+  const running = queue.filter(item => item.status === 'uploading').length
+  queue
+    .filter(item => item.status === 'queued')
+    .slice(0, Math.max(0, UPLOAD_CONCURRENCY - running))
+    .forEach(item => runUpload(item))
+}
 
 export const useFileUpload = () => {
   const {
     accessToken,
-    images,
-    uploadProgress,
-    setImages,
-    setLoading,
-    setStatus,
-    setUploadProgress,
-    setShowUploadArea
+    processingOptions,
+    uploadQueue,
+    autoProcessUploads,
+    setUploadQueue,
+    updateUploadItem,
+    setAutoProcessUploads,
+    setStatus
   } = useAppStore()
-  
-  const { selectImage } = useImageProcessing()
-
-  // ✅ COMPLETED TODO: Real file upload implementation
-  const handleFileUpload = useCallback(async (file: File) => {
-    console.log('🚀 [FILE UPLOAD] Starting file upload:', file.name)
-    
-    if (!file) {
-      console.error('❌ [FILE UPLOAD] No file provided')
-      setStatus('❌ No file selected')
-      return
-    }
-    
+
+  // Queue files for upload; anything that isn't an image or is too large is left out
+  const addFiles = useCallback((files: File[]) => {
     if (!accessToken) {
-      console.error('❌ [FILE UPLOAD] No access token available')
+      console.error('❌ [UPLOAD QUEUE] No access token available')
       setStatus('❌ Please log in to upload files')
       return
     }
-    
-    console.log('✅ [FILE UPLOAD] File and auth validated, starting upload...')
-    setLoading(true)
-    setUploadProgress(0)
-    setStatus('📤 Uploading file...')
-    
-    try {
-      // ✅ REAL API CALL - Upload file
-      console.log('📤 [FILE UPLOAD] Calling API to upload file...')
-      const uploadResult = await imageProcessingApi.uploadFile(file, (progress) => {
-        console.log(`📊 [FILE UPLOAD] Progress: ${progress}%`)
-        setUploadProgress(progress)
-        setStatus(`📤 Uploading... ${progress}%`)
-      })
-      
-      console.log('✅ [FILE UPLOAD] Upload successful:', uploadResult)
-      setStatus(`✅ Upload successful: ${uploadResult.fileName}`)
-      
-      // Create ImageFile object from upload result
-      const newImage: ImageFile = {
-        id: uploadResult.fileId,
-        name: uploadResult.fileName,
-        path_display: uploadResult.filePath,
-        path_lower: uploadResult.filePath.toLowerCase(),
-        size: uploadResult.fileSize
-      }
-      
-      console.log('📝 [FILE UPLOAD] Created image object:', newImage)
-      
-      // Add to images list
-      setImages([newImage, ...images])
-      setShowUploadArea(false)
-      
-      // Auto-select the uploaded image
-      console.log('🎯 [FILE UPLOAD] Auto-selecting uploaded image...')
-      selectImage(newImage)
-      
-    } catch (error) {
-      console.error('❌ [FILE UPLOAD] Upload failed:', error)
-      
-      // Enhanced error handling
-      let errorMessage = 'Upload failed'
-      if (error instanceof Error) {
-        errorMessage = error.message
-      } else if (typeof error === 'object' && error !== null && 'response' in error) {
-        const apiError = error as { response?: { data?: { message?: string } } }
-        errorMessage = apiError.response?.data?.message || 'Server error'
-      }
-      
-      console.error('❌ [FILE UPLOAD] Error details:', errorMessage)
-      setStatus('❌ Upload failed: ' + errorMessage)
-    } finally {
-      console.log('🏁 [FILE UPLOAD] Upload process completed, cleaning up...')
-      setLoading(false)
-      setUploadProgress(0)
+
+    const images = files.filter(isUploadableImage)
+    const accepted = images.filter(file => file.size > 0 && file.size <= MAX_UPLOAD_BYTES)
+    const skipped = files.length - accepted.length
+    if (skipped > 0) {
+      setStatus(`⚠️ Skipped ${skipped} file${skipped === 1 ? '' : 's'}: only images up to ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB can be uploaded`)
     }
-  }, [accessToken, images, setImages, setLoading, setStatus, setUploadProgress, setShowUploadArea, selectImage])
+    if (accepted.length === 0) return
+
+    const items: UploadQueueItem[] = accepted.map(file => {
+      const id = `upload-${++nextUploadId}`
+      queuedFiles.set(id, file)
+      return { id, name: file.name, size: file.size, status: 'queued', progress: 0 }
+    })
+    console.log('📥 [UPLOAD QUEUE] Queued', items.length, 'files')
+    setUploadQueue([...useAppStore.getState().uploadQueue, ...items])
+    pumpQueue()
+  }, [accessToken, setUploadQueue, setStatus])
+
+  // Stop an upload; what was sent so far is kept, so retrying it resumes
+  const cancelUpload = useCallback((id: string) => {
+    const controller = controllers.get(id)
+    if (controller) {
+      controller.abort()
+    } else {
+      updateUploadItem(id, { status: 'cancelled' })
+    }
+  }, [updateUploadItem])
+
+  // Upload a failed or cancelled file again, or just re-run processing if it was uploaded
+  const retryUpload = useCallback((id: string) => {
+    const item = useAppStore.getState().uploadQueue.find(queued => queued.id === id)
+    if (!item) return
+    if (item.image) {
+      processUpload(id, item.image)
+      return
+    }
+    updateUploadItem(id, { status: 'queued', error: undefined })
+    pumpQueue()
+  }, [updateUploadItem])
+
+  // Drop finished, failed and cancelled files from the list
+  const clearFinishedUploads = useCallback(() => {
+    const remaining = useAppStore.getState().uploadQueue.filter(item => ['queued', 'uploading', 'processing'].includes(item.status))
+    useAppStore.getState().uploadQueue
+      .filter(item => !remaining.includes(item))
+      .forEach(item => queuedFiles.delete(item.id))
+    setUploadQueue(remaining)
+  }, [setUploadQueue])
 
   return {
-    uploadProgress,
-    handleFileUpload
+    uploadQueue,
+    autoProcessUploads,
+    canAutoProcess: buildPipeline(processingOptions).length > 0,
+    setAutoProcessUploads,
+    addFiles,
+    cancelUpload,
+    retryUpload,
+    clearFinishedUploads
   }
-}
\ No newline at end of file
+}
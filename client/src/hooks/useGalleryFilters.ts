@@ -0,0 +1,21 @@
+import { useCallback, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { DEFAULT_GALLERY_FILTERS, parseGalleryFilters, writeGalleryFilters } from '../utils/galleryFilters'
+import type { GalleryFilters } from '../types'
+
+// Gallery filters live in the URL query, so a filtered view can be bookmarked or shared
+export const useGalleryFilters = () => {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = useMemo(() => parseGalleryFilters(searchParams), [searchParams])
+
+  const updateFilters = useCallback((changes: Partial<GalleryFilters>) => {
+    // Replace rather than push, so typing in the search box doesn't flood the history
+    setSearchParams(current => writeGalleryFilters(current, { ...parseGalleryFilters(current), ...changes }), { replace: true })
+  }, [setSearchParams])
+
+  const clearFilters = useCallback(() => {
+    setSearchParams(current => writeGalleryFilters(current, DEFAULT_GALLERY_FILTERS), { replace: true })
+  }, [setSearchParams])
+
+  return { filters, updateFilters, clearFilters }
+}
@@ -0,0 +1,53 @@
+import { useCallback, useState } from 'react'
+import { useAppStore } from '../store'
+import { historyApi } from '../api/historyApi'
+import { imageProcessingApi } from '../api/imageProcessingApi'
+import { describeApiError } from '../utils/apiErrors'
+import type { HistoryFilter, HistoryRecord } from '../types'
+
+export const HISTORY_PAGE_SIZE = 20
+
+export const useHistory = () => {
+  const { setStatus } = useAppStore()
+  const [records, setRecords] = useState<HistoryRecord[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  // Records whose re-run is still going
+  const [rerunning, setRerunning] = useState<Record<string, boolean>>({})
+
+  const loadHistory = useCallback(async (filter: HistoryFilter, page: number) => {
+    setLoading(true)
+    try {
+      const loaded = await historyApi.list(filter, HISTORY_PAGE_SIZE, page * HISTORY_PAGE_SIZE)
+      console.log('🗄️ [HISTORY] Loaded', loaded.records.length, 'of', loaded.total, 'records')
+      setRecords(loaded.records)
+      setTotal(loaded.total)
+    } catch (error) {
+      console.error('❌ [HISTORY] Failed to load history:', error)
+      setStatus('❌ Could not load history: ' + describeApiError(error))
+    } finally {
+      setLoading(false)
+    }
+  }, [setStatus])
+
+  // Re-run a record as is and wait for it; the new run shows up as its own record
+  const rerun = useCallback(async (record: HistoryRecord): Promise<boolean> => {
+    setRerunning(current => ({ ...current, [record.recordId]: true }))
+    try {
+      const { jobId } = await historyApi.rerun(record.recordId)
+      console.log('🔁 [HISTORY] Re-running', record.recordId, 'as job', jobId)
+      setStatus(`🔁 Re-running ${record.sourcePath}...`)
+      await imageProcessingApi.pollJob(jobId)
+      setStatus(`✅ Re-run of ${record.sourcePath} completed`)
+      return true
+    } catch (error) {
+      console.error('❌ [HISTORY] Re-run failed:', error)
+      setStatus('❌ Re-run failed: ' + describeApiError(error))
+      return false
+    } finally {
+      setRerunning(current => ({ ...current, [record.recordId]: false }))
+    }
+  }, [setStatus])
+
+  return { records, total, loading, rerunning, loadHistory, rerun }
+}
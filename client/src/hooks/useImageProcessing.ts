@@ -3,18 +3,39 @@ import { useNavigate } from 'react-router-dom'
 import { useAppStore } from '../store'
 import { useAccountValidation } from './useAccountValidation'
 import { dropboxApi } from '../api/dropboxApi'
-import { imageProcessingApi } from '../api/imageProcessingApi'
+import { thumbnailsApi } from '../api/thumbnailsApi'
+import { buildPipeline, imageProcessingApi } from '../api/imageProcessingApi'
+import { presetsApi } from '../api/presetsApi'
+import { presetToProcessingOptions } from '../utils/presets'
 import { calculateSafeUpscaleFactors, generateUpscaleWarning } from '../utils/upscale'
-import type { ImageFile, UpscaleWarning } from '../types'
+import type { ImageFile, JobStep, JobStepName, ProcessingOptions, ProcessingResult, UpscaleWarning } from '../types'
+
+const ACTIVE_JOB_KEY = 'active_processing_job'
+
+const JOB_STEP_LABELS: Record<JobStepName, string> = {
+  download: 'Downloading from Dropbox',
+  removeBg: 'Removing background with AI',
+  upscale: 'Upscaling with AI',
+  convert: 'Converting format',
+  resize: 'Resizing'
+}
+
+// Completed steps count fully, the running step counts half
+const getJobProgress = (steps: JobStep[]): number => {
+  if (steps.length === 0) return 5
+  const completed = steps.filter(step => step.status === 'completed').length
+  const running = steps.some(step => step.status === 'running') ? 0.5 : 0
+  return Math.round(5 + ((completed + running) / steps.length) * 90)
+}
 
 export const useImageProcessing = () => {
   const navigate = useNavigate()
   const { validateBeforeOperation } = useAccountValidation()
   const {
     accessToken,
-    images,
     selectedImage,
     processingOptions,
+    activePresetId,
     processingResult,
     processingProgress,
     processingStage,
@@ -30,8 +51,10 @@ export const useImageProcessing = () => {
     setStatus,
     setUpscaleWarning,
     setAvailableUpscaleFactors,
+    setActivePresetId,
     setProcessingProgress,
     setProcessingStage,
+    setProcessingEvent,
     setSelectedImageThumbnail,
     setThumbnailUrl,
     setShowNewImageNotification,
@@ -88,7 +111,7 @@ export const useImageProcessing = () => {
         try {
           console.log('🖼️ [SELECT IMAGE] Loading thumbnail for new image...')
           setStatus('🖼️ Loading image preview...')
-          const thumbnailUrl = await dropboxApi.getThumbnail(accessToken, imageWithDimensions.id)
+          const thumbnailUrl = await thumbnailsApi.getThumbnail(imageWithDimensions.id, imageWithDimensions.rev)
           if (thumbnailUrl) {
             console.log('✅ [SELECT IMAGE] Thumbnail loaded successfully')
             setSelectedImageThumbnail(thumbnailUrl)
@@ -121,6 +144,18 @@ export const useImageProcessing = () => {
         setUpscaleWarning(null)
       }
       
+      // Apply the user's default preset, limited to the factors this image allows
+      try {
+        const defaultPreset = await presetsApi.getDefault()
+        if (defaultPreset) {
+          console.log('💾 [SELECT IMAGE] Applying default preset:', defaultPreset.name)
+          updateProcessingOptions(presetToProcessingOptions(defaultPreset, safeFactors))
+          setActivePresetId(defaultPreset.presetId)
+        }
+      } catch (presetError) {
+        console.error('⚠️ [SELECT IMAGE] Could not load default preset:', presetError)
+      }
+      
       setStatus(`✅ Selected: ${imageWithDimensions.name}${imageWithDimensions.width && imageWithDimensions.height ? ` (${imageWithDimensions.width}×${imageWithDimensions.height})` : ''}`)
       
       navigate('/process')
@@ -129,175 +164,203 @@ export const useImageProcessing = () => {
       console.error('❌ [SELECT IMAGE] Error selecting image:', error)
       setStatus('❌ Failed to select image: ' + (error as Error).message)
     }
-  }, [accessToken, validateBeforeOperation, setSelectedImage, setCurrentStep, setProcessingResult, setStatus, setAvailableUpscaleFactors, setUpscaleWarning, setSelectedImageThumbnail, navigate])
+  }, [accessToken, validateBeforeOperation, setSelectedImage, setCurrentStep, setProcessingResult, setStatus, setAvailableUpscaleFactors, setUpscaleWarning, setSelectedImageThumbnail, updateProcessingOptions, setActivePresetId, navigate])
 
-  // Real processImage implementation
-  const processImage = useCallback(async () => {
-    if (!selectedImage || !accessToken) return
+  // Load result thumbnails, add outputs to the gallery and show the results page
+  const finishProcessing = useCallback(async (result: ProcessingResult) => {
+    console.log('✅ [IMAGE PROCESSING] Processing completed, result:', result)    // ← PROCESSING COMPLETED
     
-    // Validate processing options
-    if (!processingOptions.removeBg && !processingOptions.upscale) {
-      setStatus('❌ Please select at least one processing option (Remove Background or Upscale).')
-      return
+    // Every step that saved its output to Dropbox
+    const savedSteps = (result.steps || []).filter(step => step.name !== 'download' && step.outputPath)
+    
+    // Load thumbnails for processed images
+    if (savedSteps.length > 0) {
+      console.log('🖼️ [IMAGE PROCESSING] Loading thumbnails for', savedSteps.length, 'processed images...')
+      
+      const thumbnailPromises = savedSteps.map(step => {
+        const outputPath = step.outputPath!
+        console.log(`🖼️ [IMAGE PROCESSING] Loading thumbnail for ${step.name} output:`, outputPath)
+        return imageProcessingApi.getThumbnailByPath(outputPath)
+          .then(blob => {
+            const thumbnailUrl = URL.createObjectURL(blob)
+            console.log(`✅ [IMAGE PROCESSING] ${step.name} thumbnail loaded:`, thumbnailUrl)
+            setThumbnailUrl(outputPath, thumbnailUrl)
+          })
+          .catch(error => {
+            console.error(`❌ [IMAGE PROCESSING] Failed to load ${step.name} thumbnail:`, error)
+          })
+      })
+      
+      // Wait for all thumbnails to load (or fail)
+      try {
+        await Promise.allSettled(thumbnailPromises)
+        console.log('🏁 [IMAGE PROCESSING] All result thumbnails processed')
+      } catch (error) {
+        console.error('⚠️ [IMAGE PROCESSING] Some thumbnails failed to load:', error)
+      }
     }
-
-    // CRITICAL: Validate account before processing (USER_OPERATION - respects grace period)
-    console.log('🔍 [IMAGE PROCESSING] Validating account before processing...')
-    const isAccountValid = await validateBeforeOperation('USER_OPERATION')
-    if (!isAccountValid) {
-      console.log('🚨 [IMAGE PROCESSING] Account validation failed, blocking image processing')
-      setStatus('🚨 Account verification required. Please check the warning banner above.')
-      return
+    
+    // Add processed images to the images list immediately
+    if (savedSteps.length > 0) {
+      console.log('📝 [IMAGE PROCESSING] Adding processed images to gallery...')
+      const newImages: ImageFile[] = savedSteps.map(step => ({
+        id: step.outputPath!,
+        name: step.outputPath!.split('/').pop() || step.outputPath!,
+        path_display: step.outputPath!,
+        path_lower: step.outputPath!.toLowerCase(),
+        size: step.outputSize || 0,
+        width: step.width,
+        height: step.height
+      }))
+      
+      // Add new images to the beginning of the list (read fresh state - jobs can outlive renders)
+      setImages([...newImages, ...useAppStore.getState().images])
+      console.log('✅ [IMAGE PROCESSING] Added', newImages.length, 'processed images to gallery:', newImages.map(img => img.name))
+      
+      // Show notification
+      setNewImageCount(newImages.length)
+      setShowNewImageNotification(true)
     }
-    console.log('✅ [IMAGE PROCESSING] Account validation passed, proceeding with processing')
     
+    setProcessingResult(result)
+    setCurrentStep('results')
+    setStatus('✅ Processing completed successfully!')
+    navigate('/results')
+  }, [setImages, setThumbnailUrl, setNewImageCount, setShowNewImageNotification, setProcessingResult, setCurrentStep, setStatus, navigate])
+
+  // Follow a server-side job and mirror its real step state into the progress UI
+  const trackJob = useCallback(async (jobId: string) => {
     setLoading(true)
-    setProcessingProgress(0)
-    setStatus('🎨 Processing image...')
     
-    // Simulate processing progress stages
-    const updateProgress = (stage: string, progress: number) => {
+    // Local copy of the job's steps, kept current by snapshots and live step events
+    let steps: JobStep[] = []
+    let currentIndex: number | null = null
+    
+    const showProgress = () => {
+      const progress = getJobProgress(steps)
+      const currentStep = currentIndex !== null ? steps[currentIndex] : undefined
+      // Number pipeline steps so repeated step types can be told apart
+      const stage = currentStep
+        ? `${JOB_STEP_LABELS[currentStep.name]}${currentIndex && steps.length > 2 ? ` (step ${currentIndex} of ${steps.length - 1})` : ''}`
+        : 'Waiting to start'
       setProcessingStage(stage)
       setProcessingProgress(progress)
       setStatus(`🎨 ${stage}... ${progress}%`)
     }
     
     try {
-      updateProgress('Preparing image', 10)
-      await new Promise(resolve => setTimeout(resolve, 500))
-      
-      updateProgress('Uploading to processing server', 25)
-      await new Promise(resolve => setTimeout(resolve, 500))
-      
-      updateProgress('Processing with AI', 50)
-      
-      // Process image with actual API
-      const result = await imageProcessingApi.processImage(
-        selectedImage,
-        processingOptions,
-        (progress) => {
-          // Update progress during API call
-          const adjustedProgress = 50 + (progress * 0.4) // Scale to 50-90%
-          updateProgress('Processing with AI', Math.round(adjustedProgress))
-        }
-      )
-      
-      updateProgress('Finalizing results', 90)
-      await new Promise(resolve => setTimeout(resolve, 500))
-      
-      updateProgress('Complete', 100)
-      
-      console.log('✅ [IMAGE PROCESSING] Processing completed, result:', result)    // ← PROCESSING COMPLETED
-      
-      // Load thumbnails for processed images
-      if (result.results) {
-        console.log('🖼️ [IMAGE PROCESSING] Loading thumbnails for processed images...')
-        
-        const thumbnailPromises = []
-        
-        // Load thumbnail for background removed image
-        if (result.results.backgroundRemoved) {
-          console.log('🎨 [IMAGE PROCESSING] Loading thumbnail for background removed image:', result.results.backgroundRemoved)
-          const bgRemovedPromise = imageProcessingApi.getThumbnailByPath(result.results.backgroundRemoved)
-            .then(blob => {
-              const thumbnailUrl = URL.createObjectURL(blob)
-              console.log('✅ [IMAGE PROCESSING] Background removed thumbnail loaded:', thumbnailUrl)
-              setThumbnailUrl(result.results.backgroundRemoved!, thumbnailUrl)
-            })
-            .catch(error => {
-              console.error('❌ [IMAGE PROCESSING] Failed to load background removed thumbnail:', error)
-            })
-          thumbnailPromises.push(bgRemovedPromise)
-        }
-        
-        // Load thumbnail for upscaled image
-        if (result.results.upscaled) {
-          console.log('🔍 [IMAGE PROCESSING] Loading thumbnail for upscaled image:', result.results.upscaled)
-          const upscaledPromise = imageProcessingApi.getThumbnailByPath(result.results.upscaled)
-            .then(blob => {
-              const thumbnailUrl = URL.createObjectURL(blob)
-              console.log('✅ [IMAGE PROCESSING] Upscaled thumbnail loaded:', thumbnailUrl)
-              setThumbnailUrl(result.results.upscaled!, thumbnailUrl)
-            })
-            .catch(error => {
-              console.error('❌ [IMAGE PROCESSING] Failed to load upscaled thumbnail:', error)
-            })
-          thumbnailPromises.push(upscaledPromise)
-        }
-        
-        // Wait for all thumbnails to load (or fail)
-        try {
-          await Promise.allSettled(thumbnailPromises)
-          console.log('🏁 [IMAGE PROCESSING] All result thumbnails processed')
-        } catch (error) {
-          console.error('⚠️ [IMAGE PROCESSING] Some thumbnails failed to load:', error)
-        }
-      }
-      
-      // Add processed images to the images list immediately
-      if (result.results) {
-        console.log('📝 [IMAGE PROCESSING] Adding processed images to gallery...')
-        const newImages: ImageFile[] = []
-        
-        // Add background removed image to gallery
-        if (result.results.backgroundRemoved) {
-          const bgRemovedImage: ImageFile = {
-            id: result.results.backgroundRemoved,
-            name: `${selectedImage.name.replace(/\.[^/.]+$/, '')}_bg_removed.png`,
-            path_display: result.results.backgroundRemoved,
-            path_lower: result.results.backgroundRemoved.toLowerCase(),
-            size: 0, // Size unknown, will be updated on next refresh
-            width: selectedImage.width,
-            height: selectedImage.height
+      const result = await imageProcessingApi.waitForJob(jobId, {
+        onJob: (job) => {
+          steps = job.steps
+          currentIndex = job.currentStepIndex ?? null
+          showProgress()
+        },
+        onEvent: (event) => {
+          const eventIndex = event.stepIndex
+          if (eventIndex != null && (event.stage === 'step_started' || event.stage === 'step_completed')) {
+            const status = event.stage === 'step_started' ? 'running' : 'completed'
+            steps = steps.map((step, index) => index === eventIndex ? { ...step, status } : step)
           }
-          newImages.push(bgRemovedImage)
-          console.log('🎨 [IMAGE PROCESSING] Added background removed image to gallery:', bgRemovedImage.name)
-        }
-        
-        // Add upscaled image to gallery  
-        if (result.results.upscaled) {
-          const upscaledImage: ImageFile = {
-            id: result.results.upscaled,
-            name: `${selectedImage.name.replace(/\.[^/.]+$/, '')}_upscaled.jpg`,
-            path_display: result.results.upscaled,
-            path_lower: result.results.upscaled.toLowerCase(),
-            size: 0, // Size unknown, will be updated on next refresh
-            width: selectedImage.width ? selectedImage.width * (processingOptions.upscaleFactor || 2) : undefined,
-            height: selectedImage.height ? selectedImage.height * (processingOptions.upscaleFactor || 2) : undefined
+          if (eventIndex != null) {
+            currentIndex = eventIndex
           }
-          newImages.push(upscaledImage)
-          console.log('🔍 [IMAGE PROCESSING] Added upscaled image to gallery:', upscaledImage.name)
-        }
-        
-        // Add new images to the beginning of the list
-        if (newImages.length > 0) {
-          setImages([...newImages, ...images])
-          console.log('✅ [IMAGE PROCESSING] Added', newImages.length, 'processed images to gallery')
-          
-          // Show notification
-          setNewImageCount(newImages.length)
-          setShowNewImageNotification(true)
+          setProcessingEvent(event)
+          showProgress()
         }
-      }
+      })
+      
+      localStorage.removeItem(ACTIVE_JOB_KEY)
+      setProcessingStage('Complete')
+      setProcessingProgress(100)
+      setProcessingEvent(null)
       
-      setProcessingResult(result)
-      setCurrentStep('results')
-      setStatus('✅ Processing completed successfully!')
-      navigate('/results')
+      await finishProcessing(result)
       
     } catch (error) {
       console.error('Error processing image:', error)
+      // Keep the job ID after a dropped connection - the job is still running on the server
+      const isConnectionError = !!(error as { request?: unknown }).request && !(error as { response?: unknown }).response
+      if (!isConnectionError) {
+        localStorage.removeItem(ACTIVE_JOB_KEY)
+      }
       setStatus('❌ Processing failed: ' + (error as Error).message)
       setProcessingProgress(0)
       setProcessingStage('')
     } finally {
       setLoading(false)
+      setProcessingEvent(null)
       setTimeout(() => {
         setProcessingProgress(0)
         setProcessingStage('')
       }, 1000)
     }
-  }, [selectedImage, accessToken, images, processingOptions, validateBeforeOperation, setImages, setLoading, setProcessingProgress, setStatus, setProcessingStage, setProcessingResult, setCurrentStep, navigate, setThumbnailUrl, setShowNewImageNotification, setNewImageCount])
+  }, [finishProcessing, setLoading, setProcessingProgress, setProcessingStage, setProcessingEvent, setStatus])
+
+  // Real processImage implementation
+  const processImage = useCallback(async () => {
+    if (!selectedImage || !accessToken) return
+    
+    // Validate processing options
+    if (buildPipeline(processingOptions).length === 0) {
+      setStatus('❌ Please select at least one processing option (Remove Background or Upscale).')
+      return
+    }
+
+    // CRITICAL: Validate account before processing (USER_OPERATION - respects grace period)
+    console.log('🔍 [IMAGE PROCESSING] Validating account before processing...')
+    const isAccountValid = await validateBeforeOperation('USER_OPERATION')
+    if (!isAccountValid) {
+      console.log('🚨 [IMAGE PROCESSING] Account validation failed, blocking image processing')
+      setStatus('🚨 Account verification required. Please check the warning banner above.')
+      return
+    }
+    console.log('✅ [IMAGE PROCESSING] Account validation passed, proceeding with processing')
+    
+    setLoading(true)
+    setProcessingStage('Starting processing job')
+    setProcessingProgress(2)
+    setStatus('🎨 Processing image...')
+    
+    let jobId: string
+    try {
+      ({ jobId } = await imageProcessingApi.processImage(selectedImage, processingOptions, activePresetId))
+    } catch (error) {
+      console.error('Error starting processing job:', error)
+      // e.g. the 429 sent once the Picsart quota is used up explains itself
+      const message = (error as { response?: { data?: { message?: string } } })?.response?.data?.message || (error as Error).message
+      setStatus('❌ Processing failed: ' + message)
+      setLoading(false)
+      setProcessingProgress(0)
+      setProcessingStage('')
+      return
+    }
+    
+    // Remember the job so a reload can pick it up again
+    console.log('🆔 [IMAGE PROCESSING] Processing job started:', jobId)
+    localStorage.setItem(ACTIVE_JOB_KEY, JSON.stringify({ jobId, image: selectedImage, options: processingOptions }))
+    
+    await trackJob(jobId)
+  }, [selectedImage, accessToken, processingOptions, activePresetId, validateBeforeOperation, setLoading, setProcessingProgress, setStatus, setProcessingStage, trackJob])
+
+  // Resume polling a job that was still running when the page was reloaded
+  const resumeActiveJob = useCallback(async () => {
+    const stored = localStorage.getItem(ACTIVE_JOB_KEY)
+    if (!stored || loading) return false
+    
+    try {
+      const { jobId, image } = JSON.parse(stored) as { jobId: string; image: ImageFile; options: ProcessingOptions }
+      console.log('🔁 [IMAGE PROCESSING] Resuming processing job:', jobId)
+      setSelectedImage(image)
+      setCurrentStep('processing')
+      setStatus('🔁 Reconnecting to running job...')
+      await trackJob(jobId)
+      return true
+    } catch (error) {
+      console.error('❌ [IMAGE PROCESSING] Could not resume stored job:', error)
+      localStorage.removeItem(ACTIVE_JOB_KEY)
+      return false
+    }
+  }, [loading, setSelectedImage, setCurrentStep, setStatus, trackJob])
 
   const handleUpscaleToggle = useCallback((enabled: boolean) => {
     if (enabled) {
@@ -350,6 +413,7 @@ export const useImageProcessing = () => {
     availableUpscaleFactors,
     selectImage,
     processImage,
+    resumeActiveJob,
     updateProcessingOptions,
     handleUpscaleToggle
   }
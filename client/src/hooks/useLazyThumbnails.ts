@@ -0,0 +1,124 @@
+import { useCallback, useEffect, useRef } from 'react'
+import axios from 'axios'
+import { useAppStore } from '../store'
+import { thumbnailsApi } from '../api/thumbnailsApi'
+import { THUMBNAIL_BATCH_SIZE, THUMBNAIL_FLUSH_DELAY_MS, THUMBNAIL_ROOT_MARGIN } from '../constants'
+import type { ImageFile } from '../types'
+
+interface InFlightBatch {
+  controller: AbortController
+  // Cards from this batch still on screen; the request is aborted once none are left
+  wanted: Set<string>
+}
+
+// Load gallery thumbnails only for cards inside (or near) the scroll container's viewport.
+// Cards that scroll into view within THUMBNAIL_FLUSH_DELAY_MS of each other share one batch
+// request; a batch whose cards have all scrolled away again is aborted.
+export const useLazyThumbnails = (rootRef: React.RefObject<HTMLElement | null>) => {
+  const { setThumbnailUrls } = useAppStore()
+
+  const observerRef = useRef<IntersectionObserver | null>(null)
+  const observedRef = useRef(new Map<Element, ImageFile>())
+  const pendingRef = useRef(new Map<string, ImageFile>())
+  const inFlightRef = useRef(new Map<string, InFlightBatch>())
+  const flushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const flush = useCallback(() => {
+    flushTimerRef.current = null
+    const pending = pendingRef.current
+    while (pending.size > 0) {
+      const images = Array.from(pending.values()).slice(0, THUMBNAIL_BATCH_SIZE)
+      images.forEach(image => pending.delete(image.id))
+
+      const batch: InFlightBatch = { controller: new AbortController(), wanted: new Set(images.map(image => image.id)) }
+      images.forEach(image => inFlightRef.current.set(image.id, batch))
+
+      thumbnailsApi.getThumbnails(images, batch.controller.signal)
+        .then(urls => {
+          setThumbnailUrls(urls)
+          console.log('✅ [THUMBNAILS] Loaded', Object.keys(urls).length, 'of', images.length, 'thumbnails')
+        })
+        .catch(error => {
+          if (axios.isCancel(error)) {
+            console.log('🚫 [THUMBNAILS] Cancelled', images.length, 'thumbnails scrolled out of view')
+            return
+          }
+          console.error('❌ [THUMBNAILS] Error fetching thumbnails:', error)
+        })
+        .finally(() => {
+          images.forEach(image => {
+            if (inFlightRef.current.get(image.id) === batch) inFlightRef.current.delete(image.id)
+          })
+        })
+    }
+  }, [setThumbnailUrls])
+
+  const request = useCallback((image: ImageFile) => {
+    const hasThumbnail = !!useAppStore.getState().thumbnailUrls[image.id] && !thumbnailsApi.isStale(image)
+    if (hasThumbnail || pendingRef.current.has(image.id)) return
+
+    const batch = inFlightRef.current.get(image.id)
+    if (batch && !batch.controller.signal.aborted) {
+      batch.wanted.add(image.id)
+      return
+    }
+
+    pendingRef.current.set(image.id, image)
+    if (!flushTimerRef.current) {
+      flushTimerRef.current = setTimeout(flush, THUMBNAIL_FLUSH_DELAY_MS)
+    }
+  }, [flush])
+
+  const cancel = useCallback((imageId: string) => {
+    pendingRef.current.delete(imageId)
+
+    const batch = inFlightRef.current.get(imageId)
+    if (!batch) return
+    batch.wanted.delete(imageId)
+    if (batch.wanted.size === 0) batch.controller.abort()
+  }, [])
+
+  // Watch a card; the returned cleanup stops watching it and drops its thumbnail request
+  const observeThumbnail = useCallback((element: Element, image: ImageFile) => {
+    if (!observerRef.current) {
+      observerRef.current = new IntersectionObserver(entries => {
+        entries.forEach(entry => {
+          const observed = observedRef.current.get(entry.target)
+          if (!observed) return
+          if (entry.isIntersecting) {
+            request(observed)
+          } else {
+            cancel(observed.id)
+          }
+        })
+      }, { root: rootRef.current, rootMargin: THUMBNAIL_ROOT_MARGIN })
+    }
+
+    const observer = observerRef.current
+    observedRef.current.set(element, image)
+    observer.observe(element)
+
+    return () => {
+      observer.unobserve(element)
+      observedRef.current.delete(element)
+      cancel(image.id)
+    }
+  }, [rootRef, request, cancel])
+
+  // Abort everything still loading when the gallery goes away
+  useEffect(() => {
+    const inFlight = inFlightRef.current
+    const pending = pendingRef.current
+    return () => {
+      if (flushTimerRef.current) clearTimeout(flushTimerRef.current)
+      flushTimerRef.current = null
+      observerRef.current?.disconnect()
+      observerRef.current = null
+      pending.clear()
+      inFlight.forEach(batch => batch.controller.abort())
+      inFlight.clear()
+    }
+  }, [])
+
+  return { observeThumbnail }
+}
@@ -0,0 +1,39 @@
+import { useCallback, useState } from 'react'
+import { useAppStore } from '../store'
+import { userSettingsApi } from '../api/userSettingsApi'
+import { describeApiError } from '../utils/apiErrors'
+import type { OutputPreferences } from '../types'
+
+export const useOutputPreferences = () => {
+  const { setStatus } = useAppStore()
+  const [preferences, setPreferences] = useState<OutputPreferences | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const loadPreferences = useCallback(async () => {
+    try {
+      const { outputFolder, filenameTemplate } = await userSettingsApi.getOutputPreferences()
+      setPreferences({ outputFolder, filenameTemplate })
+    } catch (error) {
+      console.error('❌ [OUTPUT] Failed to load output preferences:', error)
+    }
+  }, [])
+
+  const savePreferences = useCallback(async (update: OutputPreferences): Promise<boolean> => {
+    setSaving(true)
+    try {
+      const { outputFolder, filenameTemplate } = await userSettingsApi.updateOutputPreferences(update)
+      console.log('📂 [OUTPUT] Saved output preferences:', outputFolder || '(next to original)', filenameTemplate)
+      setPreferences({ outputFolder, filenameTemplate })
+      setStatus('📂 Save location updated')
+      return true
+    } catch (error) {
+      console.error('❌ [OUTPUT] Failed to save output preferences:', error)
+      setStatus('❌ Could not save the save location: ' + describeApiError(error))
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }, [setStatus])
+
+  return { preferences, saving, loadPreferences, savePreferences }
+}
@@ -0,0 +1,110 @@
+import { useCallback, useState } from 'react'
+import { useAppStore } from '../store'
+import { presetsApi } from '../api/presetsApi'
+import { presetToProcessingOptions } from '../utils/presets'
+import { describeApiError } from '../utils/apiErrors'
+import type { Preset } from '../types'
+
+export const usePresets = () => {
+  const {
+    presets,
+    activePresetId,
+    processingOptions,
+    availableUpscaleFactors,
+    setPresets,
+    setActivePresetId,
+    updateProcessingOptions,
+    setStatus
+  } = useAppStore()
+  // Why the last save didn't go through, for the save form to show next to the name
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  const loadPresets = useCallback(async () => {
+    try {
+      const loaded = await presetsApi.list()
+      console.log('💾 [PRESETS] Loaded', loaded.length, 'presets')
+      setPresets(loaded)
+    } catch (error) {
+      console.error('❌ [PRESETS] Failed to load presets:', error)
+    }
+  }, [setPresets])
+
+  // Fill the processing options from a preset
+  const applyPreset = useCallback((preset: Preset) => {
+    console.log('💾 [PRESETS] Applying preset:', preset.name)
+    updateProcessingOptions(presetToProcessingOptions(preset, availableUpscaleFactors))
+    setActivePresetId(preset.presetId)
+  }, [availableUpscaleFactors, updateProcessingOptions, setActivePresetId])
+
+  // Save the current processing options as a new preset
+  const savePreset = useCallback(async (name: string, isDefault = false) => {
+    setSaveError(null)
+    try {
+      const preset = await presetsApi.create({ name, options: processingOptions, isDefault })
+      // Creating a default preset unsets the previous one on the server
+      const others = presets.map(p => isDefault ? { ...p, isDefault: false } : p)
+      setPresets([...others, preset].sort((a, b) => a.name.localeCompare(b.name)))
+      setActivePresetId(preset.presetId)
+      setStatus(`💾 Saved preset "${preset.name}"`)
+      return preset
+    } catch (error) {
+      console.error('❌ [PRESETS] Failed to save preset:', error)
+      setSaveError(describeApiError(error))
+      setStatus('❌ Could not save preset: ' + describeApiError(error))
+      return null
+    }
+  }, [presets, processingOptions, setPresets, setActivePresetId, setStatus])
+
+  // Overwrite a preset's options with the current processing options
+  const updatePresetOptions = useCallback(async (presetId: string) => {
+    try {
+      const updated = await presetsApi.update(presetId, { options: processingOptions })
+      setPresets(presets.map(p => p.presetId === presetId ? updated : p))
+      setStatus(`💾 Updated preset "${updated.name}"`)
+    } catch (error) {
+      console.error('❌ [PRESETS] Failed to update preset:', error)
+      setStatus('❌ Could not update preset: ' + describeApiError(error))
+    }
+  }, [presets, processingOptions, setPresets, setStatus])
+
+  // Mark a preset as the default, or clear the default when it already is
+  const toggleDefaultPreset = useCallback(async (presetId: string) => {
+    const preset = presets.find(p => p.presetId === presetId)
+    if (!preset) return
+
+    try {
+      const updated = await presetsApi.update(presetId, { isDefault: !preset.isDefault })
+      setPresets(presets.map(p => p.presetId === presetId ? updated : { ...p, isDefault: updated.isDefault ? false : p.isDefault }))
+      setStatus(updated.isDefault ? `⭐ "${updated.name}" is now your default preset` : `☆ "${updated.name}" is no longer your default preset`)
+    } catch (error) {
+      console.error('❌ [PRESETS] Failed to change default preset:', error)
+      setStatus('❌ Could not change default preset: ' + describeApiError(error))
+    }
+  }, [presets, setPresets, setStatus])
+
+  const deletePreset = useCallback(async (presetId: string) => {
+    try {
+      await presetsApi.remove(presetId)
+      setPresets(presets.filter(p => p.presetId !== presetId))
+      if (activePresetId === presetId) {
+        setActivePresetId(null)
+      }
+    } catch (error) {
+      console.error('❌ [PRESETS] Failed to delete preset:', error)
+      setStatus('❌ Could not delete preset: ' + describeApiError(error))
+    }
+  }, [presets, activePresetId, setPresets, setActivePresetId, setStatus])
+
+  return {
+    presets,
+    activePresetId,
+    loadPresets,
+    applyPreset,
+    savePreset,
+    saveError,
+    clearSaveError: () => setSaveError(null),
+    updatePresetOptions,
+    toggleDefaultPreset,
+    deletePreset
+  }
+}
@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from 'react'
+import { usageApi } from '../api/usageApi'
+import { USAGE_POLL_INTERVAL_MS } from '../constants'
+import type { UsageSummary } from '../types'
+
+// The current user's Picsart usage, refreshed periodically and when the tab regains focus
+export const useUsage = (enabled: boolean) => {
+  const [usage, setUsage] = useState<UsageSummary | null>(null)
+
+  const loadUsage = useCallback(async () => {
+    try {
+      setUsage(await usageApi.getUsage())
+    } catch (error) {
+      // The meter is informational - keep the last known numbers
+      console.error('❌ [USAGE] Failed to load usage:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!enabled) return
+    loadUsage()
+    const timer = setInterval(loadUsage, USAGE_POLL_INTERVAL_MS)
+    window.addEventListener('focus', loadUsage)
+    return () => {
+      clearInterval(timer)
+      window.removeEventListener('focus', loadUsage)
+    }
+  }, [enabled, loadUsage])
+
+  return { usage, loadUsage }
+}
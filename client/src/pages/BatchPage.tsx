@@ -0,0 +1,240 @@
+import React from 'react'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import { useAppStore } from '../store'
+import { useBatch, useStartBatch } from '../hooks/useBatchProcessing'
+import { PresetPicker } from '../components/PresetPicker'
+import { RemoveBgOptionsPanel } from '../components/RemoveBgOptionsPanel'
+import { OutputFormatPanel } from '../components/OutputFormatPanel'
+import { SaveLocationPanel } from '../components/SaveLocationPanel'
+import { ConflictPolicySelect } from '../components/ConflictPolicySelect'
+import { UPLOAD_ACTION_LABELS, UPSCALE_FACTORS } from '../constants'
+import type { BatchItem, JobStatus } from '../types'
+
+const STATUS_BADGES: Record<JobStatus, { icon: string; className: string }> = {
+  queued: { icon: '⏳ Queued', className: 'bg-gray-100 text-gray-600' },
+  running: { icon: '⚙️ Processing', className: 'bg-blue-100 text-blue-700' },
+  completed: { icon: '✅ Done', className: 'bg-green-100 text-green-700' },
+  failed: { icon: '❌ Failed', className: 'bg-red-100 text-red-700' }
+}
+
+const fileName = (path: string) => path.split('/').pop() || path
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+const BatchItemRow: React.FC<{ item: BatchItem }> = ({ item }) => {
+  const badge = STATUS_BADGES[item.status]
+  const outputs = item.steps.filter(step => step.name !== 'download' && step.outputPath)
+
+  return (
+    <div className="px-3 py-2 space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-gray-800 truncate" title={item.dropboxPath}>{fileName(item.dropboxPath)}</span>
+        <span className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap ${badge.className}`}>
+          {badge.icon}{item.status === 'running' && item.currentStep ? ` · ${item.currentStep}` : ''}
+        </span>
+      </div>
+      {outputs.map((step, index) => (
+        <div key={index} className="flex items-center justify-between gap-2 text-xs text-gray-600 pl-3">
+          <span className="truncate" title={step.outputPath}>↳ {step.outputPath}</span>
+          <span className="whitespace-nowrap text-gray-500">
+            {step.cacheHit ? '⚡ cached · ' : ''}
+            {step.uploadAction ? `${UPLOAD_ACTION_LABELS[step.uploadAction]} · ` : ''}
+            {step.outputSize !== undefined ? formatBytes(step.outputSize) : ''}
+            {step.durationMs !== undefined ? ` · ${(step.durationMs / 1000).toFixed(1)}s` : ''}
+          </span>
+        </div>
+      ))}
+      {item.error && <p className="text-xs text-red-600 pl-3">⚠️ {item.error}</p>}
+    </div>
+  )
+}
+
+// Batch results: live per-file status and every output
+const BatchResults: React.FC<{ batchId: string }> = ({ batchId }) => {
+  const navigate = useNavigate()
+  const { batch, error } = useBatch(batchId)
+
+  if (!batch) {
+    return (
+      <div className="p-4 text-center text-gray-600">
+        {error ? `❌ ${error}` : '🔄 Loading batch...'}
+      </div>
+    )
+  }
+
+  const done = batch.succeeded + batch.failed
+  const progress = batch.total > 0 ? Math.round((done / batch.total) * 100) : 0
+  const finished = batch.status === 'completed' || batch.status === 'failed'
+
+  return (
+    <div className="space-y-4 p-2 animate-fadeIn">
+      <div className="bg-gradient-to-r from-purple-50 to-pink-50 rounded-lg p-4 border border-purple-200">
+        <h3 className="text-lg font-semibold text-purple-800 mb-2">
+          {finished ? '🎉 Batch Complete' : '⚙️ Processing Batch'}
+        </h3>
+        <div className="flex flex-wrap gap-3 text-sm text-gray-700 mb-3">
+          <span>📦 {batch.total} files</span>
+          <span className="text-green-700">✅ {batch.succeeded} succeeded</span>
+          <span className="text-red-700">❌ {batch.failed} failed</span>
+          <span className="text-gray-500">⚡ {batch.concurrency} at a time</span>
+          <span className="text-gray-500">🗃️ {batch.conflictPolicy}</span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-2">
+          <div
+            className="bg-gradient-to-r from-purple-600 to-pink-600 h-2 rounded-full transition-all duration-300"
+            style={{ width: `${progress}%` }}
+          ></div>
+        </div>
+        {batch.error && <p className="text-sm text-red-600 mt-2">⚠️ {batch.error}</p>}
+      </div>
+
+      <div className="bg-white rounded-lg border border-purple-200 divide-y divide-purple-100">
+        {batch.items.map(item => <BatchItemRow key={item.jobId} item={item} />)}
+      </div>
+
+      <div className="flex justify-center">
+        <button
+          onClick={() => navigate('/select')}
+          className="bg-gradient-to-r from-purple-600 to-pink-600 text-white px-4 py-2 rounded-lg hover:from-purple-700 hover:to-pink-700 transition-colors text-sm font-medium shadow-md"
+        >
+          ← Back to Selection
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// Batch setup: pick options for the selected files (or a folder) and start
+const BatchSetup: React.FC = () => {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const folderPath = searchParams.get('folder')
+  const recursive = searchParams.get('recursive') === '1'
+  const { batchSelection, processingOptions, updateProcessingOptions, updateRemoveBgOptions } = useAppStore()
+  const { startBatch, starting } = useStartBatch()
+
+  if (folderPath === null && batchSelection.length === 0) {
+    return (
+      <div className="p-4 text-center">
+        <p className="text-gray-600">No images selected. Select images in the gallery first.</p>
+        <button
+          onClick={() => navigate('/select')}
+          className="mt-4 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+        >
+          ← Back to Selection
+        </button>
+      </div>
+    )
+  }
+
+  const handleStart = () => {
+    startBatch(folderPath !== null
+      ? { folderPath, recursive }
+      : { paths: batchSelection.map(image => image.path_display) })
+  }
+
+  return (
+    <div className="space-y-4 p-2 animate-fadeIn">
+      <div className="text-center">
+        <button
+          onClick={() => navigate('/select')}
+          className="bg-gray-500 text-white px-3 py-2 rounded-lg hover:bg-gray-600 transition-colors text-sm"
+        >
+          ← Back to Selection
+        </button>
+      </div>
+
+      <div className="bg-gradient-to-r from-purple-50 to-pink-50 rounded-lg p-4 border border-purple-200">
+        <h3 className="text-lg font-semibold text-purple-800 mb-2">📦 Batch</h3>
+        {folderPath !== null ? (
+          <p className="text-sm text-gray-700">
+            Every image in <span className="font-medium">{folderPath}</span>{recursive ? ' and its subfolders' : ''}
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-700 mb-1">{batchSelection.length} selected images:</p>
+            <p className="text-xs text-gray-500 line-clamp-3">{batchSelection.map(image => image.name).join(', ')}</p>
+          </>
+        )}
+      </div>
+
+      <div className="bg-gradient-to-r from-purple-50 to-pink-50 rounded-lg p-4 border border-purple-200 space-y-4">
+        <h3 className="text-lg font-semibold text-purple-800">⚙️ Processing Options</h3>
+        <PresetPicker disabled={starting} />
+
+        <label className="flex items-center space-x-3">
+          <input
+            type="checkbox"
+            checked={processingOptions.removeBg}
+            onChange={(e) => updateProcessingOptions({ removeBg: e.target.checked })}
+            className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+            disabled={starting}
+          />
+          <span className="text-gray-700">🎨 Remove Background</span>
+        </label>
+        {processingOptions.removeBg && (
+          <RemoveBgOptionsPanel
+            options={processingOptions.removeBgOptions}
+            disabled={starting}
+            onChange={updateRemoveBgOptions}
+          />
+        )}
+
+        <label className="flex items-center space-x-3">
+          <input
+            type="checkbox"
+            checked={processingOptions.upscale}
+            onChange={(e) => updateProcessingOptions({ upscale: e.target.checked })}
+            className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+            disabled={starting}
+          />
+          <span className="text-gray-700">🔍 Upscale Images</span>
+        </label>
+        {processingOptions.upscale && (
+          <div className="ml-7 space-y-2">
+            <select
+              value={processingOptions.upscaleFactor}
+              onChange={(e) => updateProcessingOptions({ upscaleFactor: parseInt(e.target.value) })}
+              disabled={starting}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-purple-500 focus:border-purple-500"
+            >
+              {UPSCALE_FACTORS.map(factor => (
+                <option key={factor} value={factor}>{factor}x</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500">⚠️ Files too large for this factor will fail individually; the rest of the batch continues.</p>
+          </div>
+        )}
+
+        <OutputFormatPanel
+          output={processingOptions.output}
+          disabled={starting}
+          onChange={(output) => updateProcessingOptions({ output })}
+        />
+        <ConflictPolicySelect
+          value={processingOptions.conflictPolicy}
+          disabled={starting}
+          onChange={(conflictPolicy) => updateProcessingOptions({ conflictPolicy })}
+        />
+        <SaveLocationPanel disabled={starting} />
+
+        <button
+          onClick={handleStart}
+          disabled={starting}
+          className="w-full bg-gradient-to-r from-purple-600 to-pink-600 text-white px-4 py-3 rounded-lg hover:from-purple-700 hover:to-pink-700 disabled:opacity-50 font-medium shadow-md"
+        >
+          {starting ? '🔄 Starting...' : '🚀 Start Batch'}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export const BatchPage: React.FC = () => {
+  const { batchId } = useParams<{ batchId?: string }>()
+  return batchId ? <BatchResults batchId={batchId} /> : <BatchSetup />
+}
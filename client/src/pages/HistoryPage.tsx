@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAppStore } from '../store'
+import { useHistory, HISTORY_PAGE_SIZE } from '../hooks/useHistory'
+import { useImageProcessing } from '../hooks/useImageProcessing'
+import { dropboxApi } from '../api/dropboxApi'
+import { recordToProcessingOptions } from '../utils/history'
+import { STEP_NAMES, UPLOAD_ACTION_LABELS } from '../constants'
+import type { HistoryFilter, HistoryRecord, PipelineStepType } from '../types'
+
+const OPERATIONS: PipelineStepType[] = ['removeBg', 'upscale', 'convert', 'resize']
+
+const fileName = (path: string) => path.split('/').pop() || path
+
+const RecordRow: React.FC<{
+  record: HistoryRecord
+  rerunning: boolean
+  onOpen: (path: string) => void
+  onRerun: (record: HistoryRecord) => void
+  onEdit: (record: HistoryRecord) => void
+}> = ({ record, rerunning, onOpen, onRerun, onEdit }) => (
+  <div className="px-3 py-2 space-y-1">
+    <div className="flex items-start justify-between gap-3">
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-gray-800 truncate" title={record.sourcePath}>
+          {record.status === 'completed' ? '✅' : '❌'} {fileName(record.sourcePath)}
+        </p>
+        <p className="text-xs text-gray-600">
+          {record.operations.map(operation => STEP_NAMES[operation]).join(' → ')}
+        </p>
+        <p className="text-xs text-gray-400">
+          {new Date(record.createdAt).toLocaleString()} · {(record.durationMs / 1000).toFixed(1)}s
+          {record.picsartAttempts > 0 ? ` · ${record.picsartAttempts} Picsart calls` : ''}
+        </p>
+      </div>
+      <div className="flex gap-1 flex-shrink-0">
+        <button
+          onClick={() => onRerun(record)}
+          disabled={rerunning}
+          className="px-2 py-1 text-xs rounded-lg border border-purple-200 bg-white text-purple-700 hover:bg-purple-50 disabled:opacity-50"
+        >
+          {rerunning ? '🔄 Running...' : '🔁 Re-run'}
+        </button>
+        <button
+          onClick={() => onEdit(record)}
+          disabled={!record.sourceFileId}
+          title={record.sourceFileId ? undefined : 'The source file ID was not recorded'}
+          className="px-2 py-1 text-xs rounded-lg border border-purple-200 bg-white text-purple-700 hover:bg-purple-50 disabled:opacity-50"
+        >
+          ✏️ Edit & re-run
+        </button>
+      </div>
+    </div>
+    {record.steps.filter(step => step.name !== 'download' && step.outputPath).map((step, index) => (
+      <div key={index} className="flex items-center justify-between gap-2 text-xs text-gray-600 pl-3">
+        <button onClick={() => onOpen(step.outputPath!)} className="truncate text-left text-purple-700 hover:underline" title={step.outputPath}>
+          ↳ {step.outputPath}
+        </button>
+        <span className="whitespace-nowrap text-gray-500">
+          {step.uploadAction ? UPLOAD_ACTION_LABELS[step.uploadAction] : ''}
+          {step.provider ? ` · ${step.provider}` : ''}
+          {step.cacheHit ? ' · ⚡ cached' : ''}
+        </span>
+      </div>
+    ))}
+    {record.error && <p className="text-xs text-red-600 pl-3">⚠️ {record.error}</p>}
+  </div>
+)
+
+// Past processing runs: browse, open outputs and run them again
+export const HistoryPage: React.FC = () => {
+  const navigate = useNavigate()
+  const { accessToken, updateProcessingOptions, setActivePresetId, setStatus } = useAppStore()
+  const { records, total, loading, rerunning, loadHistory, rerun } = useHistory()
+  const { selectImage } = useImageProcessing()
+
+  const [filter, setFilter] = useState<HistoryFilter>({})
+  const [page, setPage] = useState(0)
+
+  useEffect(() => {
+    loadHistory(filter, page)
+  }, [filter, page, loadHistory])
+
+  const updateFilter = (changes: Partial<HistoryFilter>) => {
+    setFilter(current => ({ ...current, ...changes }))
+    setPage(0)
+  }
+
+  const handleOpen = async (path: string) => {
+    if (!accessToken) return
+    try {
+      window.open(await dropboxApi.getTemporaryLink(accessToken, path), '_blank')
+    } catch {
+      setStatus(`❌ Could not open ${path} - it may have been moved or deleted`)
+    }
+  }
+
+  const handleRerun = async (record: HistoryRecord) => {
+    if (!(await rerun(record))) return
+    // The re-run is the newest record
+    if (page === 0) loadHistory(filter, 0)
+    else setPage(0)
+  }
+
+  // Select the source image, then fill the processing page with the recorded options
+  const handleEdit = async (record: HistoryRecord) => {
+    if (!record.sourceFileId) return
+    await selectImage({
+      id: record.sourceFileId,
+      name: fileName(record.sourcePath),
+      path_display: record.sourcePath,
+      path_lower: record.sourcePath.toLowerCase(),
+      size: 0
+    })
+    updateProcessingOptions(recordToProcessingOptions(record))
+    setActivePresetId(null)
+  }
+
+  const pageCount = Math.max(1, Math.ceil(total / HISTORY_PAGE_SIZE))
+  const inputClassName = 'border border-gray-300 rounded-lg px-2 py-1 text-sm focus:ring-purple-500 focus:border-purple-500'
+
+  return (
+    <div className="space-y-4 p-2 animate-fadeIn">
+      <div className="text-center">
+        <button
+          onClick={() => navigate('/select')}
+          className="bg-gray-500 text-white px-3 py-2 rounded-lg hover:bg-gray-600 transition-colors text-sm"
+        >
+          ← Back to Selection
+        </button>
+      </div>
+
+      <div className="bg-gradient-to-r from-purple-50 to-pink-50 rounded-lg p-4 border border-purple-200 space-y-3">
+        <h3 className="text-lg font-semibold text-purple-800">🕘 History</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+          <input
+            value={filter.path || ''}
+            onChange={(e) => updateFilter({ path: e.target.value })}
+            placeholder="Search file path"
+            className={`${inputClassName} col-span-2 sm:col-span-1`}
+          />
+          <select
+            value={filter.status || ''}
+            onChange={(e) => updateFilter({ status: (e.target.value || undefined) as HistoryFilter['status'] })}
+            className={inputClassName}
+          >
+            <option value="">Any status</option>
+            <option value="completed">Completed</option>
+            <option value="failed">Failed</option>
+          </select>
+          <select
+            value={filter.operation || ''}
+            onChange={(e) => updateFilter({ operation: (e.target.value || undefined) as PipelineStepType | undefined })}
+            className={inputClassName}
+          >
+            <option value="">Any operation</option>
+            {OPERATIONS.map(operation => (
+              <option key={operation} value={operation}>{STEP_NAMES[operation]}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={filter.from || ''}
+            onChange={(e) => updateFilter({ from: e.target.value || undefined })}
+            title="From"
+            className={inputClassName}
+          />
+          <input
+            type="date"
+            value={filter.to || ''}
+            onChange={(e) => updateFilter({ to: e.target.value || undefined })}
+            title="To"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg border border-purple-200 divide-y divide-purple-100">
+        {loading && records.length === 0 && <p className="p-3 text-sm text-gray-500">🔄 Loading history...</p>}
+        {!loading && records.length === 0 && <p className="p-3 text-sm text-gray-500">No processing runs found.</p>}
+        {records.map(record => (
+          <RecordRow
+            key={record.recordId}
+            record={record}
+            rerunning={!!rerunning[record.recordId]}
+            onOpen={handleOpen}
+            onRerun={handleRerun}
+            onEdit={handleEdit}
+          />
+        ))}
+      </div>
+
+      {total > HISTORY_PAGE_SIZE && (
+        <div className="flex items-center justify-center gap-3 text-sm text-gray-600">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0 || loading}
+            className="px-3 py-1 rounded-lg border border-purple-200 bg-white hover:bg-purple-50 disabled:opacity-50"
+          >
+            ← Newer
+          </button>
+          <span>Page {page + 1} of {pageCount}</span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page + 1 >= pageCount || loading}
+            className="px-3 py-1 rounded-lg border border-purple-200 bg-white hover:bg-purple-50 disabled:opacity-50"
+          >
+            Older →
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
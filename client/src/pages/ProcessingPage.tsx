@@ -3,6 +3,27 @@ import { useParams, useNavigate } from 'react-router-dom'
 import { useImageProcessing } from '../hooks/useImageProcessing'
 import { useDirectFile } from '../hooks/useDirectFile'
 import { useAppStore } from '../store'
+import { RemoveBgOptionsPanel } from '../components/RemoveBgOptionsPanel'
+import { OutputFormatPanel } from '../components/OutputFormatPanel'
+import { SaveLocationPanel } from '../components/SaveLocationPanel'
+import { ConflictPolicySelect } from '../components/ConflictPolicySelect'
+import { PresetPicker } from '../components/PresetPicker'
+import type { ProcessingEvent } from '../types'
+
+// Human-readable detail line for the latest live progress event
+const describeProcessingEvent = (event: ProcessingEvent): string => {
+  const attempt = event.attempt && event.maxAttempts ? ` (attempt ${event.attempt}/${event.maxAttempts})` : ''
+  if (event.waitMs) {
+    return `⏳ ${event.message} - retrying in ${Math.ceil(event.waitMs / 1000)}s${attempt}`
+  }
+  if (event.stage === 'provider_failover') {
+    return `🔀 ${event.message}`
+  }
+  if (event.stage === 'cache_hit') {
+    return `⚡ ${event.message}`
+  }
+  return `${event.message}${attempt}`
+}
 
 export const ProcessingPage: React.FC = () => {
   const { fileId } = useParams<{ fileId?: string }>()
@@ -23,12 +44,14 @@ export const ProcessingPage: React.FC = () => {
   
   const {
     directFileId,
+    processingEvent,
     selectedImageThumbnail,
     setCurrentStep,
     setSelectedImage,
     setProcessingResult,
     setDirectFileId,
-    setSelectedImageThumbnail
+    setSelectedImageThumbnail,
+    updateRemoveBgOptions
   } = useAppStore()
 
   // Initialize direct file loading
@@ -154,6 +177,8 @@ export const ProcessingPage: React.FC = () => {
         <h3 className={`text-lg font-semibold text-purple-800 ${loading ? 'mb-2' : 'mb-3'}`}>⚙️ Processing Options</h3>
         
         <div className={`${loading ? 'space-y-2' : 'space-y-4'} flex-shrink-0`}>
+          {!loading && <PresetPicker />}
+          
           <label className="flex items-center space-x-3">
             <input
               type="checkbox"
@@ -165,6 +190,13 @@ export const ProcessingPage: React.FC = () => {
             <span className="text-gray-700">🎨 Remove Background</span>
           </label>
           
+          {processingOptions.removeBg && !loading && (
+            <RemoveBgOptionsPanel
+              options={processingOptions.removeBgOptions}
+              onChange={updateRemoveBgOptions}
+            />
+          )}
+          
           <label className="flex items-center space-x-3">
             <input
               type="checkbox"
@@ -228,6 +260,22 @@ export const ProcessingPage: React.FC = () => {
               )}
             </div>
           )}
+
+          {!loading && (
+            <OutputFormatPanel
+              output={processingOptions.output}
+              onChange={(output) => updateProcessingOptions({ output })}
+            />
+          )}
+
+          {!loading && (
+            <ConflictPolicySelect
+              value={processingOptions.conflictPolicy}
+              onChange={(conflictPolicy) => updateProcessingOptions({ conflictPolicy })}
+            />
+          )}
+
+          {!loading && <SaveLocationPanel sampleName={selectedImage?.name} />}
         </div>
         
         {/* Processing Progress */}
@@ -246,6 +294,12 @@ export const ProcessingPage: React.FC = () => {
                 </span>
               </div>
               
+              {processingEvent && (
+                <p className={`text-xs truncate ${processingEvent.waitMs || processingEvent.stage === 'provider_failover' ? 'text-amber-600' : 'text-gray-500'}`}>
+                  {describeProcessingEvent(processingEvent)}
+                </p>
+              )}
+              
               <div className="relative">
                 <div className="w-full bg-gradient-to-r from-gray-100 to-gray-200 rounded-full h-3 shadow-inner overflow-hidden">
                   <div 
@@ -2,6 +2,13 @@ import React from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useImageProcessing } from '../hooks/useImageProcessing'
 import { useAppStore } from '../store'
+import { STEP_NAMES, UPLOAD_ACTION_LABELS } from '../constants'
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
 
 export const ResultsPage: React.FC = () => {
   const navigate = useNavigate()
@@ -30,6 +37,9 @@ export const ResultsPage: React.FC = () => {
     )
   }
 
+  const finalPath = processingResult.results.final
+  const pipelineSteps = (processingResult.steps || []).filter(step => step.name !== 'download')
+
   const handleProcessAnother = () => {
     console.log('🔄 [RESULTS] Processing another image - clearing current state and going to selection')
     
@@ -126,11 +136,63 @@ export const ResultsPage: React.FC = () => {
                     <div className="absolute inset-0 rounded-lg border-2 border-transparent group-hover:border-blue-400 transition-all duration-300"></div>
                   </div>
                 )}
+
+                {/* Final pipeline output, when the last step was a conversion or resize */}
+                {finalPath && finalPath !== processingResult.results.backgroundRemoved && finalPath !== processingResult.results.upscaled && (
+                  <div className="group bg-white rounded-lg p-2 sm:p-3 md:p-5 border border-purple-200 w-full max-w-40 sm:max-w-64 md:w-72 flex-shrink-0 shadow-md hover:shadow-2xl transition-all duration-300 transform hover:scale-105 hover:-translate-y-2 cursor-pointer relative overflow-hidden">
+                    <div className="absolute inset-0 bg-gradient-to-r from-amber-600/10 to-orange-600/10 opacity-0 group-hover:opacity-100 transition-opacity duration-300 rounded-lg"></div>
+                    
+                    <h4 className="relative font-medium text-purple-800 mb-2 sm:mb-3 md:mb-4 text-xs sm:text-sm text-center transition-all duration-300 group-hover:text-amber-800 group-hover:font-semibold">🏁 Final Output</h4>
+                    <div className="relative w-full rounded-lg mb-2 sm:mb-3 md:mb-4 flex items-center justify-center overflow-hidden transition-all duration-300 h-16 sm:h-20 md:h-24 lg:h-28">
+                      {thumbnailUrls[finalPath] ? (
+                        <img
+                          src={thumbnailUrls[finalPath]}
+                          alt="Final output"
+                          className="max-w-full max-h-full object-contain rounded-lg transition-all duration-300 group-hover:scale-110 group-hover:brightness-110"
+                        />
+                      ) : (
+                        <div className="flex flex-col items-center justify-center text-center">
+                          <span className="text-gray-400 transition-all duration-300 group-hover:text-amber-400 group-hover:scale-110 animate-pulse text-2xl">🏁</span>
+                          <span className="text-xs text-gray-500 mt-1">Loading preview...</span>
+                        </div>
+                      )}
+                    </div>
+                    <p className="relative text-xs text-gray-600 text-center transition-all duration-300 group-hover:text-amber-600 group-hover:font-medium overflow-hidden" style={{ display: '-webkit-box', WebkitLineClamp: 2, WebkitBoxOrient: 'vertical', lineHeight: '1.2' }}>
+                      {finalPath}
+                    </p>
+                    
+                    <div className="absolute inset-0 rounded-lg border-2 border-transparent group-hover:border-amber-400 transition-all duration-300"></div>
+                  </div>
+                )}
               </div>
             </div>
           </div>
         )}
         
+        {/* Per-step breakdown of the pipeline */}
+        {pipelineSteps.length > 0 && (
+          <div className="mt-2 sm:mt-4 bg-white rounded-lg border border-green-200 divide-y divide-green-100 text-xs sm:text-sm">
+            {pipelineSteps.map((step, index) => (
+              <div key={index} className="flex flex-wrap items-center justify-between gap-1 sm:gap-3 px-2 sm:px-4 py-2">
+                <span className="font-medium text-green-800">
+                  {index + 1}. {STEP_NAMES[step.name]}
+                  {step.provider && <span className="ml-1 text-gray-500 font-normal">({step.provider}{step.cacheHit ? ', cached' : ''})</span>}
+                </span>
+                <span className="text-gray-600 truncate max-w-full sm:max-w-xs" title={step.outputPath}>
+                  {step.outputPath || 'Not saved'}
+                </span>
+                <span className="text-gray-500 whitespace-nowrap">
+                  {step.uploadAction ? `${UPLOAD_ACTION_LABELS[step.uploadAction]} · ` : ''}
+                  {step.format ? `${step.format.toUpperCase()} · ` : ''}
+                  {step.width && step.height ? `${step.width}×${step.height} · ` : ''}
+                  {step.outputSize !== undefined ? `${formatBytes(step.outputSize)} · ` : ''}
+                  {step.durationMs !== undefined ? `${(step.durationMs / 1000).toFixed(1)}s` : '—'}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+        
         <div className="mt-4 sm:mt-6 md:mt-8 flex justify-center px-2 sm:px-0">
           <button
             onClick={handleProcessAnother}
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAppStore } from '../store'
+import { useAutomationRules } from '../hooks/useAutomationRules'
+import { usePresets } from '../hooks/usePresets'
+import type { AutomationRule } from '../types'
+
+// Processing source value for "use the current processing options" in the form
+const CURRENT_OPTIONS = '__current__'
+
+const describeProcessing = (rule: AutomationRule, presetNames: Record<string, string>): string => {
+  if (rule.presetId) return `preset "${presetNames[rule.presetId] || 'deleted preset'}"`
+  if (rule.options?.pipeline?.length) return `${rule.options.pipeline.length}-step pipeline`
+  const steps = [
+    rule.options?.removeBg ? 'remove background' : null,
+    rule.options?.upscale ? `upscale ${rule.options.upscaleFactor}x` : null
+  ].filter(Boolean)
+  return steps.join(' + ') || 'no processing'
+}
+
+const RuleRow: React.FC<{
+  rule: AutomationRule
+  presetNames: Record<string, string>
+  onToggle: (rule: AutomationRule) => void
+  onDelete: (ruleId: string) => void
+}> = ({ rule, presetNames, onToggle, onDelete }) => (
+  <div className="px-3 py-2 flex items-start justify-between gap-3">
+    <div className="min-w-0">
+      <p className={`text-sm font-medium ${rule.enabled ? 'text-gray-800' : 'text-gray-400'}`}>
+        {rule.enabled ? '🤖' : '⏸️'} {rule.name}
+      </p>
+      <p className="text-xs text-gray-600 truncate">
+        New {rule.extensions.length > 0 ? rule.extensions.join(', ') : 'images'} in {rule.folderPath}
+        {rule.includeSubfolders ? ' (and subfolders)' : ''} → {describeProcessing(rule, presetNames)} → {rule.outputFolder}
+      </p>
+      {rule.lastTriggeredAt && (
+        <p className="text-xs text-gray-400">
+          {rule.triggerCount} files processed · last run {new Date(rule.lastTriggeredAt).toLocaleString()}
+        </p>
+      )}
+    </div>
+    <div className="flex gap-1 flex-shrink-0">
+      <button
+        onClick={() => onToggle(rule)}
+        className="px-2 py-1 text-xs rounded-lg border border-purple-200 bg-white text-purple-700 hover:bg-purple-50"
+      >
+        {rule.enabled ? 'Pause' : 'Enable'}
+      </button>
+      <button
+        onClick={() => onDelete(rule.ruleId)}
+        className="px-2 py-1 text-xs rounded-lg border border-red-200 bg-white text-red-600 hover:bg-red-50"
+      >
+        Delete
+      </button>
+    </div>
+  </div>
+)
+
+// Automation rules: processing that runs by itself when new files land in a Dropbox folder
+export const RulesPage: React.FC = () => {
+  const navigate = useNavigate()
+  const { processingOptions } = useAppStore()
+  const { rules, loading, loadRules, createRule, toggleRule, deleteRule } = useAutomationRules()
+  const { presets, loadPresets } = usePresets()
+
+  const [name, setName] = useState('')
+  const [folderPath, setFolderPath] = useState('/Inbox')
+  const [includeSubfolders, setIncludeSubfolders] = useState(false)
+  const [extensions, setExtensions] = useState('.jpg, .jpeg')
+  const [processingSource, setProcessingSource] = useState(CURRENT_OPTIONS)
+  const [outputFolder, setOutputFolder] = useState('/Processed')
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadRules()
+    loadPresets()
+  }, [loadRules, loadPresets])
+
+  const presetNames = Object.fromEntries(presets.map(preset => [preset.presetId, preset.name]))
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setSaving(true)
+    const rule = await createRule({
+      name: name.trim(),
+      folderPath,
+      includeSubfolders,
+      extensions: extensions.split(',').map(ext => ext.trim()).filter(Boolean),
+      outputFolder,
+      ...(processingSource === CURRENT_OPTIONS ? { options: processingOptions } : { presetId: processingSource })
+    })
+    setSaving(false)
+    if (rule) setName('')
+  }
+
+  const inputClassName = 'w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-purple-500 focus:border-purple-500'
+
+  return (
+    <div className="space-y-4 p-2 animate-fadeIn">
+      <div className="text-center">
+        <button
+          onClick={() => navigate('/select')}
+          className="bg-gray-500 text-white px-3 py-2 rounded-lg hover:bg-gray-600 transition-colors text-sm"
+        >
+          ← Back to Selection
+        </button>
+      </div>
+
+      <div className="bg-gradient-to-r from-purple-50 to-pink-50 rounded-lg p-4 border border-purple-200">
+        <h3 className="text-lg font-semibold text-purple-800 mb-1">🤖 Automation Rules</h3>
+        <p className="text-sm text-gray-600">
+          Rules run when Dropbox reports new files: matching images are processed and saved to the output folder.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg border border-purple-200 divide-y divide-purple-100">
+        {loading && rules.length === 0 && <p className="p-3 text-sm text-gray-500">🔄 Loading rules...</p>}
+        {!loading && rules.length === 0 && <p className="p-3 text-sm text-gray-500">No rules yet.</p>}
+        {rules.map(rule => (
+          <RuleRow key={rule.ruleId} rule={rule} presetNames={presetNames} onToggle={toggleRule} onDelete={deleteRule} />
+        ))}
+      </div>
+
+      <form
+        onSubmit={handleCreate}
+        className="bg-gradient-to-r from-purple-50 to-pink-50 rounded-lg p-4 border border-purple-200 space-y-3"
+      >
+        <h3 className="text-lg font-semibold text-purple-800">➕ New Rule</h3>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Rule name, e.g. Inbox cutouts"
+          className={inputClassName}
+          required
+        />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="text-sm text-gray-700 space-y-1">
+            <span>📥 Watched folder</span>
+            <input value={folderPath} onChange={(e) => setFolderPath(e.target.value)} className={inputClassName} required />
+          </label>
+          <label className="text-sm text-gray-700 space-y-1">
+            <span>📤 Output folder</span>
+            <input value={outputFolder} onChange={(e) => setOutputFolder(e.target.value)} className={inputClassName} required />
+          </label>
+          <label className="text-sm text-gray-700 space-y-1">
+            <span>🧾 File types (empty for all images)</span>
+            <input value={extensions} onChange={(e) => setExtensions(e.target.value)} className={inputClassName} />
+          </label>
+          <label className="text-sm text-gray-700 space-y-1">
+            <span>⚙️ Processing</span>
+            <select value={processingSource} onChange={(e) => setProcessingSource(e.target.value)} className={inputClassName}>
+              <option value={CURRENT_OPTIONS}>Current processing options</option>
+              {presets.map(preset => (
+                <option key={preset.presetId} value={preset.presetId}>Preset: {preset.name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <label className="flex items-center space-x-3">
+          <input
+            type="checkbox"
+            checked={includeSubfolders}
+            onChange={(e) => setIncludeSubfolders(e.target.checked)}
+            className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+          />
+          <span className="text-sm text-gray-700">Include subfolders</span>
+        </label>
+        <button
+          type="submit"
+          disabled={saving || !name.trim()}
+          className="w-full bg-gradient-to-r from-purple-600 to-pink-600 text-white px-4 py-2 rounded-lg hover:from-purple-700 hover:to-pink-700 disabled:opacity-50 font-medium shadow-md"
+        >
+          {saving ? '🔄 Saving...' : '💾 Create Rule'}
+        </button>
+      </form>
+    </div>
+  )
+}
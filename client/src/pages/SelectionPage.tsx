@@ -1,31 +1,68 @@
-import React, { useEffect, useCallback, useRef } from 'react'
+import React, { useEffect, useCallback, useMemo, useRef, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { ImageGallery } from '../components/ImageGallery'
+import { GalleryToolbar } from '../components/GalleryToolbar'
 import { NewImageNotification } from '../components/NewImageNotification'
+import { UploadDropZone } from '../components/UploadDropZone'
+import { UploadQueue } from '../components/UploadQueue'
 import { useDropbox } from '../hooks/useDropbox'
 import { useImageProcessing } from '../hooks/useImageProcessing'
 import { useFileUpload } from '../hooks/useFileUpload'
+import { useGalleryFilters } from '../hooks/useGalleryFilters'
+import { useDropboxChanges } from '../hooks/useDropboxChanges'
 import { useAppStore } from '../store'
+import { applyGalleryFilters, hasActiveFilters } from '../utils/galleryFilters'
+import type { ImageFile } from '../types'
 
 export const SelectionPage: React.FC = () => {
   const navigate = useNavigate()
-  const { images, thumbnailUrls, loading, loadImages } = useDropbox()
+  const {
+    images,
+    thumbnailUrls,
+    loading,
+    galleryFolder,
+    galleryRecursive,
+    galleryFolders,
+    gallerySearch,
+    hasMoreImages,
+    loadImages,
+    searchImages,
+    loadMoreImages
+  } = useDropbox()
+  const { filters, updateFilters, clearFilters } = useGalleryFilters()
   const { selectImage } = useImageProcessing()
-  const { uploadProgress, handleFileUpload } = useFileUpload()
+  const {
+    uploadQueue,
+    autoProcessUploads,
+    canAutoProcess,
+    setAutoProcessUploads,
+    addFiles,
+    cancelUpload,
+    retryUpload,
+    clearFinishedUploads
+  } = useFileUpload()
   const { 
-    showUploadArea, 
-    setShowUploadArea, 
-    processingResult,
     showNewImageNotification,
     newImageCount,
     setShowNewImageNotification,
+    pendingNewImages,
+    setPendingNewImages,
+    setImages,
     selectedImage,
     directFileId,
-    setCurrentStep
+    setCurrentStep,
+    batchSelection,
+    setBatchSelection,
+    setGalleryFolder,
+    presets,
+    activePresetId
   } = useAppStore()
 
-  // Track if we've loaded images at least once
-  const hasLoadedRef = useRef(false)
+  const activePreset = presets.find(preset => preset.presetId === activePresetId)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Gallery multi-select for batch processing
+  const [selectionMode, setSelectionMode] = useState(false)
 
   // Check if image is already selected and redirect to processing
   useEffect(() => {
@@ -39,104 +76,209 @@ export const SelectionPage: React.FC = () => {
     }
   }, [selectedImage, directFileId, navigate, setCurrentStep])
 
-  // Always load fresh images when SelectionPage mounts
-  useEffect(() => {
-    console.log('🔄 [SELECTION PAGE] Selection page mounted, loading fresh images from Dropbox...')
-    loadImages()
-    hasLoadedRef.current = true
+  // The search query (and, while searching, the extensions) decide what the server is asked
+  // for; every other filter only applies to what has been loaded
+  const searchKey = filters.query ? `${filters.query}\n${filters.extensions.join(',')}` : ''
+
+  const refreshGallery = useCallback(() => {
+    return filters.query ? searchImages(filters.query, filters.extensions) : loadImages()
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []) // Empty dependency array to run only on mount
+  }, [searchKey, searchImages, loadImages])
 
-  // Auto-refresh when user returns from processing (when processingResult changes)
+  // Load fresh images when SelectionPage mounts, and again when the search changes
   useEffect(() => {
-    if (processingResult && hasLoadedRef.current) {
-      console.log('🔄 [SELECTION PAGE] Processing completed, refreshing image list in background...')
-      // Small delay to let the processed images be uploaded to Dropbox
-      const refreshTimer = setTimeout(() => {
-        console.log('🔄 [SELECTION PAGE] Delayed refresh after processing...')
-        loadImages()
-      }, 3000) // 3 seconds for processed images to appear in Dropbox
-      
-      return () => clearTimeout(refreshTimer)
-    }
-  }, [processingResult, loadImages])
+    console.log('🔄 [SELECTION PAGE] Loading fresh images from Dropbox...', searchKey ? `(search: ${filters.query})` : '')
+    refreshGallery()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchKey])
+
+  // Pick up files as they land on Dropbox (processed outputs, uploads, other devices)
+  useDropboxChanges(refreshGallery)
+
+  const handleShowNewImages = useCallback(() => {
+    console.log('🆕 [SELECTION PAGE] Showing', pendingNewImages.length, 'new images')
+    setImages([...pendingNewImages, ...useAppStore.getState().images])
+    setPendingNewImages([])
+    setShowNewImageNotification(false)
+  }, [pendingNewImages, setImages, setPendingNewImages, setShowNewImageNotification])
+
+  // Dismissed new images stay out of the gallery until its next reload
+  const handleDismissNotification = useCallback(() => {
+    setPendingNewImages([])
+    setShowNewImageNotification(false)
+  }, [setPendingNewImages, setShowNewImageNotification])
 
   // Fast refresh function for manual refresh
   const handleFastRefresh = useCallback(async () => {
     console.log('⚡ [SELECTION PAGE] Manual fast refresh triggered')
-    await loadImages()
-  }, [loadImages])
-
-  // ✅ COMPLETED TODO: Real file upload handler
-  const onFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (file) {
-      await handleFileUpload(file)
-      // Reset input
-      event.target.value = ''
+    await refreshGallery()
+  }, [refreshGallery])
+
+  const visibleImages = useMemo(() => applyGalleryFilters(images, filters), [images, filters])
+
+  // Selections are per folder listing
+  const handleOpenFolder = useCallback((path: string) => {
+    console.log('📂 [SELECTION PAGE] Opening folder:', path || '/')
+    setBatchSelection([])
+    if (gallerySearch !== null) {
+      // Leaving search results: clearing the query reloads, now in this folder
+      setGalleryFolder(path)
+      updateFilters({ query: '' })
+      return
+    }
+    loadImages(path, galleryRecursive)
+  }, [loadImages, galleryRecursive, gallerySearch, setBatchSelection, setGalleryFolder, updateFilters])
+
+  const handleRecursiveChange = useCallback((recursive: boolean) => {
+    setBatchSelection([])
+    loadImages(galleryFolder, recursive)
+  }, [loadImages, galleryFolder, setBatchSelection])
+
+  const handleSelectionModeChange = (enabled: boolean) => {
+    setSelectionMode(enabled)
+    if (!enabled) {
+      setBatchSelection([])
     }
   }
 
+  const handleToggleSelect = (image: ImageFile) => {
+    const isSelected = batchSelection.some(selected => selected.id === image.id)
+    setBatchSelection(isSelected
+      ? batchSelection.filter(selected => selected.id !== image.id)
+      : [...batchSelection, image])
+  }
+
+  // Chosen files join the upload queue, like dropped and pasted ones
+  const onFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files || []))
+    // Reset input so the same files can be chosen again
+    event.target.value = ''
+  }
+
   return (
     <>
       <NewImageNotification
         show={showNewImageNotification}
-        count={newImageCount}
-        onDismiss={() => setShowNewImageNotification(false)}
+        count={pendingNewImages.length || newImageCount}
+        onDismiss={handleDismissNotification}
+        onShow={pendingNewImages.length > 0 ? handleShowNewImages : undefined}
       />
+      <UploadDropZone onFiles={addFiles} />
       
       <div className="space-y-4 p-2 animate-fadeIn">
       {/* Upload Area */}
       <div className="bg-gradient-to-r from-purple-50 to-pink-50 rounded-lg p-4 border border-purple-200 animate-slideInLeft">
         <h3 className="text-lg font-bold text-purple-800 mb-2 animate-fadeInUp">📤 Upload & Process Images</h3>
-        <p className="text-sm text-purple-700 mb-3 animate-fadeInUp animation-delay-100">Upload images from your computer to process with AI:</p>
+        <p className="text-sm text-purple-700 mb-3 animate-fadeInUp animation-delay-100">
+          Drop images or whole folders anywhere on this page, paste them from the clipboard, or choose files from your computer:
+        </p>
         
-        {!showUploadArea ? (
+        <div className="flex flex-wrap items-center gap-3 animate-fadeInUp animation-delay-200">
           <button
-            onClick={() => setShowUploadArea(true)}
-            className="bg-gradient-to-r from-purple-600 to-pink-600 text-white px-4 py-2 rounded-lg hover:from-purple-700 hover:to-pink-700 transition-all duration-300 transform hover:scale-105 hover:shadow-lg text-sm animate-fadeInUp animation-delay-200"
+            onClick={() => fileInputRef.current?.click()}
+            className="bg-gradient-to-r from-purple-600 to-pink-600 text-white px-4 py-2 rounded-lg hover:from-purple-700 hover:to-pink-700 transition-all duration-300 transform hover:scale-105 hover:shadow-lg text-sm"
           >
-            📁 Choose File
+            📁 Choose Files
           </button>
-        ) : (
-          <div className="space-y-3">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            multiple
+            onChange={onFileChange}
+            className="hidden"
+          />
+          <label
+            className="flex items-center space-x-2"
+            title={canAutoProcess ? undefined : 'Turn on at least one processing step first'}
+          >
             <input
-              type="file"
-              accept="image/*"
-              onChange={onFileChange}
-              className="block w-full text-sm text-gray-500
-                file:mr-4 file:py-2 file:px-4
-                file:rounded-lg file:border-0
-                file:text-sm file:font-semibold
-                file:bg-purple-50 file:text-purple-700
-                hover:file:bg-purple-100"
+              type="checkbox"
+              checked={autoProcessUploads && canAutoProcess}
+              onChange={(e) => setAutoProcessUploads(e.target.checked)}
+              disabled={!canAutoProcess}
+              className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
             />
-            {uploadProgress > 0 && (
-              <div className="w-full bg-gray-200 rounded-full h-2">
-                <div 
-                  className="bg-gradient-to-r from-purple-600 to-pink-600 h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${uploadProgress}%` }}
-                ></div>
-              </div>
-            )}
-            <button
-              onClick={() => setShowUploadArea(false)}
-              className="text-sm text-gray-500 hover:text-gray-700"
-            >
-              Cancel
-            </button>
-          </div>
+            <span className="text-sm text-gray-700">
+              Process each upload with {activePreset ? `the "${activePreset.name}" preset` : 'the current settings'}
+            </span>
+          </label>
+        </div>
+
+        {uploadQueue.length > 0 && (
+          <UploadQueue
+            items={uploadQueue}
+            onCancel={cancelUpload}
+            onRetry={retryUpload}
+            onClearFinished={clearFinishedUploads}
+          />
         )}
       </div>
 
       {/* Image Gallery */}
       <ImageGallery
-        images={images}
+        images={visibleImages}
         thumbnailUrls={thumbnailUrls}
         loading={loading}
         onImageSelect={selectImage}
         onRefresh={handleFastRefresh}
+        currentFolder={galleryFolder}
+        folders={galleryFolders}
+        recursive={galleryRecursive}
+        hasMore={hasMoreImages}
+        onOpenFolder={handleOpenFolder}
+        onRecursiveChange={handleRecursiveChange}
+        onLoadMore={loadMoreImages}
+        searchQuery={gallerySearch}
+        filtersActive={hasActiveFilters(filters)}
+        toolbar={
+          <GalleryToolbar
+            filters={filters}
+            onChange={updateFilters}
+            onClear={clearFilters}
+            shownCount={visibleImages.length}
+            loadedCount={images.length}
+          />
+        }
+        selectionMode={selectionMode}
+        selectedIds={batchSelection.map(image => image.id)}
+        onToggleSelect={handleToggleSelect}
+        onSelectionModeChange={handleSelectionModeChange}
       />
+
+      {/* Batch actions */}
+      {selectionMode && (
+        <div className="sticky bottom-2 bg-white/95 backdrop-blur rounded-lg p-3 border border-purple-300 shadow-lg flex flex-wrap items-center justify-between gap-2 animate-fadeInUp">
+          <div className="flex items-center gap-3 text-sm text-purple-800">
+            <span className="font-semibold">{batchSelection.length} selected</span>
+            <button onClick={() => setBatchSelection(visibleImages)} className="text-purple-600 hover:text-purple-800 underline">
+              Select all
+            </button>
+            {batchSelection.length > 0 && (
+              <button onClick={() => setBatchSelection([])} className="text-gray-500 hover:text-gray-700 underline">
+                Clear
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {gallerySearch === null && (
+              <button
+                onClick={() => navigate(`/batch?folder=${encodeURIComponent(galleryFolder || '/')}${galleryRecursive ? '&recursive=1' : ''}`)}
+                className="bg-white text-purple-700 border border-purple-300 px-3 py-2 rounded-lg hover:bg-purple-50 text-sm"
+              >
+                📁 Process whole folder
+              </button>
+            )}
+            <button
+              onClick={() => navigate('/batch')}
+              disabled={batchSelection.length === 0}
+              className="bg-gradient-to-r from-purple-600 to-pink-600 text-white px-3 py-2 rounded-lg hover:from-purple-700 hover:to-pink-700 disabled:opacity-50 text-sm"
+            >
+              🚀 Process {batchSelection.length || ''} selected
+            </button>
+          </div>
+        </div>
+      )}
     </div>
     </>
   )
@@ -7,6 +7,9 @@ import { LoginPage } from '../pages/LoginPage'
 import { SelectionPage } from '../pages/SelectionPage'
 import { ProcessingPage } from '../pages/ProcessingPage'
 import { ResultsPage } from '../pages/ResultsPage'
+import { BatchPage } from '../pages/BatchPage'
+import { RulesPage } from '../pages/RulesPage'
+import { HistoryPage } from '../pages/HistoryPage'
 import { OAuthCallbackPage } from '../pages/OAuthCallbackPage'
 
 const router = createBrowserRouter([
@@ -45,6 +48,22 @@ const router = createBrowserRouter([
       {
         path: 'results',
         element: <ResultsPage />
+      },
+      {
+        path: 'batch',
+        element: <BatchPage />
+      },
+      {
+        path: 'batch/:batchId',
+        element: <BatchPage />
+      },
+      {
+        path: 'rules',
+        element: <RulesPage />
+      },
+      {
+        path: 'history',
+        element: <HistoryPage />
       }
     ]
   },
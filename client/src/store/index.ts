@@ -1,7 +1,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { create } from 'zustand'
 import { devtools } from 'zustand/middleware'
-import type { User, ImageFile, ProcessingOptions, ProcessingResult, UpscaleWarning, Step } from '../types'
+import { DEFAULT_PROCESSING_OPTIONS } from '../constants'
+import type { User, ImageFile, DropboxFolder, Preset, ProcessingOptions, RemoveBgOptions, ProcessingResult, ProcessingEvent, UpscaleWarning, Step, UploadQueueItem } from '../types'
 
 interface AppStore {
   isAuthenticated: boolean
@@ -19,21 +20,38 @@ interface AppStore {
   selectedImage: ImageFile | null
   thumbnailUrls: Record<string, string>
   selectedImageThumbnail: string | null
+  // Images ticked in the gallery for batch processing
+  batchSelection: ImageFile[]
+  // Folder the gallery shows ('' for the root), its subfolders and where its listing continues
+  galleryFolder: string
+  galleryRecursive: boolean
+  galleryFolders: DropboxFolder[]
+  imagesCursor: string | null
+  // Query the gallery shows search results for, instead of a folder; null when browsing
+  gallerySearch: string | null
+  // Images that appeared on Dropbox since the gallery loaded, held back until the user asks for them
+  pendingNewImages: ImageFile[]
   
   // === PROCESSING STATE ===
   processingOptions: ProcessingOptions
   processingResult: ProcessingResult | null
   upscaleWarning: UpscaleWarning | null
   availableUpscaleFactors: number[]
+  presets: Preset[]
+  // Preset last applied to processingOptions
+  activePresetId: string | null
   
   // === UI STATE ===
   currentStep: Step
   loading: boolean
   status: string
-  uploadProgress: number
+  // Files dropped, pasted or picked for upload, in the order they were added
+  uploadQueue: UploadQueueItem[]
+  // Send each finished upload straight into processing with the current options
+  autoProcessUploads: boolean
   processingProgress: number
   processingStage: string
-  showUploadArea: boolean
+  processingEvent: ProcessingEvent | null
   directFileId: string | null
   showAccountSwitchBanner: boolean
   showAccountMismatchBanner: boolean
@@ -65,8 +83,17 @@ interface AppStore {
   setImages: (images: ImageFile[]) => void
   setSelectedImage: (image: ImageFile | null) => void
   setThumbnailUrl: (id: string, url: string) => void
+  setThumbnailUrls: (urls: Record<string, string>) => void
   setSelectedImageThumbnail: (url: string | null) => void
+  setBatchSelection: (images: ImageFile[]) => void
+  setGalleryFolder: (folder: string) => void
+  setGalleryRecursive: (recursive: boolean) => void
+  setGalleryFolders: (folders: DropboxFolder[]) => void
+  setImagesCursor: (cursor: string | null) => void
+  setGallerySearch: (query: string | null) => void
+  setPendingNewImages: (images: ImageFile[]) => void
   updateProcessingOptions: (options: Partial<ProcessingOptions>) => void
+  updateRemoveBgOptions: (options: Partial<RemoveBgOptions>) => void
   setProcessingResult: (result: ProcessingResult | null) => void
   setCurrentStep: (step: Step) => void
   setLoading: (loading: boolean) => void
@@ -77,10 +104,14 @@ interface AppStore {
   setAccountMismatchInfo: (info: { currentAccount?: string; storedAccount?: string; error?: string }) => void
   setUpscaleWarning: (warning: UpscaleWarning | null) => void
   setAvailableUpscaleFactors: (factors: number[]) => void
+  setPresets: (presets: Preset[]) => void
+  setActivePresetId: (presetId: string | null) => void
   setProcessingProgress: (progress: number) => void
   setProcessingStage: (stage: string) => void
-  setShowUploadArea: (show: boolean) => void
-  setUploadProgress: (progress: number) => void
+  setProcessingEvent: (event: ProcessingEvent | null) => void
+  setUploadQueue: (queue: UploadQueueItem[]) => void
+  updateUploadItem: (id: string, changes: Partial<UploadQueueItem>) => void
+  setAutoProcessUploads: (autoProcess: boolean) => void
   setShowNewImageNotification: (show: boolean) => void
   setNewImageCount: (count: number) => void
   setSavedIntent: (intent: { route?: string; fileId?: string; action?: 'processing' | 'selection' } | null) => void
@@ -109,33 +140,31 @@ export const useAppStore = create<AppStore>()(
       selectedImage: null,
       thumbnailUrls: {},
       selectedImageThumbnail: null,
+      batchSelection: [],
+      galleryFolder: '',
+      galleryRecursive: false,
+      galleryFolders: [],
+      imagesCursor: null,
+      gallerySearch: null,
+      pendingNewImages: [],
       
       // === PROCESSING STATE ===
-      processingOptions: {
-        outputFormat: 'cutout',
-        backgroundBlur: 0,
-        scaleMode: 'fit',
-        autoCenter: false,
-        strokeSize: 0,
-        strokeColor: 'FFFFFF',
-        strokeOpacity: 100,
-        shadowMode: 'disabled',
-        shadowOpacity: 20,
-        shadowBlur: 50,
-        format: 'PNG'
-      },
+      processingOptions: DEFAULT_PROCESSING_OPTIONS,
       processingResult: null,
       upscaleWarning: null,
       availableUpscaleFactors: [2, 4, 6, 8],
+      presets: [],
+      activePresetId: null,
       
       // === UI STATE ===
       currentStep: 'selection',
       loading: false,
       status: '',
-      uploadProgress: 0,
+      uploadQueue: [],
+      autoProcessUploads: false,
       processingProgress: 0,
       processingStage: '',
-      showUploadArea: false,
+      processingEvent: null,
       directFileId: null,
       showAccountSwitchBanner: false,
       showAccountMismatchBanner: false,
@@ -160,10 +189,26 @@ export const useAppStore = create<AppStore>()(
       setThumbnailUrl: (id, url) => set((state) => ({
         thumbnailUrls: { ...state.thumbnailUrls, [id]: url }
       })),
+      setThumbnailUrls: (urls) => set((state) => ({
+        thumbnailUrls: { ...state.thumbnailUrls, ...urls }
+      })),
       setSelectedImageThumbnail: (selectedImageThumbnail) => set({ selectedImageThumbnail }),
+      setBatchSelection: (batchSelection) => set({ batchSelection }),
+      setGalleryFolder: (galleryFolder) => set({ galleryFolder }),
+      setGalleryRecursive: (galleryRecursive) => set({ galleryRecursive }),
+      setGalleryFolders: (galleryFolders) => set({ galleryFolders }),
+      setImagesCursor: (imagesCursor) => set({ imagesCursor }),
+      setGallerySearch: (gallerySearch) => set({ gallerySearch }),
+      setPendingNewImages: (pendingNewImages) => set({ pendingNewImages }),
       updateProcessingOptions: (options) => set((state) => ({
         processingOptions: { ...state.processingOptions, ...options }
       })),
+      updateRemoveBgOptions: (options) => set((state) => ({
+        processingOptions: {
+          ...state.processingOptions,
+          removeBgOptions: { ...state.processingOptions.removeBgOptions, ...options }
+        }
+      })),
       setProcessingResult: (processingResult) => set({ processingResult }),
       setCurrentStep: (currentStep) => set({ currentStep }),
       setLoading: (loading) => set({ loading }),
@@ -174,10 +219,16 @@ export const useAppStore = create<AppStore>()(
       setAccountMismatchInfo: (accountMismatchInfo) => set({ accountMismatchInfo }),
       setUpscaleWarning: (upscaleWarning) => set({ upscaleWarning }),
       setAvailableUpscaleFactors: (availableUpscaleFactors) => set({ availableUpscaleFactors }),
+      setPresets: (presets) => set({ presets }),
+      setActivePresetId: (activePresetId) => set({ activePresetId }),
       setProcessingProgress: (processingProgress) => set({ processingProgress }),
       setProcessingStage: (processingStage) => set({ processingStage }),
-      setShowUploadArea: (showUploadArea) => set({ showUploadArea }),
-      setUploadProgress: (uploadProgress) => set({ uploadProgress }),
+      setProcessingEvent: (processingEvent) => set({ processingEvent }),
+      setUploadQueue: (uploadQueue) => set({ uploadQueue }),
+      updateUploadItem: (id, changes) => set((state) => ({
+        uploadQueue: state.uploadQueue.map(item => item.id === id ? { ...item, ...changes } : item)
+      })),
+      setAutoProcessUploads: (autoProcessUploads) => set({ autoProcessUploads }),
       setShowNewImageNotification: (showNewImageNotification) => set({ showNewImageNotification }),
       setNewImageCount: (newImageCount) => set({ newImageCount }),
       setSavedIntent: (savedIntent: { route?: string; fileId?: string; action?: 'processing' | 'selection' } | null) => set({ savedIntent }),
@@ -213,6 +264,8 @@ export const useAppStore = create<AppStore>()(
         localStorage.removeItem('post_login_redirect')
         localStorage.removeItem('recentlyReauthorized')
         localStorage.removeItem('lastReauthorizationTime')
+        localStorage.removeItem('active_processing_job')
+        localStorage.removeItem('upload_sessions')
         
         // Clear React state
         set({
@@ -226,13 +279,23 @@ export const useAppStore = create<AppStore>()(
           images: [],
           selectedImage: null,
           selectedImageThumbnail: null,
+          batchSelection: [],
+          galleryFolder: '',
+          galleryRecursive: false,
+          galleryFolders: [],
+          imagesCursor: null,
+          gallerySearch: null,
+          pendingNewImages: [],
           thumbnailUrls: {},
           processingResult: null,
+          presets: [],
+          activePresetId: null,
           currentStep: 'selection',
           loading: false,
           processingProgress: 0,
           processingStage: '',
-          uploadProgress: 0
+          processingEvent: null,
+          uploadQueue: []
           // savedIntent: preserved during reauthorization
         })
         
@@ -12,15 +12,219 @@ export interface User {
     path_display: string
     path_lower: string
     size: number
+    // Dropbox revision, so cached thumbnails can be reused until the file changes
+    rev?: string
+    // Last change on Dropbox (ISO timestamp)
+    modified?: string
     width?: number
     height?: number
   }
+
+  export interface DropboxFolder {
+    id: string
+    name: string
+    path_display: string
+    path_lower: string
+  }
+
+  export type GallerySort = 'name' | 'size' | 'modified'
+
+  // 'processed': outputs (told apart by their file name suffix) and the originals they came from;
+  // 'unprocessed': originals without an output among the loaded images
+  export type ProcessedFilter = 'all' | 'processed' | 'unprocessed'
+
+  // Gallery toolbar state, kept in the URL query so a view can be shared.
+  // Sizes are in MB and dimensions in pixels; null means no bound.
+  export interface GalleryFilters {
+    // File name search across the whole account (server-side)
+    query: string
+    // Lowercase, without the dot
+    extensions: string[]
+    minSizeMb: number | null
+    maxSizeMb: number | null
+    minWidth: number | null
+    maxWidth: number | null
+    minHeight: number | null
+    maxHeight: number | null
+    processed: ProcessedFilter
+    // null keeps Dropbox's order
+    sort: GallerySort | null
+    order: 'asc' | 'desc'
+  }
+
+  // An image uploaded to the Dropbox root
+  export interface UploadedFile {
+    fileName: string
+    filePath: string
+    fileId: string
+    fileSize: number
+  }
+
+  export type UploadStatus = 'queued' | 'uploading' | 'processing' | 'done' | 'failed' | 'cancelled'
+
+  // One file in the upload queue
+  export interface UploadQueueItem {
+    id: string
+    name: string
+    size: number
+    status: UploadStatus
+    // Percent uploaded
+    progress: number
+    error?: string
+    // The image on Dropbox, once uploaded
+    image?: ImageFile
+    // Whether it went on to processing, and where the final output was saved
+    processed?: boolean
+    outputPath?: string
+  }
+
+  // What changed on Dropbox since the last long-poll
+  export interface GalleryChanges {
+    changed: boolean
+    // Images added or modified
+    images: ImageFile[]
+    // Lowercase paths of deleted files and folders
+    deleted: string[]
+    // Send with the next poll
+    cursor: string
+    // The cursor expired and was replaced; reload the gallery instead of patching it
+    reset?: boolean
+    // Seconds Dropbox wants us to wait before polling again
+    backoff?: number
+  }
+
+  // One page of a folder listing or search; pass `cursor` back to read the next one
+  export interface ImageListPage {
+    images: ImageFile[]
+    // Direct subfolders of the listed folder seen on this page
+    folders: DropboxFolder[]
+    cursor: string | null
+    hasMore: boolean
+  }
+  
+  export type RemoveBgShadowMode =
+    | 'disabled'
+    | 'custom'
+    | 'bottom-right'
+    | 'bottom'
+    | 'bottom-left'
+    | 'left'
+    | 'right'
+    | 'top-left'
+    | 'top'
+    | 'top-right'
+
+  // Picsart RemoveBG parameters (validated again on the server)
+  export interface RemoveBgOptions {
+    outputType: 'cutout' | 'mask'
+    format: 'PNG' | 'JPG' | 'WEBP'
+    backgroundBlur: number
+    scaleMode: 'fit' | 'fill'
+    autoCenter: boolean
+    strokeSize: number
+    strokeColor: string
+    strokeOpacity: number
+    shadowMode: RemoveBgShadowMode
+    shadowOpacity: number
+    shadowBlur: number
+    backgroundColor?: string
+    backgroundImageUrl?: string
+  }
   
   export interface ProcessingOptions {
     removeBg: boolean
     upscale: boolean
     upscaleFactor: number
+    removeBgOptions: RemoveBgOptions
+    // Explicit step order; when absent the pipeline is built from the flags above
+    pipeline?: PipelineStep[]
+    // Output stage for every saved result; when absent each step keeps its own encoding
+    output?: OutputSettings
+    // What to do when an output name is already taken; the server autorenames when absent
+    conflictPolicy?: ConflictPolicy
+  }
+
+  export type ConflictPolicy = 'autorename' | 'overwrite' | 'update' | 'skip_identical'
+  export type UploadAction = 'created' | 'renamed' | 'overwritten' | 'updated' | 'skipped'
+
+  export type OutputFormat = 'PNG' | 'JPEG' | 'WEBP' | 'AVIF' | 'TIFF'
+
+  // Where processed images are saved; a null folder means next to the original
+  export interface OutputPreferences {
+    outputFolder: string | null
+    filenameTemplate: string
+  }
+
+  export interface OutputSettings {
+    format: OutputFormat
+    // 1-100, for JPEG, WebP, AVIF and JPEG-compressed TIFF
+    quality: number
+    // 0-9 zlib level for PNG (lossless either way)
+    compressionLevel: number
+    // WebP and AVIF only
+    lossless: boolean
+    tiffCompression: 'lzw' | 'deflate' | 'jpeg' | 'none'
+  }
+
+  // Saved, named processing options (stored per user on the server)
+  export interface Preset {
+    presetId: string
+    name: string
+    description: string | null
+    options: Omit<ProcessingOptions, 'removeBgOptions'> & { removeBgOptions?: RemoveBgOptions }
+    // Applied automatically when an image is selected
+    isDefault: boolean
+    createdAt: string
+    updatedAt: string
+  }
+
+  export interface PresetInput {
+    name: string
+    description?: string
+    options: ProcessingOptions
+    isDefault?: boolean
   }
+
+  // Runs when the Dropbox webhook reports new files in folderPath, e.g. "new .jpg in /Inbox → remove background → save to /Processed"
+  export interface AutomationRule {
+    ruleId: string
+    name: string
+    enabled: boolean
+    folderPath: string
+    includeSubfolders: boolean
+    // Lowercase with the dot; empty matches every image type
+    extensions: string[]
+    // Processing comes from a preset or from inline options
+    presetId: string | null
+    options: Preset['options'] | null
+    outputFolder: string
+    triggerCount: number
+    lastTriggeredAt: string | null
+    lastBatchId: string | null
+    createdAt: string
+    updatedAt: string
+  }
+
+  export interface AutomationRuleInput {
+    name: string
+    enabled?: boolean
+    folderPath: string
+    includeSubfolders?: boolean
+    extensions?: string[]
+    presetId?: string | null
+    options?: ProcessingOptions | null
+    outputFolder: string
+  }
+
+  // Pipeline steps run in order, each on the previous step's output.
+  // `save` also writes that step's output to Dropbox (the last step is always saved).
+  export type PipelineStep =
+    | { type: 'removeBg'; save?: boolean; options?: Partial<RemoveBgOptions> }
+    | { type: 'upscale'; save?: boolean; factor: number }
+    | { type: 'convert'; save?: boolean; format: 'PNG' | 'JPG' | 'WEBP'; quality?: number }
+    | { type: 'resize'; save?: boolean; width?: number; height?: number; fit?: 'inside' | 'cover' | 'contain' | 'fill'; withoutEnlargement?: boolean }
+
+  export type PipelineStepType = PipelineStep['type']
   
   export interface ProcessingResult {
     success: boolean
@@ -29,7 +233,179 @@ export interface User {
       original?: string
       backgroundRemoved?: string
       upscaled?: string
+      // Output of the last pipeline step
+      final?: string
     }
+    // Per-step outputs, sizes and timings
+    steps?: JobStep[]
+  }
+  
+  // Processing job types
+  export type JobStatus = 'queued' | 'running' | 'completed' | 'failed'
+  export type JobStepName = 'download' | PipelineStepType
+
+  export interface JobStep {
+    name: JobStepName
+    status: 'pending' | 'running' | 'completed' | 'failed'
+    startedAt?: string
+    completedAt?: string
+    params?: Record<string, unknown>
+    save?: boolean
+    outputPath?: string
+    // How a taken output name was handled
+    uploadAction?: UploadAction
+    outputSize?: number
+    width?: number
+    height?: number
+    // Encoding of the output, e.g. 'png' or 'jpeg'
+    format?: string
+    durationMs?: number
+    // Image provider that produced this step's output ('picsart', 'sharp', ...)
+    provider?: string
+    failoverReason?: string
+    // Output reused from the server's result cache, no Picsart call was made
+    cacheHit?: boolean
+    error?: string
+  }
+
+  export interface ProcessingJob {
+    jobId: string
+    status: JobStatus
+    currentStep: JobStepName | null
+    currentStepIndex: number | null
+    dropboxPath: string
+    conflictPolicy: ConflictPolicy
+    steps: JobStep[]
+    // Whether any step was served from the result cache
+    cacheHit: boolean
+    results: ProcessingResult['results']
+    error: string | null
+    createdAt: string
+    startedAt?: string
+    completedAt?: string
+  }
+  
+  // History of finished processing runs
+  export interface HistoryRecord {
+    recordId: string
+    jobId: string
+    batchId: string | null
+    sourceFileId: string | null
+    sourcePath: string
+    operations: PipelineStepType[]
+    options: Omit<ProcessingOptions, 'removeBgOptions' | 'pipeline'> & { removeBgOptions?: RemoveBgOptions; pipeline: PipelineStep[] }
+    conflictPolicy: ConflictPolicy
+    steps: (JobStep & { picsartAttempts?: number })[]
+    outputPaths: string[]
+    status: 'completed' | 'failed'
+    error: string | null
+    durationMs: number
+    picsartAttempts: number
+    startedAt?: string
+    completedAt?: string
+    createdAt: string
+  }
+
+  export interface HistoryFilter {
+    status?: HistoryRecord['status']
+    operation?: PipelineStepType
+    // Substring of the source path
+    path?: string
+    // Local dates, YYYY-MM-DD
+    from?: string
+    to?: string
+  }
+
+  // Picsart usage types
+  export interface PeriodUsage {
+    period: 'day' | 'month'
+    calls: number
+    failed: number
+    credits: number
+    megapixels: number
+    // null when there is no quota for the period
+    limit: number | null
+    remaining: number | null
+    since: string
+    resetsAt: string
+  }
+
+  export interface PicsartUsageCall {
+    tool: string
+    success: boolean
+    megapixels: number | null
+    credits: number
+    durationMs: number
+    apiAttempts: number
+    errorCode: string | null
+    jobId: string | null
+    createdAt: string
+  }
+
+  export interface UsageSummary {
+    day: PeriodUsage
+    month: PeriodUsage
+    recent: PicsartUsageCall[]
+  }
+
+  // Batch processing types
+  export type BatchSource =
+    | { paths: string[] }
+    | { folderPath: string; recursive?: boolean }
+
+  export interface BatchItem {
+    dropboxPath: string
+    jobId: string
+    status: JobStatus
+    currentStep: JobStepName | null
+    results: ProcessingResult['results']
+    steps: JobStep[]
+    error: string | null
+  }
+
+  export interface ProcessingBatch {
+    batchId: string
+    status: JobStatus
+    source: { paths?: string[]; folderPath?: string; recursive?: boolean; ruleId?: string }
+    conflictPolicy: ConflictPolicy
+    total: number
+    succeeded: number
+    failed: number
+    concurrency: number
+    items: BatchItem[]
+    error: string | null
+    createdAt: string
+    startedAt?: string
+    completedAt?: string
+  }
+  
+  export type ProcessingStage =
+    | 'step_started'
+    | 'step_completed'
+    | 'dropbox_download'
+    | 'picsart_request'
+    | 'picsart_retry_wait'
+    | 'cdn_download'
+    | 'cdn_retry_wait'
+    | 'provider_failover'
+    | 'cache_hit'
+    | 'local_processing'
+    | 'dropbox_upload'
+    | 'job_completed'
+    | 'job_failed'
+
+  // Live progress event streamed from the server
+  export interface ProcessingEvent {
+    stage: ProcessingStage
+    message: string
+    step?: JobStepName | null
+    // Position in the job's steps, since a pipeline may repeat a step type
+    stepIndex?: number | null
+    attempt?: number
+    maxAttempts?: number
+    waitMs?: number
+    reason?: string
+    timestamp: string
   }
   
   export interface UpscaleWarning {
@@ -48,6 +424,7 @@ export interface User {
     path_display: string
     path_lower: string
     size: number
+    rev: string
     width?: number
     height?: number
   }
\ No newline at end of file
@@ -23,7 +23,11 @@ export const initializeAccountSwitchDetection = () => {
           const responseClone = response.clone()
           const data = await responseClone.json()
           
-          if (data?.error?.error_summary?.includes('path/not_found')) {
+          // A folder listing that finds nothing just means the folder is gone, not another account
+          const url = args[0] instanceof Request ? args[0].url : String(args[0])
+          const isFolderListing = url.includes('/files/list_folder')
+
+          if (data?.error?.error_summary?.includes('path/not_found') && !isFolderListing) {
             consecutiveErrors++
             console.log('🔍 [ACCOUNT SWITCH] Cross-account 409 error detected, count:', consecutiveErrors)
             
@@ -1,4 +1,4 @@
-import { Dropbox } from 'dropbox';
+import { createDropboxClient } from '../api/dropboxClient';
 
 // Define proper types for Dropbox error objects
 interface DropboxError {
@@ -37,7 +37,7 @@ export async function validateCurrentAccount(): Promise<ValidationResult> {
     
     // Call Dropbox API to get current account info
     console.log('🔍 Checking current account against stored credentials...');
-    const dbx = new Dropbox({ accessToken });
+    const dbx = createDropboxClient(accessToken);
     const currentAccount = await dbx.usersGetCurrentAccount();
     const currentAccountId = currentAccount.result.account_id;
     const currentAccountEmail = currentAccount.result.email;
@@ -111,7 +111,7 @@ export async function validateSessionConsistency(): Promise<ValidationResult> {
     // Now test actual API functionality to detect session mismatches
     console.log('🔍 [SESSION TEST] Testing API calls to detect session mismatch...');
     
-    const dbx = new Dropbox({ accessToken });
+    const dbx = createDropboxClient(accessToken);
     
     // Test 1: Try to list files (this often fails when session is mismatched)
     try {
@@ -441,7 +441,7 @@ export async function validateFileAccess(fileId?: string): Promise<ValidationRes
       return { isValid: false, reason: 'Missing credentials', error: 'Missing credentials' };
     }
     
-    const dbx = new Dropbox({ accessToken });
+    const dbx = createDropboxClient(accessToken);
     
     // Test 1: Basic account validation
     const basicValidation = await validateCurrentAccount();
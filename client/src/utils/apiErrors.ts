@@ -0,0 +1,22 @@
+/**
+ * API errors - turning a failed request into text the user can read
+ */
+
+interface ApiErrorBody {
+  error?: string;
+  message?: string;
+  details?: string[];
+}
+
+/**
+ * Error text from an axios error response, falling back to the error message.
+ *
+ * Validation failures list their details after the error; a name already in use
+ * (`duplicate_name`) is shown with the server's message rather than the code.
+ */
+export function describeApiError(error: unknown): string {
+  const data = (error as { response?: { data?: ApiErrorBody } })?.response?.data;
+  if (data?.error === 'duplicate_name') return data.message || 'That name is already in use';
+  if (data?.details?.length) return `${data.error}: ${data.details.join(', ')}`;
+  return data?.message || data?.error || (error as Error).message;
+}
@@ -1,4 +1,4 @@
-import { Dropbox } from 'dropbox'
+import { createDropboxClient } from '../api/dropboxClient'
 
 // Comprehensive account validation - checks EVERYWHERE for account_id mismatches
 export const performComprehensiveAccountCheck = async (): Promise<{
@@ -57,7 +57,7 @@ export const performComprehensiveAccountCheck = async (): Promise<{
     // 3. Get current account info
     console.log('🔍 [COMPREHENSIVE CHECK] Getting current account info...')
     
-    const dbx = new Dropbox({ accessToken: accessToken! })
+    const dbx = createDropboxClient(accessToken!)
     let currentAccount
     try {
       const accountInfo = await dbx.usersGetCurrentAccount()
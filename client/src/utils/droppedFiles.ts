@@ -0,0 +1,83 @@
+/**
+ * Dropped and pasted files - reading images out of drag-and-drop data (including whole
+ * folders) and the clipboard
+ */
+
+import { GALLERY_EXTENSIONS } from '../constants';
+
+/**
+ * Whether a file is an image the gallery can show, going by its extension.
+ */
+export function isUploadableImage(file: File): boolean {
+  const extension = file.name.substring(file.name.lastIndexOf('.') + 1).toLowerCase();
+  return file.name.includes('.') && GALLERY_EXTENSIONS.includes(extension);
+}
+
+/**
+ * Whether a drag carries files (as opposed to text or a link being dragged around the page).
+ */
+export function isFileDrag(event: DragEvent): boolean {
+  return !!event.dataTransfer && Array.from(event.dataTransfer.types).includes('Files');
+}
+
+const readFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// A directory reader hands out entries in batches until it returns an empty one
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function collectEntry(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return [await readFile(entry as FileSystemFileEntry)];
+  }
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry);
+    return (await Promise.all(children.map(collectEntry))).flat();
+  }
+  return [];
+}
+
+/**
+ * The files in a drop, looking inside dropped folders and their subfolders.
+ *
+ * Entries have to be taken from the items before the first await: the browser empties the
+ * drop data once the event handler returns.
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry?.() ?? null);
+
+  // Browsers without the entries API still list plain files
+  if (entries.length === 0 || entries.some(entry => entry === null)) {
+    return Array.from(dataTransfer.files);
+  }
+
+  return (await Promise.all((entries as FileSystemEntry[]).map(collectEntry))).flat();
+}
+
+/**
+ * Images pasted from the clipboard. Screenshots come without a useful name ("image.png"),
+ * so they are named after the time they were pasted.
+ */
+export function collectPastedImages(clipboardData: DataTransfer): File[] {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return Array.from(clipboardData.items)
+    .filter(item => item.kind === 'file' && item.type.startsWith('image/'))
+    .map(item => item.getAsFile())
+    .filter((file): file is File => file !== null)
+    .map((file, index) => {
+      if (isUploadableImage(file) && file.name !== 'image.png') return file;
+      const extension = file.type.split('/')[1] === 'jpeg' ? 'jpg' : file.type.split('/')[1];
+      const suffix = index > 0 ? `-${index + 1}` : '';
+      return new File([file], `pasted-${stamp}${suffix}.${extension}`, { type: file.type, lastModified: file.lastModified });
+    })
+    .filter(isUploadableImage);
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_GALLERY_FILTERS,
+  applyGalleryFilters,
+  hasActiveFilters,
+  isProcessedOutput,
+  parseGalleryFilters,
+  writeGalleryFilters
+} from './galleryFilters';
+import type { GalleryFilters, ImageFile } from '../types';
+
+const MB = 1024 * 1024;
+
+const image = (name: string, size: number, extra: Partial<ImageFile> = {}): ImageFile => ({
+  id: `id:${name}`,
+  name,
+  path_display: `/${name}`,
+  path_lower: `/${name.toLowerCase()}`,
+  size,
+  ...extra
+});
+
+const images = [
+  image('cat.jpg', 2 * MB, { width: 4000, height: 3000, modified: '2025-01-03T00:00:00Z' }),
+  image('cat_bg_removed.png', 1 * MB, { width: 4000, height: 3000, modified: '2025-01-04T00:00:00Z' }),
+  image('dog.png', 5 * MB, { width: 800, height: 600, modified: '2025-01-01T00:00:00Z' }),
+  image('bird.webp', 0.5 * MB, { modified: '2025-01-02T00:00:00Z' })
+];
+
+const filtered = (changes: Partial<GalleryFilters>) =>
+  applyGalleryFilters(images, { ...DEFAULT_GALLERY_FILTERS, ...changes }).map(file => file.name);
+
+describe('isProcessedOutput', () => {
+  it('recognizes each step suffix, including renamed copies', () => {
+    expect(isProcessedOutput('cat_bg_removed.png')).toBe(true);
+    expect(isProcessedOutput('cat_upscaled_4x.jpg')).toBe(true);
+    expect(isProcessedOutput('cat_resized_800xauto (1).png')).toBe(true);
+    expect(isProcessedOutput('cat.jpg')).toBe(false);
+    expect(isProcessedOutput('upscaled_photos.jpg')).toBe(false);
+  });
+});
+
+describe('parseGalleryFilters / writeGalleryFilters', () => {
+  it('round-trips every filter through the URL', () => {
+    const filters: GalleryFilters = {
+      query: 'cat',
+      extensions: ['jpg', 'png'],
+      minSizeMb: 0.5,
+      maxSizeMb: 10,
+      minWidth: 100,
+      maxWidth: null,
+      minHeight: null,
+      maxHeight: 2000,
+      processed: 'unprocessed',
+      sort: 'size',
+      order: 'desc'
+    };
+    const params = writeGalleryFilters(new URLSearchParams('path=/Photos'), filters);
+    expect(params.get('path')).toBe('/Photos');
+    expect(parseGalleryFilters(params)).toEqual(filters);
+  });
+
+  it('keeps the URL clean for the defaults', () => {
+    expect(writeGalleryFilters(new URLSearchParams(), DEFAULT_GALLERY_FILTERS).toString()).toBe('');
+  });
+
+  it('falls back to the defaults for invalid values', () => {
+    expect(parseGalleryFilters(new URLSearchParams('ext=.JPG,,png&minMb=-1&maxW=abc&processed=maybe&sort=color&order=up')))
+      .toEqual({ ...DEFAULT_GALLERY_FILTERS, extensions: ['jpg', 'png'] });
+  });
+});
+
+describe('hasActiveFilters', () => {
+  it('ignores sorting', () => {
+    expect(hasActiveFilters({ ...DEFAULT_GALLERY_FILTERS, sort: 'name', order: 'desc' })).toBe(false);
+    expect(hasActiveFilters({ ...DEFAULT_GALLERY_FILTERS, minWidth: 0 })).toBe(true);
+  });
+});
+
+describe('applyGalleryFilters', () => {
+  it('filters by extension and size', () => {
+    expect(filtered({ extensions: ['png'] })).toEqual(['cat_bg_removed.png', 'dog.png']);
+    expect(filtered({ minSizeMb: 1, maxSizeMb: 2 })).toEqual(['cat.jpg', 'cat_bg_removed.png']);
+  });
+
+  it('leaves out images without reported dimensions when filtering by them', () => {
+    expect(filtered({ maxWidth: 1000 })).toEqual(['dog.png']);
+    expect(filtered({ minHeight: 0 })).not.toContain('bird.webp');
+  });
+
+  it('counts originals with a loaded output as processed', () => {
+    expect(filtered({ processed: 'processed' })).toEqual(['cat.jpg', 'cat_bg_removed.png']);
+    expect(filtered({ processed: 'unprocessed' })).toEqual(['dog.png', 'bird.webp']);
+  });
+
+  it('sorts by name, size or modified date in either order', () => {
+    expect(filtered({ sort: 'name', order: 'desc', processed: 'unprocessed' })).toEqual(['dog.png', 'bird.webp']);
+    expect(filtered({ sort: 'size', order: 'desc' })).toEqual(['dog.png', 'cat.jpg', 'cat_bg_removed.png', 'bird.webp']);
+    expect(filtered({ sort: 'modified' })).toEqual(['dog.png', 'bird.webp', 'cat.jpg', 'cat_bg_removed.png']);
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Gallery filters - reading them from and writing them to the URL query, and applying them
+ * to the images the gallery has loaded
+ */
+
+import type { GalleryFilters, GallerySort, ImageFile, ProcessedFilter } from '../types';
+
+export const DEFAULT_GALLERY_FILTERS: GalleryFilters = {
+  query: '',
+  extensions: [],
+  minSizeMb: null,
+  maxSizeMb: null,
+  minWidth: null,
+  maxWidth: null,
+  minHeight: null,
+  maxHeight: null,
+  processed: 'all',
+  sort: null,
+  order: 'asc'
+};
+
+type RangeKey = 'minSizeMb' | 'maxSizeMb' | 'minWidth' | 'maxWidth' | 'minHeight' | 'maxHeight';
+
+// URL query parameter for each range bound
+const RANGE_PARAMS: Record<RangeKey, string> = {
+  minSizeMb: 'minMb',
+  maxSizeMb: 'maxMb',
+  minWidth: 'minW',
+  maxWidth: 'maxW',
+  minHeight: 'minH',
+  maxHeight: 'maxH'
+};
+
+const SORTS: GallerySort[] = ['name', 'size', 'modified'];
+
+// Output names carry the step suffix after the original name: "photo_bg_removed.png",
+// "photo_upscaled_4x.jpg", "photo_resized_800xauto (1).png"
+const OUTPUT_SUFFIX = /_(bg_removed|upscaled_\d+x|resized_(?:\d+|auto)x(?:\d+|auto))(?=[_.\s(]|$)/i;
+
+const stem = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return (dot > 0 ? name.substring(0, dot) : name).toLowerCase();
+};
+
+/**
+ * Whether a file name looks like one of our processing outputs.
+ */
+export function isProcessedOutput(name: string): boolean {
+  return OUTPUT_SUFFIX.test(stem(name));
+}
+
+/**
+ * The lowercase name (without extension) of the original an output was made from.
+ */
+function originalStem(name: string): string {
+  const base = stem(name);
+  const match = OUTPUT_SUFFIX.exec(base);
+  return match ? base.substring(0, match.index) : base;
+}
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+};
+
+/**
+ * Filters from the URL query; anything missing or invalid falls back to the default.
+ */
+export function parseGalleryFilters(params: URLSearchParams): GalleryFilters {
+  const processed = params.get('processed');
+  const sort = params.get('sort');
+  const filters: GalleryFilters = {
+    ...DEFAULT_GALLERY_FILTERS,
+    query: params.get('q')?.trim() || '',
+    extensions: (params.get('ext') || '')
+      .split(',')
+      .map(extension => extension.trim().replace(/^\./, '').toLowerCase())
+      .filter(Boolean),
+    processed: processed === 'yes' ? 'processed' : processed === 'no' ? 'unprocessed' : 'all',
+    sort: SORTS.includes(sort as GallerySort) ? sort as GallerySort : null,
+    order: params.get('order') === 'desc' ? 'desc' : 'asc'
+  };
+  (Object.keys(RANGE_PARAMS) as RangeKey[]).forEach(key => {
+    filters[key] = parseNumber(params.get(RANGE_PARAMS[key]));
+  });
+  return filters;
+}
+
+/**
+ * A copy of `params` with the filters written in. Defaults are left out so plain views keep
+ * a clean URL, and parameters that aren't filters are kept.
+ */
+export function writeGalleryFilters(params: URLSearchParams, filters: GalleryFilters): URLSearchParams {
+  const next = new URLSearchParams(params);
+  const set = (key: string, value: string | null) => value ? next.set(key, value) : next.delete(key);
+
+  set('q', filters.query.trim() || null);
+  set('ext', filters.extensions.length ? filters.extensions.join(',') : null);
+  (Object.keys(RANGE_PARAMS) as RangeKey[]).forEach(key => {
+    set(RANGE_PARAMS[key], filters[key] === null ? null : String(filters[key]));
+  });
+  const processed: Record<ProcessedFilter, string | null> = { all: null, processed: 'yes', unprocessed: 'no' };
+  set('processed', processed[filters.processed]);
+  set('sort', filters.sort);
+  set('order', filters.sort && filters.order === 'desc' ? 'desc' : null);
+  return next;
+}
+
+/**
+ * Whether any filter narrows the gallery down (sorting doesn't count).
+ */
+export function hasActiveFilters(filters: GalleryFilters): boolean {
+  return !!filters.query ||
+    filters.extensions.length > 0 ||
+    filters.processed !== 'all' ||
+    (Object.keys(RANGE_PARAMS) as RangeKey[]).some(key => filters[key] !== null);
+}
+
+/**
+ * The loaded images that pass the filters, in the chosen order.
+ *
+ * The search query itself runs on the server; everything else applies to what has been loaded.
+ * Dimension bounds leave out images whose dimensions Dropbox didn't report.
+ */
+export function applyGalleryFilters(images: ImageFile[], filters: GalleryFilters): ImageFile[] {
+  const inRange = (value: number | undefined, min: number | null, max: number | null) => {
+    if (min === null && max === null) return true;
+    if (value === undefined) return false;
+    return (min === null || value >= min) && (max === null || value <= max);
+  };
+  const megabytes = (bytes: number) => bytes / (1024 * 1024);
+
+  // Originals count as processed when an output made from them is among the loaded images
+  const processedStems = filters.processed === 'all'
+    ? new Set<string>()
+    : new Set(images.filter(image => isProcessedOutput(image.name)).map(image => originalStem(image.name)));
+
+  const filtered = images.filter(image => {
+    const extension = image.name.substring(image.name.lastIndexOf('.') + 1).toLowerCase();
+    if (filters.extensions.length > 0 && !filters.extensions.includes(extension)) return false;
+    if (!inRange(megabytes(image.size), filters.minSizeMb, filters.maxSizeMb)) return false;
+    if (!inRange(image.width, filters.minWidth, filters.maxWidth)) return false;
+    if (!inRange(image.height, filters.minHeight, filters.maxHeight)) return false;
+
+    const isOutput = isProcessedOutput(image.name);
+    if (filters.processed === 'processed') return isOutput || processedStems.has(stem(image.name));
+    if (filters.processed === 'unprocessed') return !isOutput && !processedStems.has(stem(image.name));
+    return true;
+  });
+
+  if (!filters.sort) return filtered;
+
+  const direction = filters.order === 'desc' ? -1 : 1;
+  const compare: Record<GallerySort, (a: ImageFile, b: ImageFile) => number> = {
+    name: (a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }),
+    size: (a, b) => a.size - b.size,
+    modified: (a, b) => (a.modified || '').localeCompare(b.modified || '')
+  };
+  return [...filtered].sort((a, b) => compare[filters.sort!](a, b) * direction);
+}
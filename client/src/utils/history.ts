@@ -0,0 +1,30 @@
+/**
+ * History helpers - turning a recorded run back into store processing options
+ */
+
+import { DEFAULT_REMOVE_BG_OPTIONS } from '../constants';
+import type { HistoryRecord, ProcessingOptions } from '../types';
+
+/**
+ * Build the processing options a history record ran with, so it can be tweaked and run again.
+ *
+ * The server always records an explicit pipeline. It is only kept when the on/off toggles
+ * can't express it (convert or resize steps, repeated steps), so the toggles stay editable.
+ */
+export function recordToProcessingOptions(record: HistoryRecord): ProcessingOptions {
+  const { options } = record;
+  const types = options.pipeline.map(step => step.type);
+  const togglesOnly = types.every(type => type === 'removeBg' || type === 'upscale') &&
+    new Set(types).size === types.length &&
+    types.join() !== 'upscale,removeBg';
+
+  return {
+    removeBg: options.removeBg,
+    upscale: options.upscale,
+    upscaleFactor: options.upscaleFactor,
+    removeBgOptions: { ...DEFAULT_REMOVE_BG_OPTIONS, ...options.removeBgOptions },
+    pipeline: togglesOnly ? undefined : options.pipeline,
+    output: options.output,
+    conflictPolicy: options.conflictPolicy
+  };
+}
@@ -1,4 +1,4 @@
-import { Dropbox } from 'dropbox'
+import { createDropboxClient } from '../api/dropboxClient'
 
 // Immediate account validation when cross-account errors detected
 export const triggerImmediateAccountValidation = async (ignoreGracePeriod: boolean = false) => {
@@ -46,7 +46,7 @@ export const triggerImmediateAccountValidation = async (ignoreGracePeriod: boole
     console.log('🔍 [IMMEDIATE VALIDATION] Running emergency account check...')
     
     // Get current account from Dropbox
-    const dbx = new Dropbox({ accessToken })
+    const dbx = createDropboxClient(accessToken)
     const currentAccount = await dbx.usersGetCurrentAccount()
     const currentAccountId = currentAccount.result.account_id
     const currentEmail = currentAccount.result.email
@@ -1,3 +1,5 @@
+import { DROPBOX_FAKE } from '../constants';
+
 /**
  * PKCE (Proof Key for Code Exchange) utility functions
  * For OAuth 2.0 Authorization Code flow with PKCE
@@ -118,5 +120,10 @@ export function buildAuthorizationUrl(
     force_reapprove: 'false'
   });
   
+  // The fake Dropbox has no consent screen - go straight back to the app with a dummy code
+  if (DROPBOX_FAKE) {
+    return `${redirectUri}?code=fake-authorization-code&state=${encodeURIComponent(state)}`;
+  }
+
   return `https://www.dropbox.com/oauth2/authorize?${params.toString()}`;
 } 
\ No newline at end of file
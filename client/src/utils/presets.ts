@@ -0,0 +1,28 @@
+/**
+ * Preset helpers - turning a saved preset into store processing options
+ */
+
+import { DEFAULT_REMOVE_BG_OPTIONS } from '../constants';
+import type { Preset, ProcessingOptions } from '../types';
+
+/**
+ * Build the processing options a preset stands for, limited to what the selected image allows.
+ *
+ * Upscaling is only kept when the preset's factor (or a smaller safe one) is available
+ * for the image - the same limits the upscale toggle applies.
+ */
+export function presetToProcessingOptions(preset: Preset, availableUpscaleFactors: number[]): ProcessingOptions {
+  const { options } = preset;
+  const safeFactors = availableUpscaleFactors.filter(factor => factor <= options.upscaleFactor);
+  const upscaleFactor = safeFactors.length > 0 ? Math.max(...safeFactors) : availableUpscaleFactors[0];
+
+  return {
+    removeBg: options.removeBg,
+    upscale: options.upscale && upscaleFactor !== undefined,
+    upscaleFactor: upscaleFactor ?? options.upscaleFactor,
+    removeBgOptions: { ...DEFAULT_REMOVE_BG_OPTIONS, ...options.removeBgOptions },
+    pipeline: options.pipeline,
+    output: options.output,
+    conflictPolicy: options.conflictPolicy
+  };
+}
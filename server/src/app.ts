@@ -4,12 +4,31 @@ import userRoutes from './routes/userRoutes';
 import authRoutes from './routes/authRoutes';
 import dropboxRoutes from './routes/dropboxRoutes';
 import imageProcessingRoutes from './routes/imageProcessingRoutes';
+import fakeDropboxRoutes from './routes/fakeDropboxRoutes';
+import presetRoutes from './routes/presetRoutes';
+import ruleRoutes from './routes/ruleRoutes';
+import historyRoutes from './routes/historyRoutes';
+import usageRoutes from './routes/usageRoutes';
+import webhookRoutes from './routes/webhookRoutes';
 import { AuthController } from './controllers/AuthController';
+import { isDropboxFake } from './utils/dropboxClient';
+import { rateLimit } from './middleware/rateLimit';
 
 const app = express();
 
+// Behind a reverse proxy (ngrok, a load balancer), rate limits need the real client IP
+// from X-Forwarded-For: TRUST_PROXY=1 trusts one hop, or give Express's trust proxy value
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy === 'true' ? true : trustProxy);
+}
+
 // Middleware
 app.use(cors());
+
+// Webhooks verify a signature over the raw body, so they are mounted before the JSON parser
+app.use('/api/webhooks', webhookRoutes);
+
 app.use(express.json({ limit: '50mb' }));
 
 // Request logging middleware
@@ -23,14 +42,24 @@ app.use((req, _, next) => {
 
 // OAuth callback route (direct access)
 const authController = new AuthController();
-app.get('/auth', authController.callback.bind(authController));
+app.get('/auth', rateLimit('auth'), authController.callback.bind(authController));
 
 // Routes
 app.use('/api/users', userRoutes);
-app.use('/api/auth', authRoutes);
+app.use('/api/auth', rateLimit('auth'), authRoutes);
 app.use('/api/dropbox', dropboxRoutes);
+app.use('/api/presets', presetRoutes);
+app.use('/api/rules', ruleRoutes);
+app.use('/api/history', historyRoutes);
+app.use('/api/usage', usageRoutes);
 app.use('/api', imageProcessingRoutes);
 
+// In-memory Dropbox for local development (DROPBOX_FAKE=true)
+if (isDropboxFake()) {
+  console.log('🗂️ Using in-memory fake Dropbox - no Dropbox API calls will be made');
+  app.use('/api/fake-dropbox', fakeDropboxRoutes);
+}
+
 // Root route - redirect to frontend
 app.get('/', (_req, res) => {
   const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
@@ -2,12 +2,23 @@ import { Request, Response } from 'express';
 import { Dropbox, DropboxAuth } from 'dropbox';
 import fetch from 'node-fetch';
 import { UserService } from '../services/UserService';
+import { createDropboxClient, isDropboxFake } from '../utils/dropboxClient';
+import { fakeTokensFor, defaultFakeAccountId, refreshFakeTokens } from '../mocks/FakeDropbox';
 
 const userService = new UserService();
 
 // Function to refresh access token using refresh token (matching server.js implementation)
 async function refreshAccessTokenIfNeeded(userRefreshToken: string) {
   try {
+    if (isDropboxFake()) {
+      const fakeTokens = refreshFakeTokens(userRefreshToken);
+      return {
+        dbx: createDropboxClient(fakeTokens.accessToken),
+        accessToken: fakeTokens.accessToken,
+        refreshToken: fakeTokens.refreshToken
+      };
+    }
+
     const CLIENT_ID = process.env.DROPBOX_CLIENT_ID;
     const CLIENT_SECRET = process.env.DROPBOX_CLIENT_SECRET;
 
@@ -103,41 +114,50 @@ export class AuthController {
         return;
       }
 
-      const CLIENT_ID = process.env.DROPBOX_CLIENT_ID;
-      const CLIENT_SECRET = process.env.DROPBOX_CLIENT_SECRET;
-      const REDIRECT_URI = process.env.DROPBOX_REDIRECT_URI;
+      let tokenData: any;
+      if (isDropboxFake()) {
+        // The fake Dropbox has no OAuth server - any code signs in as the configured fake account
+        const fakeTokens = fakeTokensFor(defaultFakeAccountId());
+        tokenData = { access_token: fakeTokens.accessToken, refresh_token: fakeTokens.refreshToken };
+        console.log('🗂️ [FAKE DROPBOX] Issuing fake tokens for', defaultFakeAccountId());
+      } else {
+        const CLIENT_ID = process.env.DROPBOX_CLIENT_ID;
+        const CLIENT_SECRET = process.env.DROPBOX_CLIENT_SECRET;
+        const REDIRECT_URI = process.env.DROPBOX_REDIRECT_URI;
+
+        if (!CLIENT_ID || !CLIENT_SECRET || !REDIRECT_URI) {
+          res.status(500).json({ error: 'Missing OAuth configuration' });
+          return;
+        }
 
-      if (!CLIENT_ID || !CLIENT_SECRET || !REDIRECT_URI) {
-        res.status(500).json({ error: 'Missing OAuth configuration' });
-        return;
-      }
+        console.log('🔄 Exchanging authorization code for tokens with PKCE...');
 
-      console.log('🔄 Exchanging authorization code for tokens with PKCE...');
+        // Exchange code for access token using PKCE with direct fetch
+        // The Dropbox SDK doesn't properly handle PKCE, so we'll use fetch directly
+        const tokenResponse = await fetch('https://api.dropboxapi.com/oauth2/token', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({
+            code: code as string,
+            grant_type: 'authorization_code',
+            client_id: CLIENT_ID,
+            client_secret: CLIENT_SECRET,
+            redirect_uri: REDIRECT_URI,
+            code_verifier: codeVerifier,
+          }).toString(),
+        });
 
-      // Exchange code for access token using PKCE with direct fetch
-      // The Dropbox SDK doesn't properly handle PKCE, so we'll use fetch directly
-      const tokenResponse = await fetch('https://api.dropboxapi.com/oauth2/token', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          code: code as string,
-          grant_type: 'authorization_code',
-          client_id: CLIENT_ID,
-          client_secret: CLIENT_SECRET,
-          redirect_uri: REDIRECT_URI,
-          code_verifier: codeVerifier,
-        }).toString(),
-      });
+        if (!tokenResponse.ok) {
+          const errorText = await tokenResponse.text();
+          console.error('❌ Token exchange failed:', errorText);
+          throw new Error(`Token exchange failed: ${errorText}`);
+        }
 
-      if (!tokenResponse.ok) {
-        const errorText = await tokenResponse.text();
-        console.error('❌ Token exchange failed:', errorText);
-        throw new Error(`Token exchange failed: ${errorText}`);
+        tokenData = await tokenResponse.json() as any;
       }
 
-      const tokenData = await tokenResponse.json() as any;
       const accessToken = tokenData.access_token;
       const refreshToken = tokenData.refresh_token;
 
@@ -149,7 +169,7 @@ export class AuthController {
       console.log('✅ Token exchange successful');
 
       // Get user info
-      const dbx = new Dropbox({ accessToken, fetch });
+      const dbx = createDropboxClient(accessToken);
       const userInfo = await dbx.usersGetCurrentAccount();
 
       const userId = userInfo.result.account_id;
@@ -217,7 +237,7 @@ export class AuthController {
 
       try {
         // Try to use the current token
-        const dbx = new Dropbox({ accessToken, fetch });
+        const dbx = createDropboxClient(accessToken);
         const userInfo = await dbx.usersGetCurrentAccount();
         const currentAccountId = userInfo.result.account_id;
 
@@ -377,7 +397,7 @@ export class AuthController {
 
       // Fallback: simple token validation with Dropbox (only account info)
       try {
-        const dbx = new Dropbox({ accessToken, fetch });
+        const dbx = createDropboxClient(accessToken);
         const userInfo = await dbx.usersGetCurrentAccount();
 
         res.json({
@@ -416,7 +436,7 @@ export class AuthController {
 
       // Try direct token first
       try {
-        const dbx = new Dropbox({ accessToken, fetch });
+        const dbx = createDropboxClient(accessToken);
         const userInfo = await dbx.usersGetCurrentAccount();
         const spaceUsage = await dbx.usersGetSpaceUsage();
 
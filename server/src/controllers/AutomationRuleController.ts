@@ -0,0 +1,234 @@
+import { Request, Response } from 'express';
+import { AutomationRuleService, AutomationRuleInput } from '../services/AutomationRuleService';
+import { PresetService } from '../services/PresetService';
+import { dropboxWebhookService } from '../services/processingServices';
+import { validatePresetOptions } from '../utils/presetOptions';
+import {
+  normalizeExtension,
+  normalizeFolderPath,
+  isSupportedExtension,
+  ruleFolderErrors
+} from '../utils/automationRules';
+
+const automationRuleService = new AutomationRuleService();
+const presetService = new PresetService();
+
+const MAX_NAME_LENGTH = 80;
+
+// Validate a create (all fields) or update (only the fields present) request body.
+// Processing comes from either presetId or inline options; setting one clears the other.
+function parseRuleBody(body: unknown, partial: boolean): { input: Partial<AutomationRuleInput>; errors: string[] } {
+  const errors: string[] = [];
+  const input: Partial<AutomationRuleInput> = {};
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { input, errors: ['Request body must be an object'] };
+  }
+  const raw = body as Record<string, unknown>;
+
+  if (raw.name !== undefined || !partial) {
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      errors.push(`name is required and must be at most ${MAX_NAME_LENGTH} characters`);
+    } else {
+      input.name = name;
+    }
+  }
+
+  for (const key of ['folderPath', 'outputFolder'] as const) {
+    const value = raw[key];
+    if (value !== undefined || !partial) {
+      if (typeof value !== 'string') {
+        errors.push(`${key} is required and must be a Dropbox folder path`);
+      } else {
+        input[key] = normalizeFolderPath(value);
+      }
+    }
+  }
+
+  for (const key of ['enabled', 'includeSubfolders'] as const) {
+    const value = raw[key];
+    if (value !== undefined) {
+      if (typeof value !== 'boolean') {
+        errors.push(`${key} must be a boolean`);
+      } else {
+        input[key] = value;
+      }
+    }
+  }
+
+  if (raw.extensions !== undefined) {
+    if (!Array.isArray(raw.extensions) || !raw.extensions.every((ext: unknown) => typeof ext === 'string')) {
+      errors.push('extensions must be an array of file extensions');
+    } else {
+      const extensions: string[] = Array.from(new Set((raw.extensions as string[]).map(normalizeExtension)));
+      const unsupported = extensions.filter(ext => !isSupportedExtension(ext));
+      if (unsupported.length > 0) {
+        errors.push(`extensions not supported: ${unsupported.join(', ')}`);
+      } else {
+        input.extensions = extensions;
+      }
+    }
+  }
+
+  const hasPreset = raw.presetId !== undefined && raw.presetId !== null;
+  const hasOptions = raw.options !== undefined && raw.options !== null;
+  if (hasPreset && hasOptions) {
+    errors.push('Provide either presetId or options, not both');
+  } else if (hasPreset) {
+    if (typeof raw.presetId !== 'string' || !raw.presetId) {
+      errors.push('presetId must be a string');
+    } else {
+      input.presetId = raw.presetId;
+      input.options = null;
+    }
+  } else if (hasOptions) {
+    const { options, errors: optionErrors } = validatePresetOptions(raw.options);
+    errors.push(...optionErrors.map(error => `options: ${error}`));
+    input.options = options;
+    input.presetId = null;
+  } else if (!partial) {
+    errors.push('Provide either presetId or options');
+  }
+
+  return { input, errors };
+}
+
+const isDuplicateKeyError = (error: unknown) => (error as { code?: number }).code === 11000;
+
+export class AutomationRuleController {
+  // List the current user's automation rules
+  async listRules(req: Request, res: Response): Promise<void> {
+    try {
+      const rules = await automationRuleService.listRules(req.currentAccountId!);
+      res.json({ rules: rules.map(rule => automationRuleService.toResponse(rule)) });
+    } catch (error) {
+      console.error('❌ Error listing rules:', error);
+      res.status(500).json({
+        error: 'Failed to list rules',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  async getRule(req: Request, res: Response): Promise<void> {
+    try {
+      const { ruleId } = req.params;
+      const rule = await automationRuleService.getRule(req.currentAccountId!, ruleId);
+      if (!rule) {
+        res.status(404).json({ error: 'Rule not found', ruleId });
+        return;
+      }
+      res.json(automationRuleService.toResponse(rule));
+    } catch (error) {
+      console.error('❌ Error getting rule:', error);
+      res.status(500).json({
+        error: 'Failed to get rule',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  async createRule(req: Request, res: Response): Promise<void> {
+    try {
+      const { input, errors } = parseRuleBody(req.body, false);
+      if (errors.length === 0) {
+        errors.push(...ruleFolderErrors({
+          folderPath: input.folderPath!,
+          includeSubfolders: !!input.includeSubfolders,
+          outputFolder: input.outputFolder!
+        }));
+      }
+      if (input.presetId && !(await presetService.getPreset(req.currentAccountId!, input.presetId))) {
+        errors.push('presetId does not match one of your presets');
+      }
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid rule', details: errors });
+        return;
+      }
+
+      const rule = await automationRuleService.createRule(req.currentAccountId!, input as AutomationRuleInput);
+
+      // Track changes from now on, so the first webhook already runs the rule
+      if (req.dbx) {
+        await dropboxWebhookService.ensureCursor(req.dbx, req.currentAccountId!).catch(error => {
+          console.error('❌ Could not start Dropbox change tracking:', error);
+        });
+      }
+
+      res.status(201).json(automationRuleService.toResponse(rule));
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        res.status(422).json({ error: 'duplicate_name', message: 'A rule with this name already exists', name: req.body?.name });
+        return;
+      }
+      console.error('❌ Error creating rule:', error);
+      res.status(500).json({
+        error: 'Failed to create rule',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  async updateRule(req: Request, res: Response): Promise<void> {
+    try {
+      const { ruleId } = req.params;
+      const existing = await automationRuleService.getRule(req.currentAccountId!, ruleId);
+      if (!existing) {
+        res.status(404).json({ error: 'Rule not found', ruleId });
+        return;
+      }
+
+      const { input, errors } = parseRuleBody(req.body, true);
+      if (errors.length === 0) {
+        errors.push(...ruleFolderErrors({
+          folderPath: input.folderPath ?? existing.folderPath,
+          includeSubfolders: input.includeSubfolders ?? existing.includeSubfolders,
+          outputFolder: input.outputFolder ?? existing.outputFolder
+        }));
+      }
+      if (input.presetId && !(await presetService.getPreset(req.currentAccountId!, input.presetId))) {
+        errors.push('presetId does not match one of your presets');
+      }
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid rule', details: errors });
+        return;
+      }
+
+      const rule = await automationRuleService.updateRule(req.currentAccountId!, ruleId, input);
+      if (!rule) {
+        res.status(404).json({ error: 'Rule not found', ruleId });
+        return;
+      }
+      res.json(automationRuleService.toResponse(rule));
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        res.status(422).json({ error: 'duplicate_name', message: 'A rule with this name already exists', name: req.body?.name });
+        return;
+      }
+      console.error('❌ Error updating rule:', error);
+      res.status(500).json({
+        error: 'Failed to update rule',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  async deleteRule(req: Request, res: Response): Promise<void> {
+    try {
+      const { ruleId } = req.params;
+      const deleted = await automationRuleService.deleteRule(req.currentAccountId!, ruleId);
+      if (!deleted) {
+        res.status(404).json({ error: 'Rule not found', ruleId });
+        return;
+      }
+      res.json({ success: true, ruleId });
+    } catch (error) {
+      console.error('❌ Error deleting rule:', error);
+      res.status(500).json({
+        error: 'Failed to delete rule',
+        message: (error as Error).message
+      });
+    }
+  }
+}
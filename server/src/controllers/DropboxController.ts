@@ -1,9 +1,31 @@
 import { Request, Response } from 'express';
-import { DropboxService } from '../services/DropboxService';
+import {
+  DropboxService,
+  MAX_LIST_PAGE_SIZE,
+  MAX_SEARCH_PAGE_SIZE,
+  MAX_UPLOAD_SESSION_BYTES,
+  isImageFileName,
+  readUploadSessionError
+} from '../services/DropboxService';
+import {
+  ThumbnailService,
+  ThumbnailRequest,
+  DEFAULT_THUMBNAIL_SIZE,
+  THUMBNAIL_SIZES,
+  isThumbnailSize,
+  normalizeFileId,
+  thumbnailEtag
+} from '../services/ThumbnailService';
+import { ChangeWatchService, MIN_CHANGES_TIMEOUT_SECONDS, MAX_CHANGES_TIMEOUT_SECONDS } from '../services/ChangeWatchService';
 import { validateBeforeOperation, logSecurityEvent } from '../utils/accountValidation';
 import multer from 'multer';
 
 const dropboxService = new DropboxService();
+const thumbnailService = new ThumbnailService(dropboxService);
+const changeWatchService = new ChangeWatchService(dropboxService);
+
+// Files per POST /thumbnails/batch request (fetched from Dropbox 25 at a time)
+const MAX_THUMBNAILS_PER_REQUEST = 100;
 
 // Configure multer for file uploads
 const upload = multer({
@@ -20,6 +42,32 @@ const upload = multer({
   }
 });
 
+// Failed upload session calls: a gone session means starting over, a wrong offset tells the
+// client where Dropbox's copy ends so it can carry on from there
+function sendUploadSessionError(res: Response, error: unknown, action: string): void {
+  const sessionError = readUploadSessionError(error);
+  if (sessionError?.reason === 'not_found') {
+    res.status(404).json({ error: 'Upload session not found', message: 'The upload session expired or was already finished; start a new one' });
+    return;
+  }
+  // 416 rather than 409, which the client treats as an account switch
+  if (sessionError?.reason === 'incorrect_offset') {
+    res.status(416).json({
+      error: 'Wrong offset',
+      message: `Dropbox has ${sessionError.correctOffset} bytes of this upload`,
+      offset: sessionError.correctOffset
+    });
+    return;
+  }
+  console.error(`❌ Error ${action}:`, error);
+  res.status(500).json({ error: 'File upload failed', message: (error as Error).message });
+}
+
+const parseUploadSize = (value: unknown): number | null => {
+  const size = Number(value);
+  return Number.isInteger(size) && size > 0 && size <= MAX_UPLOAD_SESSION_BYTES ? size : null;
+};
+
 export class DropboxController {
   // List images with IDs
   async listImagesWithIds(req: Request, res: Response): Promise<void> {
@@ -45,15 +93,43 @@ export class DropboxController {
         return;
       }
 
+      const { path, cursor, limit } = req.query;
+      if ((path !== undefined && typeof path !== 'string') || (cursor !== undefined && typeof cursor !== 'string')) {
+        res.status(400).json({ error: 'Invalid parameters', message: 'path and cursor must be strings' });
+        return;
+      }
+      const pageSize = limit === undefined ? undefined : Number(limit);
+      if (pageSize !== undefined && (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_LIST_PAGE_SIZE)) {
+        res.status(400).json({ error: 'Invalid parameters', message: `limit must be between 1 and ${MAX_LIST_PAGE_SIZE}` });
+        return;
+      }
+      const recursive = req.query.recursive === 'true' || req.query.recursive === '1';
+
       console.log(`📁 Listing images for validated user: ${req.currentAccountId}`);
-      const result = await dropboxService.listImagesWithIds(req.dbx);
+      let result;
+      try {
+        result = await dropboxService.listImagesWithIds(req.dbx, { path, recursive, cursor, limit: pageSize });
+      } catch (listError) {
+        const summary: string = (listError as { error?: { error_summary?: string } })?.error?.error_summary || '';
+        if (summary.startsWith('path/')) {
+          res.status(404).json({ error: 'Folder not found', path });
+          return;
+        }
+        if (summary.startsWith('reset')) {
+          res.status(410).json({ error: 'Cursor expired', message: 'The listing changed too much to continue; start again without a cursor' });
+          return;
+        }
+        throw listError;
+      }
       
       logSecurityEvent(
         'Successfully listed images for validated user',
         'ListImages',
         { 
           userId: req.currentAccountId,
-          imageCount: result.images?.length || 0
+          imageCount: result.images?.length || 0,
+          path: result.path || '/',
+          hasMore: result.hasMore
         },
         'INFO'
       );
@@ -79,6 +155,92 @@ export class DropboxController {
     }
   }
 
+  // Search image file names across the account (?query=&path=&extensions=jpg,png&cursor=&limit=)
+  async searchImages(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.dbx) {
+        res.status(401).json({ error: 'Dropbox instance not available' });
+        return;
+      }
+
+      const { query, path, extensions, cursor, limit } = req.query;
+      if (cursor !== undefined && (typeof cursor !== 'string' || !cursor)) {
+        res.status(400).json({ error: 'Invalid parameters', message: 'cursor must be a string' });
+        return;
+      }
+      if (cursor === undefined && (typeof query !== 'string' || !query.trim())) {
+        res.status(400).json({ error: 'Invalid parameters', message: 'query is required' });
+        return;
+      }
+      if ((path !== undefined && typeof path !== 'string') || (extensions !== undefined && typeof extensions !== 'string')) {
+        res.status(400).json({ error: 'Invalid parameters', message: 'path and extensions must be strings' });
+        return;
+      }
+      const pageSize = limit === undefined ? undefined : Number(limit);
+      if (pageSize !== undefined && (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_SEARCH_PAGE_SIZE)) {
+        res.status(400).json({ error: 'Invalid parameters', message: `limit must be between 1 and ${MAX_SEARCH_PAGE_SIZE}` });
+        return;
+      }
+
+      const result = await dropboxService.searchImages(req.dbx, {
+        query: typeof query === 'string' ? query.trim() : '',
+        path,
+        extensions: extensions
+          ?.split(',')
+          .map(extension => extension.trim().replace(/^\./, '').toLowerCase())
+          .filter(Boolean),
+        cursor,
+        limit: pageSize
+      });
+      res.json(result);
+    } catch (error) {
+      const summary: string = (error as { error?: { error_summary?: string } })?.error?.error_summary || '';
+      if (summary.startsWith('path/')) {
+        res.status(404).json({ error: 'Folder not found', path: req.query.path });
+        return;
+      }
+      console.error('❌ Error searching images:', error);
+      res.status(500).json({
+        error: 'Failed to search images',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  // Long-poll for changes in the user's Dropbox (?timeout=seconds). Answers as soon as
+  // something changes, with the images added or changed and the paths deleted since the last call.
+  async getChanges(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.dbx) {
+        res.status(401).json({ error: 'Dropbox instance not available' });
+        return;
+      }
+
+      const { cursor } = req.query;
+      if (cursor !== undefined && typeof cursor !== 'string') {
+        res.status(400).json({ error: 'Invalid parameters', message: 'cursor must be a string' });
+        return;
+      }
+      const timeout = req.query.timeout === undefined ? 60 : Number(req.query.timeout);
+      if (!Number.isInteger(timeout) || timeout < MIN_CHANGES_TIMEOUT_SECONDS || timeout > MAX_CHANGES_TIMEOUT_SECONDS) {
+        res.status(400).json({
+          error: 'Invalid parameters',
+          message: `timeout must be between ${MIN_CHANGES_TIMEOUT_SECONDS} and ${MAX_CHANGES_TIMEOUT_SECONDS} seconds`
+        });
+        return;
+      }
+
+      const changes = await changeWatchService.waitForChanges(req.dbx, req.currentAccountId!, cursor || undefined, timeout);
+      res.json(changes);
+    } catch (error) {
+      console.error('❌ Error waiting for Dropbox changes:', error);
+      res.status(500).json({
+        error: 'Failed to check for changes',
+        message: (error as Error).message
+      });
+    }
+  }
+
   // Get image thumbnail by path - unused in this project - for future security improvement
   async getImageThumbnail(req: Request, res: Response): Promise<void> {
     try {
@@ -143,6 +305,111 @@ export class DropboxController {
     }
   }
 
+  // Cached thumbnail by file ID (?rev=...&size=w256h256), with ETag / If-None-Match support
+  async getThumbnail(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.dbx) {
+        res.status(401).json({ error: 'Dropbox instance not available' });
+        return;
+      }
+
+      const fileId = normalizeFileId(req.params.fileId);
+      const rev = typeof req.query.rev === 'string' && req.query.rev ? req.query.rev : undefined;
+      const size = req.query.size ?? DEFAULT_THUMBNAIL_SIZE;
+      if (!isThumbnailSize(size)) {
+        res.status(400).json({ error: 'Invalid thumbnail size', allowed: THUMBNAIL_SIZES });
+        return;
+      }
+
+      // With a revision the ETag is known up front, so a revalidation costs no Dropbox call
+      if (rev) {
+        res.set('ETag', thumbnailEtag(fileId, rev, size));
+        if (req.fresh) {
+          res.status(304).end();
+          return;
+        }
+      }
+
+      const thumbnail = await thumbnailService.getThumbnail(req.dbx, req.currentAccountId!, { fileId, rev }, size);
+      if ('error' in thumbnail) {
+        res.status(404).json({ error: 'Thumbnail not available', fileId, reason: thumbnail.error });
+        return;
+      }
+
+      res.set({
+        'Content-Type': 'image/jpeg',
+        'ETag': thumbnail.etag,
+        // A revision's thumbnail never changes; without one the client has to revalidate
+        'Cache-Control': rev === thumbnail.rev ? 'private, max-age=31536000, immutable' : 'private, no-cache',
+        'X-Dropbox-Rev': thumbnail.rev
+      });
+      if (req.fresh) {
+        res.status(304).end();
+        return;
+      }
+      res.send(thumbnail.buffer);
+    } catch (error) {
+      if ((error as { status?: number }).status === 409) {
+        res.status(404).json({ error: 'File not found', fileId: req.params.fileId });
+        return;
+      }
+      console.error('❌ Error getting cached thumbnail:', error);
+      res.status(500).json({
+        error: 'Failed to get thumbnail',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  // Many cached thumbnails at once: { files: [{ fileId, rev?, etag? }], size? }.
+  // Files whose etag still matches come back as notModified, without image data.
+  async getThumbnailBatch(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.dbx) {
+        res.status(401).json({ error: 'Dropbox instance not available' });
+        return;
+      }
+
+      const { files, size = DEFAULT_THUMBNAIL_SIZE } = req.body || {};
+      if (!Array.isArray(files) || files.length === 0 ||
+        !files.every((file: unknown) => typeof (file as { fileId?: unknown })?.fileId === 'string' && (file as { fileId: string }).fileId)) {
+        res.status(400).json({ error: 'files must be a non-empty array of { fileId, rev?, etag? }' });
+        return;
+      }
+      if (files.length > MAX_THUMBNAILS_PER_REQUEST) {
+        res.status(400).json({ error: `At most ${MAX_THUMBNAILS_PER_REQUEST} thumbnails per request`, count: files.length });
+        return;
+      }
+      if (!isThumbnailSize(size)) {
+        res.status(400).json({ error: 'Invalid thumbnail size', allowed: THUMBNAIL_SIZES });
+        return;
+      }
+
+      const requests: ThumbnailRequest[] = files.map((file: { fileId: string; rev?: unknown }) => ({
+        fileId: file.fileId,
+        rev: typeof file.rev === 'string' && file.rev ? file.rev : undefined
+      }));
+      const thumbnails = await thumbnailService.getThumbnails(req.dbx, req.currentAccountId!, requests, size);
+
+      res.json({
+        size,
+        thumbnails: thumbnails.map((thumbnail, index) => {
+          if ('error' in thumbnail) return thumbnail;
+          const { buffer, ...meta } = thumbnail;
+          return files[index].etag === thumbnail.etag
+            ? { ...meta, notModified: true }
+            : { ...meta, contentType: 'image/jpeg', data: buffer.toString('base64') };
+        })
+      });
+    } catch (error) {
+      console.error('❌ Error getting thumbnail batch:', error);
+      res.status(500).json({
+        error: 'Failed to get thumbnails',
+        message: (error as Error).message
+      });
+    }
+  }
+
   // Get image dimensions
   async getImageDimensions(req: Request, res: Response): Promise<void> {
     try {
@@ -198,6 +465,90 @@ export class DropboxController {
     }
   }
 
+  // Start a chunked upload of an image: { fileName, size } returns { uploadId }
+  async startUploadSession(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.dbx) {
+        res.status(401).json({ error: 'Dropbox instance not available' });
+        return;
+      }
+
+      const { fileName } = req.body || {};
+      if (typeof fileName !== 'string' || !isImageFileName(fileName) || fileName.includes('/')) {
+        res.status(400).json({ error: 'Invalid parameters', message: 'fileName must be an image file name' });
+        return;
+      }
+      if (parseUploadSize(req.body.size) === null) {
+        res.status(413).json({
+          error: 'File too large',
+          message: `size must be between 1 byte and ${MAX_UPLOAD_SESSION_BYTES / (1024 * 1024)}MB`
+        });
+        return;
+      }
+
+      const uploadId = await dropboxService.startUploadSession(req.dbx);
+      console.log(`📤 [UPLOAD SESSION] Started ${uploadId} for ${fileName} (${req.body.size} bytes)`);
+      res.json({ uploadId });
+    } catch (error) {
+      console.error('❌ Error starting upload session:', error);
+      res.status(500).json({
+        error: 'File upload failed',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  // Append the raw request body to an upload session at ?offset=; returns { offset } for the next chunk
+  async appendUploadChunk(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.dbx) {
+        res.status(401).json({ error: 'Dropbox instance not available' });
+        return;
+      }
+
+      const offset = Number(req.query.offset);
+      if (!Number.isInteger(offset) || offset < 0) {
+        res.status(400).json({ error: 'Invalid parameters', message: 'offset must be a non-negative integer' });
+        return;
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({ error: 'No chunk uploaded', message: 'Send the chunk as application/octet-stream' });
+        return;
+      }
+      if (offset + req.body.length > MAX_UPLOAD_SESSION_BYTES) {
+        res.status(413).json({ error: 'File too large', message: `Uploads are limited to ${MAX_UPLOAD_SESSION_BYTES / (1024 * 1024)}MB` });
+        return;
+      }
+
+      const next = await dropboxService.appendUploadChunk(req.dbx, String(req.params.uploadId), offset, req.body);
+      res.json({ offset: next });
+    } catch (error) {
+      sendUploadSessionError(res, error, 'appending upload chunk');
+    }
+  }
+
+  // Commit an upload session as a new image: { fileName, size } returns the same result as /upload-image
+  async finishUploadSession(req: Request, res: Response): Promise<void> {
+    try {
+      if (!req.dbx) {
+        res.status(401).json({ error: 'Dropbox instance not available' });
+        return;
+      }
+
+      const { fileName } = req.body || {};
+      const size = parseUploadSize(req.body?.size);
+      if (typeof fileName !== 'string' || !isImageFileName(fileName) || fileName.includes('/') || size === null) {
+        res.status(400).json({ error: 'Invalid parameters', message: 'fileName must be an image file name and size its length in bytes' });
+        return;
+      }
+
+      const result = await dropboxService.finishUploadSession(req.dbx, String(req.params.uploadId), size, fileName);
+      res.json(result);
+    } catch (error) {
+      sendUploadSessionError(res, error, 'finishing upload session');
+    }
+  }
+
   // Get upload middleware
   static getUploadMiddleware() {
     return upload.single('file');
@@ -0,0 +1,57 @@
+import { Request, Response } from 'express';
+import { dropboxWebhookService } from '../services/processingServices';
+import {
+  DROPBOX_SIGNATURE_HEADER,
+  dropboxWebhookSecret,
+  notifiedAccounts,
+  verifyDropboxWebhookSignature
+} from '../utils/dropboxWebhook';
+
+export class DropboxWebhookController {
+  // Webhook verification: Dropbox sends ?challenge=... and expects it echoed back verbatim
+  async challenge(req: Request, res: Response): Promise<void> {
+    const challenge = req.query.challenge;
+    if (typeof challenge !== 'string' || !challenge) {
+      res.status(400).json({ error: 'challenge query parameter is required' });
+      return;
+    }
+
+    console.log('🤝 [WEBHOOK] Answering Dropbox verification challenge');
+    res.set({
+      'Content-Type': 'text/plain',
+      'X-Content-Type-Options': 'nosniff'
+    });
+    res.send(challenge);
+  }
+
+  // Change notification: verify the signature, answer right away, process in the background
+  async notify(req: Request, res: Response): Promise<void> {
+    const secret = dropboxWebhookSecret();
+    if (!secret) {
+      console.error('❌ [WEBHOOK] No webhook secret configured (DROPBOX_WEBHOOK_SECRET or DROPBOX_CLIENT_SECRET)');
+      res.status(500).json({ error: 'Webhook secret not configured' });
+      return;
+    }
+
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    if (!verifyDropboxWebhookSignature(body, req.get(DROPBOX_SIGNATURE_HEADER), secret)) {
+      console.log('🚨 [WEBHOOK] Rejected notification with an invalid signature');
+      res.status(403).json({ error: 'Invalid signature' });
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body.toString('utf8'));
+    } catch {
+      res.status(400).json({ error: 'Invalid JSON body' });
+      return;
+    }
+
+    const accounts = notifiedAccounts(payload);
+    console.log(`📨 [WEBHOOK] Dropbox notification for ${accounts.length} accounts`);
+    dropboxWebhookService.notify(accounts);
+
+    res.status(200).send();
+  }
+}
@@ -0,0 +1,79 @@
+import { Request, Response } from 'express';
+import path from 'path';
+import { FakeDropbox, fakeDropboxStore } from '../mocks/FakeDropbox';
+
+// SDK routes the browser may call through the RPC bridge
+const CLIENT_RPC_METHODS = [
+  'usersGetCurrentAccount',
+  'usersGetSpaceUsage',
+  'filesListFolder',
+  'filesGetMetadata',
+  'filesDownload',
+  'filesGetThumbnailV2',
+  'filesGetTemporaryLink'
+] as const;
+
+type ClientRpcMethod = typeof CLIENT_RPC_METHODS[number];
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff'
+};
+
+function contentTypeFor(name: string): string {
+  return CONTENT_TYPES[path.extname(name).toLowerCase()] || 'application/octet-stream';
+}
+
+export class FakeDropboxController {
+  // Run an SDK route against the fake for the browser's dropbox client (binary results come back base64 encoded)
+  async rpc(req: Request, res: Response): Promise<void> {
+    const method = req.params.method as ClientRpcMethod;
+    if (!CLIENT_RPC_METHODS.includes(method)) {
+      res.status(404).json({ error_summary: 'unknown_route/', error: { '.tag': 'unknown_route' } });
+      return;
+    }
+
+    const accessToken = req.headers.authorization?.split(' ')[1] || '';
+    const dbx = new FakeDropbox(accessToken);
+
+    try {
+      const response = await (dbx[method] as (arg: unknown) => Promise<{ status: number; result: any }>)(req.body ?? undefined);
+      const { fileBinary, ...result } = response.result;
+
+      if (fileBinary) {
+        const isThumbnail = method === 'filesGetThumbnailV2';
+        const format = req.body?.format?.['.tag'] || req.body?.format || 'jpeg';
+        result.fileBase64 = (fileBinary as Buffer).toString('base64');
+        result.fileContentType = isThumbnail ? `image/${format}` : contentTypeFor(result.name || '');
+      }
+
+      res.status(response.status).json({ result });
+    } catch (error: any) {
+      if (error?.status && error?.error) {
+        res.status(error.status).json(error.error);
+        return;
+      }
+      console.error('❌ [FAKE DROPBOX] RPC failed:', error);
+      res.status(500).json({ error_summary: 'internal_error/', message: (error as Error).message });
+    }
+  }
+
+  // Serve a temporary link created by filesGetTemporaryLink
+  async content(req: Request, res: Response): Promise<void> {
+    const file = fakeDropboxStore.resolveLink(req.params.linkId);
+    if (!file) {
+      res.status(404).json({ error: 'Link not found or expired' });
+      return;
+    }
+
+    res.setHeader('Content-Type', contentTypeFor(file.metadata.name));
+    res.setHeader('Content-Disposition', `inline; filename="${file.metadata.name}"`);
+    res.send(file.contents);
+  }
+}
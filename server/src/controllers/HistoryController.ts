@@ -0,0 +1,173 @@
+import { Request, Response } from 'express';
+import { processingHistoryService, processingJobService } from '../services/processingServices';
+import { UserService } from '../services/UserService';
+import { RecordFilter } from '../repositories/ProcessingRecordRepository';
+import { validateBeforeOperation } from '../utils/accountValidation';
+import { parseProcessingOptions } from '../utils/processingOptions';
+import { DEFAULT_CONFLICT_POLICY } from '../utils/conflictPolicy';
+import { PipelineStepType, STEP_TYPES } from '../utils/pipeline';
+import { RecordStatus } from '../models/ProcessingRecord';
+
+const userService = new UserService();
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const RECORD_STATUSES: RecordStatus[] = ['completed', 'failed'];
+
+// Request body fields that mean "re-run with these options instead of the recorded ones"
+const OPTION_FIELDS = ['pipeline', 'removeBg', 'upscale', 'upscaleFactor', 'removeBgOptions', 'output', 'conflictPolicy'];
+
+// Validate the list query: ?status=&operation=&path=&from=&to=&limit=&offset=
+function parseHistoryQuery(query: Request['query']): { filter: RecordFilter; limit: number; offset: number; errors: string[] } {
+  const errors: string[] = [];
+  const filter: RecordFilter = {};
+  const single = (value: unknown) => (typeof value === 'string' && value !== '' ? value : undefined);
+
+  const status = single(query.status);
+  if (status !== undefined) {
+    if (!RECORD_STATUSES.includes(status as RecordStatus)) {
+      errors.push(`status must be one of: ${RECORD_STATUSES.join(', ')}`);
+    } else {
+      filter.status = status as RecordStatus;
+    }
+  }
+
+  const operation = single(query.operation);
+  if (operation !== undefined) {
+    if (!STEP_TYPES.includes(operation as PipelineStepType)) {
+      errors.push(`operation must be one of: ${STEP_TYPES.join(', ')}`);
+    } else {
+      filter.operation = operation as PipelineStepType;
+    }
+  }
+
+  filter.path = single(query.path);
+
+  for (const key of ['from', 'to'] as const) {
+    const value = single(query[key]);
+    if (value === undefined) continue;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      errors.push(`${key} must be a date`);
+    } else {
+      filter[key] = date;
+    }
+  }
+
+  const limit = single(query.limit) === undefined ? DEFAULT_LIMIT : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    errors.push(`limit must be an integer from 1 to ${MAX_LIMIT}`);
+  }
+  const offset = single(query.offset) === undefined ? 0 : Number(query.offset);
+  if (!Number.isInteger(offset) || offset < 0) {
+    errors.push('offset must be a non-negative integer');
+  }
+
+  return { filter, limit, offset, errors };
+}
+
+export class HistoryController {
+  // The current user's past processing runs, newest first
+  async listHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { filter, limit, offset, errors } = parseHistoryQuery(req.query);
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid history filter', details: errors });
+        return;
+      }
+
+      const { records, total } = await processingHistoryService.listRecords(req.currentAccountId!, filter, limit, offset);
+      res.json({
+        records: records.map(record => processingHistoryService.toResponse(record)),
+        total,
+        limit,
+        offset
+      });
+    } catch (error) {
+      console.error('❌ Error listing history:', error);
+      res.status(500).json({
+        error: 'Failed to list history',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  async getRecord(req: Request, res: Response): Promise<void> {
+    try {
+      const { recordId } = req.params;
+      const record = await processingHistoryService.getRecord(req.currentAccountId!, recordId);
+      if (!record) {
+        res.status(404).json({ error: 'History record not found', recordId });
+        return;
+      }
+      res.json(processingHistoryService.toResponse(record));
+    } catch (error) {
+      console.error('❌ Error getting history record:', error);
+      res.status(500).json({
+        error: 'Failed to get history record',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  // Run a recorded job's source file again, with the recorded options or the ones in the body
+  async rerunRecord(req: Request, res: Response): Promise<void> {
+    try {
+      const isValidated = await validateBeforeOperation(req, res, 'ImageProcessing');
+      if (!isValidated) {
+        // validateBeforeOperation already sent the response
+        return;
+      }
+
+      if (!req.dbx) {
+        res.status(401).json({ error: 'Dropbox instance not available' });
+        return;
+      }
+
+      const { recordId } = req.params;
+      const record = await processingHistoryService.getRecord(req.currentAccountId!, recordId);
+      if (!record) {
+        res.status(404).json({ error: 'History record not found', recordId });
+        return;
+      }
+
+      let options = record.options;
+      const body = req.body || {};
+      if (OPTION_FIELDS.some(field => body[field] !== undefined)) {
+        const parsed = parseProcessingOptions(body);
+        if ('error' in parsed) {
+          res.status(400).json(parsed.error);
+          return;
+        }
+        // Tweaked options are saved with today's output preferences, still named after the original preset
+        options = await userService.applyOutputPreferences(req.currentAccountId!, {
+          ...parsed.options,
+          presetName: record.options.presetName,
+          conflictPolicy: parsed.options.conflictPolicy || record.options.conflictPolicy
+        });
+      }
+
+      const job = await processingJobService.createJob(req.currentAccountId!, record.sourcePath, options);
+      console.log(`🔁 [HISTORY] Re-running record ${record.recordId} as job ${job.jobId}`);
+
+      processingJobService.runJob(req.dbx, job).catch(error => {
+        console.error(`❌ Background job ${job.jobId} crashed:`, error);
+      });
+
+      res.status(202).json({
+        success: true,
+        message: 'Re-run started',
+        jobId: job.jobId,
+        status: job.status,
+        conflictPolicy: job.options.conflictPolicy || DEFAULT_CONFLICT_POLICY,
+        rerunOf: record.recordId
+      });
+    } catch (error) {
+      console.error('❌ Error re-running history record:', error);
+      res.status(500).json({
+        error: 'Failed to re-run history record',
+        message: (error as Error).message
+      });
+    }
+  }
+}
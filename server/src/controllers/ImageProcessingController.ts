@@ -1,13 +1,38 @@
 import { Request, Response } from 'express';
-import { PicsartService } from '../services/PicsartService';
-import { DropboxService } from '../services/DropboxService';
+import { isUsingPicsartMock, resolvePicsartBaseUrl } from '../services/PicsartClient';
+import {
+  picsartService,
+  imageProcessor,
+  processingJobService,
+  processingBatchService,
+  resultCache
+} from '../services/processingServices';
+import { processingEvents, ProcessingEvent } from '../services/ProcessingEvents';
 import { validateBeforeOperation } from '../utils/accountValidation';
+import { parseProcessingOptions } from '../utils/processingOptions';
+import { DEFAULT_CONFLICT_POLICY } from '../utils/conflictPolicy';
+import { IBatchSource } from '../models/ProcessingBatch';
+import { IJobOptions } from '../models/ProcessingJob';
+import { UserService } from '../services/UserService';
+import { PresetService } from '../services/PresetService';
 
-const picsartService = new PicsartService();
-const dropboxService = new DropboxService();
+const userService = new UserService();
+const presetService = new PresetService();
+
+// Where outputs go: the user's output preferences, plus the preset name for the {preset}
+// filename token when the request says which preset the options came from
+async function resolveOutputOptions(userId: string, options: IJobOptions, presetId: unknown): Promise<IJobOptions> {
+  const preset = typeof presetId === 'string' && presetId ? await presetService.getPreset(userId, presetId) : null;
+  return userService.applyOutputPreferences(userId, {
+    ...options,
+    ...(preset ? { presetName: preset.name } : {}),
+    // The request's own policy wins over the preset's
+    conflictPolicy: options.conflictPolicy || preset?.options.conflictPolicy
+  });
+}
 
 export class ImageProcessingController {
-  // Main image processing endpoint
+  // Main image processing endpoint - starts a background job and returns its ID
   async processImage(req: Request, res: Response): Promise<void> {
     try {
       // CRITICAL SECURITY: Validate account before processing sensitive operations
@@ -22,96 +47,305 @@ export class ImageProcessingController {
         return;
       }
 
-      const { dropboxPath, removeBg, upscale, upscaleFactor } = req.body;
+      const { dropboxPath } = req.body;
 
       if (!dropboxPath) {
         res.status(400).json({ error: 'Dropbox path is required' });
         return;
       }
 
-      if (!removeBg && !upscale) {
-        res.status(400).json({ error: 'At least one processing option must be selected' });
+      const parsed = parseProcessingOptions(req.body);
+      if ('error' in parsed) {
+        res.status(400).json(parsed.error);
         return;
       }
 
-      console.log('🎯 Processing request:', { dropboxPath, removeBg, upscale, upscaleFactor });
+      console.log('🎯 Processing request:', { dropboxPath, pipeline: parsed.options.pipeline });
 
-      // Download the original image
-      const originalBuffer = await dropboxService.downloadImage(req.dbx, dropboxPath);
-      console.log('📥 Original image downloaded, size:', originalBuffer.length, 'bytes');
+      const options = await resolveOutputOptions(req.currentAccountId!, parsed.options, req.body.presetId);
+      const job = await processingJobService.createJob(req.currentAccountId!, dropboxPath, options);
 
-      const results: any = {};
+      // Run in the background - the client polls GET /api/jobs/:jobId for progress
+      processingJobService.runJob(req.dbx, job).catch(error => {
+        console.error(`❌ Background job ${job.jobId} crashed:`, error);
+      });
 
-      // Don't upload original - only processed versions will be saved
-      let processedBuffer = originalBuffer;
+      res.status(202).json({
+        success: true,
+        message: 'Image processing job started',
+        jobId: job.jobId,
+        status: job.status,
+        conflictPolicy: job.options.conflictPolicy || DEFAULT_CONFLICT_POLICY
+      });
 
-      // Step 1: Remove background if requested
-      if (removeBg) {
-        console.log('🎨 Starting background removal...');
-        try {
-          const bgRemovedBuffer = await picsartService.removeBg(processedBuffer);
-          console.log('✅ Background removed successfully');
+    } catch (error) {
+      console.error('❌ Image processing failed:', error);
+      res.status(500).json({
+        error: 'Image processing failed',
+        message: (error as Error).message
+      });
+    }
+  }
 
-          // Upload background-removed image
-          const bgRemovedPath = await dropboxService.uploadProcessedImage(
-            req.dbx,
-            bgRemovedBuffer,
-            dropboxPath,
-            'bg_removed'
-          );
-          results.backgroundRemoved = bgRemovedPath;
-          processedBuffer = bgRemovedBuffer;
-        } catch (error) {
-          console.error('❌ Background removal failed:', error);
-          res.status(500).json({
-            error: 'Background removal failed',
-            message: (error as Error).message
-          });
-          return;
-        }
+  // Get processing job status
+  async getJob(req: Request, res: Response): Promise<void> {
+    try {
+      const { jobId } = req.params;
+      const job = await processingJobService.getJob(jobId);
+
+      // Jobs belonging to other accounts are reported as missing
+      if (!job || job.userId !== req.currentAccountId) {
+        res.status(404).json({ error: 'Job not found', jobId });
+        return;
       }
 
-      // Step 2: Upscale if requested
-      if (upscale) {
-        console.log(`🔍 Starting upscaling with factor ${upscaleFactor}x...`);
-        try {
-          const upscaledBuffer = await picsartService.upscale(processedBuffer, upscaleFactor || 2);
-          console.log('✅ Upscaling completed successfully');
-
-          // Upload upscaled image
-          const upscaledPath = await dropboxService.uploadProcessedImage(
-            req.dbx,
-            upscaledBuffer,
-            dropboxPath,
-            `upscaled_${upscaleFactor}x`
-          );
-          results.upscaled = upscaledPath;
-        } catch (error) {
-          console.error('❌ Upscaling failed:', error);
-          res.status(500).json({
-            error: 'Upscaling failed',
-            message: (error as Error).message
-          });
+      res.json(processingJobService.toResponse(job));
+    } catch (error) {
+      console.error('❌ Error getting job:', error);
+      res.status(500).json({
+        error: 'Failed to get job',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  // Stream live job progress as Server-Sent Events
+  async streamJobEvents(req: Request, res: Response): Promise<void> {
+    const { jobId } = req.params;
+    let closed = false;
+    let heartbeat: NodeJS.Timeout | undefined;
+    const pending: ProcessingEvent[] = [];
+
+    const send = (event: string, data: unknown) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    let unsubscribe = () => {};
+    const cleanup = () => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+      if (heartbeat) clearInterval(heartbeat);
+      res.end();
+    };
+
+    // Registered before the first await: a client that leaves while the job is being read
+    // would otherwise leave its subscription (and heartbeat) behind for good
+    req.on('close', () => {
+      if (!closed) console.log(`📡 [SSE] Client disconnected from job ${jobId}`);
+      cleanup();
+    });
+
+    const isFinal = (event: ProcessingEvent) => event.stage === 'job_completed' || event.stage === 'job_failed';
+
+    // Subscribe before reading the job so no transition is missed in between
+    let snapshotSent = false;
+    unsubscribe = processingEvents.subscribe(jobId, (event) => {
+      if (!snapshotSent) {
+        pending.push(event);
+        return;
+      }
+      send('progress', event);
+      if (isFinal(event)) cleanup();
+    });
+
+    try {
+      const job = await processingJobService.getJob(jobId);
+      if (closed) return;
+
+      if (!job || job.userId !== req.currentAccountId) {
+        closed = true;
+        unsubscribe();
+        res.status(404).json({ error: 'Job not found', jobId });
+        return;
+      }
+
+      res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no'
+      });
+      res.flushHeaders();
+
+      console.log(`📡 [SSE] Client subscribed to job ${jobId}`);
+      send('snapshot', processingJobService.toResponse(job));
+      snapshotSent = true;
+
+      if (job.status === 'completed' || job.status === 'failed') {
+        cleanup();
+        return;
+      }
+
+      for (const event of pending) {
+        send('progress', event);
+        if (isFinal(event)) {
+          cleanup();
           return;
         }
       }
 
-      console.log('🎉 Processing completed successfully');
-      res.json({
+      // Keep proxies from closing an idle stream
+      heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+    } catch (error) {
+      console.error('❌ Error streaming job events:', error);
+      closed = true;
+      unsubscribe();
+      if (!res.headersSent) {
+        res.status(500).json({
+          error: 'Failed to stream job events',
+          message: (error as Error).message
+        });
+      } else {
+        res.end();
+      }
+    }
+  }
+
+  // List the current user's recent processing jobs
+  async listJobs(req: Request, res: Response): Promise<void> {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const jobs = await processingJobService.listJobs(req.currentAccountId!, limit);
+      res.json({ jobs: jobs.map(job => processingJobService.toResponse(job)) });
+    } catch (error) {
+      console.error('❌ Error listing jobs:', error);
+      res.status(500).json({
+        error: 'Failed to list jobs',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  // Start a batch over a list of files or every image in a folder
+  async processBatch(req: Request, res: Response): Promise<void> {
+    try {
+      const isValidated = await validateBeforeOperation(req, res, 'BatchProcessing');
+      if (!isValidated) {
+        return;
+      }
+
+      if (!req.dbx) {
+        res.status(401).json({ error: 'Dropbox instance not available' });
+        return;
+      }
+
+      const { paths, folderPath, recursive } = req.body;
+      const { maxItems } = processingBatchService.getSettings();
+
+      if ((paths === undefined) === (folderPath === undefined)) {
+        res.status(400).json({ error: 'Provide either paths or folderPath' });
+        return;
+      }
+      if (paths !== undefined && (
+        !Array.isArray(paths) ||
+        paths.length === 0 ||
+        !paths.every((path: unknown) => typeof path === 'string' && path.length > 0)
+      )) {
+        res.status(400).json({ error: 'paths must be a non-empty array of Dropbox paths' });
+        return;
+      }
+      if (paths !== undefined && paths.length > maxItems) {
+        res.status(400).json({ error: `A batch can have at most ${maxItems} files`, count: paths.length });
+        return;
+      }
+      if (folderPath !== undefined && typeof folderPath !== 'string') {
+        res.status(400).json({ error: 'folderPath must be a string' });
+        return;
+      }
+
+      const parsed = parseProcessingOptions(req.body);
+      if ('error' in parsed) {
+        res.status(400).json(parsed.error);
+        return;
+      }
+
+      const source: IBatchSource = paths !== undefined ? { paths } : { folderPath, recursive: !!recursive };
+      console.log('🎯 Batch processing request:', { ...source, paths: paths?.length, pipeline: parsed.options.pipeline });
+
+      const options = await resolveOutputOptions(req.currentAccountId!, parsed.options, req.body.presetId);
+      let batch;
+      try {
+        batch = await processingBatchService.createBatch(req.dbx, req.currentAccountId!, source, options);
+      } catch (error) {
+        // Empty folder / nothing to process
+        res.status(400).json({ error: (error as Error).message });
+        return;
+      }
+
+      // Run in the background - the client polls GET /api/batches/:batchId for progress
+      processingBatchService.runBatch(req.dbx, batch).catch(error => {
+        console.error(`❌ Background batch ${batch.batchId} crashed:`, error);
+      });
+
+      res.status(202).json({
         success: true,
-        message: 'Image processing completed successfully',
-        results: results
+        message: 'Batch processing started',
+        batchId: batch.batchId,
+        total: batch.items.length,
+        status: batch.status,
+        conflictPolicy: batch.options.conflictPolicy || DEFAULT_CONFLICT_POLICY
+      });
+    } catch (error) {
+      console.error('❌ Batch processing failed:', error);
+      res.status(500).json({
+        error: 'Batch processing failed',
+        message: (error as Error).message
       });
+    }
+  }
 
+  // Batch status with every file's job state and outputs
+  async getBatch(req: Request, res: Response): Promise<void> {
+    try {
+      const { batchId } = req.params;
+      const batch = await processingBatchService.getBatch(batchId);
+
+      if (!batch || batch.userId !== req.currentAccountId) {
+        res.status(404).json({ error: 'Batch not found', batchId });
+        return;
+      }
+
+      const jobs = await processingJobService.listBatchJobs(batchId);
+      res.json(processingBatchService.toResponse(batch, jobs));
     } catch (error) {
-      console.error('❌ Image processing failed:', error);
+      console.error('❌ Error getting batch:', error);
       res.status(500).json({
-        error: 'Image processing failed',
+        error: 'Failed to get batch',
         message: (error as Error).message
       });
     }
   }
 
+  // List the current user's recent batches (without per-file details)
+  async listBatches(req: Request, res: Response): Promise<void> {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const batches = await processingBatchService.listBatches(req.currentAccountId!, limit);
+      res.json({
+        batches: batches.map(batch => {
+          const { items: _items, ...summary } = processingBatchService.toResponse(batch);
+          return summary;
+        })
+      });
+    } catch (error) {
+      console.error('❌ Error listing batches:', error);
+      res.status(500).json({
+        error: 'Failed to list batches',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  // Picsart call metrics and circuit breaker state
+  async getPicsartMetrics(_req: Request, res: Response): Promise<void> {
+    res.json({
+      ...picsartService.getMetrics(),
+      routing: imageProcessor.getRouting(),
+      resultCache: resultCache.getStats()
+    });
+  }
+
   // Test endpoint
   async test(_req: Request, res: Response): Promise<void> {
     res.json({
@@ -127,7 +361,8 @@ export class ImageProcessingController {
     try {
       console.log('🧪 Testing Picsart API connection...');
       
-      const hasApiKey = !!process.env.PICSART_API_KEY;
+      const usingMock = isUsingPicsartMock();
+      const hasApiKey = !!process.env.PICSART_API_KEY || usingMock;
       console.log('🔑 Has PICSART_API_KEY:', hasApiKey);
       
       if (!hasApiKey) {
@@ -146,8 +381,9 @@ export class ImageProcessingController {
       if (testResult) {
         res.json({
           success: true,
-          message: 'Picsart API connection successful!',
-          apiKey: process.env.PICSART_API_KEY?.substring(0, 8) + '...',
+          message: usingMock ? 'Mock Picsart API connection successful!' : 'Picsart API connection successful!',
+          apiKey: usingMock ? 'mock' : process.env.PICSART_API_KEY?.substring(0, 8) + '...',
+          baseUrl: resolvePicsartBaseUrl(),
           timestamp: new Date().toISOString()
         });
       } else {
@@ -0,0 +1,170 @@
+import { Request, Response } from 'express';
+import { PresetService, PresetInput } from '../services/PresetService';
+import { validatePresetOptions } from '../utils/presetOptions';
+
+const presetService = new PresetService();
+
+const MAX_NAME_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+// Validate a create (all fields) or update (only the fields present) request body
+function parsePresetBody(body: any, partial: boolean): { input: Partial<PresetInput>; errors: string[] } {
+  const errors: string[] = [];
+  const input: Partial<PresetInput> = {};
+
+  if (!body || typeof body !== 'object') {
+    return { input, errors: ['Request body must be an object'] };
+  }
+
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      errors.push(`name is required and must be at most ${MAX_NAME_LENGTH} characters`);
+    } else {
+      input.name = name;
+    }
+  }
+
+  if (body.description !== undefined && body.description !== null) {
+    if (typeof body.description !== 'string' || body.description.length > MAX_DESCRIPTION_LENGTH) {
+      errors.push(`description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters`);
+    } else {
+      input.description = body.description;
+    }
+  }
+
+  if (body.options !== undefined || !partial) {
+    const { options, errors: optionErrors } = validatePresetOptions(body.options);
+    errors.push(...optionErrors.map(error => `options: ${error}`));
+    input.options = options;
+  }
+
+  if (body.isDefault !== undefined) {
+    if (typeof body.isDefault !== 'boolean') {
+      errors.push('isDefault must be a boolean');
+    } else {
+      input.isDefault = body.isDefault;
+    }
+  }
+
+  return { input, errors };
+}
+
+const isDuplicateKeyError = (error: unknown) => (error as { code?: number }).code === 11000;
+
+export class PresetController {
+  // List the current user's presets
+  async listPresets(req: Request, res: Response): Promise<void> {
+    try {
+      const presets = await presetService.listPresets(req.currentAccountId!);
+      res.json({ presets: presets.map(preset => presetService.toResponse(preset)) });
+    } catch (error) {
+      console.error('❌ Error listing presets:', error);
+      res.status(500).json({
+        error: 'Failed to list presets',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  // The preset applied automatically when an image is selected (null if none is set)
+  async getDefaultPreset(req: Request, res: Response): Promise<void> {
+    try {
+      const preset = await presetService.getDefaultPreset(req.currentAccountId!);
+      res.json({ preset: preset ? presetService.toResponse(preset) : null });
+    } catch (error) {
+      console.error('❌ Error getting default preset:', error);
+      res.status(500).json({
+        error: 'Failed to get default preset',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  async getPreset(req: Request, res: Response): Promise<void> {
+    try {
+      const { presetId } = req.params;
+      const preset = await presetService.getPreset(req.currentAccountId!, presetId);
+      if (!preset) {
+        res.status(404).json({ error: 'Preset not found', presetId });
+        return;
+      }
+      res.json(presetService.toResponse(preset));
+    } catch (error) {
+      console.error('❌ Error getting preset:', error);
+      res.status(500).json({
+        error: 'Failed to get preset',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  async createPreset(req: Request, res: Response): Promise<void> {
+    try {
+      const { input, errors } = parsePresetBody(req.body, false);
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid preset', details: errors });
+        return;
+      }
+
+      const preset = await presetService.createPreset(req.currentAccountId!, input as PresetInput);
+      res.status(201).json(presetService.toResponse(preset));
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        res.status(422).json({ error: 'duplicate_name', message: 'A preset with this name already exists', name: req.body?.name });
+        return;
+      }
+      console.error('❌ Error creating preset:', error);
+      res.status(500).json({
+        error: 'Failed to create preset',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  async updatePreset(req: Request, res: Response): Promise<void> {
+    try {
+      const { presetId } = req.params;
+      const { input, errors } = parsePresetBody(req.body, true);
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid preset', details: errors });
+        return;
+      }
+
+      const preset = await presetService.updatePreset(req.currentAccountId!, presetId, input);
+      if (!preset) {
+        res.status(404).json({ error: 'Preset not found', presetId });
+        return;
+      }
+      res.json(presetService.toResponse(preset));
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        res.status(422).json({ error: 'duplicate_name', message: 'A preset with this name already exists', name: req.body?.name });
+        return;
+      }
+      console.error('❌ Error updating preset:', error);
+      res.status(500).json({
+        error: 'Failed to update preset',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  async deletePreset(req: Request, res: Response): Promise<void> {
+    try {
+      const { presetId } = req.params;
+      const deleted = await presetService.deletePreset(req.currentAccountId!, presetId);
+      if (!deleted) {
+        res.status(404).json({ error: 'Preset not found', presetId });
+        return;
+      }
+      res.json({ success: true, presetId });
+    } catch (error) {
+      console.error('❌ Error deleting preset:', error);
+      res.status(500).json({
+        error: 'Failed to delete preset',
+        message: (error as Error).message
+      });
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { Request, Response } from 'express';
+import { usageService } from '../services/processingServices';
+
+const RECENT_CALLS_LIMIT = 20;
+
+export class UsageController {
+  // The current user's Picsart usage today and this month, against their quotas
+  async getUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = req.currentAccountId!;
+      const [usage, recent] = await Promise.all([
+        usageService.getUsage(userId),
+        usageService.listRecentCalls(userId, RECENT_CALLS_LIMIT)
+      ]);
+      res.json({
+        ...usage,
+        recent: recent.map(call => usageService.toResponse(call))
+      });
+    } catch (error) {
+      console.error('❌ Error getting usage:', error);
+      res.status(500).json({
+        error: 'Failed to get usage',
+        message: (error as Error).message
+      });
+    }
+  }
+}
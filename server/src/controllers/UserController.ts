@@ -1,6 +1,7 @@
 import { Request, Response } from 'express';
 import { UserService } from '../services/UserService';
 import { UserModel } from '../models/User';
+import { DEFAULT_FILENAME_TEMPLATE, FILENAME_TOKENS, filenameTemplateErrors, outputFolderErrors } from '../utils/outputPath';
 
 const userService = new UserService();
 
@@ -159,3 +160,46 @@ export const logSessions = async (_req: Request, res: Response): Promise<void> =
     });
   }
 };
+
+// Output folder and filename template used for processed images
+export const getOutputPreferences = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const preferences = await userService.getOutputPreferences(req.currentAccountId!);
+    res.json({ ...preferences, tokens: FILENAME_TOKENS });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to get output preferences',
+      message: (error as Error).message
+    });
+  }
+};
+
+export const updateOutputPreferences = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { outputFolder, filenameTemplate } = req.body || {};
+    const errors = [
+      ...(outputFolder !== null && outputFolder !== undefined && outputFolder !== '' ? outputFolderErrors(outputFolder) : []),
+      ...(filenameTemplate !== null && filenameTemplate !== undefined && filenameTemplate !== '' ? filenameTemplateErrors(filenameTemplate) : [])
+    ];
+    if (errors.length > 0) {
+      res.status(400).json({ error: 'Invalid output preferences', details: errors });
+      return;
+    }
+
+    const preferences = await userService.updateOutputPreferences(req.currentAccountId!, {
+      // Empty values reset to "next to the original" and the default template
+      outputFolder: outputFolder ? outputFolder.trim().replace(/\/+$/, '') || '/' : null,
+      filenameTemplate: filenameTemplate ? filenameTemplate.trim() : DEFAULT_FILENAME_TEMPLATE
+    });
+    if (!preferences) {
+      res.status(404).json({ error: 'User session not found' });
+      return;
+    }
+    res.json({ ...preferences, tokens: FILENAME_TOKENS });
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to update output preferences',
+      message: (error as Error).message
+    });
+  }
+};
@@ -3,10 +3,31 @@ dotenv.config();
 
 import app from './app';
 import { connectToDB } from './config/db';
+import { ProcessingJobRepository } from './repositories/ProcessingJobRepository';
+import { ProcessingBatchRepository } from './repositories/ProcessingBatchRepository';
+import { startPicsartMockServer, PICSART_MOCK_DEFAULT_PORT } from './mocks/picsartMockServer';
 
 const PORT = process.env.PORT || 8080;
 
-connectToDB().then(() => {
+// PICSART_MOCK=true runs the mock Picsart API in-process (unless an explicit base URL is configured)
+if (process.env.PICSART_MOCK === 'true' && !process.env.PICSART_API_BASE_URL) {
+  const mockPort = parseInt(process.env.PICSART_MOCK_PORT || String(PICSART_MOCK_DEFAULT_PORT), 10);
+  startPicsartMockServer(mockPort).catch(error => {
+    console.error('❌ Failed to start Picsart mock server:', error);
+  });
+}
+
+connectToDB().then(async () => {
+  // Jobs cannot survive a restart - their in-memory Dropbox clients are gone
+  const interrupted = await new ProcessingJobRepository().failInterruptedJobs();
+  if (interrupted.modifiedCount > 0) {
+    console.log(`🧹 Marked ${interrupted.modifiedCount} interrupted processing jobs as failed`);
+  }
+  const interruptedBatches = await new ProcessingBatchRepository().failInterruptedBatches();
+  if (interruptedBatches.modifiedCount > 0) {
+    console.log(`🧹 Marked ${interruptedBatches.modifiedCount} interrupted batches as failed`);
+  }
+
   app.listen(PORT, () => {
     console.log(`🚀 Server is running on port ${PORT}`);
   });
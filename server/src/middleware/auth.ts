@@ -1,13 +1,23 @@
 import { Request, Response, NextFunction } from 'express';
 import { Dropbox, DropboxAuth } from 'dropbox';
-import fetch from 'node-fetch';
 import { UserService } from '../services/UserService';
+import { createDropboxClient, isDropboxFake } from '../utils/dropboxClient';
+import { refreshFakeTokens } from '../mocks/FakeDropbox';
 
 const userService = new UserService();
 
 // Function to refresh access token using refresh token (matching server.js implementation)
 async function refreshAccessTokenIfNeeded(userRefreshToken: string) {
   try {
+    if (isDropboxFake()) {
+      const fakeTokens = refreshFakeTokens(userRefreshToken);
+      return {
+        dbx: createDropboxClient(fakeTokens.accessToken),
+        accessToken: fakeTokens.accessToken,
+        refreshToken: fakeTokens.refreshToken
+      };
+    }
+
     const CLIENT_ID = process.env.DROPBOX_CLIENT_ID;
     const CLIENT_SECRET = process.env.DROPBOX_CLIENT_SECRET;
 
@@ -76,7 +86,7 @@ export async function ensureValidToken(req: Request, res: Response, next: NextFu
 
     // Try to use the current token
     try {
-      const dbx = new Dropbox({ accessToken, fetch });
+      const dbx = createDropboxClient(accessToken);
       // Test if token is valid with a simple API call
       const currentAccount = await dbx.usersGetCurrentAccount();
       const currentAccountId = currentAccount.result.account_id;
@@ -176,6 +186,27 @@ export async function ensureValidToken(req: Request, res: Response, next: NextFu
 }
 
 
+// Dropbox client for work that runs outside a request (webhook-triggered automation),
+// built from the stored session and refreshed when the access token has expired
+export async function dropboxClientForUser(userId: string): Promise<Dropbox | null> {
+  const userSession = await userService.getUserSession(userId);
+  if (!userSession) {
+    return null;
+  }
+
+  if (!userSession.isTokenExpired()) {
+    return createDropboxClient(userSession.accessToken);
+  }
+
+  if (!userSession.refreshToken) {
+    console.log(`❌ [AUTH] No refresh token available for background work of user: ${userId}`);
+    return null;
+  }
+
+  const refreshResult = await refreshAccessTokenIfNeeded(userSession.refreshToken);
+  await userService.updateTokens(userId, refreshResult.accessToken, refreshResult.refreshToken, 14400);
+  return refreshResult.dbx;
+}
 
 // Export aliases for backward compatibility
 export const strictAuthMiddleware = ensureValidToken;
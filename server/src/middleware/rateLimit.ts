@@ -0,0 +1,109 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { BucketSettings, RateLimitStore, TakeResult, rateLimitStoreFromEnv } from '../services/RateLimitStore';
+
+// Route groups with separate budgets: signing in, Dropbox reads, starting work that
+// costs Picsart credits, and chunked uploads (one request per chunk, so a much larger budget)
+export type RateLimitGroup = 'auth' | 'dropbox' | 'processing' | 'uploads';
+
+export interface GroupLimit {
+  // Requests per window; the bucket refills continuously at limit / window
+  limit: number;
+  windowSeconds: number;
+}
+
+const DEFAULT_LIMITS: Record<RateLimitGroup, GroupLimit> = {
+  auth: { limit: 20, windowSeconds: 60 },
+  dropbox: { limit: 120, windowSeconds: 60 },
+  processing: { limit: 20, windowSeconds: 60 },
+  uploads: { limit: 600, windowSeconds: 60 }
+};
+
+// Several users can share an address (an office, a VPN), so the per-IP budget is larger
+const DEFAULT_IP_MULTIPLIER = 4;
+
+// RATE_LIMIT_<GROUP> looks like "20/60": 20 requests per 60 seconds
+function groupLimitFromEnv(group: RateLimitGroup): GroupLimit {
+  const value = process.env[`RATE_LIMIT_${group.toUpperCase()}`];
+  const match = value?.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) {
+    if (value) console.warn(`⚠️ [RATE LIMIT] Ignoring invalid RATE_LIMIT_${group.toUpperCase()}="${value}"`);
+    return DEFAULT_LIMITS[group];
+  }
+  return { limit: Number(match[1]), windowSeconds: Number(match[2]) };
+}
+
+const bucketFor = ({ limit, windowSeconds }: GroupLimit, multiplier = 1): BucketSettings => ({
+  capacity: limit * multiplier,
+  refillPerSecond: (limit * multiplier) / windowSeconds
+});
+
+const enabled = process.env.RATE_LIMIT_ENABLED !== 'false';
+const ipMultiplier = Number(process.env.RATE_LIMIT_IP_MULTIPLIER) || DEFAULT_IP_MULTIPLIER;
+const store: RateLimitStore = rateLimitStoreFromEnv();
+
+// Standard RateLimit-* headers (IETF httpapi draft) for the tighter of the buckets
+function setRateLimitHeaders(res: Response, limit: GroupLimit, capacity: number, result: TakeResult): void {
+  res.set('RateLimit-Policy', `${capacity};w=${limit.windowSeconds}`);
+  res.set('RateLimit-Limit', String(capacity));
+  res.set('RateLimit-Remaining', String(result.remaining));
+  res.set('RateLimit-Reset', String(Math.ceil(result.resetMs / 1000)));
+}
+
+// Token-bucket limiter for a route group, keyed by both the client IP and the claimed user.
+// Mounted before the auth middleware so a flood is turned away before it costs a
+// usersGetCurrentAccount round trip; a forged X-User-ID still draws on the IP's bucket.
+export function rateLimit(group: RateLimitGroup): RequestHandler {
+  const limit = groupLimitFromEnv(group);
+  const userBucket = bucketFor(limit);
+  const ipBucket = bucketFor(limit, ipMultiplier);
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!enabled) {
+      next();
+      return;
+    }
+
+    const userId = req.headers['x-user-id'] as string | undefined;
+    const checks: Array<{ key: string; bucket: BucketSettings }> = [
+      { key: `${group}:ip:${req.ip || 'unknown'}`, bucket: ipBucket },
+      ...(userId ? [{ key: `${group}:user:${userId}`, bucket: userBucket }] : [])
+    ];
+
+    let results: TakeResult[];
+    try {
+      results = await Promise.all(checks.map(({ key, bucket }) => store.take(key, bucket)));
+    } catch (error) {
+      // A store outage shouldn't take the API down with it
+      console.error(`❌ [RATE LIMIT] ${store.name} store failed, letting the request through:`, error);
+      next();
+      return;
+    }
+
+    // Report the bucket closest to empty (a denied one first)
+    let tightest = 0;
+    results.forEach((result, index) => {
+      const current = results[tightest];
+      const ratio = (r: TakeResult, i: number) => r.remaining / checks[i].bucket.capacity;
+      if ((!result.allowed && current.allowed) || (result.allowed === current.allowed && ratio(result, index) < ratio(current, tightest))) {
+        tightest = index;
+      }
+    });
+    const reported = results[tightest];
+    setRateLimitHeaders(res, limit, checks[tightest].bucket.capacity, reported);
+
+    if (reported.allowed) {
+      next();
+      return;
+    }
+
+    const retryAfter = Math.max(1, Math.ceil(reported.retryAfterMs / 1000));
+    console.log(`🚦 [RATE LIMIT] ${group} limit hit by ${checks[tightest].key}, retry in ${retryAfter}s`);
+    res.set('Retry-After', String(retryAfter));
+    res.status(429).json({
+      error: 'Too many requests',
+      message: `Too many ${group} requests. Try again in ${retryAfter}s.`,
+      group,
+      retryAfter
+    });
+  };
+}
@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+import { usageService } from '../services/processingServices';
+import { describeExceededQuota } from '../services/UsageService';
+
+// Reject new processing with a 429 once the user's daily or monthly Picsart quota is used up.
+// Runs after the auth middleware, which sets req.currentAccountId.
+export async function enforceUsageQuota(req: Request, res: Response, next: NextFunction): Promise<void> {
+  const exceeded = await usageService.findExceededQuota(req.currentAccountId!);
+  if (!exceeded) {
+    next();
+    return;
+  }
+
+  console.log(`🚫 [USAGE] ${req.currentAccountId} is over the ${exceeded.period} quota (${exceeded.credits}/${exceeded.limit} credits)`);
+  res.set('Retry-After', String(Math.max(1, Math.ceil((exceeded.resetsAt.getTime() - Date.now()) / 1000))));
+  res.status(429).json({
+    error: 'quota exceeded',
+    message: describeExceededQuota(exceeded),
+    quota: exceeded
+  });
+}
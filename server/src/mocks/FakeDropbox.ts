@@ -0,0 +1,672 @@
+import { DropboxResponseError } from 'dropbox';
+import sharp from 'sharp';
+import { randomBytes, randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { dropboxContentHash } from '../utils/dropboxContentHash';
+
+// In-memory stand-in for the subset of the Dropbox SDK this app uses. Files live in a
+// per-account tree keyed by path_lower, with Dropbox-style ids, revs and content hashes.
+
+export const FAKE_ACCESS_TOKEN_PREFIX = 'fake-access-token:';
+export const FAKE_REFRESH_TOKEN_PREFIX = 'fake-refresh-token:';
+export const FAKE_DROPBOX_CONTENT_PATH = '/api/fake-dropbox/content';
+
+export interface FakeAccount {
+  account_id: string;
+  email: string;
+  name: { display_name: string; given_name: string; surname: string; familiar_name: string; abbreviated_name: string };
+}
+
+export interface FakeFileEntry {
+  '.tag': 'file';
+  id: string;
+  name: string;
+  path_lower: string;
+  path_display: string;
+  rev: string;
+  size: number;
+  client_modified: string;
+  server_modified: string;
+  content_hash: string;
+  is_downloadable: boolean;
+}
+
+export interface FakeFolderEntry {
+  '.tag': 'folder';
+  id: string;
+  name: string;
+  path_lower: string;
+  path_display: string;
+}
+
+type FakeEntry = FakeFileEntry | FakeFolderEntry;
+
+interface StoredFile {
+  metadata: FakeFileEntry;
+  contents: Buffer;
+  // Position in the global change sequence, compared against list_folder cursors
+  seq: number;
+}
+
+interface FakeAccountTree {
+  account: FakeAccount;
+  files: Map<string, StoredFile>;
+  folders: Map<string, FakeFolderEntry>;
+  seeded: boolean;
+  // Open upload sessions by session ID: the chunks appended so far
+  uploadSessions: Map<string, Buffer[]>;
+}
+
+interface FakeResponse<T> {
+  status: number;
+  headers: Record<string, string>;
+  result: T;
+}
+
+const THUMBNAIL_SIZES: Record<string, [number, number]> = {
+  w32h32: [32, 32],
+  w64h64: [64, 64],
+  w128h128: [128, 128],
+  w256h256: [256, 256],
+  w480h320: [480, 320],
+  w640h480: [640, 480],
+  w960h640: [960, 640],
+  w1024h768: [1024, 768],
+  w2048h1536: [2048, 1536]
+};
+
+const THUMBNAIL_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.tiff', '.tif'];
+
+export function isFakeAccessToken(token: string | undefined): boolean {
+  return !!token && token.startsWith(FAKE_ACCESS_TOKEN_PREFIX);
+}
+
+export function fakeTokensFor(accountId: string): { accessToken: string; refreshToken: string } {
+  return {
+    accessToken: `${FAKE_ACCESS_TOKEN_PREFIX}${accountId}`,
+    refreshToken: `${FAKE_REFRESH_TOKEN_PREFIX}${accountId}`
+  };
+}
+
+// Fake tokens never expire, but the refresh flow still works so it can be exercised locally
+export function refreshFakeTokens(refreshToken: string): { accessToken: string; refreshToken: string } {
+  if (!refreshToken || !refreshToken.startsWith(FAKE_REFRESH_TOKEN_PREFIX)) {
+    throw new Error('invalid_grant: not a fake Dropbox refresh token');
+  }
+  return fakeTokensFor(refreshToken.substring(FAKE_REFRESH_TOKEN_PREFIX.length));
+}
+
+export function defaultFakeAccountId(): string {
+  return process.env.DROPBOX_FAKE_ACCOUNT_ID || 'dbid:FAKE_LOCAL_DEV_ACCOUNT';
+}
+
+function apiError(status: number, summary: string, error: object = {}): DropboxResponseError<any> {
+  return new DropboxResponseError(status, {}, { error_summary: summary, error });
+}
+
+function notFound(requestPath: string): DropboxResponseError<any> {
+  console.log(`🗂️ [FAKE DROPBOX] Not found: ${requestPath}`);
+  return apiError(409, 'path/not_found/..', { '.tag': 'path', path: { '.tag': 'not_found' } });
+}
+
+function newRev(): string {
+  return randomBytes(8).toString('hex') + '0';
+}
+
+function newId(): string {
+  return 'id:' + randomBytes(11).toString('base64url');
+}
+
+function parentOf(pathLower: string): string {
+  const index = pathLower.lastIndexOf('/');
+  return index <= 0 ? '' : pathLower.substring(0, index);
+}
+
+function normalizePath(input: string): string {
+  if (!input || input === '/') return '';
+  return ('/' + input.replace(/^\/+/, '')).replace(/\/+$/, '');
+}
+
+// Every write gets the next sequence number; cursors remember the listed folder and the
+// last sequence number they have seen (server_modified only has second precision).
+// A listing cut short by `limit` also remembers where the next page starts.
+let changeSeq = 0;
+
+const LONGPOLL_INTERVAL_MS = 500;
+
+interface FakeCursor {
+  path: string;
+  recursive: boolean;
+  seq: number;
+  page?: { offset: number; limit: number };
+}
+
+function encodeCursor(folder: string, recursive: boolean, page?: FakeCursor['page']): string {
+  const cursor: FakeCursor = { path: folder, recursive, seq: changeSeq, ...(page ? { page } : {}) };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): FakeCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof parsed.path !== 'string' || typeof parsed.seq !== 'number') return null;
+    const page = typeof parsed.page?.offset === 'number' && typeof parsed.page?.limit === 'number'
+      ? { offset: parsed.page.offset, limit: parsed.page.limit }
+      : undefined;
+    return { path: parsed.path, recursive: !!parsed.recursive, seq: parsed.seq, ...(page ? { page } : {}) };
+  } catch {
+    return null;
+  }
+}
+
+// Search cursors carry the whole query and the offset of the next page
+interface FakeSearch {
+  query: string;
+  path: string;
+  extensions: string[];
+  offset: number;
+  limit: number;
+}
+
+// Shared store so the auth middleware, services and client RPC bridge all see the same files
+class FakeDropboxStore {
+  private accounts = new Map<string, FakeAccountTree>();
+  private links = new Map<string, { accountId: string; pathLower: string; expiresAt: number }>();
+
+  tree(accountId: string): FakeAccountTree {
+    let tree = this.accounts.get(accountId);
+    if (!tree) {
+      const suffix = accountId.replace(/^dbid:/, '').slice(-6).toLowerCase();
+      tree = {
+        account: {
+          account_id: accountId,
+          email: accountId === defaultFakeAccountId()
+            ? (process.env.DROPBOX_FAKE_EMAIL || 'dev@example.com')
+            : `${suffix}@example.com`,
+          name: {
+            display_name: 'Local Dev',
+            given_name: 'Local',
+            surname: 'Dev',
+            familiar_name: 'Local',
+            abbreviated_name: 'LD'
+          }
+        },
+        files: new Map(),
+        folders: new Map(),
+        seeded: false,
+        uploadSessions: new Map()
+      };
+      this.accounts.set(accountId, tree);
+    }
+    return tree;
+  }
+
+  createLink(accountId: string, pathLower: string): string {
+    const linkId = randomUUID();
+    // Dropbox temporary links are valid for four hours
+    this.links.set(linkId, { accountId, pathLower, expiresAt: Date.now() + 4 * 60 * 60 * 1000 });
+    return linkId;
+  }
+
+  resolveLink(linkId: string): StoredFile | null {
+    const link = this.links.get(linkId);
+    if (!link) return null;
+    if (link.expiresAt < Date.now()) {
+      this.links.delete(linkId);
+      return null;
+    }
+    return this.tree(link.accountId).files.get(link.pathLower) || null;
+  }
+
+  reset(): void {
+    this.accounts.clear();
+    this.links.clear();
+  }
+}
+
+export const fakeDropboxStore = new FakeDropboxStore();
+
+// Sample images for a fresh account: solid backgrounds so background removal has something to find
+async function sampleImages(): Promise<Array<{ name: string; contents: Buffer }>> {
+  const seedDir = process.env.DROPBOX_FAKE_SEED_DIR;
+  if (seedDir) {
+    const names = fs.readdirSync(seedDir)
+      .filter(name => THUMBNAIL_EXTENSIONS.includes(path.extname(name).toLowerCase()));
+    return names.map(name => ({ name, contents: fs.readFileSync(path.join(seedDir, name)) }));
+  }
+
+  const shapes = [
+    { name: 'sample-red-circle.png', background: '#FFFFFF', shape: '<circle cx="320" cy="240" r="150" fill="#E53935"/>' },
+    { name: 'sample-blue-square.jpg', background: '#00C853', shape: '<rect x="200" y="120" width="240" height="240" fill="#1E88E5"/>' },
+    { name: 'sample-star.png', background: '#FFF59D', shape: '<polygon points="320,60 380,200 530,200 410,290 450,430 320,340 190,430 230,290 110,200 260,200" fill="#8E24AA"/>' }
+  ];
+
+  return Promise.all(shapes.map(async ({ name, background, shape }) => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="640" height="480"><rect width="100%" height="100%" fill="${background}"/>${shape}</svg>`;
+    const image = sharp(Buffer.from(svg));
+    const contents = name.endsWith('.jpg') ? await image.jpeg({ quality: 90 }).toBuffer() : await image.png().toBuffer();
+    return { name, contents };
+  }));
+}
+
+export class FakeDropbox {
+  private accountId: string | null;
+
+  constructor(accessToken: string) {
+    this.accountId = isFakeAccessToken(accessToken)
+      ? accessToken.substring(FAKE_ACCESS_TOKEN_PREFIX.length)
+      : null;
+  }
+
+  async usersGetCurrentAccount(): Promise<FakeResponse<FakeAccount>> {
+    const tree = await this.tree();
+    return this.respond(tree.account);
+  }
+
+  async usersGetSpaceUsage(): Promise<FakeResponse<object>> {
+    const tree = await this.tree();
+    const used = Array.from(tree.files.values()).reduce((sum, file) => sum + file.metadata.size, 0);
+    return this.respond({ used, allocation: { '.tag': 'individual', allocated: 2 * 1024 * 1024 * 1024 } });
+  }
+
+  async filesListFolder(arg: { path: string; recursive?: boolean; limit?: number }): Promise<FakeResponse<object>> {
+    const tree = await this.tree();
+    const folder = normalizePath(arg.path).toLowerCase();
+
+    if (folder && !tree.folders.has(folder)) {
+      throw notFound(arg.path);
+    }
+
+    return this.respond(this.listingPage(tree, folder, !!arg.recursive, 0, arg.limit));
+  }
+
+  // Cursor for "changes from now on", without listing anything
+  async filesListFolderGetLatestCursor(arg: { path: string; recursive?: boolean }): Promise<FakeResponse<{ cursor: string }>> {
+    const tree = await this.tree();
+    const folder = normalizePath(arg.path).toLowerCase();
+    if (folder && !tree.folders.has(folder)) {
+      throw notFound(arg.path);
+    }
+    return this.respond({ cursor: encodeCursor(folder, !!arg.recursive) });
+  }
+
+  // Files added or modified since the cursor was issued (deletions are not tracked)
+  async filesListFolderContinue(arg: { cursor: string }): Promise<FakeResponse<object>> {
+    const tree = await this.tree();
+    const cursor = decodeCursor(arg.cursor);
+    if (!cursor) {
+      throw apiError(409, 'reset/..', { '.tag': 'reset' });
+    }
+    if (cursor.page) {
+      return this.respond(this.listingPage(tree, cursor.path, cursor.recursive, cursor.page.offset, cursor.page.limit));
+    }
+
+    const entries = this.changedSince(tree, cursor).map(file => file.metadata);
+    return this.respond({ entries, cursor: encodeCursor(cursor.path, cursor.recursive), has_more: false });
+  }
+
+  // Checks for new writes every LONGPOLL_INTERVAL_MS until there are some or the timeout passes
+  async filesListFolderLongpoll(arg: { cursor: string; timeout?: number }): Promise<FakeResponse<{ changes: boolean; backoff?: number }>> {
+    const cursor = decodeCursor(arg.cursor);
+    if (!cursor || cursor.page) {
+      throw apiError(409, 'reset/..', { '.tag': 'reset' });
+    }
+
+    const deadline = Date.now() + (arg.timeout ?? 30) * 1000;
+    for (;;) {
+      if (this.changedSince(await this.tree(), cursor).length > 0) {
+        return this.respond({ changes: true });
+      }
+      if (Date.now() >= deadline) {
+        return this.respond({ changes: false });
+      }
+      await new Promise(resolve => setTimeout(resolve, Math.min(LONGPOLL_INTERVAL_MS, deadline - Date.now())));
+    }
+  }
+
+  // Files in the cursor's folder written after it was issued, oldest first
+  private changedSince(tree: FakeAccountTree, cursor: FakeCursor): StoredFile[] {
+    const inScope = (entryPath: string) => cursor.recursive
+      ? entryPath.startsWith(cursor.path + '/')
+      : parentOf(entryPath) === cursor.path;
+
+    return Array.from(tree.files.values())
+      .filter(file => file.seq > cursor.seq && inScope(file.metadata.path_lower))
+      .sort((a, b) => a.seq - b.seq);
+  }
+
+  private searchPage(tree: FakeAccountTree, search: FakeSearch): object {
+    const words = search.query.toLowerCase().split(/\s+/).filter(Boolean);
+    const matches = Array.from(tree.files.values())
+      .map(file => file.metadata)
+      .filter(entry => !search.path || entry.path_lower.startsWith(search.path + '/'))
+      .filter(entry => search.extensions.length === 0 || search.extensions.includes(path.extname(entry.name).slice(1).toLowerCase()))
+      .filter(entry => words.every(word => entry.name.toLowerCase().includes(word)))
+      .sort((a, b) => a.path_lower.localeCompare(b.path_lower));
+
+    const end = search.offset + search.limit;
+    const hasMore = end < matches.length;
+    return {
+      matches: matches.slice(search.offset, end).map(entry => ({ metadata: { '.tag': 'metadata', metadata: entry } })),
+      has_more: hasMore,
+      ...(hasMore ? { cursor: Buffer.from(JSON.stringify({ ...search, offset: end })).toString('base64url') } : {})
+    };
+  }
+
+  // One page of a folder listing; pages after the first are reached through the cursor
+  private listingPage(tree: FakeAccountTree, folder: string, recursive: boolean, offset: number, limit?: number): object {
+    const inScope = (entryPath: string) => recursive
+      ? entryPath.startsWith(folder + '/')
+      : parentOf(entryPath) === folder;
+
+    const entries: FakeEntry[] = [
+      ...Array.from(tree.folders.values()).filter(entry => inScope(entry.path_lower)),
+      ...Array.from(tree.files.values()).map(file => file.metadata).filter(entry => inScope(entry.path_lower))
+    ].sort((a, b) => a.path_lower.localeCompare(b.path_lower));
+
+    const end = limit ? offset + limit : entries.length;
+    const hasMore = end < entries.length;
+    return {
+      entries: entries.slice(offset, end),
+      cursor: encodeCursor(folder, recursive, hasMore && limit ? { offset: end, limit } : undefined),
+      has_more: hasMore
+    };
+  }
+
+  // File name search: every word of the query must appear in the name. Pages by max_results.
+  async filesSearchV2(arg: {
+    query: string;
+    options?: { path?: string; max_results?: number; file_extensions?: string[] };
+  }): Promise<FakeResponse<object>> {
+    const search: FakeSearch = {
+      query: arg.query,
+      path: normalizePath(arg.options?.path || '').toLowerCase(),
+      extensions: (arg.options?.file_extensions || []).map(extension => extension.toLowerCase()),
+      offset: 0,
+      limit: arg.options?.max_results || 100
+    };
+    return this.respond(this.searchPage(await this.tree(), search));
+  }
+
+  async filesSearchContinueV2(arg: { cursor: string }): Promise<FakeResponse<object>> {
+    let search: FakeSearch;
+    try {
+      search = JSON.parse(Buffer.from(arg.cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw apiError(400, 'invalid_argument/..', { '.tag': 'invalid_argument' });
+    }
+    return this.respond(this.searchPage(await this.tree(), search));
+  }
+
+  async filesGetMetadata(arg: { path: string }): Promise<FakeResponse<FakeEntry>> {
+    const tree = await this.tree();
+    const folder = tree.folders.get(normalizePath(arg.path).toLowerCase());
+    if (folder) return this.respond(folder);
+    return this.respond(this.findFile(tree, arg.path).metadata);
+  }
+
+  async filesDownload(arg: { path: string }): Promise<FakeResponse<FakeFileEntry & { fileBinary: Buffer }>> {
+    const tree = await this.tree();
+    const file = this.findFile(tree, arg.path);
+    return this.respond({ ...file.metadata, fileBinary: file.contents });
+  }
+
+  async filesGetThumbnailV2(arg: {
+    resource: { '.tag': string; path: string };
+    format?: { '.tag': string } | string;
+    size?: { '.tag': string } | string;
+    mode?: { '.tag': string } | string;
+  }): Promise<FakeResponse<{ file_metadata: FakeFileEntry; fileBinary: Buffer }>> {
+    const tree = await this.tree();
+    const file = this.findFile(tree, arg.resource.path);
+
+    if (!THUMBNAIL_EXTENSIONS.includes(path.extname(file.metadata.name).toLowerCase())) {
+      throw apiError(409, 'unsupported_extension/..', { '.tag': 'unsupported_extension' });
+    }
+
+    const tag = (value: { '.tag': string } | string | undefined, fallback: string) =>
+      typeof value === 'string' ? value : value?.['.tag'] || fallback;
+    const [width, height] = THUMBNAIL_SIZES[tag(arg.size, 'w64h64')] || THUMBNAIL_SIZES.w64h64;
+    const format = tag(arg.format, 'jpeg');
+    const mode = tag(arg.mode, 'strict');
+
+    try {
+      let image = sharp(file.contents).rotate().resize(width, height, {
+        fit: mode === 'bestfit' ? 'outside' : mode === 'fitone_bestfit' ? 'cover' : 'inside',
+        withoutEnlargement: true
+      });
+      image = format === 'png' ? image.png() : format === 'webp' ? image.webp() : image.flatten({ background: '#FFFFFF' }).jpeg({ quality: 85 });
+
+      return this.respond({ file_metadata: file.metadata, fileBinary: await image.toBuffer() });
+    } catch {
+      throw apiError(409, 'unsupported_image/..', { '.tag': 'unsupported_image' });
+    }
+  }
+
+  // Up to 25 thumbnails per call; each entry succeeds or fails on its own
+  async filesGetThumbnailBatch(arg: {
+    entries: Array<{
+      path: string;
+      format?: { '.tag': string } | string;
+      size?: { '.tag': string } | string;
+      mode?: { '.tag': string } | string;
+    }>;
+  }): Promise<FakeResponse<{ entries: object[] }>> {
+    if (arg.entries.length > 25) {
+      throw apiError(409, 'too_many_files/..', { '.tag': 'too_many_files' });
+    }
+
+    const entries: object[] = [];
+    for (const { path: entryPath, ...options } of arg.entries) {
+      try {
+        const { result } = await this.filesGetThumbnailV2({ resource: { '.tag': 'path', path: entryPath }, ...options });
+        entries.push({ '.tag': 'success', metadata: result.file_metadata, thumbnail: result.fileBinary.toString('base64') });
+      } catch (error) {
+        entries.push({ '.tag': 'failure', failure: (error as DropboxResponseError<any>).error?.error || { '.tag': 'other' } });
+      }
+    }
+    return this.respond({ entries });
+  }
+
+  async filesUpload(arg: {
+    path: string;
+    contents: Buffer | ArrayBuffer | string;
+    mode?: { '.tag': string; update?: string };
+    autorename?: boolean;
+    strict_conflict?: boolean;
+    client_modified?: string;
+  }): Promise<FakeResponse<FakeFileEntry>> {
+    const tree = await this.tree();
+    const contents = Buffer.isBuffer(arg.contents)
+      ? arg.contents
+      : typeof arg.contents === 'string' ? Buffer.from(arg.contents) : Buffer.from(arg.contents);
+
+    const metadata = this.writeFile(tree, arg.path, contents, {
+      mode: arg.mode?.['.tag'] || 'add',
+      updateRev: arg.mode?.update,
+      autorename: !!arg.autorename,
+      strictConflict: !!arg.strict_conflict,
+      clientModified: arg.client_modified
+    });
+
+    return this.respond(metadata);
+  }
+
+  async filesUploadSessionStart(arg: { contents?: Buffer; close?: boolean }): Promise<FakeResponse<{ session_id: string }>> {
+    const tree = await this.tree();
+    const sessionId = `fake-session:${randomUUID()}`;
+    tree.uploadSessions.set(sessionId, arg.contents?.length ? [Buffer.from(arg.contents)] : []);
+    return this.respond({ session_id: sessionId });
+  }
+
+  async filesUploadSessionAppendV2(arg: { cursor: { session_id: string; offset: number }; contents: Buffer; close?: boolean }): Promise<FakeResponse<null>> {
+    const tree = await this.tree();
+    const chunks = this.uploadSession(tree, arg.cursor, false);
+    chunks.push(Buffer.from(arg.contents));
+    return this.respond(null);
+  }
+
+  async filesUploadSessionFinish(arg: {
+    cursor: { session_id: string; offset: number };
+    commit: { path: string; mode?: { '.tag': string; update?: string }; autorename?: boolean; strict_conflict?: boolean };
+    contents?: Buffer;
+  }): Promise<FakeResponse<FakeFileEntry>> {
+    const tree = await this.tree();
+    const chunks = this.uploadSession(tree, arg.cursor, true);
+    if (arg.contents?.length) chunks.push(Buffer.from(arg.contents));
+
+    const metadata = this.writeFile(tree, arg.commit.path, Buffer.concat(chunks), {
+      mode: arg.commit.mode?.['.tag'] || 'add',
+      updateRev: arg.commit.mode?.update,
+      autorename: !!arg.commit.autorename,
+      strictConflict: !!arg.commit.strict_conflict
+    });
+    tree.uploadSessions.delete(arg.cursor.session_id);
+    return this.respond(metadata);
+  }
+
+  // A session's chunks, checking the cursor offset the way Dropbox does
+  private uploadSession(tree: FakeAccountTree, cursor: { session_id: string; offset: number }, finishing: boolean): Buffer[] {
+    const wrap = (lookup: object, summary: string) => finishing
+      ? apiError(409, `lookup_failed/${summary}/..`, { '.tag': 'lookup_failed', lookup_failed: lookup })
+      : apiError(409, `${summary}/..`, lookup);
+
+    const chunks = tree.uploadSessions.get(cursor.session_id);
+    if (!chunks) {
+      throw wrap({ '.tag': 'not_found' }, 'not_found');
+    }
+    const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    if (cursor.offset !== length) {
+      throw wrap({ '.tag': 'incorrect_offset', correct_offset: length }, 'incorrect_offset');
+    }
+    return chunks;
+  }
+
+  async filesGetTemporaryLink(arg: { path: string }): Promise<FakeResponse<{ metadata: FakeFileEntry; link: string }>> {
+    const tree = await this.tree();
+    const file = this.findFile(tree, arg.path);
+    const linkId = fakeDropboxStore.createLink(tree.account.account_id, file.metadata.path_lower);
+    const base = process.env.DROPBOX_FAKE_PUBLIC_URL || '';
+    return this.respond({ metadata: file.metadata, link: `${base}${FAKE_DROPBOX_CONTENT_PATH}/${linkId}` });
+  }
+
+  // Resolve the token's account, seeding sample files the first time it is seen
+  private async tree(): Promise<FakeAccountTree> {
+    if (!this.accountId) {
+      throw apiError(401, 'invalid_access_token/...', { '.tag': 'invalid_access_token' });
+    }
+
+    const tree = fakeDropboxStore.tree(this.accountId);
+    if (!tree.seeded) {
+      tree.seeded = true;
+      for (const sample of await sampleImages()) {
+        this.writeFile(tree, `/${sample.name}`, sample.contents, { mode: 'add', autorename: true, strictConflict: false });
+      }
+      console.log(`🗂️ [FAKE DROPBOX] Seeded ${tree.files.size} sample files for ${this.accountId}`);
+    }
+    return tree;
+  }
+
+  // Look up a file by "id:..." or by path (case-insensitive, like Dropbox)
+  private findFile(tree: FakeAccountTree, requestPath: string): StoredFile {
+    if (requestPath.startsWith('id:')) {
+      for (const file of tree.files.values()) {
+        if (file.metadata.id === requestPath) return file;
+      }
+      throw notFound(requestPath);
+    }
+
+    const file = tree.files.get(normalizePath(requestPath).toLowerCase());
+    if (!file) throw notFound(requestPath);
+    return file;
+  }
+
+  private writeFile(
+    tree: FakeAccountTree,
+    requestPath: string,
+    contents: Buffer,
+    options: { mode: string; updateRev?: string; autorename: boolean; strictConflict: boolean; clientModified?: string }
+  ): FakeFileEntry {
+    let pathDisplay = normalizePath(requestPath);
+    if (!pathDisplay) {
+      throw apiError(400, 'path/malformed_path/..', { '.tag': 'path', reason: { '.tag': 'malformed_path' } });
+    }
+
+    // Existing folders keep their original casing, like Dropbox
+    const parentFolder = tree.folders.get(parentOf(pathDisplay).toLowerCase());
+    if (parentFolder) {
+      pathDisplay = parentFolder.path_display + pathDisplay.substring(pathDisplay.lastIndexOf('/'));
+    }
+
+    const contentHash = dropboxContentHash(contents);
+    let existing = tree.files.get(pathDisplay.toLowerCase());
+
+    if (existing) {
+      const identical = existing.metadata.content_hash === contentHash;
+      const overwriteAllowed = options.mode === 'overwrite' ||
+        (options.mode === 'update' && options.updateRev === existing.metadata.rev);
+
+      if (overwriteAllowed || (identical && !options.strictConflict)) {
+        // Same contents (or an allowed overwrite) keeps the id; identical uploads are a no-op
+        if (identical) return existing.metadata;
+      } else if (options.autorename) {
+        pathDisplay = this.availablePath(tree, pathDisplay);
+        existing = undefined;
+      } else {
+        throw apiError(409, 'path/conflict/file/..', { '.tag': 'path', reason: { '.tag': 'conflict', conflict: { '.tag': 'file' } } });
+      }
+    }
+
+    this.ensureFolders(tree, parentOf(pathDisplay));
+
+    const now = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+    const metadata: FakeFileEntry = {
+      '.tag': 'file',
+      id: existing?.metadata.id || newId(),
+      name: pathDisplay.substring(pathDisplay.lastIndexOf('/') + 1),
+      path_lower: pathDisplay.toLowerCase(),
+      path_display: pathDisplay,
+      rev: newRev(),
+      size: contents.length,
+      client_modified: options.clientModified || now,
+      server_modified: now,
+      content_hash: contentHash,
+      is_downloadable: true
+    };
+
+    tree.files.set(metadata.path_lower, { metadata, contents, seq: ++changeSeq });
+    console.log(`🗂️ [FAKE DROPBOX] Wrote ${metadata.path_display} (${contents.length} bytes, rev ${metadata.rev})`);
+    return metadata;
+  }
+
+  // Dropbox autorename style: "photo (1).png", "photo (2).png", ...
+  private availablePath(tree: FakeAccountTree, pathDisplay: string): string {
+    const dir = pathDisplay.substring(0, pathDisplay.lastIndexOf('/'));
+    const name = pathDisplay.substring(pathDisplay.lastIndexOf('/') + 1);
+    const dot = name.lastIndexOf('.');
+    const base = dot > 0 ? name.substring(0, dot) : name;
+    const extension = dot > 0 ? name.substring(dot) : '';
+
+    for (let counter = 1; ; counter++) {
+      const candidate = `${dir}/${base} (${counter})${extension}`;
+      if (!tree.files.has(candidate.toLowerCase())) return candidate;
+    }
+  }
+
+  private ensureFolders(tree: FakeAccountTree, folderDisplay: string): void {
+    if (!folderDisplay || tree.folders.has(folderDisplay.toLowerCase())) return;
+    this.ensureFolders(tree, parentOf(folderDisplay));
+    tree.folders.set(folderDisplay.toLowerCase(), {
+      '.tag': 'folder',
+      id: newId(),
+      name: folderDisplay.substring(folderDisplay.lastIndexOf('/') + 1),
+      path_lower: folderDisplay.toLowerCase(),
+      path_display: folderDisplay
+    });
+  }
+
+  private respond<T>(result: T): FakeResponse<T> {
+    return { status: 200, headers: {}, result };
+  }
+}
@@ -0,0 +1,303 @@
+import express, { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import fetch from 'node-fetch';
+import sharp from 'sharp';
+import { randomUUID } from 'crypto';
+import { Server } from 'http';
+import { chromaKeyCutout, lanczosUpscale, encodeAs, RasterFormat } from '../utils/imageTransforms';
+
+// Local stand-in for the Picsart /tools/1.0 API. Implements the removebg and upscale
+// contracts with sharp, serves results from a fake CDN and can inject failures.
+
+export type MockFaultKind = '429' | '401' | '402' | '500' | '502' | '503' | 'hangup';
+export type MockFaultTarget = 'api' | 'removebg' | 'upscale' | 'cdn';
+
+export interface MockFault {
+  target: MockFaultTarget;
+  kind: MockFaultKind;
+}
+
+export interface PicsartMockOptions {
+  // When set, requests must send exactly this key; otherwise any non-empty key is accepted
+  apiKey?: string;
+  // Artificial delay added to every API call
+  latencyMs?: number;
+  // Faults consumed in order by matching requests
+  faults?: MockFault[];
+  retryAfterSeconds?: number;
+  maxStoredResults?: number;
+}
+
+export const PICSART_MOCK_DEFAULT_PORT = 5050;
+
+const FAULT_KINDS: MockFaultKind[] = ['429', '401', '402', '500', '502', '503', 'hangup'];
+const FAULT_TARGETS: MockFaultTarget[] = ['api', 'removebg', 'upscale', 'cdn'];
+
+const CONTENT_TYPES: Record<RasterFormat, string> = {
+  PNG: 'image/png',
+  JPG: 'image/jpeg',
+  WEBP: 'image/webp'
+};
+
+const FAULT_MESSAGES: Record<string, string> = {
+  '401': 'Unauthorized: invalid API key',
+  '402': 'Payment required: insufficient credits',
+  '429': 'Too many requests',
+  '500': 'Internal server error',
+  '502': 'Bad gateway',
+  '503': 'Service unavailable'
+};
+
+// Parse a fault list such as "429,429,upscale:402,cdn:hangup" (bare kinds target any API call)
+export function parseMockFaults(spec: string | undefined): MockFault[] {
+  if (!spec) return [];
+
+  return spec.split(',')
+    .map(part => part.trim())
+    .filter(Boolean)
+    .map(part => {
+      const [first, second] = part.split(':');
+      const target = (second ? first : 'api') as MockFaultTarget;
+      const kind = (second || first) as MockFaultKind;
+      if (!FAULT_TARGETS.includes(target) || !FAULT_KINDS.includes(kind)) {
+        throw new Error(`Invalid mock fault "${part}". Use [api|removebg|upscale|cdn:]${FAULT_KINDS.join('|')}`);
+      }
+      return { target, kind };
+    });
+}
+
+export function mockOptionsFromEnv(): PicsartMockOptions {
+  return {
+    apiKey: process.env.PICSART_MOCK_API_KEY || undefined,
+    latencyMs: parseInt(process.env.PICSART_MOCK_LATENCY_MS || '0', 10),
+    faults: parseMockFaults(process.env.PICSART_MOCK_FAULTS),
+    retryAfterSeconds: parseInt(process.env.PICSART_MOCK_RETRY_AFTER || '1', 10)
+  };
+}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024,
+  }
+});
+
+export function createPicsartMockApp(options: PicsartMockOptions = {}): express.Express {
+  const app = express();
+  const faults: MockFault[] = [...(options.faults || [])];
+  const results = new Map<string, { buffer: Buffer; contentType: string }>();
+  const maxStoredResults = options.maxStoredResults || 200;
+  const stats = { removebg: 0, upscale: 0, cdn: 0, faultsInjected: 0 };
+
+  // Take the next queued fault for this request, if any (a request header can also force one)
+  const takeFault = (req: Request, target: MockFaultTarget): MockFault | undefined => {
+    const forced = req.header('x-mock-fault');
+    if (forced) {
+      return parseMockFaults(forced.includes(':') ? forced : `${target}:${forced}`)[0];
+    }
+
+    const index = faults.findIndex(fault =>
+      fault.target === target || (fault.target === 'api' && target !== 'cdn')
+    );
+    return index === -1 ? undefined : faults.splice(index, 1)[0];
+  };
+
+  // Respond with the fault, returns true when the request was handled
+  const injectFault = (req: Request, res: Response, target: MockFaultTarget): boolean => {
+    const fault = takeFault(req, target);
+    if (!fault) return false;
+
+    stats.faultsInjected++;
+    console.log(`💥 [PICSART MOCK] Injecting ${fault.kind} on ${req.method} ${req.path}`);
+
+    if (fault.kind === 'hangup') {
+      req.socket.destroy();
+      return true;
+    }
+
+    const status = parseInt(fault.kind, 10);
+    if (status === 429) {
+      res.setHeader('Retry-After', String(options.retryAfterSeconds ?? 1));
+    }
+    res.status(status).json({ code: status, detail: FAULT_MESSAGES[fault.kind] });
+    return true;
+  };
+
+  const storeResult = (req: Request, buffer: Buffer, contentType: string): { id: string; url: string } => {
+    const id = randomUUID();
+    results.set(id, { buffer, contentType });
+    // Maps iterate in insertion order, so the first key is the oldest result
+    while (results.size > maxStoredResults) {
+      results.delete(results.keys().next().value as string);
+    }
+    return { id, url: `${req.protocol}://${req.get('host')}/cdn/${id}` };
+  };
+
+  const requireApiKey = (req: Request, res: Response, next: NextFunction) => {
+    const key = req.header('x-picsart-api-key');
+    if (!key || (options.apiKey && key !== options.apiKey)) {
+      res.status(401).json({ code: 401, detail: FAULT_MESSAGES['401'] });
+      return;
+    }
+    next();
+  };
+
+  const simulateLatency = async (_req: Request, _res: Response, next: NextFunction) => {
+    if (options.latencyMs && options.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, options.latencyMs));
+    }
+    next();
+  };
+
+  // Input image comes either as a multipart file or an image_url field
+  const readInputImage = async (req: Request): Promise<Buffer | null> => {
+    if (req.file) return req.file.buffer;
+    if (req.body?.image_url) {
+      const imageRes = await fetch(req.body.image_url, { timeout: 15000 });
+      if (!imageRes.ok) {
+        throw new Error(`Could not fetch image_url (${imageRes.status})`);
+      }
+      return Buffer.from(await imageRes.arrayBuffer());
+    }
+    return null;
+  };
+
+  const readFormat = (value: string | undefined, fallback: RasterFormat): RasterFormat | null => {
+    const format = (value || fallback).toUpperCase() as RasterFormat;
+    return CONTENT_TYPES[format] ? format : null;
+  };
+
+  app.post('/tools/1.0/removebg', simulateLatency, upload.single('image'), requireApiKey, async (req: Request, res: Response) => {
+    stats.removebg++;
+    if (injectFault(req, res, 'removebg')) return;
+
+    try {
+      const input = await readInputImage(req);
+      const format = readFormat(req.body.format, 'PNG');
+      if (!input || !format) {
+        res.status(400).json({ code: 400, detail: !input ? 'image or image_url is required' : 'Unsupported format' });
+        return;
+      }
+
+      const isMask = req.body.output_type === 'mask';
+      let cutout = await chromaKeyCutout(input, { mask: isMask });
+
+      if (!isMask && req.body.bg_image_url) {
+        const bgRes = await fetch(req.body.bg_image_url, { timeout: 15000 });
+        if (!bgRes.ok) {
+          res.status(400).json({ code: 400, detail: `Could not fetch bg_image_url (${bgRes.status})` });
+          return;
+        }
+        const cutoutPng = await cutout.png().toBuffer();
+        const { width, height } = await sharp(cutoutPng).metadata();
+        let background = sharp(Buffer.from(await bgRes.arrayBuffer())).resize(width, height, { fit: 'cover' });
+        const blur = parseInt(req.body.bg_blur || '0', 10);
+        if (blur > 0) {
+          background = background.blur(Math.max(0.3, blur / 4));
+        }
+        cutout = sharp(await background.composite([{ input: cutoutPng }]).png().toBuffer());
+      } else if (!isMask && req.body.bg_color) {
+        cutout = cutout.flatten({ background: req.body.bg_color });
+      } else if (format === 'JPG') {
+        // JPEG has no alpha channel - match Picsart's white fill
+        cutout = cutout.flatten({ background: '#FFFFFF' });
+      }
+
+      // Stroke and shadow options are accepted but not rendered by the mock
+      const output = await encodeAs(cutout, format);
+      const { id, url } = storeResult(req, output, CONTENT_TYPES[format]);
+      console.log(`🧪 [PICSART MOCK] removebg ${input.length} -> ${output.length} bytes (${format})`);
+
+      res.json({ status: 'success', data: { id, url } });
+    } catch (error) {
+      console.error('❌ [PICSART MOCK] removebg failed:', error);
+      res.status(400).json({ code: 400, detail: (error as Error).message });
+    }
+  });
+
+  app.post('/tools/1.0/upscale', simulateLatency, upload.single('image'), requireApiKey, async (req: Request, res: Response) => {
+    stats.upscale++;
+    if (injectFault(req, res, 'upscale')) return;
+
+    try {
+      const input = await readInputImage(req);
+      const format = readFormat(req.body.format, 'JPG');
+      const factor = parseInt(req.body.upscale_factor || '2', 10);
+      if (!input || !format || !Number.isInteger(factor) || factor < 2 || factor > 16) {
+        res.status(400).json({
+          code: 400,
+          detail: !input ? 'image or image_url is required' : !format ? 'Unsupported format' : 'upscale_factor must be between 2 and 16'
+        });
+        return;
+      }
+
+      let upscaled = await lanczosUpscale(input, factor);
+      if (format === 'JPG') {
+        upscaled = upscaled.flatten({ background: '#FFFFFF' });
+      }
+
+      const output = await encodeAs(upscaled, format);
+      const { id, url } = storeResult(req, output, CONTENT_TYPES[format]);
+      console.log(`🧪 [PICSART MOCK] upscale ${factor}x ${input.length} -> ${output.length} bytes (${format})`);
+
+      res.json({ status: 'success', data: { id, url } });
+    } catch (error) {
+      console.error('❌ [PICSART MOCK] upscale failed:', error);
+      res.status(400).json({ code: 400, detail: (error as Error).message });
+    }
+  });
+
+  // Fake CDN serving stored results
+  app.get('/cdn/:id', (req: Request, res: Response) => {
+    stats.cdn++;
+    if (injectFault(req, res, 'cdn')) return;
+
+    const result = results.get(req.params.id);
+    if (!result) {
+      res.status(404).json({ code: 404, detail: 'Result not found or expired' });
+      return;
+    }
+    res.setHeader('Content-Type', result.contentType);
+    res.send(result.buffer);
+  });
+
+  // Control endpoints for tests and manual fault injection
+  app.get('/__mock/state', (_req: Request, res: Response) => {
+    res.json({ stats, pendingFaults: faults, storedResults: results.size });
+  });
+
+  app.post('/__mock/faults', express.json(), (req: Request, res: Response) => {
+    try {
+      const added = typeof req.body?.faults === 'string'
+        ? parseMockFaults(req.body.faults)
+        : parseMockFaults((req.body?.faults || []).map((f: MockFault) => `${f.target}:${f.kind}`).join(','));
+      faults.push(...added);
+      res.json({ pendingFaults: faults });
+    } catch (error) {
+      res.status(400).json({ error: 'Invalid faults', message: (error as Error).message });
+    }
+  });
+
+  app.delete('/__mock/faults', (_req: Request, res: Response) => {
+    faults.length = 0;
+    res.json({ pendingFaults: faults });
+  });
+
+  return app;
+}
+
+export function startPicsartMockServer(
+  port: number = PICSART_MOCK_DEFAULT_PORT,
+  options: PicsartMockOptions = mockOptionsFromEnv()
+): Promise<Server> {
+  return new Promise((resolve, reject) => {
+    const server = createPicsartMockApp(options).listen(port, () => {
+      console.log(`🧪 Picsart mock server listening on http://localhost:${port}/tools/1.0`);
+      if (options.faults?.length) {
+        console.log('💥 [PICSART MOCK] Queued faults:', options.faults.map(f => `${f.target}:${f.kind}`).join(', '));
+      }
+      resolve(server);
+    });
+    server.on('error', reject);
+  });
+}
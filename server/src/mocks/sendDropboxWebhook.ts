@@ -0,0 +1,56 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import fetch from 'node-fetch';
+import { defaultFakeAccountId } from './FakeDropbox';
+import { DROPBOX_SIGNATURE_HEADER, dropboxWebhookSecret, signDropboxWebhook } from '../utils/dropboxWebhook';
+
+// Sends a Dropbox-style signed webhook notification to the local server, so rule-based
+// automation can be tried without exposing the server to Dropbox:
+//   npm run webhook:dropbox -- [accountId ...] [--url http://localhost:8080/api/webhooks/dropbox] [--bad-signature]
+async function main(): Promise<void> {
+  let url = `http://localhost:${process.env.PORT || 8080}/api/webhooks/dropbox`;
+  let badSignature = false;
+  const accounts: string[] = [];
+
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--url') {
+      url = args[++i];
+    } else if (args[i] === '--bad-signature') {
+      badSignature = true;
+    } else {
+      accounts.push(args[i]);
+    }
+  }
+
+  const secret = dropboxWebhookSecret();
+  if (!secret) {
+    throw new Error('Set DROPBOX_WEBHOOK_SECRET or DROPBOX_CLIENT_SECRET to the value the server uses');
+  }
+
+  // Check the verification handshake first, like Dropbox does when the webhook is registered
+  const challenge = `challenge-${Date.now()}`;
+  const challengeResponse = await fetch(`${url}?challenge=${encodeURIComponent(challenge)}`);
+  const echoed = await challengeResponse.text();
+  console.log(`🤝 Challenge: ${challengeResponse.status} ${echoed === challenge ? '(echoed correctly)' : '(NOT echoed)'}`);
+
+  const accountIds = accounts.length > 0 ? accounts : [defaultFakeAccountId()];
+  const body = JSON.stringify({
+    list_folder: { accounts: accountIds },
+    delta: { users: [] }
+  });
+  const signature = badSignature ? signDropboxWebhook(body, 'wrong-secret') : signDropboxWebhook(body, secret);
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', [DROPBOX_SIGNATURE_HEADER]: signature },
+    body
+  });
+  console.log(`📨 Notification for ${accountIds.join(', ')}: ${response.status} ${response.statusText}`);
+}
+
+main().catch(error => {
+  console.error('❌ Failed to send Dropbox webhook:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,12 @@
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { startPicsartMockServer, PICSART_MOCK_DEFAULT_PORT } from './picsartMockServer';
+
+// Standalone Picsart mock: PICSART_API_BASE_URL=http://localhost:5050/tools/1.0
+const port = parseInt(process.env.PICSART_MOCK_PORT || String(PICSART_MOCK_DEFAULT_PORT), 10);
+
+startPicsartMockServer(port).catch(error => {
+  console.error('❌ Failed to start Picsart mock server:', error);
+  process.exit(1);
+});
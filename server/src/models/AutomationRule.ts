@@ -0,0 +1,105 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IPresetOptions } from './Preset';
+
+// "New .jpg in /Inbox → remove background → save to /Processed": run when a Dropbox
+// webhook reports new or changed files in the watched folder
+export interface IAutomationRule extends Document {
+  ruleId: string;
+  // Owner - matches IUser.userId (the Dropbox account ID)
+  userId: string;
+  name: string;
+  enabled: boolean;
+  // Watched folder, e.g. "/Inbox" ("/" for the Dropbox root)
+  folderPath: string;
+  includeSubfolders: boolean;
+  // Lowercase extensions with the dot, e.g. [".jpg"]. Empty matches every image type.
+  extensions: string[];
+  // Processing: a saved preset (looked up when the rule fires) or inline options
+  presetId?: string | null;
+  options?: IPresetOptions | null;
+  // Where the outputs are saved
+  outputFolder: string;
+  triggerCount: number;
+  lastTriggeredAt?: Date | null;
+  lastBatchId?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IAutomationRuleModel extends mongoose.Model<IAutomationRule> {
+  recordTrigger(ruleId: string, batchId: string, files: number): Promise<any>;
+}
+
+const automationRuleSchema: Schema = new Schema({
+  ruleId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  folderPath: {
+    type: String,
+    required: true
+  },
+  includeSubfolders: {
+    type: Boolean,
+    default: false
+  },
+  extensions: {
+    type: [String],
+    default: []
+  },
+  presetId: {
+    type: String,
+    default: null
+  },
+  options: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  outputFolder: {
+    type: String,
+    required: true
+  },
+  triggerCount: {
+    type: Number,
+    default: 0
+  },
+  lastTriggeredAt: {
+    type: Date,
+    default: null
+  },
+  lastBatchId: {
+    type: String,
+    default: null
+  }
+}, {
+  timestamps: true // Automatically adds createdAt and updatedAt
+});
+
+// Rule names are unique per user
+automationRuleSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+// Static method to count a webhook-triggered run
+automationRuleSchema.statics.recordTrigger = function(ruleId: string, batchId: string, files: number): Promise<any> {
+  return this.updateOne(
+    { ruleId },
+    { $inc: { triggerCount: files }, $set: { lastTriggeredAt: new Date(), lastBatchId: batchId } }
+  );
+};
+
+export const AutomationRuleModel = mongoose.model<IAutomationRule, IAutomationRuleModel>('AutomationRule', automationRuleSchema);
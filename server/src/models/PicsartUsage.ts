@@ -0,0 +1,70 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One Picsart API call made on a user's behalf, successful or not
+export interface IPicsartUsage extends Document {
+  // Owner - matches IUser.userId (the Dropbox account ID)
+  userId: string;
+  jobId?: string | null;
+  tool: string;
+  success: boolean;
+  // Input image size in megapixels, when it could be decoded
+  megapixels?: number | null;
+  // Credits charged for the call; failed calls are free
+  credits: number;
+  durationMs: number;
+  apiAttempts: number;
+  httpStatus?: number | null;
+  errorCode?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const picsartUsageSchema: Schema = new Schema({
+  userId: {
+    type: String,
+    required: true
+  },
+  jobId: {
+    type: String,
+    default: null
+  },
+  tool: {
+    type: String,
+    required: true
+  },
+  success: {
+    type: Boolean,
+    required: true
+  },
+  megapixels: {
+    type: Number,
+    default: null
+  },
+  credits: {
+    type: Number,
+    default: 0
+  },
+  durationMs: {
+    type: Number,
+    default: 0
+  },
+  apiAttempts: {
+    type: Number,
+    default: 0
+  },
+  httpStatus: {
+    type: Number,
+    default: null
+  },
+  errorCode: {
+    type: String,
+    default: null
+  }
+}, {
+  timestamps: true // Automatically adds createdAt and updatedAt
+});
+
+// Index for quota checks and the usage endpoint: a user's calls since the start of a period
+picsartUsageSchema.index({ userId: 1, createdAt: -1 });
+
+export const PicsartUsageModel = mongoose.model<IPicsartUsage>('PicsartUsage', picsartUsageSchema);
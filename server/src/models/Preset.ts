@@ -0,0 +1,84 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { RemoveBgOptions } from '../utils/removeBgOptions';
+import { PipelineStep } from '../utils/pipeline';
+import { OutputSettings } from '../utils/outputFormat';
+import { ConflictPolicy } from '../utils/conflictPolicy';
+
+// The processing options a preset fills in, same shape as the client's processingOptions
+export interface IPresetOptions {
+  removeBg: boolean;
+  upscale: boolean;
+  upscaleFactor: number;
+  removeBgOptions?: RemoveBgOptions;
+  pipeline?: PipelineStep[];
+  output?: OutputSettings;
+  conflictPolicy?: ConflictPolicy;
+}
+
+export interface IPreset extends Document {
+  presetId: string;
+  // Owner - matches IUser.userId (the Dropbox account ID)
+  userId: string;
+  name: string;
+  description?: string;
+  options: IPresetOptions;
+  // Applied automatically when the user selects an image. At most one per user.
+  isDefault: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPresetModel extends mongoose.Model<IPreset> {
+  clearDefault(userId: string, exceptPresetId?: string): Promise<any>;
+}
+
+const presetSchema: Schema = new Schema({
+  presetId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  description: {
+    type: String,
+    default: undefined
+  },
+  options: {
+    removeBg: { type: Boolean, default: false },
+    upscale: { type: Boolean, default: false },
+    upscaleFactor: { type: Number, default: 2 },
+    removeBgOptions: { type: Schema.Types.Mixed, default: undefined },
+    pipeline: { type: [Schema.Types.Mixed], default: undefined },
+    output: { type: Schema.Types.Mixed, default: undefined },
+    conflictPolicy: { type: String, default: undefined }
+  },
+  isDefault: {
+    type: Boolean,
+    default: false
+  }
+}, {
+  timestamps: true // Automatically adds createdAt and updatedAt
+});
+
+// Preset names are unique per user
+presetSchema.index({ userId: 1, name: 1 }, { unique: true });
+
+// Static method to unset the user's current default preset
+presetSchema.statics.clearDefault = function(userId: string, exceptPresetId?: string): Promise<any> {
+  return this.updateMany(
+    { userId, isDefault: true, ...(exceptPresetId ? { presetId: { $ne: exceptPresetId } } : {}) },
+    { $set: { isDefault: false } }
+  );
+};
+
+export const PresetModel = mongoose.model<IPreset, IPresetModel>('Preset', presetSchema);
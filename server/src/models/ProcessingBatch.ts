@@ -0,0 +1,116 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IJobOptions } from './ProcessingJob';
+
+export type BatchStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface IBatchSource {
+  // Explicit file list, or every image in a folder
+  paths?: string[];
+  folderPath?: string;
+  recursive?: boolean;
+  // Set when an automation rule started the batch from a Dropbox webhook
+  ruleId?: string;
+}
+
+export interface IBatchItem {
+  dropboxPath: string;
+  jobId: string;
+}
+
+export interface IProcessingBatch extends Document {
+  batchId: string;
+  userId: string;
+  source: IBatchSource;
+  options: IJobOptions;
+  // One processing job per file, in the order they are run
+  items: IBatchItem[];
+  status: BatchStatus;
+  succeeded: number;
+  failed: number;
+  concurrency: number;
+  error?: string | null;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IProcessingBatchModel extends mongoose.Model<IProcessingBatch> {
+  failInterruptedBatches(): Promise<any>;
+}
+
+const processingBatchSchema: Schema = new Schema({
+  batchId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  source: {
+    paths: { type: [String], default: undefined },
+    folderPath: String,
+    recursive: Boolean,
+    ruleId: String
+  },
+  options: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  items: {
+    type: [{
+      dropboxPath: { type: String, required: true },
+      jobId: { type: String, required: true }
+    }],
+    default: []
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'running', 'completed', 'failed'],
+    default: 'queued',
+    index: true
+  },
+  succeeded: {
+    type: Number,
+    default: 0
+  },
+  failed: {
+    type: Number,
+    default: 0
+  },
+  concurrency: {
+    type: Number,
+    default: 1
+  },
+  error: {
+    type: String,
+    default: null
+  },
+  startedAt: Date,
+  completedAt: Date
+}, {
+  timestamps: true // Automatically adds createdAt and updatedAt
+});
+
+// Index for listing a user's recent batches
+processingBatchSchema.index({ userId: 1, createdAt: -1 });
+
+// Static method to fail batches that were left running by a previous server process
+processingBatchSchema.statics.failInterruptedBatches = function(): Promise<any> {
+  return this.updateMany(
+    { status: { $in: ['queued', 'running'] } },
+    {
+      $set: {
+        status: 'failed',
+        error: 'Batch interrupted by server restart',
+        completedAt: new Date()
+      }
+    }
+  );
+};
+
+export const ProcessingBatchModel = mongoose.model<IProcessingBatch, IProcessingBatchModel>('ProcessingBatch', processingBatchSchema);
@@ -0,0 +1,196 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { RemoveBgOptions } from '../utils/removeBgOptions';
+import { PipelineStep, PipelineStepType } from '../utils/pipeline';
+import { OutputSettings } from '../utils/outputFormat';
+import { ConflictPolicy, UploadAction } from '../utils/conflictPolicy';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type JobStepName = 'download' | PipelineStepType;
+export type JobStepStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface IJobStep {
+  name: JobStepName;
+  status: JobStepStatus;
+  startedAt?: Date;
+  completedAt?: Date;
+  // Step parameters as given in the pipeline (absent for download)
+  params?: Record<string, any>;
+  // Whether this step's output is saved to Dropbox
+  save?: boolean;
+  outputPath?: string;
+  // How a taken output name was handled, see options.conflictPolicy
+  uploadAction?: UploadAction;
+  outputSize?: number;
+  width?: number;
+  height?: number;
+  // Encoding of the output as detected by sharp, e.g. "png" or "jpeg"
+  format?: string;
+  durationMs?: number;
+  provider?: string;
+  failoverReason?: string;
+  // Output reused from the result cache (no provider call was made)
+  cacheHit?: boolean;
+  error?: string;
+}
+
+export interface IJobOptions {
+  removeBg: boolean;
+  upscale: boolean;
+  upscaleFactor: number;
+  removeBgOptions?: RemoveBgOptions;
+  pipeline: PipelineStep[];
+  // Output stage applied to every saved result; each step's own encoding is kept when absent
+  output?: OutputSettings;
+  // Dropbox folder for outputs (absolute, or relative to the original's folder); next to the original when absent
+  outputFolder?: string;
+  // File name pattern, see utils/outputPath
+  filenameTemplate?: string;
+  // Name of the preset the options came from, for the {preset} token
+  presetName?: string;
+  // What to do when an output name is taken; autorename when absent
+  conflictPolicy?: ConflictPolicy;
+}
+
+export interface IJobResults {
+  backgroundRemoved?: string;
+  upscaled?: string;
+  // Output of the last pipeline step
+  final?: string;
+}
+
+export interface IProcessingJob extends Document {
+  jobId: string;
+  userId: string;
+  // Set when the job is one item of a batch
+  batchId?: string | null;
+  dropboxPath: string;
+  options: IJobOptions;
+  status: JobStatus;
+  currentStep?: JobStepName | null;
+  // Index into steps of the running step (the same step type may appear twice)
+  currentStepIndex?: number | null;
+  steps: IJobStep[];
+  results: IJobResults;
+  error?: string | null;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IProcessingJobModel extends mongoose.Model<IProcessingJob> {
+  failInterruptedJobs(): Promise<any>;
+}
+
+const jobStepSchema = new Schema({
+  name: {
+    type: String,
+    enum: ['download', 'removeBg', 'upscale', 'convert', 'resize'],
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'running', 'completed', 'failed'],
+    default: 'pending'
+  },
+  startedAt: Date,
+  completedAt: Date,
+  params: { type: Schema.Types.Mixed, default: undefined },
+  save: Boolean,
+  outputPath: String,
+  uploadAction: String,
+  outputSize: Number,
+  width: Number,
+  height: Number,
+  format: String,
+  durationMs: Number,
+  provider: String,
+  failoverReason: String,
+  cacheHit: Boolean,
+  error: String
+}, { _id: false });
+
+const processingJobSchema: Schema = new Schema({
+  jobId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  batchId: {
+    type: String,
+    default: null,
+    index: true
+  },
+  dropboxPath: {
+    type: String,
+    required: true
+  },
+  options: {
+    removeBg: { type: Boolean, default: false },
+    upscale: { type: Boolean, default: false },
+    upscaleFactor: { type: Number, default: 2 },
+    removeBgOptions: { type: Schema.Types.Mixed, default: undefined },
+    pipeline: { type: [Schema.Types.Mixed], default: [] },
+    output: { type: Schema.Types.Mixed, default: undefined },
+    outputFolder: { type: String, default: undefined },
+    filenameTemplate: { type: String, default: undefined },
+    presetName: { type: String, default: undefined },
+    conflictPolicy: { type: String, default: undefined }
+  },
+  status: {
+    type: String,
+    enum: ['queued', 'running', 'completed', 'failed'],
+    default: 'queued',
+    index: true
+  },
+  currentStep: {
+    type: String,
+    default: null
+  },
+  currentStepIndex: {
+    type: Number,
+    default: null
+  },
+  steps: {
+    type: [jobStepSchema],
+    default: []
+  },
+  results: {
+    backgroundRemoved: String,
+    upscaled: String,
+    final: String
+  },
+  error: {
+    type: String,
+    default: null
+  },
+  startedAt: Date,
+  completedAt: Date
+}, {
+  timestamps: true // Automatically adds createdAt and updatedAt
+});
+
+// Index for listing a user's recent jobs
+processingJobSchema.index({ userId: 1, createdAt: -1 });
+
+// Static method to fail jobs that were left running by a previous server process
+processingJobSchema.statics.failInterruptedJobs = function(): Promise<any> {
+  return this.updateMany(
+    { status: { $in: ['queued', 'running'] } },
+    {
+      $set: {
+        status: 'failed',
+        error: 'Job interrupted by server restart',
+        completedAt: new Date()
+      }
+    }
+  );
+};
+
+export const ProcessingJobModel = mongoose.model<IProcessingJob, IProcessingJobModel>('ProcessingJob', processingJobSchema);
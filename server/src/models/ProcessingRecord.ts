@@ -0,0 +1,141 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IJobOptions, JobStepName } from './ProcessingJob';
+import { PipelineStepType } from '../utils/pipeline';
+import { UploadAction } from '../utils/conflictPolicy';
+
+export type RecordStatus = 'completed' | 'failed';
+
+export interface IRecordStep {
+  name: JobStepName;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  params?: Record<string, any>;
+  outputPath?: string;
+  uploadAction?: UploadAction;
+  outputSize?: number;
+  format?: string;
+  durationMs?: number;
+  provider?: string;
+  failoverReason?: string;
+  cacheHit?: boolean;
+  // Picsart requests made for this step, retries included
+  picsartAttempts?: number;
+  error?: string;
+}
+
+// A finished processing run, kept after the job document is no longer interesting so
+// users can browse, reopen and re-run past work
+export interface IProcessingRecord extends Document {
+  recordId: string;
+  // Owner - matches IUser.userId (the Dropbox account ID)
+  userId: string;
+  jobId: string;
+  batchId?: string | null;
+  sourceFileId?: string | null;
+  sourcePath: string;
+  // Pipeline step types in order, for filtering
+  operations: PipelineStepType[];
+  // The options the job ran with, so it can be re-run as is
+  options: IJobOptions;
+  steps: IRecordStep[];
+  // Every output saved to Dropbox, in step order
+  outputPaths: string[];
+  status: RecordStatus;
+  error?: string | null;
+  durationMs: number;
+  picsartAttempts: number;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const recordStepSchema = new Schema({
+  name: { type: String, required: true },
+  status: { type: String, required: true },
+  params: { type: Schema.Types.Mixed, default: undefined },
+  outputPath: String,
+  uploadAction: String,
+  outputSize: Number,
+  format: String,
+  durationMs: Number,
+  provider: String,
+  failoverReason: String,
+  cacheHit: Boolean,
+  picsartAttempts: Number,
+  error: String
+}, { _id: false });
+
+const processingRecordSchema: Schema = new Schema({
+  recordId: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  userId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  jobId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  batchId: {
+    type: String,
+    default: null
+  },
+  sourceFileId: {
+    type: String,
+    default: null
+  },
+  sourcePath: {
+    type: String,
+    required: true
+  },
+  operations: {
+    type: [String],
+    default: []
+  },
+  options: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  steps: {
+    type: [recordStepSchema],
+    default: []
+  },
+  outputPaths: {
+    type: [String],
+    default: []
+  },
+  status: {
+    type: String,
+    enum: ['completed', 'failed'],
+    required: true
+  },
+  error: {
+    type: String,
+    default: null
+  },
+  durationMs: {
+    type: Number,
+    default: 0
+  },
+  picsartAttempts: {
+    type: Number,
+    default: 0
+  },
+  startedAt: Date,
+  completedAt: Date
+}, {
+  timestamps: true // Automatically adds createdAt and updatedAt
+});
+
+// Index for the history page: a user's runs, newest first, optionally by status or operation
+processingRecordSchema.index({ userId: 1, createdAt: -1 });
+processingRecordSchema.index({ userId: 1, status: 1, createdAt: -1 });
+processingRecordSchema.index({ userId: 1, operations: 1, createdAt: -1 });
+
+export const ProcessingRecordModel = mongoose.model<IProcessingRecord>('ProcessingRecord', processingRecordSchema);
@@ -0,0 +1,35 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Token bucket state for the Mongo rate limit store, shared by every server instance
+export interface IRateLimitBucket extends Document {
+  // "<group>:<ip|user>:<id>"
+  key: string;
+  tokens: number;
+  refilledAt: Date;
+  // When the bucket would be full again; idle buckets are removed by the TTL index after that
+  expiresAt: Date;
+}
+
+const rateLimitBucketSchema: Schema = new Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  tokens: {
+    type: Number,
+    required: true
+  },
+  refilledAt: {
+    type: Date,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+rateLimitBucketSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const RateLimitBucketModel = mongoose.model<IRateLimitBucket>('RateLimitBucket', rateLimitBucketSchema);
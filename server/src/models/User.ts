@@ -12,6 +12,18 @@ export interface IUser extends Document {
   };
   createdAt: Date;
   lastRefresh?: Date;
+  // list_folder cursor for webhook change tracking (whole Dropbox, recursive)
+  dropboxCursor?: string | null;
+  // Where processed images are saved; null means next to the original / default name
+  outputPreferences?: {
+    outputFolder: string | null;
+    filenameTemplate: string | null;
+  };
+  // Picsart credit limits for this user; null (or unset) falls back to the server-wide quota
+  usageQuota?: {
+    dailyCredits: number | null;
+    monthlyCredits: number | null;
+  };
   
   // Instance methods
   isTokenExpired(): boolean;
@@ -64,6 +76,18 @@ const userSchema: Schema = new Schema({
   lastRefresh: {
     type: Date,
     default: null
+  },
+  dropboxCursor: {
+    type: String,
+    default: null
+  },
+  outputPreferences: {
+    outputFolder: { type: String, default: null },
+    filenameTemplate: { type: String, default: null }
+  },
+  usageQuota: {
+    dailyCredits: { type: Number, default: null },
+    monthlyCredits: { type: Number, default: null }
   }
 }, {
   timestamps: true // Automatically adds createdAt and updatedAt
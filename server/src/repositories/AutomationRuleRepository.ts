@@ -0,0 +1,31 @@
+import { IAutomationRule, AutomationRuleModel } from "../models/AutomationRule";
+
+export class AutomationRuleRepository {
+  async create(rule: Partial<IAutomationRule>): Promise<IAutomationRule> {
+    return AutomationRuleModel.create(rule);
+  }
+
+  async findByRuleId(ruleId: string): Promise<IAutomationRule | null> {
+    return AutomationRuleModel.findOne({ ruleId });
+  }
+
+  async findByUserId(userId: string): Promise<IAutomationRule[]> {
+    return AutomationRuleModel.find({ userId }).sort({ name: 1 });
+  }
+
+  async findEnabledByUserId(userId: string): Promise<IAutomationRule[]> {
+    return AutomationRuleModel.find({ userId, enabled: true }).sort({ name: 1 });
+  }
+
+  async update(ruleId: string, update: Record<string, any>): Promise<IAutomationRule | null> {
+    return AutomationRuleModel.findOneAndUpdate({ ruleId }, { $set: update }, { new: true });
+  }
+
+  async delete(ruleId: string): Promise<IAutomationRule | null> {
+    return AutomationRuleModel.findOneAndDelete({ ruleId });
+  }
+
+  async recordTrigger(ruleId: string, batchId: string, files: number): Promise<any> {
+    return AutomationRuleModel.recordTrigger(ruleId, batchId, files);
+  }
+}
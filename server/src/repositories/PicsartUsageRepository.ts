@@ -0,0 +1,39 @@
+import { IPicsartUsage, PicsartUsageModel } from "../models/PicsartUsage";
+
+export interface UsageTotals {
+  calls: number;
+  failed: number;
+  credits: number;
+  megapixels: number;
+}
+
+export class PicsartUsageRepository {
+  async create(usage: Partial<IPicsartUsage>): Promise<IPicsartUsage> {
+    return PicsartUsageModel.create(usage);
+  }
+
+  async sumSince(userId: string, since: Date): Promise<UsageTotals> {
+    const [totals] = await PicsartUsageModel.aggregate([
+      { $match: { userId, createdAt: { $gte: since } } },
+      {
+        $group: {
+          _id: null,
+          calls: { $sum: 1 },
+          failed: { $sum: { $cond: ['$success', 0, 1] } },
+          credits: { $sum: '$credits' },
+          megapixels: { $sum: { $ifNull: ['$megapixels', 0] } }
+        }
+      }
+    ]);
+    return {
+      calls: totals?.calls || 0,
+      failed: totals?.failed || 0,
+      credits: totals?.credits || 0,
+      megapixels: Math.round((totals?.megapixels || 0) * 100) / 100
+    };
+  }
+
+  async findRecent(userId: string, limit: number): Promise<IPicsartUsage[]> {
+    return PicsartUsageModel.find({ userId }).sort({ createdAt: -1 }).limit(limit);
+  }
+}
@@ -0,0 +1,31 @@
+import { IPreset, PresetModel } from "../models/Preset";
+
+export class PresetRepository {
+  async create(preset: Partial<IPreset>): Promise<IPreset> {
+    return PresetModel.create(preset);
+  }
+
+  async findByPresetId(presetId: string): Promise<IPreset | null> {
+    return PresetModel.findOne({ presetId });
+  }
+
+  async findByUserId(userId: string): Promise<IPreset[]> {
+    return PresetModel.find({ userId }).sort({ name: 1 });
+  }
+
+  async findDefault(userId: string): Promise<IPreset | null> {
+    return PresetModel.findOne({ userId, isDefault: true });
+  }
+
+  async update(presetId: string, update: Record<string, any>): Promise<IPreset | null> {
+    return PresetModel.findOneAndUpdate({ presetId }, { $set: update }, { new: true });
+  }
+
+  async delete(presetId: string): Promise<IPreset | null> {
+    return PresetModel.findOneAndDelete({ presetId });
+  }
+
+  async clearDefault(userId: string, exceptPresetId?: string): Promise<any> {
+    return PresetModel.clearDefault(userId, exceptPresetId);
+  }
+}
@@ -0,0 +1,32 @@
+import { IProcessingBatch, ProcessingBatchModel } from "../models/ProcessingBatch";
+
+export class ProcessingBatchRepository {
+  async create(batch: Partial<IProcessingBatch>): Promise<IProcessingBatch> {
+    return ProcessingBatchModel.create(batch);
+  }
+
+  async findByBatchId(batchId: string): Promise<IProcessingBatch | null> {
+    return ProcessingBatchModel.findOne({ batchId });
+  }
+
+  async findByUserId(userId: string, limit: number = 20): Promise<IProcessingBatch[]> {
+    return ProcessingBatchModel.find({ userId }).sort({ createdAt: -1 }).limit(limit);
+  }
+
+  async update(batchId: string, update: Record<string, any>): Promise<IProcessingBatch | null> {
+    return ProcessingBatchModel.findOneAndUpdate({ batchId }, { $set: update }, { new: true });
+  }
+
+  // Atomically count a finished item
+  async recordItemResult(batchId: string, succeeded: boolean): Promise<IProcessingBatch | null> {
+    return ProcessingBatchModel.findOneAndUpdate(
+      { batchId },
+      { $inc: succeeded ? { succeeded: 1 } : { failed: 1 } },
+      { new: true }
+    );
+  }
+
+  async failInterruptedBatches(): Promise<any> {
+    return ProcessingBatchModel.failInterruptedBatches();
+  }
+}
@@ -0,0 +1,27 @@
+import { IProcessingJob, ProcessingJobModel } from "../models/ProcessingJob";
+
+export class ProcessingJobRepository {
+  async create(job: Partial<IProcessingJob>): Promise<IProcessingJob> {
+    return ProcessingJobModel.create(job);
+  }
+
+  async findByJobId(jobId: string): Promise<IProcessingJob | null> {
+    return ProcessingJobModel.findOne({ jobId });
+  }
+
+  async findByUserId(userId: string, limit: number = 20): Promise<IProcessingJob[]> {
+    return ProcessingJobModel.find({ userId }).sort({ createdAt: -1 }).limit(limit);
+  }
+
+  async findByBatchId(batchId: string): Promise<IProcessingJob[]> {
+    return ProcessingJobModel.find({ batchId }).sort({ createdAt: 1 });
+  }
+
+  async update(jobId: string, update: Record<string, any>): Promise<IProcessingJob | null> {
+    return ProcessingJobModel.findOneAndUpdate({ jobId }, { $set: update }, { new: true });
+  }
+
+  async failInterruptedJobs(): Promise<any> {
+    return ProcessingJobModel.failInterruptedJobs();
+  }
+}
@@ -0,0 +1,42 @@
+import { IProcessingRecord, ProcessingRecordModel, RecordStatus } from "../models/ProcessingRecord";
+import { PipelineStepType } from "../utils/pipeline";
+
+export interface RecordFilter {
+  status?: RecordStatus;
+  operation?: PipelineStepType;
+  // Case-insensitive substring of the source path
+  path?: string;
+  from?: Date;
+  to?: Date;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export class ProcessingRecordRepository {
+  async create(record: Partial<IProcessingRecord>): Promise<IProcessingRecord> {
+    return ProcessingRecordModel.create(record);
+  }
+
+  async findByRecordId(recordId: string): Promise<IProcessingRecord | null> {
+    return ProcessingRecordModel.findOne({ recordId });
+  }
+
+  async findByUserId(userId: string, filter: RecordFilter, limit: number, offset: number): Promise<{ records: IProcessingRecord[]; total: number }> {
+    const query: Record<string, any> = { userId };
+    if (filter.status) query.status = filter.status;
+    if (filter.operation) query.operations = filter.operation;
+    if (filter.path) query.sourcePath = { $regex: escapeRegExp(filter.path), $options: 'i' };
+    if (filter.from || filter.to) {
+      query.createdAt = {
+        ...(filter.from ? { $gte: filter.from } : {}),
+        ...(filter.to ? { $lte: filter.to } : {})
+      };
+    }
+
+    const [records, total] = await Promise.all([
+      ProcessingRecordModel.find(query).sort({ createdAt: -1 }).skip(offset).limit(limit),
+      ProcessingRecordModel.countDocuments(query)
+    ]);
+    return { records, total };
+  }
+}
@@ -44,4 +44,12 @@ export class UserRepository {
   async delete(id: string): Promise<IUser | null> {
     return UserModel.findByIdAndDelete(id);
   }
+
+  async updateOutputPreferences(userId: string, preferences: { outputFolder: string | null; filenameTemplate: string | null }): Promise<IUser | null> {
+    return UserModel.findOneAndUpdate({ userId }, { $set: { outputPreferences: preferences } }, { new: true });
+  }
+
+  async updateDropboxCursor(userId: string, cursor: string | null): Promise<IUser | null> {
+    return UserModel.findOneAndUpdate({ userId }, { $set: { dropboxCursor: cursor } }, { new: true });
+  }
 }
\ No newline at end of file
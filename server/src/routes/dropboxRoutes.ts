@@ -1,29 +1,55 @@
 import express from 'express';
 import { DropboxController } from '../controllers/DropboxController';
 import { strictAuthMiddleware } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { MAX_UPLOAD_CHUNK_BYTES } from '../services/DropboxService';
 
 const router = express.Router();
 const dropboxController = new DropboxController();
+const dropboxReadLimit = rateLimit('dropbox');
+const uploadSessionLimit = rateLimit('uploads');
 
-// List images with IDs - unused in this project - for future security improvement
-router.get('/list-images-with-ids', strictAuthMiddleware, dropboxController.listImagesWithIds.bind(dropboxController));
+// List a folder's images and subfolders a page at a time (?path=&recursive=&cursor=&limit=)
+router.get('/list-images-with-ids', dropboxReadLimit, strictAuthMiddleware, dropboxController.listImagesWithIds.bind(dropboxController));
+
+// Search image file names across the account (?query=&path=&extensions=&cursor=&limit=)
+router.get('/search-images', dropboxReadLimit, strictAuthMiddleware, dropboxController.searchImages.bind(dropboxController));
+
+// Long-poll for changes in the user's Dropbox (?cursor=&timeout=), so the gallery can update in near real time
+router.get('/changes', dropboxReadLimit, strictAuthMiddleware, dropboxController.getChanges.bind(dropboxController));
 
 // Get image thumbnail by path - unused in this project - for future security improvement
-router.post('/get-image-thumbnail', strictAuthMiddleware, dropboxController.getImageThumbnail.bind(dropboxController));
+router.post('/get-image-thumbnail', dropboxReadLimit, strictAuthMiddleware, dropboxController.getImageThumbnail.bind(dropboxController));
 
 // Get image thumbnail by file ID - unused in this project - for future security improvement
-router.post('/get-image-thumbnail-by-id', strictAuthMiddleware, dropboxController.getImageThumbnailById.bind(dropboxController));
+router.post('/get-image-thumbnail-by-id', dropboxReadLimit, strictAuthMiddleware, dropboxController.getImageThumbnailById.bind(dropboxController));
+
+// Cached gallery thumbnails: one by file ID (ETag / 304), or many per request
+router.get('/thumbnails/:fileId', dropboxReadLimit, strictAuthMiddleware, dropboxController.getThumbnail.bind(dropboxController));
+router.post('/thumbnails/batch', dropboxReadLimit, strictAuthMiddleware, dropboxController.getThumbnailBatch.bind(dropboxController));
 
 // Get image dimensions - CRITICAL: Use strict auth
-router.post('/get-image-dimensions', strictAuthMiddleware, dropboxController.getImageDimensions.bind(dropboxController));
+router.post('/get-image-dimensions', dropboxReadLimit, strictAuthMiddleware, dropboxController.getImageDimensions.bind(dropboxController));
 
 // Get file metadata by ID - CRITICAL: Use strict auth to prevent cross-account file access
-router.post('/get-file-metadata-by-id', strictAuthMiddleware, dropboxController.getFileMetadataById.bind(dropboxController));
+router.post('/get-file-metadata-by-id', dropboxReadLimit, strictAuthMiddleware, dropboxController.getFileMetadataById.bind(dropboxController));
 
 // Get temporary link for preview - CRITICAL: Use strict auth
-router.post('/get-temporary-link', strictAuthMiddleware, dropboxController.getTemporaryLink.bind(dropboxController));
+router.post('/get-temporary-link', dropboxReadLimit, strictAuthMiddleware, dropboxController.getTemporaryLink.bind(dropboxController));
 
 // Upload image - CRITICAL: Use strict auth
-router.post('/upload-image', strictAuthMiddleware, DropboxController.getUploadMiddleware(), dropboxController.uploadImage.bind(dropboxController));
+router.post('/upload-image', rateLimit('processing'), strictAuthMiddleware, DropboxController.getUploadMiddleware(), dropboxController.uploadImage.bind(dropboxController));
+
+// Chunked, resumable uploads through a Dropbox upload session: start, append chunks in order, finish.
+// A dropped connection resumes by appending again at the offset the server last confirmed.
+router.post('/upload-sessions', uploadSessionLimit, strictAuthMiddleware, dropboxController.startUploadSession.bind(dropboxController));
+router.put(
+  '/upload-sessions/:uploadId',
+  uploadSessionLimit,
+  strictAuthMiddleware,
+  express.raw({ type: 'application/octet-stream', limit: MAX_UPLOAD_CHUNK_BYTES }),
+  dropboxController.appendUploadChunk.bind(dropboxController)
+);
+router.post('/upload-sessions/:uploadId/finish', uploadSessionLimit, strictAuthMiddleware, dropboxController.finishUploadSession.bind(dropboxController));
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,14 @@
+import express from 'express';
+import { FakeDropboxController } from '../controllers/FakeDropboxController';
+
+// Only mounted when DROPBOX_FAKE=true
+const router = express.Router();
+const fakeDropboxController = new FakeDropboxController();
+
+// SDK-shaped calls from the browser's dropbox client
+router.post('/rpc/:method', fakeDropboxController.rpc.bind(fakeDropboxController));
+
+// Temporary link downloads
+router.get('/content/:linkId', fakeDropboxController.content.bind(fakeDropboxController));
+
+export default router;
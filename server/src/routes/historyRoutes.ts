@@ -0,0 +1,17 @@
+import express from 'express';
+import { HistoryController } from '../controllers/HistoryController';
+import { strictAuthMiddleware } from '../middleware/auth';
+import { enforceUsageQuota } from '../middleware/usageQuota';
+import { rateLimit } from '../middleware/rateLimit';
+
+const router = express.Router();
+const historyController = new HistoryController();
+
+// Past processing runs for the current user (filter with ?status, operation, path, from, to)
+router.get('/', strictAuthMiddleware, historyController.listHistory.bind(historyController));
+router.get('/:recordId', strictAuthMiddleware, historyController.getRecord.bind(historyController));
+
+// Process a record's source file again
+router.post('/:recordId/rerun', rateLimit('processing'), strictAuthMiddleware, enforceUsageQuota, historyController.rerunRecord.bind(historyController));
+
+export default router;
@@ -1,12 +1,30 @@
 import express from 'express';
 import { ImageProcessingController } from '../controllers/ImageProcessingController';
 import { strictAuthMiddleware } from '../middleware/auth';
+import { enforceUsageQuota } from '../middleware/usageQuota';
+import { rateLimit } from '../middleware/rateLimit';
 
 const router = express.Router();
 const imageProcessingController = new ImageProcessingController();
+const processingLimit = rateLimit('processing');
 
 // Main image processing endpoint 
-router.post('/process-image', strictAuthMiddleware, imageProcessingController.processImage.bind(imageProcessingController));
+router.post('/process-image', processingLimit, strictAuthMiddleware, enforceUsageQuota, imageProcessingController.processImage.bind(imageProcessingController));
+
+// Batch processing of several files or a whole folder
+router.post('/batches', processingLimit, strictAuthMiddleware, enforceUsageQuota, imageProcessingController.processBatch.bind(imageProcessingController));
+router.get('/batches', strictAuthMiddleware, imageProcessingController.listBatches.bind(imageProcessingController));
+router.get('/batches/:batchId', strictAuthMiddleware, imageProcessingController.getBatch.bind(imageProcessingController));
+
+// Processing job status
+router.get('/jobs', strictAuthMiddleware, imageProcessingController.listJobs.bind(imageProcessingController));
+router.get('/jobs/:jobId', strictAuthMiddleware, imageProcessingController.getJob.bind(imageProcessingController));
+
+// Live processing progress (Server-Sent Events)
+router.get('/jobs/:jobId/events', strictAuthMiddleware, imageProcessingController.streamJobEvents.bind(imageProcessingController));
+
+// Picsart client metrics (per-call timings, retries, circuit state)
+router.get('/picsart/metrics', strictAuthMiddleware, imageProcessingController.getPicsartMetrics.bind(imageProcessingController));
 
 // Test endpoint
 router.get('/test', imageProcessingController.test.bind(imageProcessingController));
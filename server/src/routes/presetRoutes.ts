@@ -0,0 +1,19 @@
+import express from 'express';
+import { PresetController } from '../controllers/PresetController';
+import { strictAuthMiddleware } from '../middleware/auth';
+
+const router = express.Router();
+const presetController = new PresetController();
+
+// Saved processing presets for the current user
+router.get('/', strictAuthMiddleware, presetController.listPresets.bind(presetController));
+router.post('/', strictAuthMiddleware, presetController.createPreset.bind(presetController));
+
+// Preset applied automatically on image selection
+router.get('/default', strictAuthMiddleware, presetController.getDefaultPreset.bind(presetController));
+
+router.get('/:presetId', strictAuthMiddleware, presetController.getPreset.bind(presetController));
+router.patch('/:presetId', strictAuthMiddleware, presetController.updatePreset.bind(presetController));
+router.delete('/:presetId', strictAuthMiddleware, presetController.deletePreset.bind(presetController));
+
+export default router;
@@ -0,0 +1,16 @@
+import express from 'express';
+import { AutomationRuleController } from '../controllers/AutomationRuleController';
+import { strictAuthMiddleware } from '../middleware/auth';
+
+const router = express.Router();
+const automationRuleController = new AutomationRuleController();
+
+// Automation rules run by the Dropbox webhook for the current user
+router.get('/', strictAuthMiddleware, automationRuleController.listRules.bind(automationRuleController));
+router.post('/', strictAuthMiddleware, automationRuleController.createRule.bind(automationRuleController));
+
+router.get('/:ruleId', strictAuthMiddleware, automationRuleController.getRule.bind(automationRuleController));
+router.patch('/:ruleId', strictAuthMiddleware, automationRuleController.updateRule.bind(automationRuleController));
+router.delete('/:ruleId', strictAuthMiddleware, automationRuleController.deleteRule.bind(automationRuleController));
+
+export default router;
@@ -0,0 +1,11 @@
+import express from 'express';
+import { UsageController } from '../controllers/UsageController';
+import { strictAuthMiddleware } from '../middleware/auth';
+
+const router = express.Router();
+const usageController = new UsageController();
+
+// Picsart calls and credits for the current user, with quota limits
+router.get('/', strictAuthMiddleware, usageController.getUsage.bind(usageController));
+
+export default router;
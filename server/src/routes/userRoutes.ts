@@ -6,7 +6,9 @@ import {
   debugSessions, 
   debugUserSession, 
   clearAllSessions, 
-  logSessions 
+  logSessions,
+  getOutputPreferences,
+  updateOutputPreferences
 } from '../controllers/UserController';
 import { ensureValidToken } from '../middleware/auth';
 
@@ -19,6 +21,10 @@ router.post('/', createUser);
 // User session management
 router.get('/session', ensureValidToken, getUserSession);
 
+// Where processed images are saved (output folder and filename template)
+router.get('/preferences/output', ensureValidToken, getOutputPreferences);
+router.put('/preferences/output', ensureValidToken, updateOutputPreferences);
+
 // Debug endpoints
 router.get('/debug/sessions', debugSessions);
 router.get('/debug/sessions/log', logSessions);
@@ -0,0 +1,12 @@
+import express from 'express';
+import { DropboxWebhookController } from '../controllers/DropboxWebhookController';
+
+const router = express.Router();
+const dropboxWebhookController = new DropboxWebhookController();
+
+// Dropbox webhook: verification challenge and change notifications.
+// The raw body is kept because the signature covers the exact bytes sent.
+router.get('/dropbox', dropboxWebhookController.challenge.bind(dropboxWebhookController));
+router.post('/dropbox', express.raw({ type: '*/*', limit: '1mb' }), dropboxWebhookController.notify.bind(dropboxWebhookController));
+
+export default router;
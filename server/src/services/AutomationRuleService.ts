@@ -0,0 +1,130 @@
+import { randomUUID } from 'crypto';
+import { AutomationRuleRepository } from '../repositories/AutomationRuleRepository';
+import { IAutomationRule } from '../models/AutomationRule';
+import { IPresetOptions } from '../models/Preset';
+import { IJobOptions } from '../models/ProcessingJob';
+import { PresetService } from './PresetService';
+import { UserService } from './UserService';
+import { parseProcessingOptions } from '../utils/processingOptions';
+import { ruleMatchesFile } from '../utils/automationRules';
+
+const ruleRepo = new AutomationRuleRepository();
+const presetService = new PresetService();
+const userService = new UserService();
+
+export interface AutomationRuleInput {
+  name: string;
+  enabled?: boolean;
+  folderPath: string;
+  includeSubfolders?: boolean;
+  extensions?: string[];
+  presetId?: string | null;
+  options?: IPresetOptions | null;
+  outputFolder: string;
+}
+
+export class AutomationRuleService {
+  async listRules(userId: string): Promise<IAutomationRule[]> {
+    return ruleRepo.findByUserId(userId);
+  }
+
+  async listEnabledRules(userId: string): Promise<IAutomationRule[]> {
+    return ruleRepo.findEnabledByUserId(userId);
+  }
+
+  // Rules belonging to other users are treated as missing
+  async getRule(userId: string, ruleId: string): Promise<IAutomationRule | null> {
+    const rule = await ruleRepo.findByRuleId(ruleId);
+    return rule && rule.userId === userId ? rule : null;
+  }
+
+  async createRule(userId: string, input: AutomationRuleInput): Promise<IAutomationRule> {
+    const ruleId = randomUUID();
+    const rule = await ruleRepo.create({
+      ruleId,
+      userId,
+      name: input.name,
+      enabled: input.enabled !== false,
+      folderPath: input.folderPath,
+      includeSubfolders: !!input.includeSubfolders,
+      extensions: input.extensions || [],
+      presetId: input.presetId || null,
+      options: input.options || null,
+      outputFolder: input.outputFolder
+    });
+
+    console.log(`🤖 [RULES] Created rule "${rule.name}" (${ruleId}) for user ${userId}: ${rule.folderPath} → ${rule.outputFolder}`);
+    return rule;
+  }
+
+  async updateRule(userId: string, ruleId: string, update: Partial<AutomationRuleInput>): Promise<IAutomationRule | null> {
+    const existing = await this.getRule(userId, ruleId);
+    if (!existing) return null;
+
+    const rule = await ruleRepo.update(ruleId, update);
+    console.log(`✏️ [RULES] Updated rule ${ruleId} for user ${userId}:`, Object.keys(update));
+    return rule;
+  }
+
+  async deleteRule(userId: string, ruleId: string): Promise<boolean> {
+    const existing = await this.getRule(userId, ruleId);
+    if (!existing) return false;
+
+    await ruleRepo.delete(ruleId);
+    console.log(`🗑️ [RULES] Deleted rule "${existing.name}" (${ruleId}) for user ${userId}`);
+    return true;
+  }
+
+  async recordTrigger(ruleId: string, batchId: string, files: number): Promise<void> {
+    await ruleRepo.recordTrigger(ruleId, batchId, files);
+  }
+
+  // Changed file paths this rule applies to
+  matchingPaths(rule: IAutomationRule, paths: string[]): string[] {
+    return paths.filter(path => ruleMatchesFile(rule, path));
+  }
+
+  // Job options for a rule run: the preset's current options (or the inline ones) plus where outputs go
+  async resolveJobOptions(rule: IAutomationRule): Promise<IJobOptions> {
+    let options = rule.options;
+    let presetName: string | undefined;
+    if (rule.presetId) {
+      const preset = await presetService.getPreset(rule.userId, rule.presetId);
+      if (!preset) {
+        throw new Error(`Preset ${rule.presetId} no longer exists`);
+      }
+      options = preset.options;
+      presetName = preset.name;
+    }
+    if (!options) {
+      throw new Error('Rule has no processing options');
+    }
+
+    const parsed = parseProcessingOptions(options);
+    if ('error' in parsed) {
+      throw new Error(parsed.error.error);
+    }
+    // The rule's folder wins over the user's default output folder; the filename template still applies
+    return userService.applyOutputPreferences(rule.userId, { ...parsed.options, outputFolder: rule.outputFolder, presetName });
+  }
+
+  // Shape a rule document for API responses
+  toResponse(rule: IAutomationRule) {
+    return {
+      ruleId: rule.ruleId,
+      name: rule.name,
+      enabled: rule.enabled,
+      folderPath: rule.folderPath,
+      includeSubfolders: rule.includeSubfolders,
+      extensions: rule.extensions,
+      presetId: rule.presetId || null,
+      options: rule.options || null,
+      outputFolder: rule.outputFolder,
+      triggerCount: rule.triggerCount,
+      lastTriggeredAt: rule.lastTriggeredAt || null,
+      lastBatchId: rule.lastBatchId || null,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import { createHash } from 'crypto';
+import { ImageProcessor, ImageOperation, ImageOperationRequest, ProcessedImage } from './ImageProcessor';
+import { ProgressReporter, noopReporter } from './ProcessingEvents';
+import { ResultCache } from './ResultCache';
+import { dropboxContentHash } from '../utils/dropboxContentHash';
+
+// JSON with sorted keys and undefined values dropped, so equal parameters give equal keys
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entryValue]) => entryValue !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entryValue]) => `${JSON.stringify(key)}:${stableStringify(entryValue)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Input content hash (the same value Dropbox reports as content_hash) + operation + parameters
+export function resultCacheKey(request: ImageOperationRequest): string {
+  const { image, ...params } = request;
+  return createHash('sha256')
+    .update(`${dropboxContentHash(image)}:${stableStringify(params)}`)
+    .digest('hex');
+}
+
+// Serves repeated operations on identical input from the result cache instead of calling
+// the wrapped processor (and paying Picsart) again. Fallback outputs are not cached.
+export class CachingImageProcessor implements ImageProcessor {
+  readonly name = 'cache';
+
+  constructor(private inner: ImageProcessor, private cache: ResultCache) {}
+
+  supports(operation: ImageOperation): boolean {
+    return this.inner.supports(operation);
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable();
+  }
+
+  async process(request: ImageOperationRequest, report: ProgressReporter = noopReporter): Promise<ProcessedImage> {
+    const key = resultCacheKey(request);
+
+    const cached = await this.cache.get(key);
+    if (cached) {
+      console.log(`⚡ [RESULT CACHE] Hit for ${request.operation} (${cached.provider}), skipping the provider call`);
+      report({ stage: 'cache_hit', message: `Reusing the cached ${request.operation} result` });
+      return { buffer: cached.buffer, provider: cached.provider, cacheHit: true };
+    }
+
+    const result = await this.inner.process(request, report);
+    if (!result.failoverReason) {
+      await this.cache.set(key, { buffer: result.buffer, provider: result.provider });
+    }
+    return result;
+  }
+}
@@ -0,0 +1,55 @@
+import { Dropbox } from 'dropbox';
+import { DropboxService, DropboxFile } from './DropboxService';
+
+// Dropbox accepts 30-480s; the server's 300s request timeout has to cover the 90s of jitter too
+export const MIN_CHANGES_TIMEOUT_SECONDS = 30;
+export const MAX_CHANGES_TIMEOUT_SECONDS = 120;
+
+export interface GalleryChanges {
+  changed: boolean;
+  // Images added or modified since the cursor the client sent
+  files: DropboxFile[];
+  // Lowercase paths of deleted files and folders
+  deleted: string[];
+  // What to send with the next poll
+  cursor: string;
+  // The client's cursor had expired and was replaced: reload everything instead of patching
+  reset?: boolean;
+  // Seconds to wait before polling again
+  backoff?: number;
+}
+
+const isCursorReset = (error: unknown) =>
+  (error as { error?: { error_summary?: string } })?.error?.error_summary?.startsWith('reset') === true;
+
+// Near-real-time change feed for the gallery: a long-poll on a list_folder cursor that each
+// client carries from one poll to the next. Two tabs or devices of the same user each see
+// every change, and the webhook's stored cursor is never touched.
+export class ChangeWatchService {
+  constructor(private dropboxService: DropboxService) {}
+
+  // Wait for changes anywhere in the user's Dropbox since `cursor`, then return them with the
+  // cursor to send next. Without a cursor, one is started and returned straight away, so
+  // changes are reported from then on.
+  async waitForChanges(dbx: Dropbox, userId: string, cursor: string | undefined, timeoutSeconds: number): Promise<GalleryChanges> {
+    if (!cursor) {
+      console.log(`👀 [CHANGES] Started watching ${userId} for changes`);
+      return { changed: false, files: [], deleted: [], cursor: await this.dropboxService.getLatestCursor(dbx) };
+    }
+
+    try {
+      const { changes, backoff } = await this.dropboxService.waitForChanges(dbx, cursor, timeoutSeconds);
+      if (!changes) {
+        return { changed: false, files: [], deleted: [], cursor, backoff };
+      }
+
+      const result = await this.dropboxService.listImageChanges(dbx, cursor);
+      console.log(`👀 [CHANGES] ${userId}: ${result.files.length} images added or changed, ${result.deleted.length} entries deleted`);
+      return { changed: true, files: result.files, deleted: result.deleted, cursor: result.cursor, backoff };
+    } catch (error) {
+      if (!isCursorReset(error)) throw error;
+      console.log(`♻️ [CHANGES] Cursor expired for ${userId}, starting over from now`);
+      return { changed: true, files: [], deleted: [], cursor: await this.dropboxService.getLatestCursor(dbx), reset: true };
+    }
+  }
+}
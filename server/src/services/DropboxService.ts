@@ -1,5 +1,9 @@
-import { Dropbox } from 'dropbox';
+import { Dropbox, files } from 'dropbox';
 import sharp from 'sharp';
+import { posix as posixPath } from 'path';
+import { OutputNaming, buildOutputPath } from '../utils/outputPath';
+import { ConflictPolicy, DEFAULT_CONFLICT_POLICY, UploadAction } from '../utils/conflictPolicy';
+import { dropboxContentHash } from '../utils/dropboxContentHash';
 
 export interface DropboxFile {
   id: string;
@@ -7,8 +11,111 @@ export interface DropboxFile {
   path_display: string;
   path_lower: string;
   size: number;
+  rev?: string;
+  server_modified?: string;
+  // Pixel size, when Dropbox has media info for the photo
+  width?: number;
+  height?: number;
 }
 
+export interface DropboxFolder {
+  id: string;
+  name: string;
+  path_display: string;
+  path_lower: string;
+}
+
+export interface ListImagesOptions {
+  // Folder to list ('' or '/' for the root)
+  path?: string;
+  // Include images in every subfolder
+  recursive?: boolean;
+  // Cursor from a previous page; `path` is still used to pick out the subfolders
+  cursor?: string;
+  // Roughly how many entries to read before returning a page
+  limit?: number;
+}
+
+export interface ImageListPage {
+  path: string;
+  images: DropboxFile[];
+  // Direct subfolders of `path` seen on this page
+  folders: DropboxFolder[];
+  // Pass back as `cursor` to read the next page; null once the listing is complete
+  cursor: string | null;
+  hasMore: boolean;
+}
+
+export interface SearchImagesOptions {
+  query: string;
+  // Folder to search under; the whole account when left out
+  path?: string;
+  // Only these extensions, without the dot ("jpg", "png")
+  extensions?: string[];
+  // Cursor from a previous page of the same search
+  cursor?: string;
+  limit?: number;
+}
+
+// Images added or changed and paths deleted since a cursor (a deleted folder takes everything under it)
+export interface ImageChanges {
+  files: DropboxFile[];
+  // Lowercase paths
+  deleted: string[];
+  cursor: string;
+}
+
+export interface UploadedImage {
+  success: boolean;
+  message: string;
+  fileName: string;
+  filePath: string;
+  fileId: string;
+  fileSize: number;
+}
+
+// Why Dropbox turned down an upload session call: the session is gone (expired, finished or
+// never existed), or the chunk didn't start where Dropbox's copy ends
+export type UploadSessionError =
+  | { reason: 'not_found' }
+  | { reason: 'incorrect_offset'; correctOffset: number };
+
+export interface ImageSearchPage {
+  images: DropboxFile[];
+  cursor: string | null;
+  hasMore: boolean;
+}
+
+export const DEFAULT_LIST_PAGE_SIZE = 500;
+// Dropbox's upper bounds for the list_folder `limit` and search `max_results` arguments
+export const MAX_LIST_PAGE_SIZE = 2000;
+export const MAX_SEARCH_PAGE_SIZE = 1000;
+
+// Largest image accepted through an upload session (Dropbox itself allows 350GB)
+export const MAX_UPLOAD_SESSION_BYTES = 500 * 1024 * 1024;
+// Largest chunk per append; Dropbox caps a single request at 150MB
+export const MAX_UPLOAD_CHUNK_BYTES = 32 * 1024 * 1024;
+
+// Dropbox API paths: '' for the root, otherwise a leading slash and no trailing one
+export const normalizeFolderPath = (path: string | undefined): string => {
+  if (!path || path === '/') return '';
+  return ('/' + path.replace(/^\/+/, '')).replace(/\/+$/, '');
+};
+
+export interface ProcessedUpload {
+  // Where the output ended up (the existing file's path when skipped)
+  path: string;
+  action: UploadAction;
+}
+
+// One file's entry in a thumbnail batch: the image, or why Dropbox couldn't make one
+export type BatchThumbnail =
+  | { fileId: string; rev: string; buffer: Buffer }
+  | { fileId: string; error: string };
+
+// Dropbox's limit for files/get_thumbnail_batch
+export const THUMBNAIL_BATCH_MAX = 25;
+
 export interface ImageDimensions {
   width: number;
   height: number;
@@ -17,47 +124,92 @@ export interface ImageDimensions {
   source: string;
 }
 
+export const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.tiff', '.tif'];
+
+export const isImageFileName = (name: string) => IMAGE_EXTENSIONS.some(ext => name.toLowerCase().endsWith(ext));
+
+// Uploads keep the original name with a timestamp, so repeated uploads don't collide
+const timestampedUploadName = (originalName: string): string => {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const extension = originalName.substring(originalName.lastIndexOf('.'));
+  const baseName = originalName.substring(0, originalName.lastIndexOf('.'));
+  return `${baseName}_${timestamp}${extension}`;
+};
+
+// The lookup error behind a failed upload_session/append_v2 or upload_session/finish call
+export const readUploadSessionError = (error: unknown): UploadSessionError | null => {
+  const body = (error as { error?: { error?: Record<string, any> } })?.error?.error;
+  const lookup = body?.['.tag'] === 'lookup_failed' ? body.lookup_failed : body;
+  switch (lookup?.['.tag']) {
+    case 'not_found':
+    case 'closed':
+      return { reason: 'not_found' };
+    case 'incorrect_offset':
+      return { reason: 'incorrect_offset', correctOffset: Number(lookup.correct_offset) };
+    default:
+      return null;
+  }
+};
+
+// Gallery fields of a file entry from list_folder or search
+const toDropboxFile = (entry: files.FileMetadataReference): DropboxFile => {
+  const mediaInfo = entry.media_info?.['.tag'] === 'metadata' ? entry.media_info.metadata : undefined;
+  return {
+    id: entry.id,
+    name: entry.name,
+    path_display: entry.path_display || entry.path_lower || entry.name,
+    path_lower: entry.path_lower || entry.name.toLowerCase(),
+    size: entry.size,
+    rev: entry.rev,
+    server_modified: entry.server_modified,
+    width: mediaInfo?.dimensions?.width,
+    height: mediaInfo?.dimensions?.height
+  };
+};
+
 export class DropboxService {
-  async listImagesWithIds(dbx: Dropbox): Promise<{ images: DropboxFile[] }> {
+  // One page of images (and direct subfolders) in a folder, following has_more until
+  // about `limit` entries have been read. Continue with the returned cursor.
+  async listImagesWithIds(dbx: Dropbox, options: ListImagesOptions = {}): Promise<ImageListPage> {
+    const path = normalizeFolderPath(options.path);
+    const recursive = !!options.recursive;
+    const limit = Math.min(Math.max(options.limit || DEFAULT_LIST_PAGE_SIZE, 1), MAX_LIST_PAGE_SIZE);
+    const parent = path.toLowerCase() || '/';
+
     try {
-      console.log('📋 Attempting to list images from Dropbox root directory...');
-      
-      // Try to list files in the root directory
-      const response = await dbx.filesListFolder({ path: '', recursive: false });
-      const allFiles = response.result.entries;
-      
-      console.log(`📁 Found ${allFiles.length} total entries in Dropbox root`);
-      
-      // Log all files for debugging
-      allFiles.forEach((entry: any) => {
-        console.log(`📄 ${entry['.tag']}: ${entry.name} ${entry['.tag'] === 'file' ? `(${entry.size} bytes)` : ''}`);
-      });
+      console.log(`📋 Listing images in ${path || '/'}${recursive ? ' (recursive)' : ''}${options.cursor ? ' (continued)' : ''}...`);
+
+      const images: DropboxFile[] = [];
+      const folders: DropboxFolder[] = [];
+      let entryCount = 0;
+      let response = options.cursor
+        ? await dbx.filesListFolderContinue({ cursor: options.cursor })
+        : await dbx.filesListFolder({ path, recursive, limit, include_media_info: true });
+
+      for (;;) {
+        for (const entry of response.result.entries) {
+          if (!entry.path_lower) continue;
+          if (entry['.tag'] === 'folder') {
+            if (posixPath.dirname(entry.path_lower) === parent) {
+              folders.push({
+                id: entry.id,
+                name: entry.name,
+                path_display: entry.path_display || entry.path_lower,
+                path_lower: entry.path_lower
+              });
+            }
+          } else if (entry['.tag'] === 'file' && isImageFileName(entry.name)) {
+            images.push(toDropboxFile(entry));
+          }
+        }
+        entryCount += response.result.entries.length;
+        if (!response.result.has_more || entryCount >= limit) break;
+        response = await dbx.filesListFolderContinue({ cursor: response.result.cursor });
+      }
 
-      // Filter for files only (not folders)
-      const files = allFiles.filter((entry: any) => entry['.tag'] === 'file');
-      console.log(`📄 Found ${files.length} files (excluding folders)`);
-
-      // Filter for image files only
-      const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.tiff', '.tif'];
-      const imageFiles: DropboxFile[] = files
-        .filter((file: any) => {
-          const lowercaseName = file.name.toLowerCase();
-          const isImage = imageExtensions.some(ext => lowercaseName.endsWith(ext));
-          console.log(`🖼️ ${file.name}: ${isImage ? 'IS IMAGE' : 'NOT IMAGE'}`);
-          return isImage;
-        })
-        .map((file: any) => ({
-          id: file.id,
-          name: file.name,
-          path_display: file.path_display,
-          path_lower: file.path_lower,
-          size: file.size
-        }));
-
-      console.log(`✅ Found ${imageFiles.length} image files in Dropbox root`);
-      console.log('📋 Image files:', imageFiles.map(f => f.name));
-      
-      return { images: imageFiles };
+      const hasMore = response.result.has_more;
+      console.log(`✅ Found ${images.length} images and ${folders.length} folders in ${path || '/'}${hasMore ? ' (more to come)' : ''}`);
+      return { path, images, folders, cursor: hasMore ? response.result.cursor : null, hasMore };
     } catch (error: any) {
       console.error('❌ Error listing images:', error);
       console.error('❌ Error details:', {
@@ -66,19 +218,134 @@ export class DropboxService {
         error_summary: error.error?.error_summary,
         error_tag: error.error?.error?.['.tag']
       });
-      
+
+      // A folder that isn't there or an expired cursor is the caller's to handle
+      const summary: string = error.error?.error_summary || '';
+      if (summary.startsWith('path/') || summary.startsWith('reset')) {
+        throw error;
+      }
+
       // If we don't have permission, fall back gracefully
-      if (error.error && error.error.error_summary && error.error.error_summary.includes('insufficient_permissions')) {
+      if (summary.includes('insufficient_permissions')) {
         console.log('ℹ️  No files.metadata.read permission - users must upload files');
-        return { images: [] };
+        return { path, images: [], folders: [], cursor: null, hasMore: false };
       }
-      
+
       // For other errors, still return empty array but log the issue
       console.log('ℹ️  Cannot list files, returning empty array. Users can still upload.');
-      return { images: [] };
+      return { path, images: [], folders: [], cursor: null, hasMore: false };
     }
   }
 
+  // Images whose file name matches `query`, account-wide or under a folder, one page at a time
+  async searchImages(dbx: Dropbox, options: SearchImagesOptions): Promise<ImageSearchPage> {
+    const path = normalizeFolderPath(options.path);
+    const limit = Math.min(Math.max(options.limit || DEFAULT_LIST_PAGE_SIZE, 1), MAX_SEARCH_PAGE_SIZE);
+    console.log(`🔎 Searching images for "${options.query}" in ${path || '/'}${options.cursor ? ' (continued)' : ''}...`);
+
+    const response = options.cursor
+      ? await dbx.filesSearchContinueV2({ cursor: options.cursor })
+      : await dbx.filesSearchV2({
+          query: options.query,
+          options: {
+            ...(path ? { path } : {}),
+            max_results: limit,
+            filename_only: true,
+            file_status: { '.tag': 'active' },
+            file_categories: [{ '.tag': 'image' }],
+            ...(options.extensions?.length ? { file_extensions: options.extensions } : {})
+          }
+        });
+
+    const images: DropboxFile[] = [];
+    for (const match of response.result.matches) {
+      if (match.metadata['.tag'] !== 'metadata') continue;
+      const entry = match.metadata.metadata;
+      if (entry['.tag'] === 'file' && isImageFileName(entry.name)) {
+        images.push(toDropboxFile(entry));
+      }
+    }
+
+    const hasMore = response.result.has_more && !!response.result.cursor;
+    console.log(`✅ Found ${images.length} images matching "${options.query}"${hasMore ? ' (more to come)' : ''}`);
+    return { images, cursor: hasMore ? response.result.cursor! : null, hasMore };
+  }
+
+  // Paths of every image in a folder (following pagination), for batch processing
+  async listImagePaths(dbx: Dropbox, folderPath: string, recursive: boolean, limit: number): Promise<string[]> {
+    const path = normalizeFolderPath(folderPath);
+    console.log(`📋 Listing images in ${path || '/'}${recursive ? ' (recursive)' : ''}...`);
+
+    const paths: string[] = [];
+    let response = await dbx.filesListFolder({ path, recursive });
+    for (;;) {
+      for (const entry of response.result.entries) {
+        if (entry['.tag'] === 'file' && isImageFileName(entry.name) && entry.path_display) {
+          paths.push(entry.path_display);
+        }
+      }
+      if (!response.result.has_more || paths.length >= limit) break;
+      response = await dbx.filesListFolderContinue({ cursor: response.result.cursor });
+    }
+
+    console.log(`✅ Found ${paths.length} images in ${path || '/'}`);
+    return paths.slice(0, limit);
+  }
+
+  // Cursor for changes anywhere in the user's Dropbox from now on
+  async getLatestCursor(dbx: Dropbox): Promise<string> {
+    const response = await dbx.filesListFolderGetLatestCursor({ path: '', recursive: true });
+    return response.result.cursor;
+  }
+
+  // Files added or modified since the cursor, and the cursor to continue from next time.
+  // Throws a 409 "reset" error when Dropbox has expired the cursor.
+  async listChangedFiles(dbx: Dropbox, cursor: string): Promise<{ paths: string[]; cursor: string }> {
+    const paths: string[] = [];
+    let response = await dbx.filesListFolderContinue({ cursor });
+
+    while (true) {
+      for (const entry of response.result.entries) {
+        if (entry['.tag'] === 'file' && entry.path_display) {
+          paths.push(entry.path_display);
+        }
+      }
+      if (!response.result.has_more) break;
+      response = await dbx.filesListFolderContinue({ cursor: response.result.cursor });
+    }
+
+    return { paths, cursor: response.result.cursor };
+  }
+
+  // Block until something changes under the cursor or `timeoutSeconds` pass (Dropbox adds up
+  // to 90s of jitter). `backoff` is how many seconds Dropbox wants before the next call.
+  async waitForChanges(dbx: Dropbox, cursor: string, timeoutSeconds: number): Promise<{ changes: boolean; backoff?: number }> {
+    const response = await dbx.filesListFolderLongpoll({ cursor, timeout: timeoutSeconds });
+    return { changes: response.result.changes, backoff: response.result.backoff };
+  }
+
+  // Image files added or modified and entries deleted since the cursor.
+  // Throws a 409 "reset" error when Dropbox has expired the cursor.
+  async listImageChanges(dbx: Dropbox, cursor: string): Promise<ImageChanges> {
+    const changes: ImageChanges = { files: [], deleted: [], cursor };
+    let response = await dbx.filesListFolderContinue({ cursor });
+
+    for (;;) {
+      for (const entry of response.result.entries) {
+        if (entry['.tag'] === 'file' && isImageFileName(entry.name)) {
+          changes.files.push(toDropboxFile(entry));
+        } else if (entry['.tag'] === 'deleted' && entry.path_lower) {
+          changes.deleted.push(entry.path_lower);
+        }
+      }
+      if (!response.result.has_more) break;
+      response = await dbx.filesListFolderContinue({ cursor: response.result.cursor });
+    }
+
+    changes.cursor = response.result.cursor;
+    return changes;
+  }
+
   async getImageThumbnail(dbx: Dropbox, path: string): Promise<Buffer> {
     try {
       console.log('🖼️ Getting thumbnail for:', path);
@@ -142,6 +409,45 @@ export class DropboxService {
     }
   }
 
+  // JPEG thumbnails for many files, THUMBNAIL_BATCH_MAX per Dropbox call, in request order
+  async getThumbnailBatch(dbx: Dropbox, fileIds: string[], size: files.ThumbnailSize['.tag']): Promise<BatchThumbnail[]> {
+    const thumbnails: BatchThumbnail[] = [];
+
+    for (let i = 0; i < fileIds.length; i += THUMBNAIL_BATCH_MAX) {
+      const chunk = fileIds.slice(i, i + THUMBNAIL_BATCH_MAX);
+      console.log(`🖼️ Getting ${chunk.length} thumbnails (${size}) in one batch`);
+      const response = await dbx.filesGetThumbnailBatch({
+        entries: chunk.map(fileId => ({
+          path: fileId,
+          format: { '.tag': 'jpeg' },
+          size: { '.tag': size },
+          mode: { '.tag': 'strict' }
+        }))
+      });
+
+      // Entries come back in request order
+      response.result.entries.forEach((entry, index) => {
+        const fileId = chunk[index];
+        if (entry['.tag'] === 'success') {
+          thumbnails.push({ fileId, rev: entry.metadata.rev, buffer: Buffer.from(entry.thumbnail, 'base64') });
+        } else {
+          thumbnails.push({ fileId, error: entry['.tag'] === 'failure' ? entry.failure['.tag'] : 'other' });
+        }
+      });
+    }
+
+    return thumbnails;
+  }
+
+  // Current revision of a file, to key caches on
+  async getFileRev(dbx: Dropbox, fileId: string): Promise<string> {
+    const { result } = await dbx.filesGetMetadata({ path: fileId });
+    if (result['.tag'] !== 'file') {
+      throw new Error('Provided ID is not a file');
+    }
+    return result.rev;
+  }
+
   async getImageDimensions(dbx: Dropbox, path?: string, fileId?: string): Promise<ImageDimensions> {
     try {
       if (!path && !fileId) {
@@ -284,20 +590,10 @@ export class DropboxService {
     }
   }
 
-  async uploadImage(dbx: Dropbox, fileBuffer: Buffer, originalName: string): Promise<{
-    success: boolean;
-    message: string;
-    fileName: string;
-    filePath: string;
-    fileId: string;
-    fileSize: number;
-  }> {
+  async uploadImage(dbx: Dropbox, fileBuffer: Buffer, originalName: string): Promise<UploadedImage> {
     try {
       // Generate a unique filename
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-      const extension = originalName.substring(originalName.lastIndexOf('.'));
-      const baseName = originalName.substring(0, originalName.lastIndexOf('.'));
-      const fileName = `${baseName}_${timestamp}${extension}`;
+      const fileName = timestampedUploadName(originalName);
       const filePath = `/${fileName}`;
 
       console.log('📤 Uploading file to Dropbox:', fileName);
@@ -326,7 +622,44 @@ export class DropboxService {
     }
   }
 
-  async downloadImage(dbx: Dropbox, path: string): Promise<Buffer> {
+  // Open an upload session; chunks are appended to it in order and finishUploadSession
+  // commits them as one file. Dropbox keeps an unfinished session for up to 7 days.
+  async startUploadSession(dbx: Dropbox): Promise<string> {
+    const response = await dbx.filesUploadSessionStart({ contents: Buffer.alloc(0), close: false });
+    return response.result.session_id;
+  }
+
+  // Append a chunk at `offset`; returns where the next chunk starts. Throws the Dropbox error
+  // when the offset is wrong (see readUploadSessionError for the right one).
+  async appendUploadChunk(dbx: Dropbox, sessionId: string, offset: number, chunk: Buffer): Promise<number> {
+    await dbx.filesUploadSessionAppendV2({ cursor: { session_id: sessionId, offset }, contents: chunk, close: false });
+    return offset + chunk.length;
+  }
+
+  // Commit the `size` bytes appended to a session as a new file in the Dropbox root
+  async finishUploadSession(dbx: Dropbox, sessionId: string, size: number, originalName: string): Promise<UploadedImage> {
+    const fileName = timestampedUploadName(originalName);
+    const filePath = `/${fileName}`;
+
+    const response = await dbx.filesUploadSessionFinish({
+      cursor: { session_id: sessionId, offset: size },
+      commit: { path: filePath, mode: { '.tag': 'add' }, autorename: true },
+      contents: Buffer.alloc(0)
+    });
+
+    console.log('✅ Upload session finished:', response.result.path_display);
+    return {
+      success: true,
+      message: 'File uploaded successfully',
+      fileName,
+      filePath: response.result.path_display || filePath,
+      fileId: response.result.id,
+      fileSize: response.result.size
+    };
+  }
+
+  // Download plus the file's Dropbox ID, for callers that keep track of the source file
+  async downloadImageWithId(dbx: Dropbox, path: string): Promise<{ buffer: Buffer; fileId?: string }> {
     try {
       console.log('📥 Downloading image from Dropbox:', path);
       
@@ -335,9 +668,9 @@ export class DropboxService {
       const result = downloadResponse.result as any;
       if (result.fileBlob && typeof result.fileBlob.arrayBuffer === 'function') {
         const arrayBuffer = await result.fileBlob.arrayBuffer();
-        return Buffer.from(arrayBuffer);
+        return { buffer: Buffer.from(arrayBuffer), fileId: result.id };
       } else if (result.fileBinary) {
-        return Buffer.from(result.fileBinary);
+        return { buffer: Buffer.from(result.fileBinary), fileId: result.id };
       } else {
         throw new Error('No fileBlob or fileBinary found in download response');
       }
@@ -347,31 +680,104 @@ export class DropboxService {
     }
   }
 
-  async uploadProcessedImage(dbx: Dropbox, imageBuffer: Buffer, originalPath: string, suffix: string): Promise<string> {
+  // Save an output under the name and folder described by `naming` (see utils/outputPath),
+  // resolving a taken name with the given conflict policy
+  async uploadProcessedImage(
+    dbx: Dropbox,
+    imageBuffer: Buffer,
+    originalPath: string,
+    naming: OutputNaming,
+    conflictPolicy: ConflictPolicy = DEFAULT_CONFLICT_POLICY
+  ): Promise<ProcessedUpload> {
     try {
-      // Generate new filename based on original
-      const pathParts = originalPath.split('/');
-      const originalFileName = pathParts[pathParts.length - 1];
-      const nameWithoutExt = originalFileName.substring(0, originalFileName.lastIndexOf('.'));
-      const extension = originalFileName.substring(originalFileName.lastIndexOf('.'));
-      
-      const newFileName = `${nameWithoutExt}_${suffix}${extension}`;
-      const newPath = originalPath.replace(originalFileName, newFileName);
+      const newPath = buildOutputPath(originalPath, naming);
+
+      console.log(`📤 Uploading processed image to Dropbox (${conflictPolicy}):`, newPath);
+
+      if (conflictPolicy === 'skip_identical') {
+        const identicalPath = await this.findIdenticalOutput(dbx, newPath, dropboxContentHash(imageBuffer));
+        if (identicalPath) {
+          console.log('⏭️ Identical output already in Dropbox, skipping upload:', identicalPath);
+          return { path: identicalPath, action: 'skipped' };
+        }
+      }
 
-      console.log('📤 Uploading processed image to Dropbox:', newPath);
+      // Only overwrite and update need to know what is already there
+      const existing = conflictPolicy === 'overwrite' || conflictPolicy === 'update'
+        ? await this.getExistingFile(dbx, newPath)
+        : null;
+
+      let mode: files.WriteMode = { '.tag': 'add' };
+      if (existing && conflictPolicy === 'overwrite') {
+        mode = { '.tag': 'overwrite' };
+      } else if (existing && conflictPolicy === 'update') {
+        // Fails with a conflict if the file changed since we looked, instead of clobbering it
+        mode = { '.tag': 'update', update: existing.rev };
+      }
 
-      await dbx.filesUpload({
+      const uploadResponse = await dbx.filesUpload({
         path: newPath,
         contents: imageBuffer,
-        mode: { '.tag': 'add' },
-        autorename: true,
+        mode,
+        // A differing output never replaces an existing file under skip_identical
+        autorename: conflictPolicy === 'autorename' || conflictPolicy === 'skip_identical',
       });
 
-      console.log('✅ Processed image uploaded successfully:', newPath);
-      return newPath;
+      const uploadedPath = uploadResponse.result.path_display || newPath;
+      let action: UploadAction = 'created';
+      if (uploadedPath.toLowerCase() !== newPath.toLowerCase()) {
+        action = 'renamed';
+      } else if (existing) {
+        action = conflictPolicy === 'update' ? 'updated' : 'overwritten';
+      }
+
+      console.log(`✅ Processed image uploaded successfully (${action}):`, uploadedPath);
+      return { path: uploadedPath, action };
     } catch (error) {
       console.error('❌ Error uploading processed image:', error);
       throw error;
     }
   }
+
+  // An output at `outputPath` or one of its autorenamed copies ("name (1).png", ...) with
+  // the given content hash, so re-running an operation doesn't pile up identical files
+  private async findIdenticalOutput(dbx: Dropbox, outputPath: string, contentHash: string): Promise<string | null> {
+    const folder = posixPath.dirname(outputPath);
+    const extension = posixPath.extname(outputPath).toLowerCase();
+    const baseName = posixPath.basename(outputPath, posixPath.extname(outputPath)).toLowerCase();
+    const isCopy = (name: string) => {
+      const lower = name.toLowerCase();
+      if (!lower.endsWith(extension)) return false;
+      const stem = lower.slice(0, lower.length - extension.length);
+      return stem === baseName || (stem.startsWith(baseName) && /^ \(\d+\)$/.test(stem.slice(baseName.length)));
+    };
+
+    let response;
+    try {
+      response = await dbx.filesListFolder({ path: folder === '/' ? '' : folder });
+    } catch (error) {
+      const summary = (error as { error?: { error_summary?: string } })?.error?.error_summary;
+      if (summary?.startsWith('path/not_found')) return null;
+      throw error;
+    }
+    for (;;) {
+      const match = response.result.entries.find(entry =>
+        entry['.tag'] === 'file' && entry.content_hash === contentHash && isCopy(entry.name));
+      if (match) return match.path_display || outputPath;
+      if (!response.result.has_more) return null;
+      response = await dbx.filesListFolderContinue({ cursor: response.result.cursor });
+    }
+  }
+
+  // Metadata of the file at `path`, or null when nothing (or a folder) is there
+  private async getExistingFile(dbx: Dropbox, path: string): Promise<files.FileMetadataReference | null> {
+    try {
+      const response = await dbx.filesGetMetadata({ path });
+      return response.result['.tag'] === 'file' ? response.result : null;
+    } catch (error) {
+      const summary = (error as { error?: { error_summary?: string } })?.error?.error_summary;
+      if (summary?.startsWith('path/not_found')) return null;
+      throw error;
+    }
+  }
 } 
\ No newline at end of file
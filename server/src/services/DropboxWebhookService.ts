@@ -0,0 +1,139 @@
+import { Dropbox } from 'dropbox';
+import { UserService } from './UserService';
+import { DropboxService } from './DropboxService';
+import { ProcessingBatchService } from './ProcessingBatchService';
+import { AutomationRuleService } from './AutomationRuleService';
+import { IJobOptions } from '../models/ProcessingJob';
+
+const userService = new UserService();
+const automationRuleService = new AutomationRuleService();
+
+export type DropboxClientProvider = (userId: string) => Promise<Dropbox | null>;
+
+interface AccountState {
+  running: boolean;
+  // Another notification arrived while the account was being processed
+  pending: boolean;
+}
+
+const isCursorReset = (error: unknown) =>
+  (error as { error?: { error_summary?: string } })?.error?.error_summary?.startsWith('reset') === true;
+
+export class DropboxWebhookService {
+  private accounts = new Map<string, AccountState>();
+
+  constructor(
+    private processingBatchService: ProcessingBatchService,
+    private dropboxService: DropboxService,
+    private clientForUser: DropboxClientProvider
+  ) {}
+
+  // Queue change processing for notified accounts. Returns immediately: Dropbox expects
+  // the webhook to answer within 10 seconds. Each account is processed by one run at a
+  // time; notifications during a run trigger one more run afterwards.
+  notify(accountIds: string[]): void {
+    for (const accountId of accountIds) {
+      const state = this.accounts.get(accountId);
+      if (state) {
+        state.pending = true;
+        continue;
+      }
+
+      this.accounts.set(accountId, { running: true, pending: false });
+      this.runAccount(accountId).catch(error => {
+        console.error(`❌ [WEBHOOK] Change processing crashed for ${accountId}:`, error);
+      });
+    }
+  }
+
+  // Store a cursor for a user who has none yet, so only changes from now on are processed
+  async ensureCursor(dbx: Dropbox, userId: string): Promise<void> {
+    const user = await userService.findByUserId(userId);
+    if (!user || user.dropboxCursor) return;
+
+    const cursor = await this.dropboxService.getLatestCursor(dbx);
+    await userService.updateDropboxCursor(userId, cursor);
+    console.log(`📍 [WEBHOOK] Started change tracking for ${userId}`);
+  }
+
+  private async runAccount(accountId: string): Promise<void> {
+    try {
+      do {
+        this.accounts.get(accountId)!.pending = false;
+        await this.processChanges(accountId);
+      } while (this.accounts.get(accountId)!.pending);
+    } finally {
+      this.accounts.delete(accountId);
+    }
+  }
+
+  // Walk the account's changes since its stored cursor and start a batch for every rule that matches
+  async processChanges(accountId: string): Promise<void> {
+    const user = await userService.findByUserId(accountId);
+    if (!user) {
+      console.log(`🤷 [WEBHOOK] Ignoring notification for unknown account ${accountId}`);
+      return;
+    }
+
+    const dbx = await this.clientForUser(accountId);
+    if (!dbx) {
+      console.log(`🔒 [WEBHOOK] No usable Dropbox session for ${accountId}, skipping`);
+      return;
+    }
+
+    if (!user.dropboxCursor) {
+      // First notification: existing files are not "new", only track from here on
+      await this.ensureCursor(dbx, accountId);
+      return;
+    }
+
+    let changes: { paths: string[]; cursor: string };
+    try {
+      changes = await this.dropboxService.listChangedFiles(dbx, user.dropboxCursor);
+    } catch (error) {
+      if (!isCursorReset(error)) throw error;
+      console.log(`♻️ [WEBHOOK] Cursor expired for ${accountId}, starting over from now`);
+      await userService.updateDropboxCursor(accountId, await this.dropboxService.getLatestCursor(dbx));
+      return;
+    }
+
+    // Save the cursor before processing so a crash never replays the same changes
+    await userService.updateDropboxCursor(accountId, changes.cursor);
+    console.log(`📬 [WEBHOOK] ${changes.paths.length} changed files for ${accountId}`);
+    if (changes.paths.length === 0) return;
+
+    const rules = await automationRuleService.listEnabledRules(accountId);
+    for (const rule of rules) {
+      const paths = automationRuleService.matchingPaths(rule, changes.paths);
+      if (paths.length === 0) continue;
+
+      try {
+        await this.startRuleBatches(dbx, accountId, rule.ruleId, paths, await automationRuleService.resolveJobOptions(rule));
+      } catch (error) {
+        console.error(`❌ [WEBHOOK] Rule "${rule.name}" (${rule.ruleId}) could not run:`, error);
+      }
+    }
+  }
+
+  // One batch per maxItems files, run in the background like interactive batches
+  private async startRuleBatches(
+    dbx: Dropbox,
+    userId: string,
+    ruleId: string,
+    paths: string[],
+    options: IJobOptions
+  ): Promise<void> {
+    const { maxItems } = this.processingBatchService.getSettings();
+
+    for (let start = 0; start < paths.length; start += maxItems) {
+      const chunk = paths.slice(start, start + maxItems);
+      const batch = await this.processingBatchService.createBatch(dbx, userId, { paths: chunk, ruleId }, options);
+      await automationRuleService.recordTrigger(ruleId, batch.batchId, chunk.length);
+      console.log(`🤖 [WEBHOOK] Rule ${ruleId} started batch ${batch.batchId} for ${chunk.length} files`);
+
+      this.processingBatchService.runBatch(dbx, batch).catch(error => {
+        console.error(`❌ Background batch ${batch.batchId} crashed:`, error);
+      });
+    }
+  }
+}
@@ -0,0 +1,27 @@
+import { ProgressReporter } from './ProcessingEvents';
+import { RemoveBgOptions } from '../utils/removeBgOptions';
+
+// Operations a provider can perform. New tools get a new member of this union.
+export type ImageOperationRequest =
+  | { operation: 'removeBg'; image: Buffer; options: RemoveBgOptions }
+  | { operation: 'upscale'; image: Buffer; factor: number };
+
+export type ImageOperation = ImageOperationRequest['operation'];
+
+export interface ProcessedImage {
+  buffer: Buffer;
+  // Provider that actually produced the image
+  provider: string;
+  // Set when a fallback provider served the request
+  failoverReason?: string;
+  // Set when the output came from the result cache instead of a provider call
+  cacheHit?: boolean;
+}
+
+export interface ImageProcessor {
+  readonly name: string;
+  supports(operation: ImageOperation): boolean;
+  // Whether the provider can take requests right now (e.g. its circuit is closed)
+  isAvailable(): boolean;
+  process(request: ImageOperationRequest, report: ProgressReporter): Promise<ProcessedImage>;
+}
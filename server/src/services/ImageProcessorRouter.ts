@@ -0,0 +1,101 @@
+import { ImageProcessor, ImageOperation, ImageOperationRequest, ProcessedImage } from './ImageProcessor';
+import { ProgressReporter, noopReporter } from './ProcessingEvents';
+
+export interface ProcessorRouting {
+  primary: string;
+  fallback: string | null;
+  // Error codes from the primary that send the request to the fallback
+  failoverOn: string[];
+}
+
+// Circuit open (Picsart unhealthy), 402 (out of credits) and a used-up user quota
+// won't fix themselves on retry
+const DEFAULT_FAILOVER_CODES = ['circuit_open', 'quota_exceeded', 'usage_quota_exceeded'];
+
+export function routingFromEnv(): ProcessorRouting {
+  const fallback = process.env.IMAGE_PROCESSOR_FALLBACK || 'sharp';
+  return {
+    primary: process.env.IMAGE_PROCESSOR_PRIMARY || 'picsart',
+    fallback: fallback === 'none' ? null : fallback,
+    failoverOn: process.env.IMAGE_PROCESSOR_FAILOVER_ON
+      ? process.env.IMAGE_PROCESSOR_FAILOVER_ON.split(',').map(code => code.trim()).filter(Boolean)
+      : DEFAULT_FAILOVER_CODES
+  };
+}
+
+// Routes each operation to the primary provider and fails over to the fallback when allowed
+export class ImageProcessorRouter implements ImageProcessor {
+  readonly name = 'router';
+  private primary: ImageProcessor;
+  private fallback: ImageProcessor | null;
+
+  constructor(providers: ImageProcessor[], private routing: ProcessorRouting = routingFromEnv()) {
+    const byName = (name: string) => {
+      const provider = providers.find(p => p.name === name);
+      if (!provider) {
+        throw new Error(`Unknown image processor "${name}". Available: ${providers.map(p => p.name).join(', ')}`);
+      }
+      return provider;
+    };
+
+    this.primary = byName(routing.primary);
+    this.fallback = routing.fallback && routing.fallback !== routing.primary ? byName(routing.fallback) : null;
+    console.log(`🧭 [PROCESSORS] Primary: ${this.primary.name}, fallback: ${this.fallback?.name || 'none'}`);
+  }
+
+  supports(operation: ImageOperation): boolean {
+    return this.primary.supports(operation) || !!this.fallback?.supports(operation);
+  }
+
+  isAvailable(): boolean {
+    return this.primary.isAvailable() || !!this.fallback?.isAvailable();
+  }
+
+  getRouting(): ProcessorRouting {
+    return this.routing;
+  }
+
+  async process(request: ImageOperationRequest, report: ProgressReporter = noopReporter): Promise<ProcessedImage> {
+    const { operation } = request;
+
+    if (!this.primary.supports(operation)) {
+      return this.runFallback(request, report, `${this.primary.name} does not support ${operation}`);
+    }
+
+    // Skip a known-unhealthy primary instead of waiting for it to fail
+    if (!this.primary.isAvailable() && this.fallback?.supports(operation)) {
+      return this.runFallback(request, report, `${this.primary.name} is unavailable (circuit open)`, 'circuit_open');
+    }
+
+    try {
+      return await this.primary.process(request, report);
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (!code || !this.routing.failoverOn.includes(code) || !this.fallback?.supports(operation)) {
+        throw error;
+      }
+      return this.runFallback(request, report, (error as Error).message, code);
+    }
+  }
+
+  private async runFallback(
+    request: ImageOperationRequest,
+    report: ProgressReporter,
+    message: string,
+    reason?: string
+  ): Promise<ProcessedImage> {
+    if (!this.fallback || !this.fallback.supports(request.operation)) {
+      throw new Error(`No image processor available for ${request.operation}: ${message}`);
+    }
+
+    console.log(`🔀 [PROCESSORS] Failing over ${request.operation} to ${this.fallback.name}: ${message}`);
+    report({
+      stage: 'provider_failover',
+      message: `${this.primary.name} unavailable, using ${this.fallback.name} instead`,
+      reason: reason || message
+    });
+
+    const result = await this.fallback.process(request, report);
+    return { ...result, failoverReason: reason || message };
+  }
+}
@@ -0,0 +1,478 @@
+import FormData from 'form-data';
+import fetch from 'node-fetch';
+import { Agent as HttpAgent } from 'http';
+import { Agent as HttpsAgent } from 'https';
+import { ProgressReporter, noopReporter } from './ProcessingEvents';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitBreakerSnapshot } from '../utils/circuitBreaker';
+import {
+  RetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  retryPolicyFromEnv,
+  computeRetryDelay,
+  parseRetryAfter,
+  isRetryableStatus,
+  isNetworkError,
+  sleep
+} from '../utils/retryPolicy';
+
+export const PICSART_API_BASE_URL = 'https://api.picsart.io/tools/1.0';
+
+// PICSART_API_BASE_URL wins; PICSART_MOCK=true points at the local mock server
+export function resolvePicsartBaseUrl(): string {
+  if (process.env.PICSART_API_BASE_URL) {
+    return process.env.PICSART_API_BASE_URL;
+  }
+  if (process.env.PICSART_MOCK === 'true') {
+    return `http://localhost:${process.env.PICSART_MOCK_PORT || '5050'}/tools/1.0`;
+  }
+  return PICSART_API_BASE_URL;
+}
+
+export function isUsingPicsartMock(): boolean {
+  return resolvePicsartBaseUrl().replace(/\/+$/, '') !== PICSART_API_BASE_URL;
+}
+
+export type PicsartErrorCode =
+  | 'circuit_open'
+  | 'unauthorized'
+  | 'quota_exceeded'
+  | 'rate_limited'
+  | 'bad_request'
+  | 'api_error'
+  | 'network_error'
+  | 'invalid_response'
+  | 'download_failed';
+
+export class PicsartApiError extends Error {
+  constructor(
+    message: string,
+    public code: PicsartErrorCode,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'PicsartApiError';
+  }
+}
+
+// Everything a Picsart tool call needs: the endpoint name and its form fields
+export interface PicsartToolRequest {
+  tool: string;
+  fields: Record<string, string>;
+  image: Buffer;
+  imageName?: string;
+  contentType?: string;
+  // Large outputs (e.g. upscales) get proportionally longer download timeouts
+  downloadTimeoutMultiplier?: number;
+  // Input size, carried into the call metrics for usage accounting
+  megapixels?: number;
+}
+
+export interface PicsartCallMetrics {
+  tool: string;
+  success: boolean;
+  startedAt: string;
+  durationMs: number;
+  apiAttempts: number;
+  downloadAttempts: number;
+  retryWaitMs: number;
+  httpStatus?: number;
+  errorCode?: PicsartErrorCode;
+  error?: string;
+  inputBytes: number;
+  outputBytes: number;
+  megapixels?: number;
+}
+
+interface ToolTotals {
+  calls: number;
+  successes: number;
+  failures: number;
+  totalDurationMs: number;
+  apiAttempts: number;
+  downloadAttempts: number;
+}
+
+export interface PicsartMetricsSnapshot {
+  circuit: CircuitBreakerSnapshot;
+  tools: Record<string, ToolTotals & { averageDurationMs: number }>;
+  recent: PicsartCallMetrics[];
+}
+
+export interface PicsartClientOptions {
+  apiKey: string;
+  baseUrl?: string;
+  apiRetryPolicy?: RetryPolicy;
+  downloadRetryPolicy?: RetryPolicy;
+  circuitBreaker?: CircuitBreakerOptions;
+}
+
+const RECENT_CALLS_LIMIT = 100;
+
+// Errors that say Picsart itself is unhealthy, as opposed to a bad request or key
+const OUTAGE_ERROR_CODES: PicsartErrorCode[] = ['network_error', 'api_error', 'rate_limited', 'download_failed'];
+
+const DEFAULT_DOWNLOAD_RETRY_POLICY: RetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  baseDelayMs: 500,
+  maxDelayMs: 10000
+};
+
+// One request executor for every Picsart tool: retries, circuit breaker, CDN download and metrics
+export class PicsartClient {
+  readonly baseUrl: string;
+  private apiKey: string;
+  private apiRetryPolicy: RetryPolicy;
+  private downloadRetryPolicy: RetryPolicy;
+  private breaker: CircuitBreaker;
+  private httpsAgent!: HttpsAgent;
+  private httpAgent!: HttpAgent;
+  private recentCalls: PicsartCallMetrics[] = [];
+  private totals: Record<string, ToolTotals> = {};
+  private listeners: Array<(metrics: PicsartCallMetrics) => void> = [];
+
+  constructor(options: PicsartClientOptions) {
+    this.apiKey = options.apiKey;
+    this.baseUrl = (options.baseUrl || resolvePicsartBaseUrl()).replace(/\/+$/, '');
+    this.apiRetryPolicy = options.apiRetryPolicy || retryPolicyFromEnv('PICSART_RETRY');
+    this.downloadRetryPolicy = options.downloadRetryPolicy || retryPolicyFromEnv('PICSART_DOWNLOAD_RETRY', DEFAULT_DOWNLOAD_RETRY_POLICY);
+    this.breaker = new CircuitBreaker('picsart', options.circuitBreaker || {
+      failureThreshold: parseInt(process.env.PICSART_CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+      resetTimeoutMs: parseInt(process.env.PICSART_CIRCUIT_RESET_MS || '30000', 10)
+    });
+    this.createAgents();
+  }
+
+  // Run a tool end to end and return the processed image bytes
+  async runTool(request: PicsartToolRequest, report: ProgressReporter = noopReporter): Promise<Buffer> {
+    const startedAt = Date.now();
+    const metrics: PicsartCallMetrics = {
+      tool: request.tool,
+      success: false,
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs: 0,
+      apiAttempts: 0,
+      downloadAttempts: 0,
+      retryWaitMs: 0,
+      inputBytes: request.image.length,
+      outputBytes: 0,
+      megapixels: request.megapixels
+    };
+
+    try {
+      if (!this.breaker.canRequest()) {
+        const retryIn = Math.ceil(this.breaker.retryInMs() / 1000);
+        throw new PicsartApiError(
+          `Picsart API is temporarily unavailable (circuit open). Retry in ${retryIn}s.`,
+          'circuit_open',
+          503
+        );
+      }
+
+      console.log(`🎨 [PICSART] Running ${request.tool}, image size:`, request.image.length, 'bytes');
+      const imageUrl = await this.callApi(request, metrics, report);
+      const buffer = await this.download(imageUrl, request, metrics, report);
+
+      this.breaker.recordSuccess();
+      metrics.success = true;
+      metrics.outputBytes = buffer.length;
+      console.log(`✅ [PICSART] ${request.tool} succeeded, output size:`, buffer.length, 'bytes');
+      return buffer;
+    } catch (error) {
+      const apiError = error instanceof PicsartApiError
+        ? error
+        : new PicsartApiError((error as Error).message || 'Picsart call failed', 'api_error');
+
+      if (apiError.code !== 'circuit_open') {
+        if (OUTAGE_ERROR_CODES.includes(apiError.code)) {
+          this.breaker.recordFailure();
+        } else {
+          // Picsart answered (e.g. 401/402/400) - the service itself is up
+          this.breaker.recordSuccess();
+        }
+      }
+
+      metrics.errorCode = apiError.code;
+      metrics.error = apiError.message;
+      console.error(`❌ [PICSART] ${request.tool} failed:`, apiError.message);
+      throw apiError;
+    } finally {
+      metrics.durationMs = Date.now() - startedAt;
+      this.recordMetrics(metrics);
+    }
+  }
+
+  // Subscribe to per-call metrics; returns an unsubscribe function
+  onCall(listener: (metrics: PicsartCallMetrics) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  isCircuitOpen(): boolean {
+    return this.breaker.isOpen();
+  }
+
+  getMetrics(): PicsartMetricsSnapshot {
+    const tools: PicsartMetricsSnapshot['tools'] = {};
+    for (const [tool, totals] of Object.entries(this.totals)) {
+      tools[tool] = {
+        ...totals,
+        averageDurationMs: totals.calls > 0 ? Math.round(totals.totalDurationMs / totals.calls) : 0
+      };
+    }
+
+    return {
+      circuit: this.breaker.snapshot(),
+      tools,
+      recent: [...this.recentCalls]
+    };
+  }
+
+  // Lightweight connectivity check - any HTTP response proves the API is reachable
+  async testConnection(): Promise<boolean> {
+    try {
+      console.log('🧪 [PICSART] Testing API connection...');
+      const testRes = await fetch(`${this.baseUrl}/removebg`, {
+        method: 'POST',
+        headers: {
+          'accept': 'application/json',
+          'X-Picsart-API-Key': this.apiKey,
+        },
+        body: '{}', // Empty body will get 400, but proves connection works
+        timeout: 10000,
+        agent: this.agentFor,
+      });
+
+      console.log(`✅ [PICSART] API connection test successful (status ${testRes.status})`);
+      return true;
+    } catch (error) {
+      console.log('⚠️ [PICSART] API connection test failed (will retry on first real request):', (error as Error).message);
+      return false;
+    }
+  }
+
+  private async callApi(request: PicsartToolRequest, metrics: PicsartCallMetrics, report: ProgressReporter): Promise<string> {
+    const policy = this.apiRetryPolicy;
+    const url = `${this.baseUrl}/${request.tool}`;
+
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      metrics.apiAttempts = attempt;
+      console.log(`🔄 [PICSART] ${request.tool} API attempt ${attempt}/${policy.maxAttempts}...`);
+      report({ stage: 'picsart_request', message: `Calling Picsart ${request.tool} API`, attempt, maxAttempts: policy.maxAttempts });
+
+      // Form streams are consumed by each request, so build a fresh one per attempt
+      const form = new FormData();
+      for (const [field, value] of Object.entries(request.fields)) {
+        form.append(field, value);
+      }
+      form.append('image', request.image, {
+        filename: request.imageName || 'image.png',
+        contentType: request.contentType || 'image/png'
+      });
+
+      let res;
+      try {
+        res = await fetch(url, {
+          method: 'POST',
+          headers: {
+            'accept': 'application/json',
+            'X-Picsart-API-Key': this.apiKey,
+            ...form.getHeaders(),
+            // Force new connection after repeated failures
+            'Connection': attempt > 2 ? 'close' : 'keep-alive',
+          },
+          body: form,
+          timeout: this.timeoutFor(attempt),
+          agent: this.agentFor,
+        });
+      } catch (error) {
+        const message = (error as Error).message;
+        if (!isNetworkError(error) || attempt === policy.maxAttempts) {
+          throw new PicsartApiError(`Picsart ${request.tool} request failed: ${message}`, 'network_error');
+        }
+
+        const waitTime = computeRetryDelay(policy, attempt);
+        console.log(`⏳ [PICSART] Network error (${message}), waiting ${waitTime}ms before retry...`);
+        report({ stage: 'picsart_retry_wait', message: 'Network error talking to Picsart, waiting before retry', attempt, maxAttempts: policy.maxAttempts, waitMs: waitTime, reason: 'network_error' });
+        this.resetAgents();
+        metrics.retryWaitMs += waitTime;
+        await sleep(waitTime);
+        continue;
+      }
+
+      metrics.httpStatus = res.status;
+      console.log(`🎨 [PICSART] ${request.tool} response status:`, res.status);
+
+      if (res.ok) {
+        const jsonResponse = await res.json();
+        console.log(`✅ [PICSART] ${request.tool} API responded with:`, jsonResponse);
+
+        if (jsonResponse.status !== 'success' || !jsonResponse.data?.url) {
+          throw new PicsartApiError(
+            `Picsart ${request.tool} API error: No image URL returned. Response: ${JSON.stringify(jsonResponse)}`,
+            'invalid_response',
+            res.status
+          );
+        }
+        return jsonResponse.data.url;
+      }
+
+      if (isRetryableStatus(policy, res.status) && attempt < policy.maxAttempts) {
+        const retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+        const waitTime = computeRetryDelay(policy, attempt, retryAfterMs);
+        const reason = res.status === 429 ? 'rate_limited' : 'server_error';
+        console.log(`⏳ [PICSART] ${request.tool} API returned ${res.status}, waiting ${waitTime}ms before retry ${attempt}/${policy.maxAttempts}...`);
+        report({
+          stage: 'picsart_retry_wait',
+          message: res.status === 429 ? 'Picsart rate limited, waiting before retry' : `Picsart returned ${res.status}, waiting before retry`,
+          attempt,
+          maxAttempts: policy.maxAttempts,
+          waitMs: waitTime,
+          reason
+        });
+        await res.text().catch(() => '');
+        if (res.status === 429) {
+          // Reset connection after rate limit
+          this.resetAgents();
+        }
+        metrics.retryWaitMs += waitTime;
+        await sleep(waitTime);
+        continue;
+      }
+
+      const errText = await res.text();
+      console.error(`❌ [PICSART] ${request.tool} failed with status:`, res.status);
+      console.error('❌ [PICSART] Error response:', errText);
+      throw this.errorForStatus(request.tool, res.status, errText);
+    }
+
+    throw new PicsartApiError(`Picsart ${request.tool} API failed after retries`, 'api_error');
+  }
+
+  private async download(imageUrl: string, request: PicsartToolRequest, metrics: PicsartCallMetrics, report: ProgressReporter): Promise<Buffer> {
+    const policy = this.downloadRetryPolicy;
+    const multiplier = request.downloadTimeoutMultiplier || 1;
+    let lastError = 'unknown error';
+
+    console.log('📥 [PICSART] Downloading processed image from:', imageUrl);
+
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      metrics.downloadAttempts = attempt;
+      console.log(`🔄 [PICSART] Download attempt ${attempt}/${policy.maxAttempts}...`);
+      report({ stage: 'cdn_download', message: 'Downloading result from Picsart CDN', attempt, maxAttempts: policy.maxAttempts });
+
+      let retryAfterMs: number | undefined;
+      try {
+        const imageResponse = await fetch(imageUrl, {
+          timeout: Math.min(this.timeoutFor(attempt) * multiplier, 120000),
+          agent: this.agentFor,
+        });
+
+        if (imageResponse.ok) {
+          return Buffer.from(await imageResponse.arrayBuffer());
+        }
+
+        lastError = `Failed to download processed image: ${imageResponse.status}`;
+        if (!isRetryableStatus(policy, imageResponse.status)) {
+          break;
+        }
+        retryAfterMs = parseRetryAfter(imageResponse.headers.get('retry-after'));
+      } catch (error) {
+        lastError = (error as Error).message || 'Download failed';
+        console.error(`❌ [PICSART] Download attempt ${attempt} failed:`, lastError);
+      }
+
+      if (attempt < policy.maxAttempts) {
+        const waitTime = computeRetryDelay(policy, attempt, retryAfterMs);
+        console.log(`⏳ [PICSART] Download error (${lastError}), waiting ${waitTime}ms before retry...`);
+        report({ stage: 'cdn_retry_wait', message: 'CDN download failed, waiting before retry', attempt, maxAttempts: policy.maxAttempts, waitMs: waitTime, reason: lastError });
+        metrics.retryWaitMs += waitTime;
+        await sleep(waitTime);
+      }
+    }
+
+    console.error('❌ [PICSART] All download attempts failed:', lastError);
+    throw new PicsartApiError(lastError, 'download_failed');
+  }
+
+  private errorForStatus(tool: string, status: number, errText: string): PicsartApiError {
+    if (status === 401) {
+      return new PicsartApiError(`Invalid Picsart API key. Please check your PICSART_API_KEY environment variable. Status: ${status}`, 'unauthorized', status);
+    }
+    if (status === 402) {
+      return new PicsartApiError(`Picsart API quota exceeded or payment required. Status: ${status}`, 'quota_exceeded', status);
+    }
+    if (status === 429) {
+      return new PicsartApiError(`Picsart API rate limit exceeded. Please try again later. Status: ${status}`, 'rate_limited', status);
+    }
+    if (status >= 500) {
+      return new PicsartApiError(`Picsart ${tool} failed (${status}): ${errText}`, 'api_error', status);
+    }
+    return new PicsartApiError(`Picsart ${tool} failed (${status}): ${errText}`, 'bad_request', status);
+  }
+
+  // Use progressive timeouts: 15s, 20s, 25s ... capped at 60s
+  private timeoutFor(attempt: number): number {
+    return Math.min(10000 + (attempt * 5000), 60000);
+  }
+
+  // node-fetch picks the agent per URL, so an http:// base URL works too
+  private agentFor = (parsedUrl: URL) => (parsedUrl.protocol === 'http:' ? this.httpAgent : this.httpsAgent);
+
+  private createAgents(): void {
+    const agentOptions = {
+      keepAlive: true,
+      maxSockets: 5,
+      maxFreeSockets: 2,
+      timeout: 15000,
+    };
+    this.httpsAgent = new HttpsAgent(agentOptions);
+    this.httpAgent = new HttpAgent(agentOptions);
+  }
+
+  // Drop pooled sockets after rate limits and network errors
+  private resetAgents(): void {
+    this.httpsAgent.destroy();
+    this.httpAgent.destroy();
+    this.createAgents();
+  }
+
+  private recordMetrics(metrics: PicsartCallMetrics): void {
+    const totals = this.totals[metrics.tool] || (this.totals[metrics.tool] = {
+      calls: 0,
+      successes: 0,
+      failures: 0,
+      totalDurationMs: 0,
+      apiAttempts: 0,
+      downloadAttempts: 0
+    });
+    totals.calls++;
+    totals[metrics.success ? 'successes' : 'failures']++;
+    totals.totalDurationMs += metrics.durationMs;
+    totals.apiAttempts += metrics.apiAttempts;
+    totals.downloadAttempts += metrics.downloadAttempts;
+
+    this.recentCalls.unshift(metrics);
+    if (this.recentCalls.length > RECENT_CALLS_LIMIT) {
+      this.recentCalls.length = RECENT_CALLS_LIMIT;
+    }
+
+    console.log(`📊 [PICSART] ${metrics.tool} call metrics:`, {
+      success: metrics.success,
+      durationMs: metrics.durationMs,
+      apiAttempts: metrics.apiAttempts,
+      downloadAttempts: metrics.downloadAttempts,
+      retryWaitMs: metrics.retryWaitMs,
+      errorCode: metrics.errorCode
+    });
+
+    for (const listener of this.listeners) {
+      try {
+        listener(metrics);
+      } catch (error) {
+        console.error('❌ [PICSART] Metrics listener failed:', error);
+      }
+    }
+  }
+}
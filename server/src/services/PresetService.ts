@@ -0,0 +1,82 @@
+import { randomUUID } from 'crypto';
+import { PresetRepository } from '../repositories/PresetRepository';
+import { IPreset, IPresetOptions } from '../models/Preset';
+
+const presetRepo = new PresetRepository();
+
+export interface PresetInput {
+  name: string;
+  description?: string;
+  options: IPresetOptions;
+  isDefault?: boolean;
+}
+
+export class PresetService {
+  async listPresets(userId: string): Promise<IPreset[]> {
+    return presetRepo.findByUserId(userId);
+  }
+
+  // Presets belonging to other users are treated as missing
+  async getPreset(userId: string, presetId: string): Promise<IPreset | null> {
+    const preset = await presetRepo.findByPresetId(presetId);
+    return preset && preset.userId === userId ? preset : null;
+  }
+
+  async getDefaultPreset(userId: string): Promise<IPreset | null> {
+    return presetRepo.findDefault(userId);
+  }
+
+  async createPreset(userId: string, input: PresetInput): Promise<IPreset> {
+    const presetId = randomUUID();
+    if (input.isDefault) {
+      await presetRepo.clearDefault(userId);
+    }
+
+    const preset = await presetRepo.create({
+      presetId,
+      userId,
+      name: input.name,
+      description: input.description,
+      options: input.options,
+      isDefault: !!input.isDefault
+    });
+
+    console.log(`💾 [PRESETS] Created preset "${preset.name}" (${presetId}) for user ${userId}`);
+    return preset;
+  }
+
+  async updatePreset(userId: string, presetId: string, update: Partial<PresetInput>): Promise<IPreset | null> {
+    const existing = await this.getPreset(userId, presetId);
+    if (!existing) return null;
+
+    if (update.isDefault) {
+      await presetRepo.clearDefault(userId, presetId);
+    }
+
+    const preset = await presetRepo.update(presetId, update);
+    console.log(`✏️ [PRESETS] Updated preset ${presetId} for user ${userId}:`, Object.keys(update));
+    return preset;
+  }
+
+  async deletePreset(userId: string, presetId: string): Promise<boolean> {
+    const existing = await this.getPreset(userId, presetId);
+    if (!existing) return false;
+
+    await presetRepo.delete(presetId);
+    console.log(`🗑️ [PRESETS] Deleted preset "${existing.name}" (${presetId}) for user ${userId}`);
+    return true;
+  }
+
+  // Shape a preset document for API responses
+  toResponse(preset: IPreset) {
+    return {
+      presetId: preset.presetId,
+      name: preset.name,
+      description: preset.description || null,
+      options: preset.options,
+      isDefault: preset.isDefault,
+      createdAt: preset.createdAt,
+      updatedAt: preset.updatedAt
+    };
+  }
+}
@@ -0,0 +1,171 @@
+import { randomUUID } from 'crypto';
+import { Dropbox } from 'dropbox';
+import { ProcessingBatchRepository } from '../repositories/ProcessingBatchRepository';
+import { IProcessingBatch, IBatchSource } from '../models/ProcessingBatch';
+import { IJobOptions, IProcessingJob } from '../models/ProcessingJob';
+import { ProcessingJobService } from './ProcessingJobService';
+import { DropboxService } from './DropboxService';
+import { runWithConcurrency } from '../utils/concurrency';
+import { DEFAULT_CONFLICT_POLICY } from '../utils/conflictPolicy';
+
+const batchRepo = new ProcessingBatchRepository();
+
+export interface BatchSettings {
+  // Files processed at the same time. Each file makes one Picsart call per step.
+  concurrency: number;
+  // Minimum gap between starting two files
+  startIntervalMs: number;
+  // Largest batch accepted (folders are cut off at this many images)
+  maxItems: number;
+}
+
+export function batchSettingsFromEnv(): BatchSettings {
+  return {
+    concurrency: parseInt(process.env.BATCH_CONCURRENCY || '2', 10),
+    startIntervalMs: parseInt(process.env.BATCH_START_INTERVAL_MS || '500', 10),
+    maxItems: parseInt(process.env.BATCH_MAX_ITEMS || '100', 10)
+  };
+}
+
+export class ProcessingBatchService {
+  // Earliest time the next batch item may start, pushed back when Picsart rate-limits us
+  private pausedUntil = 0;
+
+  constructor(
+    private processingJobService: ProcessingJobService,
+    private dropboxService: DropboxService,
+    private settings: BatchSettings = batchSettingsFromEnv()
+  ) {}
+
+  getSettings(): BatchSettings {
+    return this.settings;
+  }
+
+  // Hold back new batch items for a while, e.g. after Picsart answered 429
+  throttle(ms: number): void {
+    const until = Date.now() + ms;
+    if (until > this.pausedUntil) {
+      console.log(`⏸️ [BATCH] Pausing new batch items for ${ms}ms`);
+      this.pausedUntil = until;
+    }
+  }
+
+  // Resolve the file list (listing the folder if needed) and create one job per file
+  async createBatch(dbx: Dropbox, userId: string, source: IBatchSource, options: IJobOptions): Promise<IProcessingBatch> {
+    const paths = source.folderPath !== undefined
+      ? await this.dropboxService.listImagePaths(dbx, source.folderPath, !!source.recursive, this.settings.maxItems)
+      : Array.from(new Set(source.paths || []));
+
+    if (paths.length === 0) {
+      throw new Error(source.folderPath !== undefined ? 'No images found in folder' : 'No files to process');
+    }
+
+    const batchId = randomUUID();
+    const items = [];
+    for (const dropboxPath of paths) {
+      const job = await this.processingJobService.createJob(userId, dropboxPath, options, batchId);
+      items.push({ dropboxPath, jobId: job.jobId });
+    }
+
+    const batch = await batchRepo.create({
+      batchId,
+      userId,
+      source,
+      options,
+      items,
+      status: 'queued',
+      concurrency: this.settings.concurrency
+    });
+
+    console.log(`🆕 [BATCH] Created batch ${batchId} for user ${userId}: ${items.length} files`);
+    return batch;
+  }
+
+  async getBatch(batchId: string): Promise<IProcessingBatch | null> {
+    return batchRepo.findByBatchId(batchId);
+  }
+
+  async listBatches(userId: string, limit?: number): Promise<IProcessingBatch[]> {
+    return batchRepo.findByUserId(userId, limit);
+  }
+
+  // Run every job of the batch with bounded concurrency. Never throws: per-file failures
+  // are recorded on the jobs, the batch only fails as a whole if it cannot run at all.
+  async runBatch(dbx: Dropbox, batch: IProcessingBatch): Promise<void> {
+    const { batchId } = batch;
+
+    try {
+      await batchRepo.update(batchId, { status: 'running', startedAt: new Date() });
+      console.log(`🚀 [BATCH] Starting batch ${batchId}: ${batch.items.length} files, concurrency ${this.settings.concurrency}`);
+
+      const jobs = await this.processingJobService.listBatchJobs(batchId);
+      const jobsById = new Map(jobs.map(job => [job.jobId, job]));
+
+      await runWithConcurrency(
+        batch.items,
+        {
+          concurrency: this.settings.concurrency,
+          minStartIntervalMs: this.settings.startIntervalMs,
+          startDelayMs: () => this.pausedUntil - Date.now()
+        },
+        async (item, index) => {
+          const job = jobsById.get(item.jobId);
+          if (!job) {
+            await batchRepo.recordItemResult(batchId, false);
+            return;
+          }
+
+          console.log(`▶️ [BATCH] ${batchId}: file ${index + 1}/${batch.items.length} - ${item.dropboxPath}`);
+          await this.processingJobService.runJob(dbx, job);
+
+          const finished = await this.processingJobService.getJob(item.jobId);
+          await batchRepo.recordItemResult(batchId, finished?.status === 'completed');
+        }
+      );
+
+      const finished = await batchRepo.update(batchId, { status: 'completed', completedAt: new Date() });
+      console.log(`🎉 [BATCH] Batch ${batchId} finished: ${finished?.succeeded} succeeded, ${finished?.failed} failed`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ [BATCH] Batch ${batchId} failed:`, error);
+      try {
+        await batchRepo.update(batchId, { status: 'failed', error: message, completedAt: new Date() });
+      } catch (updateError) {
+        console.error(`❌ [BATCH] Could not record failure for batch ${batchId}:`, updateError);
+      }
+    }
+  }
+
+  // Shape a batch and its jobs for API responses
+  toResponse(batch: IProcessingBatch, jobs: IProcessingJob[] = []) {
+    const jobsById = new Map(jobs.map(job => [job.jobId, job]));
+    return {
+      batchId: batch.batchId,
+      status: batch.status,
+      source: batch.source,
+      options: batch.options,
+      conflictPolicy: batch.options.conflictPolicy || DEFAULT_CONFLICT_POLICY,
+      total: batch.items.length,
+      succeeded: batch.succeeded,
+      failed: batch.failed,
+      concurrency: batch.concurrency,
+      items: batch.items.map(item => {
+        const job = jobsById.get(item.jobId);
+        const jobResponse = job ? this.processingJobService.toResponse(job) : null;
+        return {
+          dropboxPath: item.dropboxPath,
+          jobId: item.jobId,
+          status: jobResponse?.status || 'queued',
+          currentStep: jobResponse?.currentStep || null,
+          results: jobResponse?.results || {},
+          steps: jobResponse?.steps || [],
+          error: jobResponse?.error || null
+        };
+      }),
+      error: batch.error || null,
+      createdAt: batch.createdAt,
+      startedAt: batch.startedAt,
+      completedAt: batch.completedAt
+    };
+  }
+}
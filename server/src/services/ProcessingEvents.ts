@@ -0,0 +1,58 @@
+import { EventEmitter } from 'events';
+import { JobStepName } from '../models/ProcessingJob';
+
+export type ProcessingStage =
+  | 'step_started'
+  | 'step_completed'
+  | 'dropbox_download'
+  | 'picsart_request'
+  | 'picsart_retry_wait'
+  | 'cdn_download'
+  | 'cdn_retry_wait'
+  | 'provider_failover'
+  | 'cache_hit'
+  | 'local_processing'
+  | 'dropbox_upload'
+  | 'job_completed'
+  | 'job_failed';
+
+export interface ProcessingEvent {
+  stage: ProcessingStage;
+  message: string;
+  step?: JobStepName | null;
+  // Position of the step in the job, since a pipeline may repeat a step type
+  stepIndex?: number | null;
+  attempt?: number;
+  maxAttempts?: number;
+  waitMs?: number;
+  reason?: string;
+  timestamp: string;
+}
+
+// Services report progress through this callback without knowing about jobs
+export type ProgressReporter = (event: Omit<ProcessingEvent, 'timestamp' | 'step' | 'stepIndex'>) => void;
+
+export const noopReporter: ProgressReporter = () => {};
+
+// In-process pub/sub of live job progress, keyed by job ID
+class ProcessingEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(jobId: string, event: Omit<ProcessingEvent, 'timestamp'>): void {
+    this.emitter.emit(jobId, { ...event, timestamp: new Date().toISOString() });
+  }
+
+  subscribe(jobId: string, listener: (event: ProcessingEvent) => void): () => void {
+    this.emitter.on(jobId, listener);
+    return () => {
+      this.emitter.off(jobId, listener);
+    };
+  }
+}
+
+export const processingEvents = new ProcessingEventBus();
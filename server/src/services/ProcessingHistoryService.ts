@@ -0,0 +1,89 @@
+import { randomUUID } from 'crypto';
+import { ProcessingRecordRepository, RecordFilter } from '../repositories/ProcessingRecordRepository';
+import { IProcessingRecord } from '../models/ProcessingRecord';
+import { IProcessingJob } from '../models/ProcessingJob';
+import { DEFAULT_CONFLICT_POLICY } from '../utils/conflictPolicy';
+
+const recordRepo = new ProcessingRecordRepository();
+
+// Run details only known while the job runs, not stored on the job document
+export interface JobRunDetails {
+  sourceFileId?: string;
+  // Picsart requests per job step index
+  picsartAttempts: number[];
+}
+
+export class ProcessingHistoryService {
+  // Keep a finished job as a history record
+  async recordJob(job: IProcessingJob, details: JobRunDetails): Promise<IProcessingRecord> {
+    const steps = job.steps.map((step, index) => ({
+      name: step.name,
+      status: step.status,
+      params: step.params,
+      outputPath: step.outputPath,
+      uploadAction: step.uploadAction,
+      outputSize: step.outputSize,
+      format: step.format,
+      durationMs: step.durationMs,
+      provider: step.provider,
+      failoverReason: step.failoverReason,
+      cacheHit: step.cacheHit,
+      picsartAttempts: details.picsartAttempts[index] || undefined,
+      error: step.error
+    }));
+
+    const record = await recordRepo.create({
+      recordId: randomUUID(),
+      userId: job.userId,
+      jobId: job.jobId,
+      batchId: job.batchId || null,
+      sourceFileId: details.sourceFileId || null,
+      sourcePath: job.dropboxPath,
+      operations: job.options.pipeline.map(step => step.type),
+      options: job.options,
+      steps,
+      outputPaths: steps.flatMap(step => step.outputPath && step.name !== 'download' ? [step.outputPath] : []),
+      status: job.status === 'completed' ? 'completed' : 'failed',
+      error: job.error || null,
+      durationMs: job.startedAt && job.completedAt ? job.completedAt.getTime() - job.startedAt.getTime() : 0,
+      picsartAttempts: details.picsartAttempts.reduce((sum, attempts) => sum + (attempts || 0), 0),
+      startedAt: job.startedAt,
+      completedAt: job.completedAt
+    });
+
+    console.log(`🗄️ [HISTORY] Recorded ${record.status} job ${job.jobId} as ${record.recordId}`);
+    return record;
+  }
+
+  async listRecords(userId: string, filter: RecordFilter, limit: number, offset: number): Promise<{ records: IProcessingRecord[]; total: number }> {
+    return recordRepo.findByUserId(userId, filter, limit, offset);
+  }
+
+  // Records belonging to other users are treated as missing
+  async getRecord(userId: string, recordId: string): Promise<IProcessingRecord | null> {
+    const record = await recordRepo.findByRecordId(recordId);
+    return record && record.userId === userId ? record : null;
+  }
+
+  toResponse(record: IProcessingRecord) {
+    return {
+      recordId: record.recordId,
+      jobId: record.jobId,
+      batchId: record.batchId || null,
+      sourceFileId: record.sourceFileId || null,
+      sourcePath: record.sourcePath,
+      operations: record.operations,
+      options: record.options,
+      conflictPolicy: record.options.conflictPolicy || DEFAULT_CONFLICT_POLICY,
+      steps: record.steps,
+      outputPaths: record.outputPaths,
+      status: record.status,
+      error: record.error || null,
+      durationMs: record.durationMs,
+      picsartAttempts: record.picsartAttempts,
+      startedAt: record.startedAt,
+      completedAt: record.completedAt,
+      createdAt: record.createdAt
+    };
+  }
+}
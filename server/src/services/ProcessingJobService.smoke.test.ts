@@ -0,0 +1,100 @@
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { Dropbox } from 'dropbox';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ProcessingJobService } from './ProcessingJobService';
+import { PicsartService } from './PicsartService';
+import { SharpProcessor } from './SharpProcessor';
+import { ImageProcessorRouter } from './ImageProcessorRouter';
+import { DropboxService } from './DropboxService';
+import { ProcessingHistoryService } from './ProcessingHistoryService';
+import { startPicsartMockServer } from '../mocks/picsartMockServer';
+import { FakeDropbox, defaultFakeAccountId, fakeTokensFor } from '../mocks/FakeDropbox';
+import { parseProcessingOptions } from '../utils/processingOptions';
+
+// Jobs live in memory instead of MongoDB, applying the same dotted-path $set updates
+vi.mock('../repositories/ProcessingJobRepository', () => {
+  const jobs = new Map<string, any>();
+  const setPath = (target: any, path: string, value: unknown) => {
+    const keys = path.split('.');
+    const last = keys.pop() as string;
+    const parent = keys.reduce((node, key) => (node[key] ??= {}), target);
+    parent[last] = value;
+  };
+
+  return {
+    ProcessingJobRepository: class {
+      async create(job: any) {
+        const created = structuredClone({ ...job, createdAt: new Date() });
+        jobs.set(created.jobId, created);
+        return created;
+      }
+
+      async findByJobId(jobId: string) {
+        return jobs.get(jobId) ?? null;
+      }
+
+      async update(jobId: string, update: Record<string, unknown>) {
+        const job = jobs.get(jobId);
+        if (!job) return null;
+        Object.entries(update).forEach(([path, value]) => setPath(job, path, value));
+        return job;
+      }
+    }
+  };
+});
+
+describe('ProcessingJobService smoke test', () => {
+  let mockServer: Server;
+  let jobService: ProcessingJobService;
+  const recordJob = vi.fn(async () => {});
+
+  beforeAll(async () => {
+    mockServer = await startPicsartMockServer(0, {});
+    const { port } = mockServer.address() as AddressInfo;
+    vi.stubEnv('PICSART_API_BASE_URL', `http://localhost:${port}/tools/1.0`);
+
+    // No fallback, so the job can only succeed through the mock Picsart API
+    const imageProcessor = new ImageProcessorRouter(
+      [new PicsartService(), new SharpProcessor()],
+      { primary: 'picsart', fallback: null, failoverOn: [] }
+    );
+    jobService = new ProcessingJobService(
+      imageProcessor,
+      new DropboxService(),
+      { recordJob } as unknown as ProcessingHistoryService
+    );
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    mockServer.closeAllConnections();
+    await new Promise(resolve => mockServer.close(resolve));
+  });
+
+  it('removes the background and upscales a fake Dropbox image through the mock Picsart API', async () => {
+    const dbx = new FakeDropbox(fakeTokensFor(defaultFakeAccountId()).accessToken) as unknown as Dropbox;
+    const parsed = parseProcessingOptions({ removeBg: true, upscale: true, upscaleFactor: 2 });
+    if (!('options' in parsed)) throw new Error('Expected valid processing options');
+
+    const job = await jobService.createJob('smoke-user', '/sample-red-circle.png', parsed.options);
+    await jobService.runJob(dbx, job);
+
+    const finished = await jobService.getJob(job.jobId);
+    expect(finished?.error).toBeUndefined();
+    expect(finished?.status).toBe('completed');
+    expect(finished?.steps.map(step => [step.name, step.status, step.provider])).toEqual([
+      ['download', 'completed', undefined],
+      ['removeBg', 'completed', 'picsart'],
+      ['upscale', 'completed', 'picsart']
+    ]);
+    expect(finished?.steps[2].width).toBe(1280);
+
+    for (const outputPath of [finished?.results.backgroundRemoved, finished?.results.upscaled]) {
+      expect(outputPath).toMatch(/^\/sample-red-circle_/);
+      const { result } = await dbx.filesGetMetadata({ path: outputPath as string });
+      expect(result['.tag']).toBe('file');
+    }
+    expect(recordJob).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,285 @@
+import { randomUUID } from 'crypto';
+import { Dropbox } from 'dropbox';
+import sharp from 'sharp';
+import { ProcessingJobRepository } from '../repositories/ProcessingJobRepository';
+import { IProcessingJob, IJobOptions, IJobStep } from '../models/ProcessingJob';
+import { ImageProcessor, ProcessedImage } from './ImageProcessor';
+import { PipelineStep, stepSuffix } from '../utils/pipeline';
+import { convertImage, resizeImage, encodeOutput, detectEncoding } from '../utils/imageTransforms';
+import { extensionForEncoding } from '../utils/outputFormat';
+import { DEFAULT_CONFLICT_POLICY } from '../utils/conflictPolicy';
+import { DropboxService } from './DropboxService';
+import { processingEvents, ProgressReporter } from './ProcessingEvents';
+import { ProcessingHistoryService } from './ProcessingHistoryService';
+import { runWithUsageContext } from '../utils/usageContext';
+
+const jobRepo = new ProcessingJobRepository();
+
+export class ProcessingJobService {
+  constructor(
+    private imageProcessor: ImageProcessor,
+    private dropboxService: DropboxService,
+    private historyService: ProcessingHistoryService
+  ) {}
+
+  async createJob(userId: string, dropboxPath: string, options: IJobOptions, batchId?: string): Promise<IProcessingJob> {
+    const steps: IJobStep[] = [
+      { name: 'download', status: 'pending' },
+      ...options.pipeline.map(({ type, save, ...params }): IJobStep => ({
+        name: type,
+        status: 'pending',
+        params,
+        save
+      }))
+    ];
+
+    const job = await jobRepo.create({
+      jobId: randomUUID(),
+      userId,
+      batchId: batchId || null,
+      dropboxPath,
+      options,
+      status: 'queued',
+      steps,
+      results: {}
+    });
+
+    console.log(`🆕 [JOBS] Created job ${job.jobId} for user ${userId}:`, {
+      dropboxPath,
+      pipeline: options.pipeline.map(step => step.type).join(' → ')
+    });
+    return job;
+  }
+
+  async getJob(jobId: string): Promise<IProcessingJob | null> {
+    return jobRepo.findByJobId(jobId);
+  }
+
+  async listJobs(userId: string, limit?: number): Promise<IProcessingJob[]> {
+    return jobRepo.findByUserId(userId, limit);
+  }
+
+  async listBatchJobs(batchId: string): Promise<IProcessingJob[]> {
+    return jobRepo.findByBatchId(batchId);
+  }
+
+  // Download the original, then run each pipeline step on the previous step's output,
+  // persisting state after every step. Never throws: failures are recorded on the job document,
+  // and every finished job is kept as a history record.
+  async runJob(dbx: Dropbox, job: IProcessingJob): Promise<void> {
+    // Picsart calls made anywhere below are charged to the job's owner
+    return runWithUsageContext({ userId: job.userId, jobId: job.jobId }, () => this.executeJob(dbx, job));
+  }
+
+  private async executeJob(dbx: Dropbox, job: IProcessingJob): Promise<void> {
+    const { jobId, dropboxPath, options } = job;
+
+    await jobRepo.update(jobId, { status: 'running', startedAt: new Date() });
+    console.log(`🚀 [JOBS] Starting job ${jobId}`);
+
+    // Steps are addressed by index: job.steps[0] is the download, job.steps[i + 1] is pipeline[i]
+    let currentIndex = 0;
+    let stepStartedAt = Date.now();
+    const stepName = (index: number) => job.steps[index].name;
+    let sourceFileId: string | undefined;
+    const picsartAttempts: number[] = job.steps.map(() => 0);
+
+    // Live progress for SSE subscribers, tagged with the step it belongs to
+    const report: ProgressReporter = (event) => {
+      if (event.stage === 'picsart_request') picsartAttempts[currentIndex]++;
+      processingEvents.publish(jobId, { ...event, step: stepName(currentIndex), stepIndex: currentIndex });
+    };
+
+    const startStep = async (index: number) => {
+      currentIndex = index;
+      stepStartedAt = Date.now();
+      await jobRepo.update(jobId, {
+        currentStep: stepName(index),
+        currentStepIndex: index,
+        [`steps.${index}.status`]: 'running',
+        [`steps.${index}.startedAt`]: new Date()
+      });
+      report({ stage: 'step_started', message: `Started ${stepName(index)}` });
+    };
+
+    const completeStep = async (index: number, output: Buffer, extra: Record<string, any> = {}) => {
+      // Dimensions are informational - an undecodable image shouldn't fail the step
+      const { width, height, format } = await sharp(output).metadata()
+        .catch(() => ({ width: undefined, height: undefined, format: undefined }));
+      await jobRepo.update(jobId, {
+        [`steps.${index}.status`]: 'completed',
+        [`steps.${index}.completedAt`]: new Date(),
+        [`steps.${index}.durationMs`]: Date.now() - stepStartedAt,
+        [`steps.${index}.outputSize`]: output.length,
+        [`steps.${index}.width`]: width,
+        [`steps.${index}.height`]: height,
+        [`steps.${index}.format`]: format,
+        ...extra
+      });
+      report({ stage: 'step_completed', message: `Completed ${stepName(index)}` });
+    };
+
+    // Record which provider produced a step (and why, if it was a fallback)
+    const providerFields = (index: number, processed: ProcessedImage) => ({
+      [`steps.${index}.provider`]: processed.provider,
+      ...(processed.failoverReason ? { [`steps.${index}.failoverReason`]: processed.failoverReason } : {}),
+      ...(processed.cacheHit ? { [`steps.${index}.cacheHit`]: true } : {})
+    });
+
+    try {
+      // Download the original image
+      await startStep(0);
+      report({ stage: 'dropbox_download', message: 'Downloading original image from Dropbox' });
+      const { buffer: originalBuffer, fileId } = await this.dropboxService.downloadImageWithId(dbx, dropboxPath);
+      sourceFileId = fileId;
+      console.log(`📥 [JOBS] ${jobId}: original image downloaded, size:`, originalBuffer.length, 'bytes');
+      await completeStep(0, originalBuffer);
+
+      // Don't upload original - only processed versions will be saved
+      let processedBuffer = originalBuffer;
+
+      for (let i = 0; i < options.pipeline.length; i++) {
+        const step = options.pipeline[i];
+        const index = i + 1;
+        const isLast = i === options.pipeline.length - 1;
+
+        await startStep(index);
+        const processed = await this.runStep(step, processedBuffer, report);
+        processedBuffer = processed.buffer;
+
+        const extra: Record<string, any> = providerFields(index, processed);
+        // What ends up in Dropbox: the step output, re-encoded by the output stage if one is set
+        let savedBuffer = processedBuffer;
+        if (step.save || isLast) {
+          if (options.output) {
+            report({ stage: 'local_processing', message: `Encoding output as ${options.output.format}` });
+            savedBuffer = await encodeOutput(processedBuffer, options.output);
+          }
+
+          report({ stage: 'dropbox_upload', message: `Saving ${step.type} output to Dropbox` });
+          const { path: outputPath, action } = await this.dropboxService.uploadProcessedImage(
+            dbx,
+            savedBuffer,
+            dropboxPath,
+            {
+              op: stepSuffix(step),
+              factor: step.type === 'upscale' ? `${step.factor}x` : undefined,
+              // Name the file after its real encoding, e.g. Picsart upscales come back as JPEG
+              extension: extensionForEncoding(await detectEncoding(savedBuffer)),
+              presetName: options.presetName,
+              outputFolder: options.outputFolder,
+              filenameTemplate: options.filenameTemplate
+            },
+            options.conflictPolicy
+          );
+          extra[`steps.${index}.outputPath`] = outputPath;
+          extra[`steps.${index}.uploadAction`] = action;
+          if (step.type === 'removeBg') extra['results.backgroundRemoved'] = outputPath;
+          if (step.type === 'upscale') extra['results.upscaled'] = outputPath;
+          if (isLast) extra['results.final'] = outputPath;
+        }
+
+        await completeStep(index, savedBuffer, extra);
+      }
+
+      await jobRepo.update(jobId, {
+        status: 'completed',
+        currentStep: null,
+        currentStepIndex: null,
+        completedAt: new Date()
+      });
+      console.log(`🎉 [JOBS] Job ${jobId} completed successfully`);
+      processingEvents.publish(jobId, { stage: 'job_completed', message: 'Processing completed', step: null, stepIndex: null });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ [JOBS] Job ${jobId} failed during ${stepName(currentIndex)} (step ${currentIndex}):`, error);
+
+      try {
+        await jobRepo.update(jobId, {
+          status: 'failed',
+          error: message,
+          completedAt: new Date(),
+          [`steps.${currentIndex}.status`]: 'failed',
+          [`steps.${currentIndex}.completedAt`]: new Date(),
+          [`steps.${currentIndex}.durationMs`]: Date.now() - stepStartedAt,
+          [`steps.${currentIndex}.error`]: message
+        });
+      } catch (updateError) {
+        console.error(`❌ [JOBS] Could not record failure for job ${jobId}:`, updateError);
+      }
+      processingEvents.publish(jobId, { stage: 'job_failed', message, step: stepName(currentIndex), stepIndex: currentIndex });
+    }
+
+    try {
+      const finished = await jobRepo.findByJobId(jobId);
+      if (finished) {
+        await this.historyService.recordJob(finished, { sourceFileId, picsartAttempts });
+      }
+    } catch (historyError) {
+      console.error(`❌ [JOBS] Could not record history for job ${jobId}:`, historyError);
+    }
+  }
+
+  // Provider operations go through the image processor; format and size changes are local sharp work
+  private async runStep(step: PipelineStep, image: Buffer, report: ProgressReporter): Promise<ProcessedImage> {
+    switch (step.type) {
+      case 'removeBg':
+        return this.imageProcessor.process({ operation: 'removeBg', image, options: step.options }, report);
+      case 'upscale':
+        return this.imageProcessor.process({ operation: 'upscale', image, factor: step.factor }, report);
+      case 'convert':
+        report({ stage: 'local_processing', message: `Converting to ${step.format}` });
+        return { buffer: await convertImage(image, step.format, step.quality), provider: 'sharp' };
+      case 'resize':
+        report({
+          stage: 'local_processing',
+          message: `Resizing to ${step.width ?? 'auto'}x${step.height ?? 'auto'} (${step.fit})`
+        });
+        return { buffer: await resizeImage(image, step), provider: 'sharp' };
+    }
+  }
+
+  // Shape a job document for API responses
+  toResponse(job: IProcessingJob) {
+    return {
+      jobId: job.jobId,
+      batchId: job.batchId || null,
+      status: job.status,
+      currentStep: job.currentStep || null,
+      currentStepIndex: job.currentStepIndex ?? null,
+      dropboxPath: job.dropboxPath,
+      options: job.options,
+      conflictPolicy: job.options.conflictPolicy || DEFAULT_CONFLICT_POLICY,
+      steps: job.steps.map(step => ({
+        name: step.name,
+        status: step.status,
+        startedAt: step.startedAt,
+        completedAt: step.completedAt,
+        params: step.params,
+        save: step.save,
+        outputPath: step.outputPath,
+        outputSize: step.outputSize,
+        width: step.width,
+        height: step.height,
+        format: step.format,
+        uploadAction: step.uploadAction,
+        durationMs: step.durationMs,
+        provider: step.provider,
+        failoverReason: step.failoverReason,
+        cacheHit: !!step.cacheHit,
+        error: step.error
+      })),
+      // Whether any step was served from the result cache
+      cacheHit: job.steps.some(step => step.cacheHit),
+      results: {
+        backgroundRemoved: job.results?.backgroundRemoved,
+        upscaled: job.results?.upscaled,
+        final: job.results?.final
+      },
+      error: job.error || null,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt
+    };
+  }
+}
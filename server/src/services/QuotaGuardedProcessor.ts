@@ -0,0 +1,32 @@
+import { ImageProcessor, ImageOperation, ImageOperationRequest, ProcessedImage } from './ImageProcessor';
+import { ProgressReporter, noopReporter } from './ProcessingEvents';
+import { UsageService } from './UsageService';
+import { currentUsageContext } from '../utils/usageContext';
+
+// Stops Picsart calls for users who have used up their Picsart quota. Wraps only the Picsart
+// provider inside the router, so a rejected step fails over to the fallback like any other
+// Picsart failure, and steps the fallback serves are neither blocked nor charged.
+export class QuotaGuardedProcessor implements ImageProcessor {
+  readonly name: string;
+
+  constructor(private inner: ImageProcessor, private usageService: UsageService) {
+    // The router picks providers by name, so the guard goes by the provider's
+    this.name = inner.name;
+  }
+
+  supports(operation: ImageOperation): boolean {
+    return this.inner.supports(operation);
+  }
+
+  isAvailable(): boolean {
+    return this.inner.isAvailable();
+  }
+
+  async process(request: ImageOperationRequest, report: ProgressReporter = noopReporter): Promise<ProcessedImage> {
+    const context = currentUsageContext();
+    if (context) {
+      await this.usageService.assertWithinQuota(context.userId);
+    }
+    return this.inner.process(request, report);
+  }
+}
@@ -0,0 +1,124 @@
+import { RateLimitBucketModel } from '../models/RateLimitBucket';
+
+export interface BucketSettings {
+  // Burst size: a full bucket holds this many tokens
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  // Whole tokens left after this request
+  remaining: number;
+  // Until the next token is available (0 when one is left)
+  retryAfterMs: number;
+  // Until the bucket is full again
+  resetMs: number;
+}
+
+// Where token buckets live. take() refills the bucket for the time since its last use,
+// then takes one token if there is one - atomically, so concurrent requests can't overspend.
+export interface RateLimitStore {
+  readonly name: string;
+  take(key: string, bucket: BucketSettings, now?: number): Promise<TakeResult>;
+}
+
+function takeResult(allowed: boolean, tokens: number, bucket: BucketSettings): TakeResult {
+  return {
+    allowed,
+    remaining: Math.floor(tokens),
+    retryAfterMs: tokens >= 1 ? 0 : Math.ceil(((1 - tokens) / bucket.refillPerSecond) * 1000),
+    resetMs: Math.ceil(((bucket.capacity - tokens) / bucket.refillPerSecond) * 1000)
+  };
+}
+
+interface MemoryBucket {
+  tokens: number;
+  refilledAt: number;
+  // Full again (and safe to forget) after this
+  expiresAt: number;
+}
+
+const SWEEP_INTERVAL_MS = 60000;
+
+// Buckets in this process only - the default, fine for a single server instance
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private buckets = new Map<string, MemoryBucket>();
+
+  constructor() {
+    // Forget idle buckets; a missing bucket is the same as a full one
+    setInterval(() => {
+      const now = Date.now();
+      for (const [key, bucket] of this.buckets) {
+        if (bucket.expiresAt <= now) this.buckets.delete(key);
+      }
+    }, SWEEP_INTERVAL_MS).unref();
+  }
+
+  async take(key: string, bucket: BucketSettings, now: number = Date.now()): Promise<TakeResult> {
+    const existing = this.buckets.get(key);
+    const refilled = existing
+      ? Math.min(bucket.capacity, existing.tokens + ((now - existing.refilledAt) / 1000) * bucket.refillPerSecond)
+      : bucket.capacity;
+
+    const allowed = refilled >= 1;
+    const tokens = allowed ? refilled - 1 : refilled;
+    const result = takeResult(allowed, tokens, bucket);
+    this.buckets.set(key, { tokens, refilledAt: now, expiresAt: now + result.resetMs });
+    return result;
+  }
+}
+
+// Buckets in MongoDB, shared by every server instance. The refill and take run as one
+// pipeline update, so instances racing on the same key still take one token each.
+export class MongoRateLimitStore implements RateLimitStore {
+  readonly name = 'mongo';
+
+  async take(key: string, bucket: BucketSettings, now: number = Date.now()): Promise<TakeResult> {
+    const nowDate = new Date(now);
+    const elapsedSeconds = { $divide: [{ $subtract: [nowDate, { $ifNull: ['$refilledAt', nowDate] }] }, 1000] };
+    const refilled = {
+      $min: [
+        bucket.capacity,
+        { $add: [{ $ifNull: ['$tokens', bucket.capacity] }, { $multiply: [elapsedSeconds, bucket.refillPerSecond] }] }
+      ]
+    };
+
+    const updated = await RateLimitBucketModel.collection.findOneAndUpdate(
+      { key },
+      [
+        { $set: { tokens: refilled, refilledAt: nowDate } },
+        // Both fields read the refilled count from the previous stage
+        {
+          $set: {
+            allowed: { $gte: ['$tokens', 1] },
+            tokens: { $cond: [{ $gte: ['$tokens', 1] }, { $subtract: ['$tokens', 1] }, '$tokens'] }
+          }
+        },
+        {
+          $set: {
+            expiresAt: {
+              $add: [nowDate, { $multiply: [{ $divide: [{ $subtract: [bucket.capacity, '$tokens'] }, bucket.refillPerSecond] }, 1000] }]
+            }
+          }
+        }
+      ],
+      { upsert: true, returnDocument: 'after' }
+    );
+
+    if (!updated) {
+      throw new Error(`Rate limit bucket ${key} was not written`);
+    }
+    return takeResult(!!updated.allowed, updated.tokens, bucket);
+  }
+}
+
+export function rateLimitStoreFromEnv(): RateLimitStore {
+  const store = process.env.RATE_LIMIT_STORE || 'memory';
+  if (store === 'mongo') return new MongoRateLimitStore();
+  if (store !== 'memory') {
+    console.warn(`⚠️ [RATE LIMIT] Unknown RATE_LIMIT_STORE "${store}", using memory`);
+  }
+  return new MemoryRateLimitStore();
+}
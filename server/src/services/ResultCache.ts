@@ -0,0 +1,170 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export interface ResultCacheConfig {
+  dir: string;
+  // Total size of cached outputs; least recently used entries are evicted beyond it. 0 disables the cache.
+  maxBytes: number;
+}
+
+export interface CachedResult {
+  buffer: Buffer;
+  // Provider that originally produced the output
+  provider: string;
+}
+
+export interface ResultCacheStats {
+  enabled: boolean;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+interface CacheEntry {
+  size: number;
+  provider: string;
+}
+
+export function resultCacheConfigFromEnv(): ResultCacheConfig {
+  return {
+    dir: process.env.RESULT_CACHE_DIR || path.join(os.tmpdir(), 'picsart-dropbox-result-cache'),
+    maxBytes: parseInt(process.env.RESULT_CACHE_MAX_MB || '500', 10) * 1024 * 1024
+  };
+}
+
+// Processing outputs on disk, keyed by a hash of input content, operation and parameters.
+// Each entry is "<key>.bin" plus a "<key>.json" sidecar; the index lives in memory in
+// least-recently-used order and is rebuilt from the directory on startup.
+export class ResultCache {
+  private entries = new Map<string, CacheEntry>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private ready: Promise<void> | null = null;
+
+  constructor(private config: ResultCacheConfig = resultCacheConfigFromEnv()) {}
+
+  get enabled(): boolean {
+    return this.config.maxBytes > 0;
+  }
+
+  async get(key: string): Promise<CachedResult | null> {
+    if (!this.enabled) return null;
+    await this.load();
+
+    const entry = this.entries.get(key);
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
+
+    try {
+      const buffer = await fs.readFile(this.filePath(key, 'bin'));
+      // Move to the most recently used end, and on disk for the next startup
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      const now = new Date();
+      fs.utimes(this.filePath(key, 'bin'), now, now).catch(() => {});
+      this.hits++;
+      return { buffer, provider: entry.provider };
+    } catch {
+      // Removed behind our back - forget it
+      this.forget(key);
+      this.misses++;
+      return null;
+    }
+  }
+
+  // Never throws: a cache that can't be written just means paying for the call next time
+  async set(key: string, result: CachedResult): Promise<void> {
+    if (!this.enabled || result.buffer.length > this.config.maxBytes) return;
+    try {
+      await this.load();
+      await fs.writeFile(this.filePath(key, 'bin'), result.buffer);
+      await fs.writeFile(this.filePath(key, 'json'), JSON.stringify({ provider: result.provider }));
+
+      this.forget(key);
+      this.entries.set(key, { size: result.buffer.length, provider: result.provider });
+      this.bytes += result.buffer.length;
+      await this.evict();
+    } catch (error) {
+      console.error('⚠️ [RESULT CACHE] Could not store result:', (error as Error).message);
+    }
+  }
+
+  getStats(): ResultCacheStats {
+    return {
+      enabled: this.enabled,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.config.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions
+    };
+  }
+
+  private load(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.scan().catch(error => {
+        console.error('⚠️ [RESULT CACHE] Could not read cache directory:', (error as Error).message);
+      });
+    }
+    return this.ready;
+  }
+
+  // Rebuild the index from disk, oldest access first
+  private async scan(): Promise<void> {
+    await fs.mkdir(this.config.dir, { recursive: true });
+    const found: { key: string; size: number; provider: string; usedAt: number }[] = [];
+
+    for (const name of await fs.readdir(this.config.dir)) {
+      if (!name.endsWith('.bin')) continue;
+      const key = name.slice(0, -'.bin'.length);
+      try {
+        const stat = await fs.stat(this.filePath(key, 'bin'));
+        const meta = JSON.parse(await fs.readFile(this.filePath(key, 'json'), 'utf8'));
+        found.push({ key, size: stat.size, provider: meta.provider, usedAt: stat.mtimeMs });
+      } catch {
+        await this.remove(key);
+      }
+    }
+
+    for (const entry of found.sort((a, b) => a.usedAt - b.usedAt)) {
+      this.entries.set(entry.key, { size: entry.size, provider: entry.provider });
+      this.bytes += entry.size;
+    }
+    console.log(`🗃️ [RESULT CACHE] ${this.entries.size} cached results (${(this.bytes / 1024 / 1024).toFixed(1)} MB) in ${this.config.dir}`);
+    await this.evict();
+  }
+
+  private async evict(): Promise<void> {
+    for (const key of this.entries.keys()) {
+      if (this.bytes <= this.config.maxBytes) break;
+      this.forget(key);
+      this.evictions++;
+      await this.remove(key);
+    }
+  }
+
+  private forget(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.bytes -= entry.size;
+      this.entries.delete(key);
+    }
+  }
+
+  private async remove(key: string): Promise<void> {
+    await Promise.all(['bin', 'json'].map(ext => fs.rm(this.filePath(key, ext), { force: true })));
+  }
+
+  private filePath(key: string, ext: string): string {
+    return path.join(this.config.dir, `${key}.${ext}`);
+  }
+}
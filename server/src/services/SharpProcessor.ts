@@ -0,0 +1,63 @@
+import sharp from 'sharp';
+import { ImageProcessor, ImageOperation, ImageOperationRequest, ProcessedImage } from './ImageProcessor';
+import { ProgressReporter, noopReporter } from './ProcessingEvents';
+import { RemoveBgOptions } from '../utils/removeBgOptions';
+import { chromaKeyCutout, lanczosUpscale, encodeAs } from '../utils/imageTransforms';
+
+// Local provider built on sharp: Lanczos upscaling and a corner-color chroma cutout.
+// Lower quality than Picsart, but free and always available.
+export class SharpProcessor implements ImageProcessor {
+  readonly name = 'sharp';
+  private cutoutTolerance: number;
+
+  constructor() {
+    this.cutoutTolerance = parseInt(process.env.SHARP_CUTOUT_TOLERANCE || '60', 10);
+  }
+
+  supports(operation: ImageOperation): boolean {
+    return operation === 'removeBg' || operation === 'upscale';
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async process(request: ImageOperationRequest, report: ProgressReporter = noopReporter): Promise<ProcessedImage> {
+    if (request.operation === 'removeBg') {
+      report({ stage: 'local_processing', message: 'Removing background locally with sharp' });
+      return { buffer: await this.removeBg(request.image, request.options), provider: this.name };
+    }
+
+    report({ stage: 'local_processing', message: `Upscaling ${request.factor}x locally with sharp` });
+    return { buffer: await this.upscale(request.image, request.factor), provider: this.name };
+  }
+
+  private async removeBg(imageBuffer: Buffer, options: RemoveBgOptions): Promise<Buffer> {
+    console.log('🪄 [SHARP] Removing background, tolerance:', this.cutoutTolerance);
+    const isMask = options.outputType === 'mask';
+    let image = await chromaKeyCutout(imageBuffer, { tolerance: this.cutoutTolerance, mask: isMask });
+
+    if (!isMask && options.backgroundColor) {
+      image = image.flatten({ background: options.backgroundColor });
+    } else if (options.format === 'JPG') {
+      // JPEG has no alpha channel - fill with white like Picsart does
+      image = image.flatten({ background: '#FFFFFF' });
+    }
+
+    // Background images, blur, stroke and shadow are Picsart-only features
+    const output = await encodeAs(image, options.format);
+    console.log('✅ [SHARP] Background removed, output size:', output.length, 'bytes');
+    return output;
+  }
+
+  private async upscale(imageBuffer: Buffer, factor: number): Promise<Buffer> {
+    console.log(`🪄 [SHARP] Upscaling ${factor}x with Lanczos`);
+    const upscaled = await lanczosUpscale(imageBuffer, factor);
+
+    // Match the Picsart upscale output (JPG)
+    const output = await encodeAs(upscaled.flatten({ background: '#FFFFFF' }), 'JPG');
+    const { width, height } = await sharp(output).metadata();
+    console.log(`✅ [SHARP] Upscaled to ${width}x${height}, output size:`, output.length, 'bytes');
+    return output;
+  }
+}
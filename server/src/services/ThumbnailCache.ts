@@ -0,0 +1,177 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+export interface ThumbnailCacheConfig {
+  dir: string;
+  // Hot thumbnails kept in memory; 0 disables the memory tier
+  maxMemoryBytes: number;
+  // Every thumbnail fetched, on disk; 0 disables the disk tier
+  maxDiskBytes: number;
+}
+
+export interface ThumbnailCacheStats {
+  memoryEntries: number;
+  memoryBytes: number;
+  diskEntries: number;
+  diskBytes: number;
+  memoryHits: number;
+  diskHits: number;
+  misses: number;
+}
+
+export function thumbnailCacheConfigFromEnv(): ThumbnailCacheConfig {
+  return {
+    dir: process.env.THUMBNAIL_CACHE_DIR || path.join(os.tmpdir(), 'picsart-dropbox-thumbnails'),
+    maxMemoryBytes: parseInt(process.env.THUMBNAIL_MEMORY_CACHE_MB || '32', 10) * 1024 * 1024,
+    maxDiskBytes: parseInt(process.env.THUMBNAIL_CACHE_MAX_MB || '200', 10) * 1024 * 1024
+  };
+}
+
+// Two-tier thumbnail cache: an in-memory LRU in front of "<key>.jpg" files on disk.
+// Both indexes are Maps in least-recently-used order; the disk one is rebuilt from file
+// access times on startup, and disk hits are promoted to memory.
+export class ThumbnailCache {
+  private memory = new Map<string, Buffer>();
+  private memoryBytes = 0;
+  private disk = new Map<string, number>();
+  private diskBytes = 0;
+  private memoryHits = 0;
+  private diskHits = 0;
+  private misses = 0;
+  private ready: Promise<void> | null = null;
+
+  constructor(private config: ThumbnailCacheConfig = thumbnailCacheConfigFromEnv()) {}
+
+  async get(key: string): Promise<Buffer | null> {
+    const cached = this.memory.get(key);
+    if (cached) {
+      this.memory.delete(key);
+      this.memory.set(key, cached);
+      this.memoryHits++;
+      return cached;
+    }
+
+    if (this.config.maxDiskBytes > 0) {
+      await this.load();
+      const size = this.disk.get(key);
+      if (size !== undefined) {
+        try {
+          const buffer = await fs.readFile(this.filePath(key));
+          this.disk.delete(key);
+          this.disk.set(key, size);
+          const now = new Date();
+          fs.utimes(this.filePath(key), now, now).catch(() => {});
+          this.remember(key, buffer);
+          this.diskHits++;
+          return buffer;
+        } catch {
+          // Removed behind our back - forget it
+          this.forgetOnDisk(key);
+        }
+      }
+    }
+
+    this.misses++;
+    return null;
+  }
+
+  // Never throws: an unwritable cache only means fetching from Dropbox again
+  async set(key: string, buffer: Buffer): Promise<void> {
+    this.remember(key, buffer);
+    if (this.config.maxDiskBytes <= 0 || buffer.length > this.config.maxDiskBytes) return;
+
+    try {
+      await this.load();
+      await fs.writeFile(this.filePath(key), buffer);
+      this.forgetOnDisk(key);
+      this.disk.set(key, buffer.length);
+      this.diskBytes += buffer.length;
+      await this.evictFromDisk();
+    } catch (error) {
+      console.error('⚠️ [THUMBNAILS] Could not store thumbnail:', (error as Error).message);
+    }
+  }
+
+  getStats(): ThumbnailCacheStats {
+    return {
+      memoryEntries: this.memory.size,
+      memoryBytes: this.memoryBytes,
+      diskEntries: this.disk.size,
+      diskBytes: this.diskBytes,
+      memoryHits: this.memoryHits,
+      diskHits: this.diskHits,
+      misses: this.misses
+    };
+  }
+
+  private remember(key: string, buffer: Buffer): void {
+    if (buffer.length > this.config.maxMemoryBytes) return;
+    const existing = this.memory.get(key);
+    if (existing) {
+      this.memoryBytes -= existing.length;
+      this.memory.delete(key);
+    }
+    this.memory.set(key, buffer);
+    this.memoryBytes += buffer.length;
+
+    for (const [oldKey, oldBuffer] of this.memory) {
+      if (this.memoryBytes <= this.config.maxMemoryBytes) break;
+      this.memory.delete(oldKey);
+      this.memoryBytes -= oldBuffer.length;
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.scan().catch(error => {
+        console.error('⚠️ [THUMBNAILS] Could not read cache directory:', (error as Error).message);
+      });
+    }
+    return this.ready;
+  }
+
+  // Rebuild the disk index, oldest access first
+  private async scan(): Promise<void> {
+    await fs.mkdir(this.config.dir, { recursive: true });
+    const found: { key: string; size: number; usedAt: number }[] = [];
+
+    for (const name of await fs.readdir(this.config.dir)) {
+      if (!name.endsWith('.jpg')) continue;
+      const key = name.slice(0, -'.jpg'.length);
+      try {
+        const stat = await fs.stat(this.filePath(key));
+        found.push({ key, size: stat.size, usedAt: stat.mtimeMs });
+      } catch {
+        // Gone between readdir and stat
+      }
+    }
+
+    for (const entry of found.sort((a, b) => a.usedAt - b.usedAt)) {
+      this.disk.set(entry.key, entry.size);
+      this.diskBytes += entry.size;
+    }
+    console.log(`🖼️ [THUMBNAILS] ${this.disk.size} cached thumbnails (${(this.diskBytes / 1024 / 1024).toFixed(1)} MB) in ${this.config.dir}`);
+    await this.evictFromDisk();
+  }
+
+  private async evictFromDisk(): Promise<void> {
+    for (const key of this.disk.keys()) {
+      if (this.diskBytes <= this.config.maxDiskBytes) break;
+      this.forgetOnDisk(key);
+      await fs.rm(this.filePath(key), { force: true });
+    }
+  }
+
+  private forgetOnDisk(key: string): void {
+    const size = this.disk.get(key);
+    if (size !== undefined) {
+      this.diskBytes -= size;
+      this.disk.delete(key);
+    }
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.config.dir, `${key}.jpg`);
+  }
+}
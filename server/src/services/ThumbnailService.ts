@@ -0,0 +1,91 @@
+import { createHash } from 'crypto';
+import { Dropbox, files } from 'dropbox';
+import { DropboxService } from './DropboxService';
+import { ThumbnailCache, ThumbnailCacheStats } from './ThumbnailCache';
+
+export type ThumbnailSize = files.ThumbnailSize['.tag'];
+
+export const THUMBNAIL_SIZES: ThumbnailSize[] = [
+  'w32h32', 'w64h64', 'w128h128', 'w256h256', 'w480h320', 'w640h480', 'w960h640', 'w1024h768', 'w2048h1536'
+];
+
+export const DEFAULT_THUMBNAIL_SIZE: ThumbnailSize = 'w256h256';
+
+export const isThumbnailSize = (value: unknown): value is ThumbnailSize =>
+  typeof value === 'string' && (THUMBNAIL_SIZES as string[]).includes(value);
+
+export interface ThumbnailRequest {
+  fileId: string;
+  // The revision the caller knows about; cached thumbnails are looked up by it
+  rev?: string;
+}
+
+export type ThumbnailResult =
+  | { fileId: string; rev: string; etag: string; buffer: Buffer }
+  | { fileId: string; error: string };
+
+// Dropbox file IDs are used with their "id:" prefix
+export const normalizeFileId = (fileId: string) => fileId.startsWith('id:') ? fileId : `id:${fileId}`;
+
+// A thumbnail's content is fixed by file, revision and size, so its ETag is too
+export function thumbnailEtag(fileId: string, rev: string, size: ThumbnailSize): string {
+  return `"${createHash('sha1').update(`${fileId}:${rev}:${size}`).digest('hex')}"`;
+}
+
+// Cache entries are per user, so one account can never be served another's thumbnail by ID
+const cacheKey = (userId: string, fileId: string, rev: string, size: ThumbnailSize) =>
+  createHash('sha256').update(`${userId}:${fileId}:${rev}:${size}`).digest('hex');
+
+// Gallery thumbnails: served from the cache by file + revision + size, and fetched from
+// Dropbox in batches when missing
+export class ThumbnailService {
+  constructor(private dropboxService: DropboxService, private cache: ThumbnailCache = new ThumbnailCache()) {}
+
+  async getThumbnails(dbx: Dropbox, userId: string, requests: ThumbnailRequest[], size: ThumbnailSize): Promise<ThumbnailResult[]> {
+    const results: ThumbnailResult[] = new Array(requests.length);
+    const missing: number[] = [];
+
+    await Promise.all(requests.map(async (request, index) => {
+      const fileId = normalizeFileId(request.fileId);
+      const cached = request.rev ? await this.cache.get(cacheKey(userId, fileId, request.rev, size)) : null;
+      if (cached) {
+        results[index] = { fileId, rev: request.rev!, etag: thumbnailEtag(fileId, request.rev!, size), buffer: cached };
+      } else {
+        missing.push(index);
+      }
+    }));
+
+    if (missing.length > 0) {
+      const fetched = await this.dropboxService.getThumbnailBatch(
+        dbx,
+        missing.map(index => normalizeFileId(requests[index].fileId)),
+        size
+      );
+      await Promise.all(fetched.map(async (thumbnail, position) => {
+        const index = missing[position];
+        if ('error' in thumbnail) {
+          results[index] = thumbnail;
+          return;
+        }
+        // Keyed by the revision Dropbox rendered, which may be newer than the one asked for
+        await this.cache.set(cacheKey(userId, thumbnail.fileId, thumbnail.rev, size), thumbnail.buffer);
+        results[index] = { ...thumbnail, etag: thumbnailEtag(thumbnail.fileId, thumbnail.rev, size) };
+      }));
+    }
+
+    console.log(`🖼️ [THUMBNAILS] ${requests.length - missing.length}/${requests.length} thumbnails from cache`);
+    return results;
+  }
+
+  // A single thumbnail; without a revision the current one is looked up first
+  async getThumbnail(dbx: Dropbox, userId: string, request: ThumbnailRequest, size: ThumbnailSize): Promise<ThumbnailResult> {
+    const fileId = normalizeFileId(request.fileId);
+    const rev = request.rev || await this.dropboxService.getFileRev(dbx, fileId);
+    const [result] = await this.getThumbnails(dbx, userId, [{ fileId, rev }], size);
+    return result;
+  }
+
+  getStats(): ThumbnailCacheStats {
+    return this.cache.getStats();
+  }
+}
@@ -0,0 +1,185 @@
+import { PicsartUsageRepository, UsageTotals } from '../repositories/PicsartUsageRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { IPicsartUsage } from '../models/PicsartUsage';
+import { PicsartCallMetrics } from './PicsartClient';
+import { UsageContext } from '../utils/usageContext';
+
+const usageRepo = new PicsartUsageRepository();
+const userRepo = new UserRepository();
+
+export type UsagePeriod = 'day' | 'month';
+
+export interface UsageSettings {
+  // Server-wide credit limits per UTC day / month; null means unlimited
+  dailyCredits: number | null;
+  monthlyCredits: number | null;
+  // Credits charged per successful call, by Picsart tool
+  creditCosts: Record<string, number>;
+  defaultCreditCost: number;
+}
+
+export interface PeriodUsage extends UsageTotals {
+  period: UsagePeriod;
+  limit: number | null;
+  remaining: number | null;
+  since: Date;
+  resetsAt: Date;
+}
+
+export interface UsageSummary {
+  day: PeriodUsage;
+  month: PeriodUsage;
+}
+
+const parseLimit = (value: string | undefined): number | null => {
+  if (value === undefined || value.trim() === '') return null;
+  const limit = Number(value);
+  return Number.isFinite(limit) && limit >= 0 ? limit : null;
+};
+
+// PICSART_CREDIT_COSTS looks like "removebg=1,upscale=2"
+const parseCreditCosts = (value: string | undefined): Record<string, number> => {
+  const costs: Record<string, number> = {};
+  for (const entry of (value || '').split(',')) {
+    const [tool, cost] = entry.split('=').map(part => part.trim());
+    if (tool && cost !== undefined && Number.isFinite(Number(cost))) {
+      costs[tool] = Number(cost);
+    }
+  }
+  return costs;
+};
+
+export function usageSettingsFromEnv(): UsageSettings {
+  return {
+    dailyCredits: parseLimit(process.env.PICSART_QUOTA_DAILY_CREDITS),
+    monthlyCredits: parseLimit(process.env.PICSART_QUOTA_MONTHLY_CREDITS),
+    creditCosts: parseCreditCosts(process.env.PICSART_CREDIT_COSTS),
+    defaultCreditCost: 1
+  };
+}
+
+const startOfUtcDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+const startOfUtcMonth = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+// Thrown when a user has used up a Picsart quota; surfaces as a 429
+export class QuotaExceededError extends Error {
+  readonly code = 'usage_quota_exceeded';
+
+  constructor(public usage: PeriodUsage) {
+    super(describeExceededQuota(usage));
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export function describeExceededQuota(usage: PeriodUsage): string {
+  const label = usage.period === 'day' ? 'Daily' : 'Monthly';
+  return `${label} Picsart quota exceeded: ${usage.credits} of ${usage.limit} credits used. ` +
+    `It resets at ${usage.resetsAt.toISOString()}.`;
+}
+
+// Per-user accounting of Picsart calls (tool, megapixels, credits) and daily / monthly quotas
+export class UsageService {
+  constructor(private settings: UsageSettings = usageSettingsFromEnv()) {}
+
+  creditsFor(call: PicsartCallMetrics): number {
+    if (!call.success) return 0;
+    return this.settings.creditCosts[call.tool] ?? this.settings.defaultCreditCost;
+  }
+
+  async recordCall(context: UsageContext | undefined, call: PicsartCallMetrics): Promise<IPicsartUsage | null> {
+    if (!context) {
+      // e.g. the connection warm-up - not made on anyone's behalf
+      console.log(`📈 [USAGE] ${call.tool} call outside a user context, not recorded`);
+      return null;
+    }
+
+    const usage = await usageRepo.create({
+      userId: context.userId,
+      jobId: context.jobId || null,
+      tool: call.tool,
+      success: call.success,
+      megapixels: call.megapixels ?? null,
+      credits: this.creditsFor(call),
+      durationMs: call.durationMs,
+      apiAttempts: call.apiAttempts,
+      httpStatus: call.httpStatus ?? null,
+      errorCode: call.errorCode ?? null
+    });
+    console.log(`📈 [USAGE] ${context.userId}: ${call.tool} ${call.success ? 'succeeded' : 'failed'}, ${usage.credits} credits`);
+    return usage;
+  }
+
+  async getUsage(userId: string, now: Date = new Date()): Promise<UsageSummary> {
+    const limits = await this.getLimits(userId);
+    const dayStart = startOfUtcDay(now);
+    const monthStart = startOfUtcMonth(now);
+
+    const [dayTotals, monthTotals] = await Promise.all([
+      usageRepo.sumSince(userId, dayStart),
+      usageRepo.sumSince(userId, monthStart)
+    ]);
+
+    const periodUsage = (period: UsagePeriod, totals: UsageTotals, limit: number | null, since: Date, resetsAt: Date): PeriodUsage => ({
+      period,
+      ...totals,
+      limit,
+      remaining: limit === null ? null : Math.max(0, limit - totals.credits),
+      since,
+      resetsAt
+    });
+
+    return {
+      day: periodUsage('day', dayTotals, limits.dailyCredits, dayStart,
+        new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1))),
+      month: periodUsage('month', monthTotals, limits.monthlyCredits, monthStart,
+        new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)))
+    };
+  }
+
+  async listRecentCalls(userId: string, limit: number): Promise<IPicsartUsage[]> {
+    return usageRepo.findRecent(userId, limit);
+  }
+
+  // The period whose quota is used up (the month first, since it resets later), or null.
+  // Accounting problems don't block processing: they are logged and treated as within quota.
+  async findExceededQuota(userId: string): Promise<PeriodUsage | null> {
+    try {
+      const { day, month } = await this.getUsage(userId);
+      return [month, day].find(usage => usage.limit !== null && usage.credits >= usage.limit) || null;
+    } catch (error) {
+      console.error(`❌ [USAGE] Could not check quota for ${userId}:`, error);
+      return null;
+    }
+  }
+
+  async assertWithinQuota(userId: string): Promise<void> {
+    const exceeded = await this.findExceededQuota(userId);
+    if (exceeded) {
+      throw new QuotaExceededError(exceeded);
+    }
+  }
+
+  // A user's own limits win over the server-wide ones
+  private async getLimits(userId: string): Promise<{ dailyCredits: number | null; monthlyCredits: number | null }> {
+    const user = await userRepo.findByUserId(userId);
+    return {
+      dailyCredits: user?.usageQuota?.dailyCredits ?? this.settings.dailyCredits,
+      monthlyCredits: user?.usageQuota?.monthlyCredits ?? this.settings.monthlyCredits
+    };
+  }
+
+  // Shape usage for API responses
+  toResponse(usage: IPicsartUsage) {
+    return {
+      tool: usage.tool,
+      success: usage.success,
+      megapixels: usage.megapixels ?? null,
+      credits: usage.credits,
+      durationMs: usage.durationMs,
+      apiAttempts: usage.apiAttempts,
+      errorCode: usage.errorCode || null,
+      jobId: usage.jobId || null,
+      createdAt: usage.createdAt
+    };
+  }
+}
@@ -1,5 +1,7 @@
 import { UserRepository } from '../repositories/UserRepository';
 import { IUser } from '../models/User';
+import { IJobOptions } from '../models/ProcessingJob';
+import { DEFAULT_FILENAME_TEMPLATE } from '../utils/outputPath';
 
 const userRepo = new UserRepository();
 
@@ -15,6 +17,11 @@ export interface SessionData {
   lastRefresh?: Date;
 }
 
+export interface OutputPreferences {
+  outputFolder: string | null;
+  filenameTemplate: string;
+}
+
 export class UserService {
   async findActiveSessions(): Promise<IUser[]> {
     return userRepo.findActiveSessions();
@@ -40,6 +47,36 @@ export class UserService {
     return userRepo.delete(id);
   }
 
+  // Output folder and filename template with defaults filled in
+  async getOutputPreferences(userId: string): Promise<OutputPreferences> {
+    const user = await userRepo.findByUserId(userId);
+    return {
+      outputFolder: user?.outputPreferences?.outputFolder || null,
+      filenameTemplate: user?.outputPreferences?.filenameTemplate || DEFAULT_FILENAME_TEMPLATE
+    };
+  }
+
+  // Fill in the user's output folder (unless the options already name one) and filename template
+  async applyOutputPreferences(userId: string, options: IJobOptions): Promise<IJobOptions> {
+    const preferences = await this.getOutputPreferences(userId);
+    return {
+      ...options,
+      outputFolder: options.outputFolder || preferences.outputFolder || undefined,
+      filenameTemplate: preferences.filenameTemplate
+    };
+  }
+
+  async updateOutputPreferences(userId: string, preferences: OutputPreferences): Promise<OutputPreferences | null> {
+    const user = await userRepo.updateOutputPreferences(userId, preferences);
+    if (!user) return null;
+    console.log(`📂 [USER SERVICE] Output preferences for ${userId}:`, preferences);
+    return this.getOutputPreferences(userId);
+  }
+
+  async updateDropboxCursor(userId: string, cursor: string | null): Promise<IUser | null> {
+    return userRepo.updateDropboxCursor(userId, cursor);
+  }
+
   // Session management methods
   async getUserSession(userId: string): Promise<IUser | null> {
     try {
@@ -0,0 +1,47 @@
+import { PicsartService } from './PicsartService';
+import { DropboxService } from './DropboxService';
+import { ProcessingJobService } from './ProcessingJobService';
+import { ProcessingBatchService } from './ProcessingBatchService';
+import { ProcessingHistoryService } from './ProcessingHistoryService';
+import { SharpProcessor } from './SharpProcessor';
+import { ImageProcessorRouter } from './ImageProcessorRouter';
+import { CachingImageProcessor } from './CachingImageProcessor';
+import { ResultCache } from './ResultCache';
+import { QuotaGuardedProcessor } from './QuotaGuardedProcessor';
+import { UsageService } from './UsageService';
+import { DropboxWebhookService } from './DropboxWebhookService';
+import { dropboxClientForUser } from '../middleware/auth';
+import { currentUsageContext } from '../utils/usageContext';
+
+// One set of processing services for the whole server, so interactive requests and
+// webhook-triggered automation share Picsart metrics, circuit state and batch throttling
+export const picsartService = new PicsartService();
+export const dropboxService = new DropboxService();
+export const usageService = new UsageService();
+export const imageProcessor = new ImageProcessorRouter([new QuotaGuardedProcessor(picsartService, usageService), new SharpProcessor()]);
+export const resultCache = new ResultCache();
+export const processingHistoryService = new ProcessingHistoryService();
+export const processingJobService = new ProcessingJobService(
+  new CachingImageProcessor(imageProcessor, resultCache),
+  dropboxService,
+  processingHistoryService
+);
+export const processingBatchService = new ProcessingBatchService(processingJobService, dropboxService);
+export const dropboxWebhookService = new DropboxWebhookService(processingBatchService, dropboxService, dropboxClientForUser);
+
+// Back off batch starts when Picsart pushes back, on top of the client's own retries
+const RATE_LIMIT_PAUSE_MS = 15000;
+picsartService.onCall(call => {
+  if (call.errorCode === 'rate_limited') {
+    processingBatchService.throttle(Math.max(call.retryWaitMs, RATE_LIMIT_PAUSE_MS));
+  } else if (call.retryWaitMs > 0) {
+    processingBatchService.throttle(call.retryWaitMs);
+  }
+});
+
+// Charge every Picsart call to the user whose job made it
+picsartService.onCall(call => {
+  usageService.recordCall(currentUsageContext(), call).catch(error => {
+    console.error(`❌ [USAGE] Could not record ${call.tool} call:`, error);
+  });
+});
@@ -1,6 +1,5 @@
 import { Request, Response } from 'express';
-import { Dropbox } from 'dropbox';
-import fetch from 'node-fetch';
+import { createDropboxClient } from './dropboxClient';
 
 export interface ServerValidationResult {
   isValid: boolean;
@@ -34,7 +33,7 @@ export async function validateAccountTokenMatch(
     }
     
     // Call Dropbox API to get current account info
-    const dbx = new Dropbox({ accessToken, fetch });
+    const dbx = createDropboxClient(accessToken);
     const currentAccount = await dbx.usersGetCurrentAccount();
     const currentAccountId = currentAccount.result.account_id;
     const currentAccountEmail = currentAccount.result.email;
@@ -79,7 +78,7 @@ export async function validateAccountTokenMatchDetailed(
     }
     
     // Call Dropbox API to get current account info
-    const dbx = new Dropbox({ accessToken, fetch });
+    const dbx = createDropboxClient(accessToken);
     const currentAccount = await dbx.usersGetCurrentAccount();
     const currentAccountId = currentAccount.result.account_id;
     const currentAccountEmail = currentAccount.result.email;
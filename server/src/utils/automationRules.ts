@@ -0,0 +1,58 @@
+// Folder and file matching for automation rules
+
+import { IMAGE_EXTENSIONS } from '../services/DropboxService';
+
+export interface RuleMatchTarget {
+  folderPath: string;
+  includeSubfolders: boolean;
+  extensions: string[];
+  outputFolder: string;
+}
+
+// "/Inbox/", "Inbox", "/inbox//" → "/Inbox"; "" and "/" → "/"
+export function normalizeFolderPath(input: string): string {
+  const trimmed = input.trim().replace(/\/+/g, '/').replace(/\/$/, '');
+  if (!trimmed) return '/';
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+// Lowercase with a leading dot: "JPG" → ".jpg"
+export function normalizeExtension(input: string): string {
+  const lower = input.trim().toLowerCase();
+  return lower.startsWith('.') ? lower : `.${lower}`;
+}
+
+export function isSupportedExtension(extension: string): boolean {
+  return IMAGE_EXTENSIONS.includes(extension);
+}
+
+// Whether a path lies in a folder (directly, or at any depth when recursive). Case-insensitive like Dropbox.
+export function isInFolder(path: string, folderPath: string, recursive: boolean): boolean {
+  const folder = folderPath === '/' ? '' : folderPath.toLowerCase();
+  const lower = path.toLowerCase();
+  if (!lower.startsWith(folder + '/')) return false;
+  return recursive || !lower.substring(folder.length + 1).includes('/');
+}
+
+// A rule must not watch its own output folder, or every output would trigger it again
+export function ruleFolderErrors(target: Pick<RuleMatchTarget, 'folderPath' | 'includeSubfolders' | 'outputFolder'>): string[] {
+  const watched = target.folderPath.toLowerCase();
+  const output = target.outputFolder.toLowerCase();
+  if (output === watched) {
+    return ['outputFolder must be different from the watched folder'];
+  }
+  if (target.includeSubfolders && isInFolder(output, watched, true)) {
+    return ['outputFolder must not be inside the watched folder when subfolders are included'];
+  }
+  return [];
+}
+
+export function ruleMatchesFile(rule: RuleMatchTarget, path: string): boolean {
+  const name = path.substring(path.lastIndexOf('/') + 1).toLowerCase();
+  const extension = name.includes('.') ? name.substring(name.lastIndexOf('.')) : '';
+  const extensions = rule.extensions.length > 0 ? rule.extensions : IMAGE_EXTENSIONS;
+
+  return extensions.includes(extension) &&
+    isInFolder(path, rule.folderPath, rule.includeSubfolders) &&
+    !isInFolder(path, rule.outputFolder, true);
+}
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker } from './circuitBreaker';
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    breaker = new CircuitBreaker('test', { failureThreshold: 3, resetTimeoutMs: 30000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) breaker.recordFailure();
+  };
+
+  it('stays closed below the failure threshold', () => {
+    fail(2);
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 2 });
+  });
+
+  it('opens after consecutive failures and blocks requests', () => {
+    fail(3);
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.retryInMs()).toBe(30000);
+  });
+
+  it('a success resets the failure count', () => {
+    fail(2);
+    breaker.recordSuccess();
+    fail(2);
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('lets a single probe through after the cool-down', () => {
+    fail(3);
+    vi.advanceTimersByTime(30000);
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.snapshot().state).toBe('half_open');
+    // Only one probe at a time
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('closes when the probe succeeds', () => {
+    fail(3);
+    vi.advanceTimersByTime(30000);
+    breaker.canRequest();
+    breaker.recordSuccess();
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0, openedAt: null });
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it('opens again for another cool-down when the probe fails', () => {
+    fail(3);
+    vi.advanceTimersByTime(30000);
+    breaker.canRequest();
+    breaker.recordFailure();
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.retryInMs()).toBe(30000);
+  });
+});
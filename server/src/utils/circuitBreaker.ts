@@ -0,0 +1,89 @@
+// Minimal circuit breaker: trips after consecutive failures, probes again after a cool-down
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+
+  constructor(
+    private name: string,
+    private options: CircuitBreakerOptions
+  ) {}
+
+  // Whether a call may go out now. In half-open state only one probe is allowed at a time.
+  canRequest(): boolean {
+    if (this.state === 'open' && this.openedAt !== null && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      console.log(`🟡 [CIRCUIT ${this.name}] Cool-down elapsed, allowing a probe request`);
+      this.state = 'half_open';
+      this.probeInFlight = false;
+    }
+
+    if (this.state === 'closed') return true;
+
+    if (this.state === 'half_open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`🟢 [CIRCUIT ${this.name}] Probe succeeded, closing circuit`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.probeInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        console.log(`🔴 [CIRCUIT ${this.name}] Opening circuit after ${this.consecutiveFailures} consecutive failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  // Milliseconds until an open circuit lets a probe through
+  retryInMs(): number {
+    if (this.state !== 'open' || this.openedAt === null) return 0;
+    return Math.max(0, this.openedAt + this.options.resetTimeoutMs - Date.now());
+  }
+
+  isOpen(): boolean {
+    return this.state === 'open' && this.retryInMs() > 0;
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      retryAt: this.openedAt ? new Date(this.openedAt + this.options.resetTimeoutMs).toISOString() : null
+    };
+  }
+}
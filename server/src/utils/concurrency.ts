@@ -0,0 +1,41 @@
+import { sleep } from './retryPolicy';
+
+export interface ConcurrencyOptions {
+  // Max items in flight at once
+  concurrency: number;
+  // Minimum spacing between item starts, so bursts don't trip upstream rate limits
+  minStartIntervalMs?: number;
+  // Extra delay before the next start (e.g. while an upstream API asks us to back off)
+  startDelayMs?: () => number;
+}
+
+// Run a worker over every item with at most `concurrency` in flight. Items start in order.
+// Worker errors are not caught here - pass a worker that records its own failures.
+export async function runWithConcurrency<T>(
+  items: T[],
+  options: ConcurrencyOptions,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  const concurrency = Math.max(1, Math.floor(options.concurrency));
+  let nextIndex = 0;
+  let nextStartAt = 0;
+
+  // Start slots are handed out one at a time, so spacing holds across all lanes
+  const waitForStartSlot = async () => {
+    const wait = Math.max(nextStartAt - Date.now(), options.startDelayMs?.() ?? 0);
+    nextStartAt = Math.max(nextStartAt, Date.now() + wait) + (options.minStartIntervalMs ?? 0);
+    if (wait > 0) {
+      await sleep(wait);
+    }
+  };
+
+  const lane = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      await waitForStartSlot();
+      await worker(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => lane()));
+}
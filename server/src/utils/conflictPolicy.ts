@@ -0,0 +1,31 @@
+// What to do when a processed output's name is already taken in Dropbox
+
+export type ConflictPolicy = 'autorename' | 'overwrite' | 'update' | 'skip_identical';
+
+// What the upload actually did, reported per saved step
+export type UploadAction = 'created' | 'renamed' | 'overwritten' | 'updated' | 'skipped';
+
+export const CONFLICT_POLICIES: ConflictPolicy[] = ['autorename', 'overwrite', 'update', 'skip_identical'];
+
+// Dropbox's own "add" behaviour: "photo_bg_removed (1).png", "(2)", ...
+export const DEFAULT_CONFLICT_POLICY: ConflictPolicy = 'autorename';
+
+export interface ConflictPolicyValidationResult {
+  policy?: ConflictPolicy;
+  errors: string[];
+}
+
+export function isConflictPolicy(value: unknown): value is ConflictPolicy {
+  return typeof value === 'string' && (CONFLICT_POLICIES as string[]).includes(value);
+}
+
+// Absent means "use the default"; anything else must be a known policy
+export function validateConflictPolicy(input: unknown): ConflictPolicyValidationResult {
+  if (input === undefined || input === null) {
+    return { errors: [] };
+  }
+  if (!isConflictPolicy(input)) {
+    return { errors: [`conflictPolicy must be one of: ${CONFLICT_POLICIES.join(', ')}`] };
+  }
+  return { policy: input, errors: [] };
+}
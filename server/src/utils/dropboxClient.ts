@@ -0,0 +1,16 @@
+import { Dropbox } from 'dropbox';
+import fetch from 'node-fetch';
+import { FakeDropbox } from '../mocks/FakeDropbox';
+
+// DROPBOX_FAKE=true swaps the Dropbox SDK for the in-memory fake (no network, no OAuth app)
+export function isDropboxFake(): boolean {
+  return process.env.DROPBOX_FAKE === 'true';
+}
+
+export function createDropboxClient(accessToken: string): Dropbox {
+  if (isDropboxFake()) {
+    // FakeDropbox implements the subset of SDK routes this app calls
+    return new FakeDropbox(accessToken) as unknown as Dropbox;
+  }
+  return new Dropbox({ accessToken, fetch });
+}
@@ -0,0 +1,12 @@
+import { createHash } from 'crypto';
+
+const BLOCK_SIZE = 4 * 1024 * 1024;
+
+// Dropbox content_hash: SHA-256 over the concatenated SHA-256 digests of 4 MB blocks
+export function dropboxContentHash(contents: Buffer): string {
+  const blockHashes: Buffer[] = [];
+  for (let offset = 0; offset < contents.length; offset += BLOCK_SIZE) {
+    blockHashes.push(createHash('sha256').update(contents.subarray(offset, offset + BLOCK_SIZE)).digest());
+  }
+  return createHash('sha256').update(Buffer.concat(blockHashes)).digest('hex');
+}
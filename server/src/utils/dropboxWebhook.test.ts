@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { notifiedAccounts, signDropboxWebhook, verifyDropboxWebhookSignature } from './dropboxWebhook';
+
+const SECRET = 'app-secret';
+const body = Buffer.from(JSON.stringify({ list_folder: { accounts: ['dbid:a'] }, delta: { users: [1] } }));
+
+describe('verifyDropboxWebhookSignature', () => {
+  it('accepts the HMAC-SHA256 of the body', () => {
+    expect(verifyDropboxWebhookSignature(body, signDropboxWebhook(body, SECRET), SECRET)).toBe(true);
+  });
+
+  it('accepts upper case and surrounding whitespace', () => {
+    const signature = ` ${signDropboxWebhook(body, SECRET).toUpperCase()} `;
+    expect(verifyDropboxWebhookSignature(body, signature, SECRET)).toBe(true);
+  });
+
+  it('rejects a missing signature, another secret, a changed body or a truncated signature', () => {
+    const signature = signDropboxWebhook(body, SECRET);
+    expect(verifyDropboxWebhookSignature(body, undefined, SECRET)).toBe(false);
+    expect(verifyDropboxWebhookSignature(body, signDropboxWebhook(body, 'other'), SECRET)).toBe(false);
+    expect(verifyDropboxWebhookSignature(Buffer.concat([body, Buffer.from(' ')]), signature, SECRET)).toBe(false);
+    expect(verifyDropboxWebhookSignature(body, signature.slice(0, 32), SECRET)).toBe(false);
+  });
+});
+
+describe('notifiedAccounts', () => {
+  it('returns each notified account once', () => {
+    expect(notifiedAccounts({ list_folder: { accounts: ['dbid:a', 'dbid:b', 'dbid:a'] } })).toEqual(['dbid:a', 'dbid:b']);
+  });
+
+  it('drops anything that is not an account ID', () => {
+    expect(notifiedAccounts({ list_folder: { accounts: ['dbid:a', '', 42, null] } })).toEqual(['dbid:a']);
+    expect(notifiedAccounts({ delta: { users: [1] } })).toEqual([]);
+    expect(notifiedAccounts(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,29 @@
+// Dropbox webhook signatures: X-Dropbox-Signature is the hex HMAC-SHA256 of the raw
+// request body, keyed with the app secret
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const DROPBOX_SIGNATURE_HEADER = 'x-dropbox-signature';
+
+// DROPBOX_WEBHOOK_SECRET overrides the app secret, e.g. for a separate webhook-only app
+export function dropboxWebhookSecret(): string | undefined {
+  return process.env.DROPBOX_WEBHOOK_SECRET || process.env.DROPBOX_CLIENT_SECRET || undefined;
+}
+
+export function signDropboxWebhook(body: Buffer | string, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('hex');
+}
+
+export function verifyDropboxWebhookSignature(body: Buffer, signature: string | undefined, secret: string): boolean {
+  if (!signature) return false;
+  const expected = Buffer.from(signDropboxWebhook(body, secret), 'utf8');
+  const received = Buffer.from(signature.trim().toLowerCase(), 'utf8');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// Account IDs from a notification body: {"list_folder": {"accounts": [...]}, "delta": {...}}
+export function notifiedAccounts(payload: unknown): string[] {
+  const accounts = (payload as { list_folder?: { accounts?: unknown } })?.list_folder?.accounts;
+  if (!Array.isArray(accounts)) return [];
+  return Array.from(new Set(accounts.filter((account): account is string => typeof account === 'string' && account.length > 0)));
+}
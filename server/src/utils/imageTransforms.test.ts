@@ -0,0 +1,18 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { MAX_OUTPUT_PIXELS, lanczosUpscale } from './imageTransforms';
+
+const blankImage = (width: number, height: number) =>
+  sharp({ create: { width, height, channels: 3, background: '#FFFFFF' } }).png().toBuffer();
+
+describe('lanczosUpscale', () => {
+  it('scales both sides by the factor', async () => {
+    const output = await (await lanczosUpscale(await blankImage(30, 20), 4)).png().toBuffer();
+    expect(await sharp(output).metadata()).toMatchObject({ width: 120, height: 80 });
+  });
+
+  it('refuses outputs over MAX_OUTPUT_PIXELS', async () => {
+    const side = Math.ceil(Math.sqrt(MAX_OUTPUT_PIXELS) / 8) + 1;
+    await expect(lanczosUpscale(await blankImage(side, side), 8)).rejects.toThrow(/megapixel limit/);
+  });
+});
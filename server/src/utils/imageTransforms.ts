@@ -0,0 +1,155 @@
+import sharp from 'sharp';
+import { OutputSettings } from './outputFormat';
+
+export type RasterFormat = 'PNG' | 'JPG' | 'WEBP';
+
+export interface CutoutOptions {
+  // Max RGB distance (0-441) from the sampled background color still treated as background
+  tolerance?: number;
+  // Return a black/white matte instead of the cutout
+  mask?: boolean;
+}
+
+export interface ResizeOptions {
+  width?: number;
+  height?: number;
+  fit: 'inside' | 'cover' | 'contain' | 'fill';
+  // Never make the image larger than it already is
+  withoutEnlargement: boolean;
+}
+
+// Encode a sharp pipeline into one of the Picsart output formats
+export function encodeAs(image: sharp.Sharp, format: RasterFormat, quality = 90): Promise<Buffer> {
+  switch (format) {
+    case 'JPG':
+      return image.jpeg({ quality }).toBuffer();
+    case 'WEBP':
+      return image.webp({ quality }).toBuffer();
+    case 'PNG':
+    default:
+      return image.png().toBuffer();
+  }
+}
+
+// Largest upscale output, in pixels. Picsart turns bigger requests away; here they would be
+// allocated in full, and a couple of 8x steps can reach gigapixels.
+export const MAX_OUTPUT_PIXELS = 64 * 1000 * 1000;
+
+// Upscale with a Lanczos kernel - a plain resampling stand-in for AI upscaling
+export async function lanczosUpscale(imageBuffer: Buffer, factor: number): Promise<sharp.Sharp> {
+  const metadata = await sharp(imageBuffer).metadata();
+  const width = Math.round((metadata.width || 1) * factor);
+  const height = Math.round((metadata.height || 1) * factor);
+  if (width * height > MAX_OUTPUT_PIXELS) {
+    throw new Error(
+      `Upscaling ${metadata.width}x${metadata.height} by ${factor}x would make a ${width}x${height} image, ` +
+      `more than the ${MAX_OUTPUT_PIXELS / (1000 * 1000)} megapixel limit`
+    );
+  }
+
+  return sharp(imageBuffer)
+    .rotate()
+    .resize(width, height, { kernel: sharp.kernel.lanczos3, fit: 'fill' });
+}
+
+// Re-encode an image, flattening transparency onto white for formats without alpha
+export function convertImage(imageBuffer: Buffer, format: RasterFormat, quality = 90): Promise<Buffer> {
+  const image = sharp(imageBuffer).rotate();
+  return encodeAs(format === 'JPG' ? image.flatten({ background: '#FFFFFF' }) : image, format, quality);
+}
+
+// Output stage: encode a result with the requested format and compression settings.
+// JPEG has no alpha channel, so transparency is flattened onto white.
+export function encodeOutput(imageBuffer: Buffer, settings: OutputSettings): Promise<Buffer> {
+  const image = sharp(imageBuffer).rotate();
+  switch (settings.format) {
+    case 'JPEG':
+      return image.flatten({ background: '#FFFFFF' }).jpeg({ quality: settings.quality, mozjpeg: true }).toBuffer();
+    case 'WEBP':
+      return image.webp({ quality: settings.quality, lossless: settings.lossless }).toBuffer();
+    case 'AVIF':
+      return image.avif({ quality: settings.quality, lossless: settings.lossless }).toBuffer();
+    case 'TIFF':
+      return image.tiff({ quality: settings.quality, compression: settings.tiffCompression }).toBuffer();
+    case 'PNG':
+    default:
+      return image.png({ compressionLevel: settings.compressionLevel }).toBuffer();
+  }
+}
+
+// Pixel count in millions (two decimals), or undefined if the image can't be decoded
+export async function imageMegapixels(imageBuffer: Buffer): Promise<number | undefined> {
+  try {
+    const { width, height } = await sharp(imageBuffer).metadata();
+    return width && height ? Math.round((width * height) / 10000) / 100 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// The encoding sharp detects in a buffer ("jpeg", "png", "avif", ...), or undefined if it can't tell
+export async function detectEncoding(imageBuffer: Buffer): Promise<string | undefined> {
+  try {
+    const { format, compression } = await sharp(imageBuffer).metadata();
+    // AVIF and HEIC share the HEIF container
+    return format === 'heif' && compression === 'av1' ? 'avif' : format;
+  } catch {
+    return undefined;
+  }
+}
+
+// Resize while keeping the source encoding; transparent padding for "contain"
+export async function resizeImage(imageBuffer: Buffer, options: ResizeOptions): Promise<Buffer> {
+  return sharp(imageBuffer)
+    .rotate()
+    .resize(options.width, options.height, {
+      fit: options.fit,
+      withoutEnlargement: options.withoutEnlargement,
+      background: { r: 0, g: 0, b: 0, alpha: 0 }
+    })
+    .toBuffer();
+}
+
+// Chroma-key style cutout: the average color of the four corners is treated as background
+// and every pixel within `tolerance` of it becomes transparent (with a soft edge band).
+export async function chromaKeyCutout(imageBuffer: Buffer, options: CutoutOptions = {}): Promise<sharp.Sharp> {
+  const tolerance = options.tolerance ?? 60;
+  const { data, info } = await sharp(imageBuffer)
+    .rotate()
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const { width, height, channels } = info;
+  const corners = [0, width - 1, (height - 1) * width, height * width - 1];
+  const background = [0, 1, 2].map(c =>
+    corners.reduce((sum, pixel) => sum + data[pixel * channels + c], 0) / corners.length
+  );
+
+  const softBand = Math.max(tolerance * 0.5, 1);
+  const output = Buffer.alloc(options.mask ? width * height : data.length);
+
+  for (let pixel = 0; pixel < width * height; pixel++) {
+    const offset = pixel * channels;
+    const distance = Math.sqrt(
+      Math.pow(data[offset] - background[0], 2) +
+      Math.pow(data[offset + 1] - background[1], 2) +
+      Math.pow(data[offset + 2] - background[2], 2)
+    );
+
+    const alpha = distance <= tolerance
+      ? 0
+      : distance >= tolerance + softBand ? 255 : Math.round(((distance - tolerance) / softBand) * 255);
+
+    if (options.mask) {
+      output[pixel] = alpha;
+    } else {
+      data.copy(output, offset, offset, offset + 3);
+      output[offset + 3] = Math.min(alpha, data[offset + 3]);
+    }
+  }
+
+  return options.mask
+    ? sharp(output, { raw: { width, height, channels: 1 } })
+    : sharp(output, { raw: { width, height, channels: 4 } });
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { extensionForEncoding, validateOutputSettings } from './outputFormat';
+
+describe('validateOutputSettings', () => {
+  it('keeps each step encoding when no output is set', () => {
+    expect(validateOutputSettings(undefined)).toEqual({ settings: undefined, errors: [] });
+  });
+
+  it('accepts JPG for JPEG and fills in defaults', () => {
+    expect(validateOutputSettings({ format: 'jpg', quality: 80 }).settings).toEqual({
+      format: 'JPEG',
+      quality: 80,
+      compressionLevel: 6,
+      lossless: false,
+      tiffCompression: 'lzw'
+    });
+  });
+
+  it('returns no settings when anything is invalid', () => {
+    expect(validateOutputSettings({ format: 'BMP', compressionLevel: 10, lossless: 1 })).toEqual({
+      errors: [
+        'output.format must be one of: PNG, JPEG, WEBP, AVIF, TIFF',
+        'output.compressionLevel must be an integer between 0 and 9',
+        'output.lossless must be a boolean'
+      ]
+    });
+  });
+});
+
+describe('extensionForEncoding', () => {
+  it('maps sharp encodings to file extensions', () => {
+    expect(extensionForEncoding('jpeg')).toBe('.jpg');
+    expect(extensionForEncoding('PNG')).toBe('.png');
+    expect(extensionForEncoding('svg')).toBeUndefined();
+    expect(extensionForEncoding(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+// Output stage settings: the encoding every saved result is converted to before upload
+
+export type OutputFormat = 'PNG' | 'JPEG' | 'WEBP' | 'AVIF' | 'TIFF';
+export type TiffCompression = 'lzw' | 'deflate' | 'jpeg' | 'none';
+
+export interface OutputSettings {
+  format: OutputFormat;
+  // Lossy quality 1-100 (JPEG, WebP, AVIF, and TIFF with jpeg compression)
+  quality: number;
+  // zlib level 0-9 for PNG: higher is smaller and slower, never lossy
+  compressionLevel: number;
+  // WebP and AVIF only
+  lossless: boolean;
+  tiffCompression: TiffCompression;
+}
+
+export interface OutputSettingsValidationResult {
+  settings?: OutputSettings;
+  errors: string[];
+}
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['PNG', 'JPEG', 'WEBP', 'AVIF', 'TIFF'];
+const TIFF_COMPRESSIONS: TiffCompression[] = ['lzw', 'deflate', 'jpeg', 'none'];
+
+export const DEFAULT_OUTPUT_SETTINGS: Omit<OutputSettings, 'format'> = {
+  quality: 90,
+  compressionLevel: 6,
+  lossless: false,
+  tiffCompression: 'lzw'
+};
+
+// File extension for each encoding sharp can report, so saved names match their bytes
+const EXTENSIONS: Record<string, string> = {
+  jpeg: '.jpg',
+  png: '.png',
+  webp: '.webp',
+  avif: '.avif',
+  heif: '.heic',
+  tiff: '.tiff',
+  gif: '.gif'
+};
+
+export function extensionForEncoding(encoding: string | undefined): string | undefined {
+  return encoding ? EXTENSIONS[encoding.toLowerCase()] : undefined;
+}
+
+// `undefined`/`null` keeps each step's own encoding; "JPG" is accepted for JPEG
+export function validateOutputSettings(input: unknown): OutputSettingsValidationResult {
+  if (input === undefined || input === null) {
+    return { settings: undefined, errors: [] };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: ['output must be an object'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const format = (typeof raw.format === 'string' ? raw.format.toUpperCase().replace(/^JPG$/, 'JPEG') : raw.format) as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    errors.push(`output.format must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  const settings: OutputSettings = { format, ...DEFAULT_OUTPUT_SETTINGS };
+
+  const checkInteger = (key: 'quality' | 'compressionLevel', min: number, max: number) => {
+    const value = raw[key];
+    if (value === undefined) return;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      errors.push(`output.${key} must be an integer between ${min} and ${max}`);
+    } else {
+      settings[key] = value;
+    }
+  };
+  checkInteger('quality', 1, 100);
+  checkInteger('compressionLevel', 0, 9);
+
+  if (raw.lossless !== undefined) {
+    if (typeof raw.lossless !== 'boolean') {
+      errors.push('output.lossless must be a boolean');
+    } else {
+      settings.lossless = raw.lossless;
+    }
+  }
+
+  if (raw.tiffCompression !== undefined) {
+    if (!TIFF_COMPRESSIONS.includes(raw.tiffCompression as TiffCompression)) {
+      errors.push(`output.tiffCompression must be one of: ${TIFF_COMPRESSIONS.join(', ')}`);
+    } else {
+      settings.tiffCompression = raw.tiffCompression as TiffCompression;
+    }
+  }
+
+  return errors.length > 0 ? { errors } : { settings, errors };
+}
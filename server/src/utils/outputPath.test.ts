@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_FILENAME_LENGTH, buildOutputPath, filenameTemplateErrors, outputFolderErrors, renderFilename } from './outputPath';
+
+const date = new Date('2025-03-04T12:00:00Z');
+
+describe('renderFilename', () => {
+  it('uses {name}_{op}.{ext} by default', () => {
+    expect(renderFilename('/Photos/cat.jpg', { op: 'bg_removed', extension: '.png' })).toBe('cat_bg_removed.png');
+  });
+
+  it('fills every token', () => {
+    expect(renderFilename('/cat.jpg', {
+      op: 'upscaled_4x',
+      factor: '4x',
+      presetName: 'Shop',
+      date,
+      filenameTemplate: '{preset}-{date}-{name}-{factor}.{ext}'
+    })).toBe('Shop-2025-03-04-cat-4x.jpg');
+  });
+
+  it('drops empty tokens with their separators', () => {
+    expect(renderFilename('/cat.jpg', { op: 'bg_removed', filenameTemplate: '{name}_{preset}_{op}_{factor}.{ext}' }))
+      .toBe('cat_bg_removed.jpg');
+  });
+
+  it('always ends in the real extension', () => {
+    expect(renderFilename('/cat.png', { op: 'upscaled_2x', extension: '.jpg', filenameTemplate: '{name}-{op}' }))
+      .toBe('cat-upscaled_2x.jpg');
+  });
+
+  it('replaces characters Dropbox rejects', () => {
+    expect(renderFilename('/cat.jpg', { op: 'x', presetName: 'a/b:c', filenameTemplate: '{preset}_{name}' })).toBe('a_b_c_cat.jpg');
+  });
+
+  it('trims overlong names but keeps the extension', () => {
+    const name = renderFilename(`/${'a'.repeat(300)}.jpg`, { op: 'bg_removed' });
+    expect(name).toHaveLength(MAX_FILENAME_LENGTH);
+    expect(name.endsWith('.jpg')).toBe(true);
+  });
+});
+
+describe('buildOutputPath', () => {
+  it('saves next to the original by default', () => {
+    expect(buildOutputPath('/Photos/cat.jpg', { op: 'bg_removed' })).toBe('/Photos/cat_bg_removed.jpg');
+  });
+
+  it('takes absolute and relative output folders', () => {
+    expect(buildOutputPath('/Photos/cat.jpg', { op: 'bg_removed', outputFolder: '/Processed/' })).toBe('/Processed/cat_bg_removed.jpg');
+    expect(buildOutputPath('/Photos/cat.jpg', { op: 'bg_removed', outputFolder: 'done' })).toBe('/Photos/done/cat_bg_removed.jpg');
+    expect(buildOutputPath('/cat.jpg', { op: 'bg_removed', outputFolder: '/' })).toBe('/cat_bg_removed.jpg');
+  });
+});
+
+describe('filenameTemplateErrors / outputFolderErrors', () => {
+  it('accepts valid templates and folders', () => {
+    expect(filenameTemplateErrors('{date}_{name}.{ext}')).toEqual([]);
+    expect(outputFolderErrors('/Processed/2025')).toEqual([]);
+  });
+
+  it('rejects unknown tokens, folders in templates and templates that could collide', () => {
+    expect(filenameTemplateErrors('{name}_{size}')[0]).toMatch(/^Unknown filename tokens: \{size\}/);
+    expect(filenameTemplateErrors('out/{name}')[0]).toMatch(/must not contain \//);
+    expect(filenameTemplateErrors('{date}.{ext}')).toEqual(['filenameTemplate must contain {name} or {op} so outputs can be told apart']);
+    expect(filenameTemplateErrors('')).toEqual(['filenameTemplate must be a non-empty string']);
+  });
+
+  it('rejects folders that climb out or contain unsafe characters', () => {
+    expect(outputFolderErrors('/Photos/../Secret')).toEqual(['outputFolder must not contain "." or ".." segments']);
+    expect(outputFolderErrors('/Pro:cessed')).toEqual(['outputFolder contains characters Dropbox does not allow']);
+  });
+});
@@ -0,0 +1,113 @@
+// Where processed images are saved: output folder plus filename template, built with
+// posix path handling (Dropbox paths always use "/")
+
+import path from 'path';
+
+export const DEFAULT_FILENAME_TEMPLATE = '{name}_{op}.{ext}';
+export const FILENAME_TOKENS = ['name', 'op', 'factor', 'date', 'ext', 'preset'] as const;
+export const MAX_FILENAME_LENGTH = 255;
+
+export type FilenameToken = typeof FILENAME_TOKENS[number];
+
+export interface OutputNaming {
+  // Operation label, e.g. "bg_removed" or "upscaled_4x"
+  op: string;
+  // Upscale factor as "4x"; empty for other steps
+  factor?: string;
+  // Extension with the dot, matching the saved encoding. Defaults to the original's.
+  extension?: string;
+  presetName?: string;
+  // Absolute ("/Processed") or relative to the original's folder ("processed")
+  outputFolder?: string;
+  filenameTemplate?: string;
+  date?: Date;
+}
+
+// Characters Dropbox rejects or that would change the path structure
+const UNSAFE_CHARACTERS = /[\/\\<>:"|?*\u0000-\u001f]/;
+
+const sanitize = (value: string) => value.replace(new RegExp(UNSAFE_CHARACTERS, 'g'), '_');
+
+// Problems with a template: unknown tokens, folder separators, empty result
+export function filenameTemplateErrors(template: unknown): string[] {
+  if (typeof template !== 'string' || !template.trim()) {
+    return ['filenameTemplate must be a non-empty string'];
+  }
+  if (template.length > MAX_FILENAME_LENGTH) {
+    return [`filenameTemplate must be at most ${MAX_FILENAME_LENGTH} characters`];
+  }
+  if (/[\/\\]/.test(template)) {
+    return ['filenameTemplate is a file name and must not contain / or \\ (set outputFolder for folders)'];
+  }
+
+  const unknown = Array.from(template.matchAll(/\{([^}]*)\}/g))
+    .map(match => match[1])
+    .filter(token => !(FILENAME_TOKENS as readonly string[]).includes(token));
+  if (unknown.length > 0) {
+    return [`Unknown filename tokens: ${unknown.map(token => `{${token}}`).join(', ')}. Use ${FILENAME_TOKENS.map(token => `{${token}}`).join(', ')}`];
+  }
+  if (!/\{(name|op)\}/.test(template)) {
+    return ['filenameTemplate must contain {name} or {op} so outputs can be told apart'];
+  }
+  return [];
+}
+
+// Problems with an output folder: must not climb out with ".." segments
+export function outputFolderErrors(folder: unknown): string[] {
+  if (typeof folder !== 'string' || !folder.trim()) {
+    return ['outputFolder must be a non-empty folder path'];
+  }
+  if (folder.split('/').some(segment => segment.trim() === '..' || segment.trim() === '.')) {
+    return ['outputFolder must not contain "." or ".." segments'];
+  }
+  if (UNSAFE_CHARACTERS.test(folder.replace(/\//g, ''))) {
+    return ['outputFolder contains characters Dropbox does not allow'];
+  }
+  return [];
+}
+
+// Render the file name for an output. Empty tokens don't leave doubled or dangling separators,
+// and the name always ends in the real encoding's extension, even if the template leaves {ext} out.
+export function renderFilename(originalPath: string, naming: OutputNaming): string {
+  const originalName = path.posix.basename(originalPath);
+  const originalExtension = path.posix.extname(originalName);
+  const extension = naming.extension || originalExtension;
+  const template = naming.filenameTemplate || DEFAULT_FILENAME_TEMPLATE;
+
+  const values: Record<FilenameToken, string> = {
+    name: sanitize(path.posix.basename(originalName, originalExtension)),
+    op: sanitize(naming.op),
+    factor: sanitize(naming.factor || ''),
+    date: (naming.date || new Date()).toISOString().slice(0, 10),
+    ext: extension.replace(/^\./, ''),
+    preset: sanitize(naming.presetName || '')
+  };
+
+  let fileName = template
+    .replace(/\{(\w+)\}/g, (_match, token: FilenameToken) => values[token] ?? '')
+    .replace(/([_\- ])[_\- ]+/g, '$1')
+    .replace(/[_\- ]+\./g, '.')
+    .replace(/^[_\-. ]+|[_\-. ]+$/g, '') || values.name || 'output';
+
+  if (extension && !fileName.toLowerCase().endsWith(extension.toLowerCase())) {
+    fileName += extension;
+  }
+
+  // Keep the extension when trimming an overlong name
+  return fileName.length <= MAX_FILENAME_LENGTH
+    ? fileName
+    : fileName.slice(0, MAX_FILENAME_LENGTH - extension.length) + extension;
+}
+
+// Full Dropbox path for an output
+export function buildOutputPath(originalPath: string, naming: OutputNaming): string {
+  const originalFolder = path.posix.dirname(path.posix.normalize(originalPath));
+  const folder = !naming.outputFolder
+    ? originalFolder
+    : naming.outputFolder.startsWith('/')
+      ? naming.outputFolder
+      : path.posix.join(originalFolder, naming.outputFolder);
+
+  const normalizedFolder = path.posix.normalize(folder).replace(/\/+$/, '');
+  return path.posix.join(normalizedFolder || '/', renderFilename(originalPath, naming));
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_PIPELINE_STEPS, UPSCALE_FACTORS, pipelineFromLegacyOptions, stepSuffix, validatePipeline } from './pipeline';
+import { DEFAULT_REMOVE_BG_OPTIONS } from './removeBgOptions';
+
+describe('validatePipeline', () => {
+  it('accepts every step type and fills in defaults', () => {
+    const { steps, errors } = validatePipeline([
+      { type: 'removeBg', save: true },
+      { type: 'upscale' },
+      { type: 'convert', format: 'WEBP' },
+      { type: 'resize', width: 800 }
+    ]);
+    expect(errors).toEqual([]);
+    expect(steps).toEqual([
+      { type: 'removeBg', save: true, options: DEFAULT_REMOVE_BG_OPTIONS },
+      { type: 'upscale', save: false, factor: 2 },
+      { type: 'convert', save: false, format: 'WEBP', quality: 90 },
+      { type: 'resize', save: true, width: 800, height: undefined, fit: 'inside', withoutEnlargement: true }
+    ]);
+  });
+
+  it('always saves the last step', () => {
+    const { steps } = validatePipeline([{ type: 'upscale', factor: 4, save: false }]);
+    expect(steps[0].save).toBe(true);
+  });
+
+  it('rejects anything but a non-empty array of at most MAX_PIPELINE_STEPS steps', () => {
+    expect(validatePipeline('removeBg').errors).toEqual(['pipeline must be an array of steps']);
+    expect(validatePipeline([]).errors).toEqual(['pipeline must contain at least one step']);
+    const tooMany = Array.from({ length: MAX_PIPELINE_STEPS + 1 }, () => ({ type: 'upscale' }));
+    expect(validatePipeline(tooMany).errors).toEqual([`pipeline can have at most ${MAX_PIPELINE_STEPS} steps`]);
+  });
+
+  it('reports each invalid step by index', () => {
+    const { errors } = validatePipeline([
+      'upscale',
+      { type: 'sharpen' },
+      { type: 'upscale', factor: 3 },
+      { type: 'convert', format: 'GIF' },
+      { type: 'convert', format: 'JPG', quality: 0 },
+      { type: 'resize' },
+      { type: 'resize', width: 0 },
+      { type: 'removeBg', options: { format: 'BMP' } },
+      { type: 'upscale', save: 'yes' }
+    ]);
+    expect(errors).toEqual([
+      'steps[0] must be an object',
+      'steps[1].type must be one of: removeBg, upscale, convert, resize',
+      `steps[2].factor must be one of: ${UPSCALE_FACTORS.join(', ')}`,
+      'steps[3].format must be one of: PNG, JPG, WEBP',
+      'steps[4].quality must be an integer between 1 and 100',
+      'steps[5] needs a width and/or height',
+      'steps[6].width must be an integer between 1 and 16384',
+      'steps[6] needs a width and/or height',
+      'steps[7].options: format must be one of: PNG, JPG, WEBP',
+      'steps[8].save must be a boolean'
+    ]);
+  });
+});
+
+describe('pipelineFromLegacyOptions', () => {
+  it('removes the background first, then upscales, saving both', () => {
+    expect(pipelineFromLegacyOptions({
+      removeBg: true,
+      upscale: true,
+      upscaleFactor: 4,
+      removeBgOptions: DEFAULT_REMOVE_BG_OPTIONS
+    })).toEqual([
+      { type: 'removeBg', save: true, options: DEFAULT_REMOVE_BG_OPTIONS },
+      { type: 'upscale', save: true, factor: 4 }
+    ]);
+  });
+
+  it('defaults the upscale factor to 2', () => {
+    expect(pipelineFromLegacyOptions({ upscale: true })).toEqual([{ type: 'upscale', save: true, factor: 2 }]);
+  });
+});
+
+describe('stepSuffix', () => {
+  it('names each step type', () => {
+    expect(stepSuffix({ type: 'removeBg', save: true, options: DEFAULT_REMOVE_BG_OPTIONS })).toBe('bg_removed');
+    expect(stepSuffix({ type: 'upscale', save: true, factor: 4 })).toBe('upscaled_4x');
+    expect(stepSuffix({ type: 'convert', save: true, format: 'WEBP', quality: 90 })).toBe('webp');
+    expect(stepSuffix({ type: 'resize', save: true, height: 600, fit: 'inside', withoutEnlargement: true })).toBe('resized_autox600');
+  });
+});
@@ -0,0 +1,169 @@
+// Ordered, user-defined processing pipelines and their validation
+
+import { RemoveBgOptions, validateRemoveBgOptions } from './removeBgOptions';
+
+export type PipelineStepType = 'removeBg' | 'upscale' | 'convert' | 'resize';
+export type ConvertFormat = 'PNG' | 'JPG' | 'WEBP';
+export type ResizeFit = 'inside' | 'cover' | 'contain' | 'fill';
+
+interface StepBase {
+  // Save this step's output to Dropbox. The last step is always saved.
+  save: boolean;
+}
+
+export type PipelineStep =
+  | (StepBase & { type: 'removeBg'; options: RemoveBgOptions })
+  | (StepBase & { type: 'upscale'; factor: number })
+  | (StepBase & { type: 'convert'; format: ConvertFormat; quality: number })
+  | (StepBase & { type: 'resize'; width?: number; height?: number; fit: ResizeFit; withoutEnlargement: boolean });
+
+export interface PipelineValidationResult {
+  steps: PipelineStep[];
+  errors: string[];
+}
+
+export const MAX_PIPELINE_STEPS = 10;
+export const MAX_RESIZE_DIMENSION = 16384;
+
+export const STEP_TYPES: PipelineStepType[] = ['removeBg', 'upscale', 'convert', 'resize'];
+const CONVERT_FORMATS: ConvertFormat[] = ['PNG', 'JPG', 'WEBP'];
+const RESIZE_FITS: ResizeFit[] = ['inside', 'cover', 'contain', 'fill'];
+export const UPSCALE_FACTORS = [2, 4, 6, 8];
+
+export function validatePipeline(input: unknown): PipelineValidationResult {
+  if (!Array.isArray(input)) {
+    return { steps: [], errors: ['pipeline must be an array of steps'] };
+  }
+  if (input.length === 0) {
+    return { steps: [], errors: ['pipeline must contain at least one step'] };
+  }
+  if (input.length > MAX_PIPELINE_STEPS) {
+    return { steps: [], errors: [`pipeline can have at most ${MAX_PIPELINE_STEPS} steps`] };
+  }
+
+  const errors: string[] = [];
+  const steps: PipelineStep[] = [];
+
+  input.forEach((rawStep, index) => {
+    const prefix = `steps[${index}]`;
+    if (!rawStep || typeof rawStep !== 'object' || Array.isArray(rawStep)) {
+      errors.push(`${prefix} must be an object`);
+      return;
+    }
+
+    const raw = rawStep as Record<string, unknown>;
+    const type = raw.type as PipelineStepType;
+    if (!STEP_TYPES.includes(type)) {
+      errors.push(`${prefix}.type must be one of: ${STEP_TYPES.join(', ')}`);
+      return;
+    }
+
+    if (raw.save !== undefined && typeof raw.save !== 'boolean') {
+      errors.push(`${prefix}.save must be a boolean`);
+    }
+    const save = raw.save === true;
+
+    switch (type) {
+      case 'removeBg': {
+        const { options, errors: optionErrors } = validateRemoveBgOptions(raw.options);
+        errors.push(...optionErrors.map(error => `${prefix}.options: ${error}`));
+        steps.push({ type, save, options });
+        break;
+      }
+
+      case 'upscale': {
+        const factor = raw.factor ?? 2;
+        if (typeof factor !== 'number' || !UPSCALE_FACTORS.includes(factor)) {
+          errors.push(`${prefix}.factor must be one of: ${UPSCALE_FACTORS.join(', ')}`);
+          return;
+        }
+        steps.push({ type, save, factor });
+        break;
+      }
+
+      case 'convert': {
+        const format = raw.format as ConvertFormat;
+        const quality = raw.quality ?? 90;
+        if (!CONVERT_FORMATS.includes(format)) {
+          errors.push(`${prefix}.format must be one of: ${CONVERT_FORMATS.join(', ')}`);
+          return;
+        }
+        if (typeof quality !== 'number' || !Number.isInteger(quality) || quality < 1 || quality > 100) {
+          errors.push(`${prefix}.quality must be an integer between 1 and 100`);
+          return;
+        }
+        steps.push({ type, save, format, quality });
+        break;
+      }
+
+      case 'resize': {
+        const checkDimension = (key: 'width' | 'height'): number | undefined => {
+          const value = raw[key];
+          if (value === undefined || value === null) return undefined;
+          if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > MAX_RESIZE_DIMENSION) {
+            errors.push(`${prefix}.${key} must be an integer between 1 and ${MAX_RESIZE_DIMENSION}`);
+            return undefined;
+          }
+          return value;
+        };
+
+        const width = checkDimension('width');
+        const height = checkDimension('height');
+        const fit = (raw.fit ?? 'inside') as ResizeFit;
+
+        if (width === undefined && height === undefined) {
+          errors.push(`${prefix} needs a width and/or height`);
+          return;
+        }
+        if (!RESIZE_FITS.includes(fit)) {
+          errors.push(`${prefix}.fit must be one of: ${RESIZE_FITS.join(', ')}`);
+          return;
+        }
+        if (raw.withoutEnlargement !== undefined && typeof raw.withoutEnlargement !== 'boolean') {
+          errors.push(`${prefix}.withoutEnlargement must be a boolean`);
+          return;
+        }
+        steps.push({ type, save, width, height, fit, withoutEnlargement: raw.withoutEnlargement !== false });
+        break;
+      }
+    }
+  });
+
+  // The final output is always saved
+  if (errors.length === 0) {
+    steps[steps.length - 1].save = true;
+  }
+
+  return { steps, errors };
+}
+
+// The original fixed chain: remove background, then upscale, each saved to Dropbox
+export function pipelineFromLegacyOptions(options: {
+  removeBg?: boolean;
+  upscale?: boolean;
+  upscaleFactor?: number;
+  removeBgOptions?: RemoveBgOptions;
+}): PipelineStep[] {
+  const steps: PipelineStep[] = [];
+  if (options.removeBg && options.removeBgOptions) {
+    steps.push({ type: 'removeBg', save: true, options: options.removeBgOptions });
+  }
+  if (options.upscale) {
+    steps.push({ type: 'upscale', save: true, factor: options.upscaleFactor || 2 });
+  }
+  return steps;
+}
+
+// Filename suffix for a step's saved output, e.g. "bg_removed" or "upscaled_4x"
+export function stepSuffix(step: PipelineStep): string {
+  switch (step.type) {
+    case 'removeBg':
+      return 'bg_removed';
+    case 'upscale':
+      return `upscaled_${step.factor}x`;
+    case 'convert':
+      return step.format.toLowerCase();
+    case 'resize':
+      return `resized_${step.width ?? 'auto'}x${step.height ?? 'auto'}`;
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { validatePresetOptions } from './presetOptions';
+
+describe('validatePresetOptions', () => {
+  it('keeps valid options and fills the removeBg options in full', () => {
+    const { options, errors } = validatePresetOptions({ upscale: true, upscaleFactor: 6, conflictPolicy: 'overwrite' });
+    expect(errors).toEqual([]);
+    expect(options).toMatchObject({ removeBg: false, upscale: true, upscaleFactor: 6, conflictPolicy: 'overwrite' });
+    expect(options.removeBgOptions?.format).toBe('PNG');
+  });
+
+  it('accepts a pipeline without the legacy flags', () => {
+    const { options, errors } = validatePresetOptions({ pipeline: [{ type: 'convert', format: 'JPG' }] });
+    expect(errors).toEqual([]);
+    expect(options.pipeline).toHaveLength(1);
+  });
+
+  it('collects every problem', () => {
+    expect(validatePresetOptions('fast').errors).toEqual(['options must be an object']);
+    expect(validatePresetOptions({ removeBg: 'yes', upscaleFactor: 5 }).errors).toEqual([
+      'removeBg must be a boolean',
+      'upscaleFactor must be one of: 2, 4, 6, 8',
+      'At least one processing option must be selected'
+    ]);
+    expect(validatePresetOptions({ pipeline: [{ type: 'upscale', factor: 5 }] }).errors).toEqual([
+      'pipeline: steps[0].factor must be one of: 2, 4, 6, 8'
+    ]);
+  });
+});
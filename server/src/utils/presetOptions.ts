@@ -0,0 +1,66 @@
+// Validation of the processing options stored in a preset
+
+import { IPresetOptions } from '../models/Preset';
+import { validateRemoveBgOptions } from './removeBgOptions';
+import { UPSCALE_FACTORS, validatePipeline } from './pipeline';
+import { validateOutputSettings } from './outputFormat';
+import { validateConflictPolicy } from './conflictPolicy';
+
+export interface PresetOptionsValidationResult {
+  options: IPresetOptions;
+  errors: string[];
+}
+
+export function validatePresetOptions(input: unknown): PresetOptionsValidationResult {
+  const options: IPresetOptions = { removeBg: false, upscale: false, upscaleFactor: 2 };
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { options, errors: ['options must be an object'] };
+  }
+
+  const errors: string[] = [];
+  const raw = input as Record<string, unknown>;
+
+  for (const key of ['removeBg', 'upscale'] as const) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'boolean') {
+      errors.push(`${key} must be a boolean`);
+    } else {
+      options[key] = raw[key] === true;
+    }
+  }
+
+  if (raw.upscaleFactor !== undefined) {
+    if (typeof raw.upscaleFactor !== 'number' || !UPSCALE_FACTORS.includes(raw.upscaleFactor)) {
+      errors.push(`upscaleFactor must be one of: ${UPSCALE_FACTORS.join(', ')}`);
+    } else {
+      options.upscaleFactor = raw.upscaleFactor;
+    }
+  }
+
+  // Always stored in full so the UI panel can be filled from the preset
+  const removeBgValidation = validateRemoveBgOptions(raw.removeBgOptions);
+  errors.push(...removeBgValidation.errors);
+  options.removeBgOptions = removeBgValidation.options;
+
+  if (raw.pipeline !== undefined && raw.pipeline !== null) {
+    const pipelineValidation = validatePipeline(raw.pipeline);
+    errors.push(...pipelineValidation.errors.map(error => `pipeline: ${error}`));
+    options.pipeline = pipelineValidation.steps;
+  } else if (!options.removeBg && !options.upscale) {
+    errors.push('At least one processing option must be selected');
+  }
+
+  const outputValidation = validateOutputSettings(raw.output);
+  errors.push(...outputValidation.errors);
+  if (outputValidation.settings) {
+    options.output = outputValidation.settings;
+  }
+
+  const conflictPolicyValidation = validateConflictPolicy(raw.conflictPolicy);
+  errors.push(...conflictPolicyValidation.errors);
+  if (conflictPolicyValidation.policy) {
+    options.conflictPolicy = conflictPolicyValidation.policy;
+  }
+
+  return { options, errors };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { parseProcessingOptions } from './processingOptions';
+import { UPSCALE_FACTORS } from './pipeline';
+
+const errorOf = (body: unknown) => {
+  const result = parseProcessingOptions(body);
+  return 'error' in result ? result.error : undefined;
+};
+
+describe('parseProcessingOptions', () => {
+  it('turns the legacy flags into a pipeline', () => {
+    const result = parseProcessingOptions({ removeBg: true, upscale: true, upscaleFactor: 4 });
+    expect('options' in result && result.options).toMatchObject({
+      removeBg: true,
+      upscale: true,
+      upscaleFactor: 4,
+      pipeline: [{ type: 'removeBg' }, { type: 'upscale', factor: 4 }]
+    });
+  });
+
+  it('describes an explicit pipeline with the legacy fields too', () => {
+    const result = parseProcessingOptions({ pipeline: [{ type: 'resize', width: 100 }, { type: 'upscale', factor: 8 }] });
+    expect('options' in result && result.options).toMatchObject({ removeBg: false, upscale: true, upscaleFactor: 8 });
+  });
+
+  it('needs at least one operation', () => {
+    expect(errorOf({})).toEqual({ error: 'At least one processing option must be selected' });
+  });
+
+  it.each([50, 3, '4', 'abc', null])('rejects a legacy upscaleFactor of %j', upscaleFactor => {
+    expect(errorOf({ upscale: true, upscaleFactor })).toEqual({
+      error: 'Invalid upscale factor',
+      details: [`upscaleFactor must be one of: ${UPSCALE_FACTORS.join(', ')}`]
+    });
+  });
+
+  it('ignores the upscale factor when not upscaling', () => {
+    expect(errorOf({ removeBg: true, upscaleFactor: 50 })).toBeUndefined();
+  });
+
+  it('reports invalid pipelines, removeBg options, output settings and conflict policies', () => {
+    expect(errorOf({ pipeline: [] })?.error).toBe('Invalid processing pipeline');
+    expect(errorOf({ removeBg: true, removeBgOptions: { outputType: 'x' } })?.error).toBe('Invalid background removal options');
+    expect(errorOf({ upscale: true, output: { format: 'BMP' } })?.error).toBe('Invalid output settings');
+    expect(errorOf({ upscale: true, conflictPolicy: 'replace' })?.error).toBe('Invalid conflict policy');
+  });
+});
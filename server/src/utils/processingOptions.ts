@@ -0,0 +1,69 @@
+// Processing options from a request body (or a stored preset): an explicit `pipeline`, or
+// the legacy removeBg/upscale flags. Shared by single-image, batch and automation requests.
+
+import { IJobOptions } from '../models/ProcessingJob';
+import { validateRemoveBgOptions } from './removeBgOptions';
+import { PipelineStep, UPSCALE_FACTORS, pipelineFromLegacyOptions, validatePipeline } from './pipeline';
+import { validateOutputSettings } from './outputFormat';
+import { validateConflictPolicy } from './conflictPolicy';
+
+export type ProcessingOptionsResult = { options: IJobOptions } | { error: { error: string; details?: string[] } };
+
+export function parseProcessingOptions(body: any): ProcessingOptionsResult {
+  const { pipeline, removeBg, upscale, upscaleFactor, removeBgOptions, output, conflictPolicy } = body;
+
+  let steps: PipelineStep[];
+  if (pipeline !== undefined) {
+    const pipelineValidation = validatePipeline(pipeline);
+    if (pipelineValidation.errors.length > 0) {
+      return { error: { error: 'Invalid processing pipeline', details: pipelineValidation.errors } };
+    }
+    steps = pipelineValidation.steps;
+  } else {
+    // Legacy request body: removeBg and upscale flags
+    if (!removeBg && !upscale) {
+      return { error: { error: 'At least one processing option must be selected' } };
+    }
+
+    const removeBgValidation = validateRemoveBgOptions(removeBgOptions);
+    if (removeBg && removeBgValidation.errors.length > 0) {
+      return { error: { error: 'Invalid background removal options', details: removeBgValidation.errors } };
+    }
+
+    // The factor ends up in the cache key and the output file name, so it gets the same check as a pipeline step
+    if (upscale && upscaleFactor !== undefined && (typeof upscaleFactor !== 'number' || !UPSCALE_FACTORS.includes(upscaleFactor))) {
+      return { error: { error: 'Invalid upscale factor', details: [`upscaleFactor must be one of: ${UPSCALE_FACTORS.join(', ')}`] } };
+    }
+
+    steps = pipelineFromLegacyOptions({
+      removeBg,
+      upscale,
+      upscaleFactor,
+      removeBgOptions: removeBgValidation.options
+    });
+  }
+
+  const outputValidation = validateOutputSettings(output);
+  if (outputValidation.errors.length > 0) {
+    return { error: { error: 'Invalid output settings', details: outputValidation.errors } };
+  }
+
+  const conflictPolicyValidation = validateConflictPolicy(conflictPolicy);
+  if (conflictPolicyValidation.errors.length > 0) {
+    return { error: { error: 'Invalid conflict policy', details: conflictPolicyValidation.errors } };
+  }
+
+  const firstRemoveBg = steps.find(step => step.type === 'removeBg');
+  const firstUpscale = steps.find(step => step.type === 'upscale');
+  return {
+    options: {
+      removeBg: !!firstRemoveBg,
+      upscale: !!firstUpscale,
+      upscaleFactor: firstUpscale?.type === 'upscale' ? firstUpscale.factor : 2,
+      removeBgOptions: firstRemoveBg?.type === 'removeBg' ? firstRemoveBg.options : undefined,
+      pipeline: steps,
+      ...(outputValidation.settings ? { output: outputValidation.settings } : {}),
+      ...(conflictPolicyValidation.policy ? { conflictPolicy: conflictPolicyValidation.policy } : {})
+    }
+  };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REMOVE_BG_OPTIONS, validateRemoveBgOptions } from './removeBgOptions';
+
+describe('validateRemoveBgOptions', () => {
+  it('uses the defaults when nothing is sent', () => {
+    expect(validateRemoveBgOptions(undefined)).toEqual({ options: DEFAULT_REMOVE_BG_OPTIONS, errors: [] });
+  });
+
+  it('normalizes colors', () => {
+    const { options, errors } = validateRemoveBgOptions({ strokeColor: '#ff00aa', backgroundColor: 'abc' });
+    expect(errors).toEqual([]);
+    expect(options.strokeColor).toBe('FF00AA');
+    expect(options.backgroundColor).toBe('#ABC');
+    expect(validateRemoveBgOptions({ backgroundColor: 'Teal' }).options.backgroundColor).toBe('teal');
+  });
+
+  it('rejects out-of-range and unknown values', () => {
+    expect(validateRemoveBgOptions({ format: 'GIF', strokeSize: 101, autoCenter: 'no' }).errors).toEqual([
+      'format must be one of: PNG, JPG, WEBP',
+      'strokeSize must be an integer between 0 and 100',
+      'autoCenter must be a boolean'
+    ]);
+    expect(validateRemoveBgOptions({ backgroundImageUrl: 'ftp://example.com/a.png' }).errors).toEqual([
+      'backgroundImageUrl must be an http(s) URL'
+    ]);
+  });
+
+  it('rejects background replacement that cannot apply', () => {
+    expect(validateRemoveBgOptions({ backgroundColor: 'red', backgroundImageUrl: 'https://example.com/a.png' }).errors)
+      .toContain('backgroundColor and backgroundImageUrl cannot be used together');
+    expect(validateRemoveBgOptions({ outputType: 'mask', backgroundColor: 'red' }).errors)
+      .toEqual(['Background color or image cannot be used with the mask output type']);
+  });
+});
@@ -0,0 +1,198 @@
+// Typed parameter set for the Picsart RemoveBG tool and its validation
+
+export type RemoveBgOutputType = 'cutout' | 'mask';
+export type RemoveBgScaleMode = 'fit' | 'fill';
+export type RemoveBgFormat = 'PNG' | 'JPG' | 'WEBP';
+export type RemoveBgShadowMode =
+  | 'disabled'
+  | 'custom'
+  | 'bottom-right'
+  | 'bottom'
+  | 'bottom-left'
+  | 'left'
+  | 'right'
+  | 'top-left'
+  | 'top'
+  | 'top-right';
+
+export interface RemoveBgOptions {
+  outputType: RemoveBgOutputType;
+  format: RemoveBgFormat;
+  backgroundBlur: number;
+  scaleMode: RemoveBgScaleMode;
+  autoCenter: boolean;
+  strokeSize: number;
+  strokeColor: string;
+  strokeOpacity: number;
+  shadowMode: RemoveBgShadowMode;
+  shadowOpacity: number;
+  shadowBlur: number;
+  backgroundColor?: string;
+  backgroundImageUrl?: string;
+}
+
+export interface RemoveBgValidationResult {
+  options: RemoveBgOptions;
+  errors: string[];
+}
+
+// Matches the values PicsartService used to hardcode
+export const DEFAULT_REMOVE_BG_OPTIONS: RemoveBgOptions = {
+  outputType: 'cutout',
+  format: 'PNG',
+  backgroundBlur: 0,
+  scaleMode: 'fit',
+  autoCenter: false,
+  strokeSize: 0,
+  strokeColor: 'FFFFFF',
+  strokeOpacity: 100,
+  shadowMode: 'disabled',
+  shadowOpacity: 20,
+  shadowBlur: 50
+};
+
+const OUTPUT_TYPES: RemoveBgOutputType[] = ['cutout', 'mask'];
+const SCALE_MODES: RemoveBgScaleMode[] = ['fit', 'fill'];
+const FORMATS: RemoveBgFormat[] = ['PNG', 'JPG', 'WEBP'];
+const SHADOW_MODES: RemoveBgShadowMode[] = [
+  'disabled', 'custom', 'bottom-right', 'bottom', 'bottom-left',
+  'left', 'right', 'top-left', 'top', 'top-right'
+];
+
+const HEX_COLOR = /^#?([0-9a-fA-F]{6}|[0-9a-fA-F]{3})$/;
+const COLOR_NAME = /^[a-zA-Z]{3,20}$/;
+
+// Validate user-supplied options, filling anything missing from the defaults
+export function validateRemoveBgOptions(input: unknown): RemoveBgValidationResult {
+  const errors: string[] = [];
+  const options: RemoveBgOptions = { ...DEFAULT_REMOVE_BG_OPTIONS };
+
+  if (input === undefined || input === null) {
+    return { options, errors };
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { options, errors: ['removeBgOptions must be an object'] };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  const checkEnum = <T extends string>(key: keyof RemoveBgOptions, allowed: T[]): T | undefined => {
+    const value = raw[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'string' || !allowed.includes(value as T)) {
+      errors.push(`${key} must be one of: ${allowed.join(', ')}`);
+      return undefined;
+    }
+    return value as T;
+  };
+
+  const checkPercent = (key: keyof RemoveBgOptions): number | undefined => {
+    const value = raw[key];
+    if (value === undefined) return undefined;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value > 100) {
+      errors.push(`${key} must be an integer between 0 and 100`);
+      return undefined;
+    }
+    return value;
+  };
+
+  const outputType = checkEnum('outputType', OUTPUT_TYPES);
+  if (outputType) options.outputType = outputType;
+
+  const format = checkEnum('format', FORMATS);
+  if (format) options.format = format;
+
+  const scaleMode = checkEnum('scaleMode', SCALE_MODES);
+  if (scaleMode) options.scaleMode = scaleMode;
+
+  const shadowMode = checkEnum('shadowMode', SHADOW_MODES);
+  if (shadowMode) options.shadowMode = shadowMode;
+
+  const percentKeys = ['backgroundBlur', 'strokeSize', 'strokeOpacity', 'shadowOpacity', 'shadowBlur'] as const;
+  for (const key of percentKeys) {
+    const value = checkPercent(key);
+    if (value !== undefined) options[key] = value;
+  }
+
+  if (raw.autoCenter !== undefined) {
+    if (typeof raw.autoCenter !== 'boolean') {
+      errors.push('autoCenter must be a boolean');
+    } else {
+      options.autoCenter = raw.autoCenter;
+    }
+  }
+
+  if (raw.strokeColor !== undefined) {
+    if (typeof raw.strokeColor !== 'string' || !HEX_COLOR.test(raw.strokeColor)) {
+      errors.push('strokeColor must be a hex color such as FFFFFF');
+    } else {
+      options.strokeColor = raw.strokeColor.replace('#', '').toUpperCase();
+    }
+  }
+
+  if (raw.backgroundColor !== undefined && raw.backgroundColor !== '') {
+    const color = raw.backgroundColor;
+    if (typeof color !== 'string' || !(HEX_COLOR.test(color) || COLOR_NAME.test(color))) {
+      errors.push('backgroundColor must be a hex color or a color name');
+    } else {
+      // Picsart takes bg_color as '#RRGGBB' or a CSS color name
+      options.backgroundColor = HEX_COLOR.test(color) ? `#${color.replace('#', '').toUpperCase()}` : color.toLowerCase();
+    }
+  }
+
+  if (raw.backgroundImageUrl !== undefined && raw.backgroundImageUrl !== '') {
+    const url = raw.backgroundImageUrl;
+    let valid = false;
+    if (typeof url === 'string') {
+      try {
+        const parsed = new URL(url);
+        valid = parsed.protocol === 'https:' || parsed.protocol === 'http:';
+      } catch {
+        valid = false;
+      }
+    }
+    if (!valid) {
+      errors.push('backgroundImageUrl must be an http(s) URL');
+    } else {
+      options.backgroundImageUrl = url as string;
+    }
+  }
+
+  if (options.backgroundColor && options.backgroundImageUrl) {
+    errors.push('backgroundColor and backgroundImageUrl cannot be used together');
+  }
+
+  // A mask is a black/white matte - background replacement does not apply to it
+  if (options.outputType === 'mask' && (options.backgroundColor || options.backgroundImageUrl)) {
+    errors.push('Background color or image cannot be used with the mask output type');
+  }
+
+  return { options, errors };
+}
+
+// Map options to the multipart form fields expected by the Picsart RemoveBG endpoint
+export function toRemoveBgFormFields(options: RemoveBgOptions): Record<string, string> {
+  const fields: Record<string, string> = {
+    output_type: options.outputType,
+    bg_blur: options.backgroundBlur.toString(),
+    scale: options.scaleMode,
+    auto_center: options.autoCenter ? 'true' : 'false',
+    stroke_size: options.strokeSize.toString(),
+    stroke_color: options.strokeColor,
+    stroke_opacity: options.strokeOpacity.toString(),
+    shadow: options.shadowMode,
+    shadow_opacity: options.shadowOpacity.toString(),
+    shadow_blur: options.shadowBlur.toString(),
+    format: options.format
+  };
+
+  if (options.backgroundColor) {
+    fields.bg_color = options.backgroundColor;
+  }
+  if (options.backgroundImageUrl) {
+    fields.bg_image_url = options.backgroundImageUrl;
+  }
+
+  return fields;
+}
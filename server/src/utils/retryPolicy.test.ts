@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_RETRY_POLICY,
+  RetryPolicy,
+  computeRetryDelay,
+  isNetworkError,
+  isRetryableStatus,
+  parseRetryAfter,
+  retryPolicyFromEnv
+} from './retryPolicy';
+
+const policy = (overrides: Partial<RetryPolicy> = {}): RetryPolicy => ({ ...DEFAULT_RETRY_POLICY, jitter: false, ...overrides });
+
+describe('computeRetryDelay', () => {
+  it('doubles the base delay per attempt with exponential backoff', () => {
+    expect([1, 2, 3, 4].map(attempt => computeRetryDelay(policy(), attempt))).toEqual([1000, 2000, 4000, 8000]);
+  });
+
+  it('grows linearly or stays fixed when configured', () => {
+    expect(computeRetryDelay(policy({ backoff: 'linear' }), 3)).toBe(3000);
+    expect(computeRetryDelay(policy({ backoff: 'fixed' }), 3)).toBe(1000);
+  });
+
+  it('never waits longer than maxDelayMs', () => {
+    expect(computeRetryDelay(policy(), 10)).toBe(15000);
+  });
+
+  it('uses Retry-After when allowed, capped at maxDelayMs', () => {
+    expect(computeRetryDelay(policy(), 1, 3000)).toBe(3000);
+    expect(computeRetryDelay(policy(), 1, 60000)).toBe(15000);
+    expect(computeRetryDelay(policy({ respectRetryAfter: false }), 1, 3000)).toBe(1000);
+  });
+
+  it('keeps jittered delays within 20% of the curve', () => {
+    for (let i = 0; i < 50; i++) {
+      const delay = computeRetryDelay(policy({ jitter: true }), 2);
+      expect(delay).toBeGreaterThanOrEqual(1600);
+      expect(delay).toBeLessThanOrEqual(2400);
+    }
+  });
+});
+
+describe('parseRetryAfter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads delta seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000);
+    expect(parseRetryAfter('0')).toBe(0);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:10 GMT')).toBe(10000);
+    expect(parseRetryAfter('Tue, 31 Dec 2024 23:59:00 GMT')).toBe(0);
+  });
+
+  it('ignores missing or unreadable headers', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('retryPolicyFromEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('overrides the defaults from prefixed variables', () => {
+    vi.stubEnv('TEST_RETRY_MAX_ATTEMPTS', '2');
+    vi.stubEnv('TEST_RETRY_BASE_DELAY_MS', '250');
+    vi.stubEnv('TEST_RETRY_BACKOFF', 'linear');
+    expect(retryPolicyFromEnv('TEST_RETRY')).toMatchObject({ maxAttempts: 2, baseDelayMs: 250, backoff: 'linear' });
+  });
+
+  it('falls back to the defaults for invalid values and always allows one attempt', () => {
+    vi.stubEnv('TEST_RETRY_MAX_ATTEMPTS', '0');
+    vi.stubEnv('TEST_RETRY_BASE_DELAY_MS', '-5');
+    vi.stubEnv('TEST_RETRY_BACKOFF', 'random');
+    expect(retryPolicyFromEnv('TEST_RETRY')).toMatchObject({
+      maxAttempts: 1,
+      baseDelayMs: DEFAULT_RETRY_POLICY.baseDelayMs,
+      backoff: DEFAULT_RETRY_POLICY.backoff
+    });
+  });
+});
+
+describe('isRetryableStatus / isNetworkError', () => {
+  it('retries rate limits and server errors only', () => {
+    expect(isRetryableStatus(DEFAULT_RETRY_POLICY, 429)).toBe(true);
+    expect(isRetryableStatus(DEFAULT_RETRY_POLICY, 503)).toBe(true);
+    expect(isRetryableStatus(DEFAULT_RETRY_POLICY, 400)).toBe(false);
+    expect(isRetryableStatus(DEFAULT_RETRY_POLICY, 402)).toBe(false);
+  });
+
+  it('recognizes dropped connections and timeouts', () => {
+    expect(isNetworkError(Object.assign(new Error('read failed'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(isNetworkError(new Error('socket hang up'))).toBe(true);
+    expect(isNetworkError(new Error('network timeout at: https://example.com'))).toBe(true);
+    expect(isNetworkError(new Error('Bad request'))).toBe(false);
+    expect(isNetworkError('ECONNRESET')).toBe(false);
+  });
+});
@@ -0,0 +1,107 @@
+// Retry policy shared by outbound HTTP calls (Picsart API and CDN downloads)
+
+export type BackoffCurve = 'fixed' | 'linear' | 'exponential';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  backoff: BackoffCurve;
+  // Randomize delays by ±20% so parallel jobs do not retry in lockstep
+  jitter: boolean;
+  // Use the server's Retry-After header (capped at maxDelayMs) when present
+  respectRetryAfter: boolean;
+  retryOnStatuses: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  backoff: 'exponential',
+  jitter: true,
+  respectRetryAfter: true,
+  retryOnStatuses: [429, 500, 502, 503, 504]
+};
+
+// Build a policy from environment variables such as PICSART_RETRY_MAX_ATTEMPTS
+export function retryPolicyFromEnv(prefix: string, defaults: RetryPolicy = DEFAULT_RETRY_POLICY): RetryPolicy {
+  const readInt = (name: string, fallback: number) => {
+    const value = parseInt(process.env[`${prefix}_${name}`] || '', 10);
+    return Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+
+  const backoff = process.env[`${prefix}_BACKOFF`] as BackoffCurve | undefined;
+
+  return {
+    ...defaults,
+    maxAttempts: Math.max(1, readInt('MAX_ATTEMPTS', defaults.maxAttempts)),
+    baseDelayMs: readInt('BASE_DELAY_MS', defaults.baseDelayMs),
+    maxDelayMs: readInt('MAX_DELAY_MS', defaults.maxDelayMs),
+    backoff: backoff && ['fixed', 'linear', 'exponential'].includes(backoff) ? backoff : defaults.backoff
+  };
+}
+
+// Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+export function parseRetryAfter(header: string | null | undefined): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+// Delay before the retry that follows `attempt` (1-based)
+export function computeRetryDelay(policy: RetryPolicy, attempt: number, retryAfterMs?: number): number {
+  if (policy.respectRetryAfter && retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+
+  let delay: number;
+  switch (policy.backoff) {
+    case 'fixed':
+      delay = policy.baseDelayMs;
+      break;
+    case 'linear':
+      delay = policy.baseDelayMs * attempt;
+      break;
+    case 'exponential':
+    default:
+      delay = policy.baseDelayMs * Math.pow(2, attempt - 1);
+      break;
+  }
+
+  if (policy.jitter) {
+    delay = delay * (0.8 + Math.random() * 0.4);
+  }
+
+  return Math.round(Math.min(delay, policy.maxDelayMs));
+}
+
+export function isRetryableStatus(policy: RetryPolicy, status: number): boolean {
+  return policy.retryOnStatuses.includes(status);
+}
+
+// Errors where a fresh connection is likely to succeed
+export function isNetworkError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const code = (error as NodeJS.ErrnoException).code;
+  return error.message.includes('socket hang up') ||
+         error.message.includes('timeout') ||
+         error.message.includes('ECONNRESET') ||
+         code === 'ECONNRESET' ||
+         code === 'ECONNREFUSED' ||
+         code === 'ETIMEDOUT' ||
+         code === 'EPIPE' ||
+         error.name === 'FetchError';
+}
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
@@ -0,0 +1,19 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Who a piece of processing work is for. Picsart calls happen deep inside the image
+// processor chain, which knows nothing about users, so the job runner sets this and the
+// usage accounting reads it back.
+export interface UsageContext {
+  userId: string;
+  jobId?: string;
+}
+
+const storage = new AsyncLocalStorage<UsageContext>();
+
+export function runWithUsageContext<T>(context: UsageContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export function currentUsageContext(): UsageContext | undefined {
+  return storage.getStore();
+}